@@ -1,5 +1,5 @@
-import { serial, text, pgTable, timestamp, boolean, integer, numeric, pgEnum } from 'drizzle-orm/pg-core';
-import { relations } from 'drizzle-orm';
+import { serial, text, pgTable, timestamp, boolean, integer, numeric, pgEnum, unique, uniqueIndex, index, jsonb, type AnyPgColumn } from 'drizzle-orm/pg-core';
+import { relations, sql } from 'drizzle-orm';
 
 // Define enums
 export const fileTypeEnum = pgEnum('file_type', ['image', 'video']);
@@ -7,34 +7,271 @@ export const uploadStatusEnum = pgEnum('upload_status', ['uploading', 'uploaded'
 export const questionTypeEnum = pgEnum('question_type', ['multiple_choice', 'video_task', 'true_false']);
 export const employmentTypeEnum = pgEnum('employment_type', ['full_time', 'part_time', 'contract', 'freelance']);
 export const applicationStatusEnum = pgEnum('application_status', ['pending', 'viewed', 'contacted', 'hired', 'rejected']);
+export const roleEnum = pgEnum('role', ['worker', 'employer', 'assessor', 'admin']);
+export const apiKeyScopeEnum = pgEnum('api_key_scope', ['marketplace:read', 'jobs:write', 'certificates:verify']);
+export const phoneCodePurposeEnum = pgEnum('phone_code_purpose', ['verify_phone', 'login']);
+export const dataExportStatusEnum = pgEnum('data_export_status', ['pending', 'ready', 'failed']);
+// Declaration order is the ranking, so levels compare with < and > in SQL
+export const proficiencyLevelEnum = pgEnum('proficiency_level', ['beginner', 'intermediate', 'advanced', 'expert']);
+export const endorsementRelationshipEnum = pgEnum('endorsement_relationship', ['employer', 'co_worker', 'trainer']);
+export const localeEnum = pgEnum('locale', ['en', 'fr', 'sw']);
 
 // Users table
 export const usersTable = pgTable('users', {
   id: serial('id').primaryKey(),
   full_name: text('full_name').notNull(),
   email: text('email').notNull().unique(),
-  phone: text('phone'),
+  phone: text('phone'), // E.164
+  phone_verified_at: timestamp('phone_verified_at'),
   password_hash: text('password_hash').notNull(),
   profile_photo: text('profile_photo'),
   location: text('location'),
   bio: text('bio'),
   rating: numeric('rating', { precision: 3, scale: 2 }), // 0.00 to 5.00
   is_verified: boolean('is_verified').default(false).notNull(),
+  email_verification_sent_at: timestamp('email_verification_sent_at'),
+  deletion_scheduled_for: timestamp('deletion_scheduled_for'), // set while a deletion request is in its grace period
+  deleted_at: timestamp('deleted_at'), // the row stays as an anonymized tombstone so certificates remain verifiable
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull()
+}, (table) => [
+  // A verified phone number signs in exactly one account
+  uniqueIndex('users_verified_phone_unique').on(table.phone).where(sql`${table.phone_verified_at} is not null`)
+]);
+
+// Roles granted to users; admin implies every other role
+export const userRolesTable = pgTable('user_roles', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').references(() => usersTable.id).notNull(),
+  role: roleEnum('role').notNull(),
+  granted_by: integer('granted_by').references(() => usersTable.id),
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => [
+  unique('user_roles_user_id_role_unique').on(table.user_id, table.role)
+]);
+
+// Login sessions, one per signed-in device
+export const sessionsTable = pgTable('sessions', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').references(() => usersTable.id).notNull(),
+  device_label: text('device_label'),
+  ip_address: text('ip_address'),
+  user_agent: text('user_agent'),
+  impersonator_id: integer('impersonator_id').references(() => usersTable.id), // admin acting as the user
+  last_seen_at: timestamp('last_seen_at').defaultNow().notNull(),
+  revoked_at: timestamp('revoked_at'),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Rotating refresh tokens; a used token presented again revokes its session
+export const refreshTokensTable = pgTable('refresh_tokens', {
+  id: serial('id').primaryKey(),
+  session_id: integer('session_id').references(() => sessionsTable.id).notNull(),
+  token_hash: text('token_hash').notNull().unique(),
+  expires_at: timestamp('expires_at').notNull(),
+  used_at: timestamp('used_at'),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Single-use password reset tokens, stored hashed
+export const passwordResetTokensTable = pgTable('password_reset_tokens', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').references(() => usersTable.id).notNull(),
+  token_hash: text('token_hash').notNull().unique(),
+  expires_at: timestamp('expires_at').notNull(),
+  used_at: timestamp('used_at'),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Failed login counters keyed by account or IP, shared by every server process
+export const loginAttemptsTable = pgTable('login_attempts', {
+  key: text('key').primaryKey(),
+  failures: integer('failures').notNull(),
+  last_failure_at: timestamp('last_failure_at').notNull(),
+  blocked_until: timestamp('blocked_until')
+});
+
+// TOTP second factor; enabled once confirmed_at is set
+export const totpCredentialsTable = pgTable('totp_credentials', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').references(() => usersTable.id).notNull().unique(),
+  secret: text('secret').notNull(),
+  confirmed_at: timestamp('confirmed_at'),
+  last_used_step: integer('last_used_step'), // rejects replay of an already accepted code
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Single-use recovery codes for when the authenticator is lost, stored hashed
+export const recoveryCodesTable = pgTable('recovery_codes', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').references(() => usersTable.id).notNull(),
+  code_hash: text('code_hash').notNull(),
+  used_at: timestamp('used_at'),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Short numeric codes sent by SMS, stored hashed; a new code replaces any unused one
+export const phoneCodesTable = pgTable('phone_codes', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').references(() => usersTable.id).notNull(),
+  phone: text('phone').notNull(),
+  purpose: phoneCodePurposeEnum('purpose').notNull(),
+  code_hash: text('code_hash').notNull(),
+  expires_at: timestamp('expires_at').notNull(),
+  used_at: timestamp('used_at'),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// External identities (OpenID Connect subjects) linked to local accounts
+export const userIdentitiesTable = pgTable('user_identities', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').references(() => usersTable.id).notNull(),
+  provider: text('provider').notNull(),
+  subject: text('subject').notNull(),
+  email: text('email'),
+  last_login_at: timestamp('last_login_at'),
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => [
+  unique('user_identities_provider_subject_unique').on(table.provider, table.subject)
+]);
+
+// Pending OIDC authorization requests, consumed by the callback
+export const oidcLoginStatesTable = pgTable('oidc_login_states', {
+  state: text('state').primaryKey(),
+  provider: text('provider').notNull(),
+  nonce: text('nonce').notNull(),
+  code_verifier: text('code_verifier').notNull(),
+  link_user_id: integer('link_user_id').references(() => usersTable.id), // set when linking from a signed-in account
+  expires_at: timestamp('expires_at').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// API keys for employer integrations; only the prefix is stored in the clear
+export const apiKeysTable = pgTable('api_keys', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').references(() => usersTable.id).notNull(),
+  name: text('name').notNull(),
+  prefix: text('prefix').notNull().unique(),
+  secret_hash: text('secret_hash').notNull(),
+  scopes: apiKeyScopeEnum('scopes').array().notNull(),
+  last_used_at: timestamp('last_used_at'),
+  expires_at: timestamp('expires_at'),
+  revoked_at: timestamp('revoked_at'),
+  created_at: timestamp('created_at').defaultNow().notNull()
 });
 
+// Append-only record of security-sensitive actions. Actor and target ids are plain integers
+// rather than foreign keys so events outlive the rows they describe.
+export const auditEventsTable = pgTable('audit_events', {
+  id: serial('id').primaryKey(),
+  actor_user_id: integer('actor_user_id'), // null for system actions and anonymous callers
+  actor_api_key_id: integer('actor_api_key_id'),
+  actor_impersonator_id: integer('actor_impersonator_id'), // admin behind an impersonation session
+  action: text('action').notNull(), // e.g. "profile.updated"
+  target_type: text('target_type').notNull(),
+  target_id: integer('target_id'),
+  before: jsonb('before'),
+  after: jsonb('after'),
+  ip_address: text('ip_address'),
+  user_agent: text('user_agent'),
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => [
+  index('audit_events_actor_idx').on(table.actor_user_id),
+  index('audit_events_target_idx').on(table.target_type, table.target_id)
+]);
+
+// Personal data exports; the archive is built in the background and fetched through a
+// time-limited download link whose token is stored hashed
+export const dataExportsTable = pgTable('data_exports', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').references(() => usersTable.id).notNull(),
+  status: dataExportStatusEnum('status').default('pending').notNull(),
+  archive: jsonb('archive'),
+  error: text('error'),
+  download_token_hash: text('download_token_hash').unique(),
+  download_expires_at: timestamp('download_expires_at'),
+  completed_at: timestamp('completed_at'),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Skill category taxonomy; top-level categories have no parent
+export const skillCategoriesTable = pgTable('skill_categories', {
+  id: serial('id').primaryKey(),
+  parent_id: integer('parent_id').references((): AnyPgColumn => skillCategoriesTable.id),
+  name: text('name').notNull(),
+  slug: text('slug').notNull().unique(),
+  sort_order: integer('sort_order').default(0).notNull(),
+  icon: text('icon'),
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => [
+  index('skill_categories_parent_idx').on(table.parent_id)
+]);
+
 // Skills table
 export const skillsTable = pgTable('skills', {
   id: serial('id').primaryKey(),
   name: text('name').notNull(),
-  category: text('category').notNull(),
+  category: text('category').notNull(), // name of the linked category, kept for display
+  category_id: integer('category_id').references(() => skillCategoriesTable.id),
   description: text('description'),
   icon: text('icon'),
   is_active: boolean('is_active').default(true).notNull(),
+  enforce_prerequisites: boolean('enforce_prerequisites').default(false).notNull(),
+  validity_days: integer('validity_days'), // how long a verification lasts; null means it never expires
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => [
+  // Trigram indexes serve the fuzzy and substring matching of skill search (needs pg_trgm)
+  index('skills_name_trgm_idx').using('gin', table.name.op('gin_trgm_ops')),
+  index('skills_category_trgm_idx').using('gin', table.category.op('gin_trgm_ops')),
+  index('skills_description_trgm_idx').using('gin', table.description.op('gin_trgm_ops'))
+]);
+
+// Skills that have to be verified before another; together they form a directed acyclic graph
+export const skillPrerequisitesTable = pgTable('skill_prerequisites', {
+  id: serial('id').primaryKey(),
+  skill_id: integer('skill_id').references(() => skillsTable.id).notNull(),
+  prerequisite_skill_id: integer('prerequisite_skill_id').references(() => skillsTable.id).notNull(),
   created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => [
+  unique('skill_prerequisites_skill_prerequisite_unique').on(table.skill_id, table.prerequisite_skill_id)
+]);
+
+// A merged skill's id keeps resolving to the skill it was merged into
+export const skillMergesTable = pgTable('skill_merges', {
+  id: serial('id').primaryKey(),
+  source_skill_id: integer('source_skill_id').references(() => skillsTable.id).notNull().unique(),
+  target_skill_id: integer('target_skill_id').references(() => skillsTable.id).notNull(),
+  merged_by: integer('merged_by').references(() => usersTable.id),
+  merged_at: timestamp('merged_at').defaultNow().notNull()
 });
 
+// Synonyms and local-language names a skill can be found by, e.g. "fundi bomba" for Plumbing
+export const skillAliasesTable = pgTable('skill_aliases', {
+  id: serial('id').primaryKey(),
+  skill_id: integer('skill_id').references(() => skillsTable.id).notNull(),
+  alias: text('alias').notNull(),
+  locale: text('locale'),
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => [
+  uniqueIndex('skill_aliases_skill_alias_unique').on(table.skill_id, sql`lower(${table.alias})`),
+  index('skill_aliases_alias_trgm_idx').using('gin', table.alias.op('gin_trgm_ops'))
+]);
+
+// A skill's name and description in another language; the skill row holds the default language
+export const skillTranslationsTable = pgTable('skill_translations', {
+  id: serial('id').primaryKey(),
+  skill_id: integer('skill_id').references(() => skillsTable.id).notNull(),
+  locale: localeEnum('locale').notNull(),
+  name: text('name').notNull(),
+  description: text('description'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+}, (table) => [
+  unique('skill_translations_skill_locale_unique').on(table.skill_id, table.locale),
+  index('skill_translations_name_trgm_idx').using('gin', table.name.op('gin_trgm_ops')),
+  index('skill_translations_description_trgm_idx').using('gin', table.description.op('gin_trgm_ops'))
+]);
+
 // User skills junction table
 export const userSkillsTable = pgTable('user_skills', {
   id: serial('id').primaryKey(),
@@ -42,8 +279,44 @@ export const userSkillsTable = pgTable('user_skills', {
   skill_id: integer('skill_id').references(() => skillsTable.id).notNull(),
   is_verified: boolean('is_verified').default(false).notNull(),
   verification_date: timestamp('verification_date'),
+  claimed_level: proficiencyLevelEnum('claimed_level').default('beginner').notNull(),
+  verified_level: proficiencyLevelEnum('verified_level'), // highest tier whose tests and proofs are complete; cleared on expiry
+  expires_at: timestamp('expires_at'), // verification_date plus the skill's validity; kept after it lapses
+  expiry_reminder_sent_at: timestamp('expiry_reminder_sent_at'),
+  // Set when the user removes the skill; the row stays with its proofs, attempts and
+  // certificates as history, and the skill can be added again as a new row
+  archived_at: timestamp('archived_at'),
   created_at: timestamp('created_at').defaultNow().notNull()
-});
+}, (table) => [
+  index('user_skills_expires_at_idx').on(table.expires_at),
+  // One active row per skill; archived rows are history and may repeat
+  uniqueIndex('user_skills_active_user_skill_unique').on(table.user_id, table.skill_id).where(sql`${table.archived_at} is null`)
+]);
+
+// Verified proofs a user skill needs before its tests at a level count
+export const skillLevelRequirementsTable = pgTable('skill_level_requirements', {
+  id: serial('id').primaryKey(),
+  skill_id: integer('skill_id').references(() => skillsTable.id).notNull(),
+  level: proficiencyLevelEnum('level').notNull(),
+  required_proofs: integer('required_proofs').default(0).notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+}, (table) => [
+  unique('skill_level_requirements_skill_level_unique').on(table.skill_id, table.level)
+]);
+
+// Someone who worked with the user vouching for one of their skills, at most once per skill
+export const endorsementsTable = pgTable('endorsements', {
+  id: serial('id').primaryKey(),
+  user_skill_id: integer('user_skill_id').references(() => userSkillsTable.id).notNull(),
+  endorser_id: integer('endorser_id').references(() => usersTable.id).notNull(),
+  relationship: endorsementRelationshipEnum('relationship').notNull(),
+  statement: text('statement').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => [
+  unique('endorsements_user_skill_endorser_unique').on(table.user_skill_id, table.endorser_id),
+  index('endorsements_endorser_created_at_idx').on(table.endorser_id, table.created_at)
+]);
 
 // Skill proofs table
 export const skillProofsTable = pgTable('skill_proofs', {
@@ -65,12 +338,26 @@ export const miniTestsTable = pgTable('mini_tests', {
   skill_id: integer('skill_id').references(() => skillsTable.id).notNull(),
   title: text('title').notNull(),
   description: text('description'),
+  level: proficiencyLevelEnum('level').default('beginner').notNull(),
   time_limit: integer('time_limit'), // in minutes
   passing_score: integer('passing_score').notNull(),
   is_active: boolean('is_active').default(true).notNull(),
   created_at: timestamp('created_at').defaultNow().notNull()
 });
 
+// A mini test's title and description in another language
+export const miniTestTranslationsTable = pgTable('mini_test_translations', {
+  id: serial('id').primaryKey(),
+  test_id: integer('test_id').references(() => miniTestsTable.id).notNull(),
+  locale: localeEnum('locale').notNull(),
+  title: text('title').notNull(),
+  description: text('description'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+}, (table) => [
+  unique('mini_test_translations_test_locale_unique').on(table.test_id, table.locale)
+]);
+
 // Test questions table
 export const testQuestionsTable = pgTable('test_questions', {
   id: serial('id').primaryKey(),
@@ -135,17 +422,164 @@ export const jobApplicationsTable = pgTable('job_applications', {
 
 // Define relations
 export const usersRelations = relations(usersTable, ({ many }) => ({
+  roles: many(userRolesTable),
+  sessions: many(sessionsTable),
+  passwordResetTokens: many(passwordResetTokensTable),
+  recoveryCodes: many(recoveryCodesTable),
+  identities: many(userIdentitiesTable),
+  apiKeys: many(apiKeysTable),
+  dataExports: many(dataExportsTable),
   userSkills: many(userSkillsTable),
+  endorsementsGiven: many(endorsementsTable),
   jobListings: many(jobListingsTable),
   jobApplications: many(jobApplicationsTable)
 }));
 
-export const skillsRelations = relations(skillsTable, ({ many }) => ({
+export const userRolesRelations = relations(userRolesTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [userRolesTable.user_id],
+    references: [usersTable.id]
+  })
+}));
+
+export const sessionsRelations = relations(sessionsTable, ({ one, many }) => ({
+  user: one(usersTable, {
+    fields: [sessionsTable.user_id],
+    references: [usersTable.id]
+  }),
+  refreshTokens: many(refreshTokensTable)
+}));
+
+export const refreshTokensRelations = relations(refreshTokensTable, ({ one }) => ({
+  session: one(sessionsTable, {
+    fields: [refreshTokensTable.session_id],
+    references: [sessionsTable.id]
+  })
+}));
+
+export const passwordResetTokensRelations = relations(passwordResetTokensTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [passwordResetTokensTable.user_id],
+    references: [usersTable.id]
+  })
+}));
+
+export const totpCredentialsRelations = relations(totpCredentialsTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [totpCredentialsTable.user_id],
+    references: [usersTable.id]
+  })
+}));
+
+export const recoveryCodesRelations = relations(recoveryCodesTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [recoveryCodesTable.user_id],
+    references: [usersTable.id]
+  })
+}));
+
+export const phoneCodesRelations = relations(phoneCodesTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [phoneCodesTable.user_id],
+    references: [usersTable.id]
+  })
+}));
+
+export const userIdentitiesRelations = relations(userIdentitiesTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [userIdentitiesTable.user_id],
+    references: [usersTable.id]
+  })
+}));
+
+export const apiKeysRelations = relations(apiKeysTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [apiKeysTable.user_id],
+    references: [usersTable.id]
+  })
+}));
+
+export const dataExportsRelations = relations(dataExportsTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [dataExportsTable.user_id],
+    references: [usersTable.id]
+  })
+}));
+
+export const skillCategoriesRelations = relations(skillCategoriesTable, ({ one, many }) => ({
+  parent: one(skillCategoriesTable, {
+    fields: [skillCategoriesTable.parent_id],
+    references: [skillCategoriesTable.id],
+    relationName: 'categoryParent'
+  }),
+  children: many(skillCategoriesTable, { relationName: 'categoryParent' }),
+  skills: many(skillsTable)
+}));
+
+export const skillsRelations = relations(skillsTable, ({ one, many }) => ({
+  category: one(skillCategoriesTable, {
+    fields: [skillsTable.category_id],
+    references: [skillCategoriesTable.id]
+  }),
+  levelRequirements: many(skillLevelRequirementsTable),
+  aliases: many(skillAliasesTable),
+  translations: many(skillTranslationsTable),
   userSkills: many(userSkillsTable),
   miniTests: many(miniTestsTable),
   jobListings: many(jobListingsTable)
 }));
 
+export const skillPrerequisitesRelations = relations(skillPrerequisitesTable, ({ one }) => ({
+  skill: one(skillsTable, {
+    fields: [skillPrerequisitesTable.skill_id],
+    references: [skillsTable.id],
+    relationName: 'prerequisiteOf'
+  }),
+  prerequisite: one(skillsTable, {
+    fields: [skillPrerequisitesTable.prerequisite_skill_id],
+    references: [skillsTable.id],
+    relationName: 'prerequisite'
+  })
+}));
+
+export const skillMergesRelations = relations(skillMergesTable, ({ one }) => ({
+  source: one(skillsTable, {
+    fields: [skillMergesTable.source_skill_id],
+    references: [skillsTable.id],
+    relationName: 'mergeSource'
+  }),
+  target: one(skillsTable, {
+    fields: [skillMergesTable.target_skill_id],
+    references: [skillsTable.id],
+    relationName: 'mergeTarget'
+  }),
+  mergedBy: one(usersTable, {
+    fields: [skillMergesTable.merged_by],
+    references: [usersTable.id]
+  })
+}));
+
+export const skillAliasesRelations = relations(skillAliasesTable, ({ one }) => ({
+  skill: one(skillsTable, {
+    fields: [skillAliasesTable.skill_id],
+    references: [skillsTable.id]
+  })
+}));
+
+export const skillTranslationsRelations = relations(skillTranslationsTable, ({ one }) => ({
+  skill: one(skillsTable, {
+    fields: [skillTranslationsTable.skill_id],
+    references: [skillsTable.id]
+  })
+}));
+
+export const skillLevelRequirementsRelations = relations(skillLevelRequirementsTable, ({ one }) => ({
+  skill: one(skillsTable, {
+    fields: [skillLevelRequirementsTable.skill_id],
+    references: [skillsTable.id]
+  })
+}));
+
 export const userSkillsRelations = relations(userSkillsTable, ({ one, many }) => ({
   user: one(usersTable, {
     fields: [userSkillsTable.user_id],
@@ -157,7 +591,19 @@ export const userSkillsRelations = relations(userSkillsTable, ({ one, many }) =>
   }),
   skillProofs: many(skillProofsTable),
   testAttempts: many(testAttemptsTable),
-  certificates: many(certificatesTable)
+  certificates: many(certificatesTable),
+  endorsements: many(endorsementsTable)
+}));
+
+export const endorsementsRelations = relations(endorsementsTable, ({ one }) => ({
+  userSkill: one(userSkillsTable, {
+    fields: [endorsementsTable.user_skill_id],
+    references: [userSkillsTable.id]
+  }),
+  endorser: one(usersTable, {
+    fields: [endorsementsTable.endorser_id],
+    references: [usersTable.id]
+  })
 }));
 
 export const skillProofsRelations = relations(skillProofsTable, ({ one }) => ({
@@ -172,10 +618,18 @@ export const miniTestsRelations = relations(miniTestsTable, ({ one, many }) => (
     fields: [miniTestsTable.skill_id],
     references: [skillsTable.id]
   }),
+  translations: many(miniTestTranslationsTable),
   questions: many(testQuestionsTable),
   attempts: many(testAttemptsTable)
 }));
 
+export const miniTestTranslationsRelations = relations(miniTestTranslationsTable, ({ one }) => ({
+  test: one(miniTestsTable, {
+    fields: [miniTestTranslationsTable.test_id],
+    references: [miniTestsTable.id]
+  })
+}));
+
 export const testQuestionsRelations = relations(testQuestionsTable, ({ one }) => ({
   test: one(miniTestsTable, {
     fields: [testQuestionsTable.test_id],
@@ -227,10 +681,31 @@ export const jobApplicationsRelations = relations(jobApplicationsTable, ({ one }
 // Export all tables for proper query building
 export const tables = {
   users: usersTable,
+  userRoles: userRolesTable,
+  sessions: sessionsTable,
+  refreshTokens: refreshTokensTable,
+  passwordResetTokens: passwordResetTokensTable,
+  loginAttempts: loginAttemptsTable,
+  totpCredentials: totpCredentialsTable,
+  recoveryCodes: recoveryCodesTable,
+  phoneCodes: phoneCodesTable,
+  userIdentities: userIdentitiesTable,
+  oidcLoginStates: oidcLoginStatesTable,
+  apiKeys: apiKeysTable,
+  auditEvents: auditEventsTable,
+  dataExports: dataExportsTable,
+  skillCategories: skillCategoriesTable,
   skills: skillsTable,
+  skillAliases: skillAliasesTable,
+  skillTranslations: skillTranslationsTable,
+  skillMerges: skillMergesTable,
+  skillPrerequisites: skillPrerequisitesTable,
   userSkills: userSkillsTable,
+  skillLevelRequirements: skillLevelRequirementsTable,
+  endorsements: endorsementsTable,
   skillProofs: skillProofsTable,
   miniTests: miniTestsTable,
+  miniTestTranslations: miniTestTranslationsTable,
   testQuestions: testQuestionsTable,
   testAttempts: testAttemptsTable,
   certificates: certificatesTable,
@@ -241,14 +716,56 @@ export const tables = {
 // TypeScript types for the table schemas
 export type User = typeof usersTable.$inferSelect;
 export type NewUser = typeof usersTable.$inferInsert;
+export type UserRole = typeof userRolesTable.$inferSelect;
+export type NewUserRole = typeof userRolesTable.$inferInsert;
+export type Session = typeof sessionsTable.$inferSelect;
+export type NewSession = typeof sessionsTable.$inferInsert;
+export type RefreshToken = typeof refreshTokensTable.$inferSelect;
+export type NewRefreshToken = typeof refreshTokensTable.$inferInsert;
+export type PasswordResetToken = typeof passwordResetTokensTable.$inferSelect;
+export type NewPasswordResetToken = typeof passwordResetTokensTable.$inferInsert;
+export type LoginAttempt = typeof loginAttemptsTable.$inferSelect;
+export type NewLoginAttempt = typeof loginAttemptsTable.$inferInsert;
+export type TotpCredential = typeof totpCredentialsTable.$inferSelect;
+export type NewTotpCredential = typeof totpCredentialsTable.$inferInsert;
+export type RecoveryCode = typeof recoveryCodesTable.$inferSelect;
+export type NewRecoveryCode = typeof recoveryCodesTable.$inferInsert;
+export type PhoneCode = typeof phoneCodesTable.$inferSelect;
+export type NewPhoneCode = typeof phoneCodesTable.$inferInsert;
+export type UserIdentity = typeof userIdentitiesTable.$inferSelect;
+export type NewUserIdentity = typeof userIdentitiesTable.$inferInsert;
+export type OidcLoginState = typeof oidcLoginStatesTable.$inferSelect;
+export type NewOidcLoginState = typeof oidcLoginStatesTable.$inferInsert;
+export type ApiKey = typeof apiKeysTable.$inferSelect;
+export type NewApiKey = typeof apiKeysTable.$inferInsert;
+export type AuditEvent = typeof auditEventsTable.$inferSelect;
+export type NewAuditEvent = typeof auditEventsTable.$inferInsert;
+export type DataExport = typeof dataExportsTable.$inferSelect;
+export type NewDataExport = typeof dataExportsTable.$inferInsert;
+export type SkillCategory = typeof skillCategoriesTable.$inferSelect;
+export type NewSkillCategory = typeof skillCategoriesTable.$inferInsert;
 export type Skill = typeof skillsTable.$inferSelect;
 export type NewSkill = typeof skillsTable.$inferInsert;
+export type SkillAlias = typeof skillAliasesTable.$inferSelect;
+export type NewSkillAlias = typeof skillAliasesTable.$inferInsert;
+export type SkillTranslation = typeof skillTranslationsTable.$inferSelect;
+export type NewSkillTranslation = typeof skillTranslationsTable.$inferInsert;
+export type SkillPrerequisite = typeof skillPrerequisitesTable.$inferSelect;
+export type NewSkillPrerequisite = typeof skillPrerequisitesTable.$inferInsert;
+export type SkillMerge = typeof skillMergesTable.$inferSelect;
+export type NewSkillMerge = typeof skillMergesTable.$inferInsert;
 export type UserSkill = typeof userSkillsTable.$inferSelect;
 export type NewUserSkill = typeof userSkillsTable.$inferInsert;
+export type SkillLevelRequirement = typeof skillLevelRequirementsTable.$inferSelect;
+export type NewSkillLevelRequirement = typeof skillLevelRequirementsTable.$inferInsert;
+export type Endorsement = typeof endorsementsTable.$inferSelect;
+export type NewEndorsement = typeof endorsementsTable.$inferInsert;
 export type SkillProof = typeof skillProofsTable.$inferSelect;
 export type NewSkillProof = typeof skillProofsTable.$inferInsert;
 export type MiniTest = typeof miniTestsTable.$inferSelect;
 export type NewMiniTest = typeof miniTestsTable.$inferInsert;
+export type MiniTestTranslation = typeof miniTestTranslationsTable.$inferSelect;
+export type NewMiniTestTranslation = typeof miniTestTranslationsTable.$inferInsert;
 export type TestQuestion = typeof testQuestionsTable.$inferSelect;
 export type NewTestQuestion = typeof testQuestionsTable.$inferInsert;
 export type TestAttempt = typeof testAttemptsTable.$inferSelect;
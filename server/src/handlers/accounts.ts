@@ -0,0 +1,273 @@
+import { randomBytes } from 'crypto';
+import { db } from '../db';
+import {
+  usersTable,
+  userRolesTable,
+  sessionsTable,
+  refreshTokensTable,
+  passwordResetTokensTable,
+  loginAttemptsTable,
+  totpCredentialsTable,
+  recoveryCodesTable,
+  phoneCodesTable,
+  userIdentitiesTable,
+  oidcLoginStatesTable,
+  apiKeysTable,
+  dataExportsTable,
+  userSkillsTable,
+  skillProofsTable,
+  testAttemptsTable,
+  certificatesTable,
+  endorsementsTable,
+  jobListingsTable,
+  jobApplicationsTable
+} from '../db/schema';
+import { type DeleteAccountInput, type AccountDeletion, type AuditActor } from '../schema';
+import { eq, and, or, inArray, notInArray, isNull, lte } from 'drizzle-orm';
+import { hashPassword, verifyPassword } from '../lib/passwords';
+import { parseDuration } from '../lib/jwt';
+import { sendMail } from '../lib/mail';
+import { deleteStoredFile } from '../lib/storage';
+import { accountKey, phoneKey } from '../lib/throttle';
+import { recordAuditEvent, scrubAuditEvents, SYSTEM_ACTOR } from '../lib/audit';
+
+const ACCOUNT_DELETION_GRACE_PERIOD = process.env['ACCOUNT_DELETION_GRACE_PERIOD'] || '14d';
+
+export const DELETED_USER_NAME = 'Deleted user';
+
+export async function requestAccountDeletion(
+  userId: number,
+  input: DeleteAccountInput,
+  actor: AuditActor = SYSTEM_ACTOR
+): Promise<AccountDeletion> {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(and(eq(usersTable.id, userId), isNull(usersTable.deleted_at)))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error('User not found');
+    }
+
+    if (!verifyPassword(input.password, users[0].password_hash)) {
+      throw new Error('Current password is incorrect');
+    }
+
+    // Asking again keeps the original date rather than pushing it back
+    const scheduledFor = users[0].deletion_scheduled_for
+      ?? new Date(Date.now() + parseDuration(ACCOUNT_DELETION_GRACE_PERIOD) * 1000);
+
+    await db.update(usersTable)
+      .set({ deletion_scheduled_for: scheduledFor, updated_at: new Date() })
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    await recordAuditEvent(actor, {
+      action: 'account.deletion_requested',
+      target_type: 'user',
+      target_id: userId,
+      after: { deletion_scheduled_for: scheduledFor }
+    });
+
+    try {
+      await sendMail({
+        to: users[0].email,
+        subject: 'Your Skill-Proof account is scheduled for deletion',
+        text: `Hi ${users[0].full_name},\n\nWe will delete your Skill-Proof account and personal data on ${scheduledFor.toUTCString()}. Changed your mind? Sign in before then and cancel the deletion from your account settings.`
+      });
+    } catch (error) {
+      console.error('Account deletion notice delivery failed:', error);
+    }
+
+    return { deletion_scheduled_for: scheduledFor };
+  } catch (error) {
+    console.error('Account deletion request failed:', error);
+    throw error;
+  }
+}
+
+export async function cancelAccountDeletion(userId: number, actor: AuditActor = SYSTEM_ACTOR): Promise<AccountDeletion> {
+  try {
+    const result = await db.update(usersTable)
+      .set({ deletion_scheduled_for: null, updated_at: new Date() })
+      .where(and(eq(usersTable.id, userId), isNull(usersTable.deleted_at)))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error('User not found');
+    }
+
+    await recordAuditEvent(actor, {
+      action: 'account.deletion_cancelled',
+      target_type: 'user',
+      target_id: userId
+    });
+
+    return { deletion_scheduled_for: null };
+  } catch (error) {
+    console.error('Account deletion cancel failed:', error);
+    throw error;
+  }
+}
+
+// Removes everything personal about the account. Rows other people still rely on are kept
+// but detached from the person: applications lose their message, listings are closed, and
+// certified skills stay so certificates keep verifying. The users row itself remains as an
+// anonymized tombstone because those rows reference it.
+export async function purgeAccount(userId: number): Promise<void> {
+  const files = await db.transaction(async (tx) => {
+    const users = await tx.select()
+      .from(usersTable)
+      .where(and(eq(usersTable.id, userId), isNull(usersTable.deleted_at)))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error('User not found');
+    }
+
+    const user = users[0];
+
+    const userSkillIds = tx.select({ id: userSkillsTable.id })
+      .from(userSkillsTable)
+      .where(eq(userSkillsTable.user_id, userId));
+    const certifiedSkillIds = tx.select({ id: certificatesTable.user_skill_id })
+      .from(certificatesTable);
+
+    const proofs = await tx.delete(skillProofsTable)
+      .where(inArray(skillProofsTable.user_skill_id, userSkillIds))
+      .returning({ file_url: skillProofsTable.file_url })
+      .execute();
+
+    await tx.delete(testAttemptsTable)
+      .where(inArray(testAttemptsTable.user_skill_id, userSkillIds))
+      .execute();
+
+    // Endorsements are personal statements either way, whether received or written
+    await tx.delete(endorsementsTable)
+      .where(
+        or(
+          inArray(endorsementsTable.user_skill_id, userSkillIds),
+          eq(endorsementsTable.endorser_id, userId)
+        )
+      )
+      .execute();
+
+    await tx.delete(userSkillsTable)
+      .where(
+        and(
+          eq(userSkillsTable.user_id, userId),
+          notInArray(userSkillsTable.id, certifiedSkillIds)
+        )
+      )
+      .execute();
+
+    await tx.update(jobApplicationsTable)
+      .set({ message: null, updated_at: new Date() })
+      .where(eq(jobApplicationsTable.applicant_id, userId))
+      .execute();
+
+    await tx.update(jobListingsTable)
+      .set({ is_active: false, updated_at: new Date() })
+      .where(eq(jobListingsTable.employer_id, userId))
+      .execute();
+
+    // Credentials, sessions and everything else that only exists for the account holder
+    await tx.delete(refreshTokensTable)
+      .where(inArray(
+        refreshTokensTable.session_id,
+        tx.select({ id: sessionsTable.id }).from(sessionsTable).where(eq(sessionsTable.user_id, userId))
+      ))
+      .execute();
+    await tx.delete(sessionsTable).where(eq(sessionsTable.user_id, userId)).execute();
+    await tx.delete(passwordResetTokensTable).where(eq(passwordResetTokensTable.user_id, userId)).execute();
+    await tx.delete(totpCredentialsTable).where(eq(totpCredentialsTable.user_id, userId)).execute();
+    await tx.delete(recoveryCodesTable).where(eq(recoveryCodesTable.user_id, userId)).execute();
+    await tx.delete(phoneCodesTable).where(eq(phoneCodesTable.user_id, userId)).execute();
+    await tx.delete(userIdentitiesTable).where(eq(userIdentitiesTable.user_id, userId)).execute();
+    await tx.delete(oidcLoginStatesTable).where(eq(oidcLoginStatesTable.link_user_id, userId)).execute();
+    await tx.delete(apiKeysTable).where(eq(apiKeysTable.user_id, userId)).execute();
+    await tx.delete(dataExportsTable).where(eq(dataExportsTable.user_id, userId)).execute();
+    await tx.delete(userRolesTable).where(eq(userRolesTable.user_id, userId)).execute();
+    await tx.update(userRolesTable)
+      .set({ granted_by: null })
+      .where(eq(userRolesTable.granted_by, userId))
+      .execute();
+
+    const throttleKeys = [accountKey(user.email), ...(user.phone ? [phoneKey(user.phone)] : [])];
+    await tx.delete(loginAttemptsTable).where(inArray(loginAttemptsTable.key, throttleKeys)).execute();
+
+    const deletedAt = new Date();
+    await tx.update(usersTable)
+      .set({
+        full_name: DELETED_USER_NAME,
+        email: `deleted-${userId}@deleted.invalid`,
+        phone: null,
+        phone_verified_at: null,
+        password_hash: hashPassword(randomBytes(32).toString('hex')),
+        profile_photo: null,
+        location: null,
+        bio: null,
+        rating: null,
+        is_verified: false,
+        email_verification_sent_at: null,
+        deleted_at: deletedAt,
+        updated_at: deletedAt
+      })
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    await scrubAuditEvents(userId, tx);
+
+    await recordAuditEvent(SYSTEM_ACTOR, {
+      action: 'account.deleted',
+      target_type: 'user',
+      target_id: userId
+    }, tx);
+
+    return [...proofs.map(proof => proof.file_url), ...(user.profile_photo ? [user.profile_photo] : [])];
+  });
+
+  // Files go only after the rows are gone; a failed removal is logged for the storage team to retry
+  for (const url of files) {
+    try {
+      await deleteStoredFile(url);
+    } catch (error) {
+      console.error(`Deleting stored file ${url} failed:`, error);
+    }
+  }
+}
+
+// Run periodically; purges every account whose grace period has ended. An account that fails is rolled back and
+// reported without holding up the rest, and is picked up again on the next run.
+export async function purgeDueAccountDeletions(now: Date = new Date()): Promise<{ purged: number; failed: number[] }> {
+  try {
+    const due = await db.select({ id: usersTable.id })
+      .from(usersTable)
+      .where(
+        and(
+          lte(usersTable.deletion_scheduled_for, now),
+          isNull(usersTable.deleted_at)
+        )
+      )
+      .execute();
+
+    let purged = 0;
+    const failed: number[] = [];
+    for (const { id } of due) {
+      try {
+        await purgeAccount(id);
+        purged++;
+      } catch (error) {
+        console.error(`Purging account ${id} failed:`, error);
+        failed.push(id);
+      }
+    }
+
+    return { purged, failed };
+  } catch (error) {
+    console.error('Account purge failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,189 @@
+import { randomBytes, timingSafeEqual } from 'crypto';
+import { db } from '../db';
+import { apiKeysTable, usersTable, userRolesTable } from '../db/schema';
+import { type ApiKey, type AuthUser, type CreateApiKeyInput, type CreatedApiKey, type AuditActor } from '../schema';
+import { eq, and, desc } from 'drizzle-orm';
+import { hashOpaqueToken } from '../lib/tokens';
+import { recordAuditEvent, SYSTEM_ACTOR } from '../lib/audit';
+import { hasTwoFactorEnabled } from './totp';
+
+// Keys look like "sp_k3xq7p2m_<secret>"; the "sp_k3xq7p2m" prefix identifies the key in listings and logs
+export const API_KEY_PREFIX = 'sp_';
+
+const MAX_ACTIVE_KEYS = 20;
+
+// Hides the hash from anything returned to clients
+function toApiKey(row: typeof apiKeysTable.$inferSelect): ApiKey {
+  const { secret_hash: _secretHash, ...apiKey } = row;
+  return apiKey;
+}
+
+export function isApiKey(token: string): boolean {
+  return token.startsWith(API_KEY_PREFIX);
+}
+
+export async function createApiKey(userId: number, input: CreateApiKeyInput, actor: AuditActor = SYSTEM_ACTOR): Promise<CreatedApiKey> {
+  try {
+    if (input.expires_at && input.expires_at.getTime() <= Date.now()) {
+      throw new Error('Expiry must be in the future');
+    }
+
+    const active = await db.select({ id: apiKeysTable.id, revoked_at: apiKeysTable.revoked_at })
+      .from(apiKeysTable)
+      .where(eq(apiKeysTable.user_id, userId))
+      .execute();
+
+    if (active.filter(key => key.revoked_at === null).length >= MAX_ACTIVE_KEYS) {
+      throw new Error('Too many active API keys; revoke one first');
+    }
+
+    const prefix = `${API_KEY_PREFIX}${randomBytes(6).toString('hex')}`;
+    const secret = `${prefix}_${randomBytes(32).toString('base64url')}`;
+
+    const result = await db.insert(apiKeysTable)
+      .values({
+        user_id: userId,
+        name: input.name,
+        prefix,
+        secret_hash: hashOpaqueToken(secret),
+        scopes: [...new Set(input.scopes)],
+        expires_at: input.expires_at ?? null
+      })
+      .returning()
+      .execute();
+
+    const apiKey = toApiKey(result[0]);
+
+    await recordAuditEvent(actor, {
+      action: 'api_key.created',
+      target_type: 'api_key',
+      target_id: apiKey.id,
+      after: { name: apiKey.name, prefix: apiKey.prefix, scopes: apiKey.scopes, expires_at: apiKey.expires_at }
+    });
+
+    return {
+      api_key: apiKey,
+      secret
+    };
+  } catch (error) {
+    console.error('API key creation failed:', error);
+    throw error;
+  }
+}
+
+export async function getApiKeys(userId: number): Promise<ApiKey[]> {
+  try {
+    const results = await db.select()
+      .from(apiKeysTable)
+      .where(eq(apiKeysTable.user_id, userId))
+      .orderBy(desc(apiKeysTable.created_at))
+      .execute();
+
+    return results.map(toApiKey);
+  } catch (error) {
+    console.error('Get API keys failed:', error);
+    throw error;
+  }
+}
+
+export async function revokeApiKey(userId: number, apiKeyId: number, actor: AuditActor = SYSTEM_ACTOR): Promise<ApiKey> {
+  try {
+    const existing = await db.select()
+      .from(apiKeysTable)
+      .where(
+        and(
+          eq(apiKeysTable.id, apiKeyId),
+          eq(apiKeysTable.user_id, userId)
+        )
+      )
+      .execute();
+
+    if (existing.length === 0) {
+      throw new Error('API key not found');
+    }
+
+    if (existing[0].revoked_at !== null) {
+      return toApiKey(existing[0]);
+    }
+
+    const result = await db.update(apiKeysTable)
+      .set({ revoked_at: new Date() })
+      .where(eq(apiKeysTable.id, apiKeyId))
+      .returning()
+      .execute();
+
+    await recordAuditEvent(actor, {
+      action: 'api_key.revoked',
+      target_type: 'api_key',
+      target_id: apiKeyId,
+      before: { revoked_at: null },
+      after: { prefix: result[0].prefix, revoked_at: result[0].revoked_at }
+    });
+
+    return toApiKey(result[0]);
+  } catch (error) {
+    console.error('Revoke API key failed:', error);
+    throw error;
+  }
+}
+
+// Resolves an API key to its owner, carrying the key's scopes instead of a session
+export async function authenticateApiKey(key: string): Promise<AuthUser> {
+  try {
+    const prefix = key.slice(0, key.indexOf('_', API_KEY_PREFIX.length));
+
+    const results = await db.select()
+      .from(apiKeysTable)
+      .innerJoin(usersTable, eq(apiKeysTable.user_id, usersTable.id))
+      .where(eq(apiKeysTable.prefix, prefix))
+      .execute();
+
+    if (results.length === 0) {
+      throw new Error('Invalid API key');
+    }
+
+    const { api_keys: apiKey, users: user } = results[0];
+
+    const expected = Buffer.from(apiKey.secret_hash);
+    const provided = Buffer.from(hashOpaqueToken(key));
+    if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
+      throw new Error('Invalid API key');
+    }
+
+    if (apiKey.revoked_at !== null) {
+      throw new Error('API key has been revoked');
+    }
+
+    if (apiKey.expires_at !== null && apiKey.expires_at.getTime() <= Date.now()) {
+      throw new Error('API key expired');
+    }
+
+    await db.update(apiKeysTable)
+      .set({ last_used_at: new Date() })
+      .where(eq(apiKeysTable.id, apiKey.id))
+      .execute();
+
+    // Roles are resolved per request, so revoking the owner's employer role disables their keys too
+    const roles = await db.select({ role: userRolesTable.role })
+      .from(userRolesTable)
+      .where(eq(userRolesTable.user_id, user.id))
+      .execute();
+
+    return {
+      id: user.id,
+      email: user.email,
+      is_verified: user.is_verified,
+      roles: roles.map(row => row.role),
+      two_factor_enabled: await hasTwoFactorEnabled(user.id),
+      session_id: null,
+      api_key: {
+        id: apiKey.id,
+        scopes: apiKey.scopes
+      },
+      impersonator_id: null
+    };
+  } catch (error) {
+    console.error('API key authentication failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,50 @@
+import { db } from '../db';
+import { auditEventsTable } from '../db/schema';
+import { type AuditEventFilter, type AuditEventPage } from '../schema';
+import { eq, and, gte, lte, lt, desc, type SQL } from 'drizzle-orm';
+
+export async function getAuditEvents(filter: AuditEventFilter): Promise<AuditEventPage> {
+  try {
+    const conditions: SQL<unknown>[] = [];
+
+    if (filter.actor_user_id !== undefined) {
+      conditions.push(eq(auditEventsTable.actor_user_id, filter.actor_user_id));
+    }
+    if (filter.action !== undefined) {
+      conditions.push(eq(auditEventsTable.action, filter.action));
+    }
+    if (filter.target_type !== undefined) {
+      conditions.push(eq(auditEventsTable.target_type, filter.target_type));
+    }
+    if (filter.target_id !== undefined) {
+      conditions.push(eq(auditEventsTable.target_id, filter.target_id));
+    }
+    if (filter.from !== undefined) {
+      conditions.push(gte(auditEventsTable.created_at, filter.from));
+    }
+    if (filter.to !== undefined) {
+      conditions.push(lte(auditEventsTable.created_at, filter.to));
+    }
+    if (filter.cursor !== undefined) {
+      conditions.push(lt(auditEventsTable.id, filter.cursor));
+    }
+
+    // Ids only grow, so paging on them is stable while new events keep arriving
+    const rows = await db.select()
+      .from(auditEventsTable)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(auditEventsTable.id))
+      .limit(filter.limit + 1)
+      .execute();
+
+    const events = rows.slice(0, filter.limit);
+
+    return {
+      events,
+      next_cursor: rows.length > filter.limit ? events[events.length - 1].id : null
+    };
+  } catch (error) {
+    console.error('Get audit events failed:', error);
+    throw error;
+  }
+}
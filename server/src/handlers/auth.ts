@@ -1,79 +1,55 @@
 import { db } from '../db';
-import { usersTable } from '../db/schema';
-import { type RegisterInput, type LoginInput, type User } from '../schema';
-import { eq } from 'drizzle-orm';
-import { createHash, pbkdf2Sync, randomBytes } from 'crypto';
-
-const JWT_SECRET = process.env['JWT_SECRET'] || 'development_secret_key';
-const SALT_ROUNDS = 10000; // PBKDF2 iterations
-
-// Simple JWT implementation using crypto
-function createJWT(payload: any, secret: string, expiresIn: string): string {
-  const header = {
-    alg: 'HS256',
-    typ: 'JWT'
-  };
-
-  const now = Math.floor(Date.now() / 1000);
-  const exp = now + (7 * 24 * 60 * 60); // 7 days in seconds
+import { usersTable, sessionsTable, userRolesTable } from '../db/schema';
+import { type RegisterInput, type LoginInput, type LoginResult, type User, type AuthUser, type RequestMetadata, type AuditActor } from '../schema';
+import { eq, and, isNull } from 'drizzle-orm';
+import { hashPassword, verifyPassword } from '../lib/passwords';
+import { verifyAccessToken, issueActionToken, verifyActionToken } from '../lib/tokens';
+import { sendMail, APP_URL } from '../lib/mail';
+import { assertNotThrottled, recordFailure, resetFailures, accountKey, ipKey, accountPolicy, ipPolicy } from '../lib/throttle';
+import { createSession } from './sessions';
+import { hasTwoFactorEnabled, issueTwoFactorChallenge } from './totp';
+import { recordAuditEvent, auditActor, SYSTEM_ACTOR } from '../lib/audit';
 
-  const jwtPayload = {
-    ...payload,
-    iat: now,
-    exp: exp
-  };
+const EMAIL_VERIFICATION_TTL = process.env['EMAIL_VERIFICATION_TTL'] || '24h';
+const EMAIL_VERIFICATION_RESEND_INTERVAL = 60 * 1000; // 1 minute between resends
+const UNLOCK_LINK_TTL = '1h';
 
-  const encodedHeader = Buffer.from(JSON.stringify(header)).toString('base64url');
-  const encodedPayload = Buffer.from(JSON.stringify(jwtPayload)).toString('base64url');
-  
-  const signature = createHash('sha256')
-    .update(`${encodedHeader}.${encodedPayload}.${secret}`)
-    .digest('base64url');
-  
-  return `${encodedHeader}.${encodedPayload}.${signature}`;
-}
+async function sendVerificationEmail(user: typeof usersTable.$inferSelect): Promise<typeof usersTable.$inferSelect> {
+  const token = issueActionToken('verify_email', { userId: user.id, email: user.email }, EMAIL_VERIFICATION_TTL);
 
-function verifyJWT(token: string, secret: string): any {
-  const parts = token.split('.');
-  if (parts.length !== 3) {
-    throw new Error('Invalid token format');
-  }
-
-  const [encodedHeader, encodedPayload, signature] = parts;
-  
-  // Verify signature
-  const expectedSignature = createHash('sha256')
-    .update(`${encodedHeader}.${encodedPayload}.${secret}`)
-    .digest('base64url');
-  
-  if (signature !== expectedSignature) {
-    throw new Error('Invalid token signature');
-  }
+  await sendMail({
+    to: user.email,
+    subject: 'Verify your Skill-Proof email address',
+    text: `Hi ${user.full_name},\n\nConfirm your email address by opening this link:\n${APP_URL}/verify-email?token=${token}\n\nThe link expires in ${EMAIL_VERIFICATION_TTL}.`
+  });
 
-  // Decode payload
-  const payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString());
-  
-  // Check expiration
-  if (payload.exp && payload.exp < Math.floor(Date.now() / 1000)) {
-    throw new Error('Token expired');
-  }
+  const result = await db.update(usersTable)
+    .set({ email_verification_sent_at: new Date() })
+    .where(eq(usersTable.id, user.id))
+    .returning()
+    .execute();
 
-  return payload;
+  return result[0];
 }
 
-function hashPassword(password: string): string {
-  const salt = randomBytes(32).toString('hex');
-  const hash = pbkdf2Sync(password, salt, SALT_ROUNDS, 64, 'sha512').toString('hex');
-  return `${salt}:${hash}`;
-}
+async function sendUnlockEmail(user: typeof usersTable.$inferSelect): Promise<void> {
+  const token = issueActionToken('unlock_account', { userId: user.id, email: user.email }, UNLOCK_LINK_TTL);
 
-function verifyPassword(password: string, hashedPassword: string): boolean {
-  const [salt, hash] = hashedPassword.split(':');
-  const verifyHash = pbkdf2Sync(password, salt, SALT_ROUNDS, 64, 'sha512').toString('hex');
-  return hash === verifyHash;
+  try {
+    await sendMail({
+      to: user.email,
+      subject: 'Your Skill-Proof account has been locked',
+      text: `Hi ${user.full_name},\n\nWe locked your account for a while after several failed sign-in attempts. If that was you, unlock it now with this link:\n${APP_URL}/unlock-account?token=${token}\n\nIf it was not you, consider resetting your password.`
+    });
+  } catch (error) {
+    console.error('Unlock email delivery failed:', error);
+  }
 }
 
-export async function registerUser(input: RegisterInput): Promise<User> {
+export async function registerUser(
+  input: RegisterInput,
+  meta: RequestMetadata = { ip_address: null, user_agent: null }
+): Promise<User> {
   try {
     // Check if user already exists
     const existingUser = await db.select()
@@ -99,7 +75,29 @@ export async function registerUser(input: RegisterInput): Promise<User> {
       .returning()
       .execute();
 
-    const user = result[0];
+    let user = result[0];
+
+    // Everyone starts as a worker; other roles are granted by an admin
+    await db.insert(userRolesTable)
+      .values({
+        user_id: user.id,
+        role: 'worker'
+      })
+      .execute();
+
+    await recordAuditEvent(auditActor(user.id, meta), {
+      action: 'auth.registered',
+      target_type: 'user',
+      target_id: user.id,
+      after: { full_name: user.full_name, email: user.email, phone: user.phone }
+    });
+
+    // A failed delivery must not fail registration; the user can ask for a resend
+    try {
+      user = await sendVerificationEmail(user);
+    } catch (error) {
+      console.error('Verification email delivery failed:', error);
+    }
 
     // Convert numeric fields back to numbers
     return {
@@ -112,46 +110,81 @@ export async function registerUser(input: RegisterInput): Promise<User> {
   }
 }
 
-export async function loginUser(input: LoginInput): Promise<{ user: User; token: string }> {
+// Final step of every first-factor login (password, SMS code or single sign-on)
+export async function completeLogin(
+  user: typeof usersTable.$inferSelect,
+  meta: RequestMetadata,
+  deviceLabel: string | null,
+  method: string
+): Promise<LoginResult> {
+  // The session is only opened once the second factor checks out
+  if (await hasTwoFactorEnabled(user.id)) {
+    return {
+      two_factor_required: true,
+      challenge_token: issueTwoFactorChallenge(user)
+    };
+  }
+
+  // Open a session and issue its access/refresh token pair
+  const tokens = await createSession(user, meta, deviceLabel);
+
+  await recordAuditEvent(auditActor(user.id, meta), {
+    action: 'auth.login',
+    target_type: 'user',
+    target_id: user.id,
+    after: { method, device_label: deviceLabel }
+  });
+
+  // Return user data with proper type conversions
+  const userData: User = {
+    ...user,
+    rating: user.rating ? parseFloat(user.rating) : null
+  };
+
+  return {
+    two_factor_required: false,
+    user: userData,
+    ...tokens
+  };
+}
+
+export async function loginUser(
+  input: LoginInput,
+  meta: RequestMetadata = { ip_address: null, user_agent: null }
+): Promise<LoginResult> {
   try {
+    // Refuse outright while the account or the caller's IP is backing off
+    const throttleKeys = [
+      { key: accountKey(input.email), policy: accountPolicy },
+      ...(meta.ip_address ? [{ key: ipKey(meta.ip_address), policy: ipPolicy }] : [])
+    ];
+    await assertNotThrottled(throttleKeys.map(entry => entry.key));
+
     // Find user by email
     const users = await db.select()
       .from(usersTable)
       .where(eq(usersTable.email, input.email))
       .execute();
 
-    if (users.length === 0) {
+    // Unknown emails count as failures too so lockout behaviour does not reveal registration
+    if (users.length === 0 || !verifyPassword(input.password, users[0].password_hash)) {
+      const { locked } = await recordFailure(throttleKeys);
+      if (locked && users.length > 0) {
+        await sendUnlockEmail(users[0]);
+      }
+      await recordAuditEvent(auditActor(null, meta), {
+        action: 'auth.login_failed',
+        target_type: 'user',
+        target_id: users.length > 0 ? users[0].id : null,
+        after: { email: input.email, locked }
+      });
       throw new Error('Invalid email or password');
     }
 
     const user = users[0];
+    await resetFailures(accountKey(input.email));
 
-    // Verify password
-    const isPasswordValid = verifyPassword(input.password, user.password_hash);
-    if (!isPasswordValid) {
-      throw new Error('Invalid email or password');
-    }
-
-    // Generate JWT token
-    const token = createJWT(
-      { 
-        userId: user.id, 
-        email: user.email 
-      },
-      JWT_SECRET,
-      '7d'
-    );
-
-    // Return user data with proper type conversions
-    const userData: User = {
-      ...user,
-      rating: user.rating ? parseFloat(user.rating) : null
-    };
-
-    return {
-      user: userData,
-      token
-    };
+    return await completeLogin(user, meta, input.device_label ?? null, 'password');
   } catch (error) {
     console.error('User login failed:', error);
     throw error;
@@ -180,4 +213,145 @@ export async function getUserProfile(userId: number): Promise<User> {
     console.error('Get user profile failed:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
+
+export async function authenticateToken(token: string): Promise<AuthUser> {
+  try {
+    const claims = verifyAccessToken(token);
+
+    // The token is only good while its session has not been revoked
+    const users = await db.select({
+      id: usersTable.id,
+      email: usersTable.email,
+      is_verified: usersTable.is_verified,
+      session_id: sessionsTable.id,
+      impersonator_id: sessionsTable.impersonator_id
+    })
+      .from(sessionsTable)
+      .innerJoin(usersTable, eq(sessionsTable.user_id, usersTable.id))
+      .where(
+        and(
+          eq(sessionsTable.id, claims.sessionId),
+          eq(sessionsTable.user_id, claims.userId),
+          isNull(sessionsTable.revoked_at)
+        )
+      )
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error('Session not found or revoked');
+    }
+
+    // Impersonation tokens are only honoured for the impersonation session they were issued for
+    if (users[0].impersonator_id !== claims.impersonatorId) {
+      throw new Error('Session not found or revoked');
+    }
+
+    const roles = await db.select({ role: userRolesTable.role })
+      .from(userRolesTable)
+      .where(eq(userRolesTable.user_id, claims.userId))
+      .execute();
+
+    return {
+      ...users[0],
+      roles: roles.map(row => row.role),
+      two_factor_enabled: await hasTwoFactorEnabled(claims.userId),
+      api_key: null
+    };
+  } catch (error) {
+    console.error('Token authentication failed:', error);
+    throw error;
+  }
+}
+
+export async function verifyEmail(token: string, actor: AuditActor = SYSTEM_ACTOR): Promise<User> {
+  try {
+    const claims = verifyActionToken(token, 'verify_email');
+
+    // The email claim ties the link to the address it was sent to
+    const result = await db.update(usersTable)
+      .set({
+        is_verified: true,
+        updated_at: new Date()
+      })
+      .where(
+        and(
+          eq(usersTable.id, claims.userId),
+          eq(usersTable.email, claims.email)
+        )
+      )
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error('Invalid verification token');
+    }
+
+    const user = result[0];
+
+    await recordAuditEvent(actor, {
+      action: 'auth.email_verified',
+      target_type: 'user',
+      target_id: user.id,
+      after: { email: user.email }
+    });
+
+    return {
+      ...user,
+      rating: user.rating ? parseFloat(user.rating) : null
+    };
+  } catch (error) {
+    console.error('Email verification failed:', error);
+    throw error;
+  }
+}
+
+export async function resendVerificationEmail(userId: number): Promise<{ sent: boolean }> {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error('User not found');
+    }
+
+    const user = users[0];
+
+    if (user.is_verified) {
+      throw new Error('Email is already verified');
+    }
+
+    const sentAt = user.email_verification_sent_at;
+    if (sentAt && Date.now() - sentAt.getTime() < EMAIL_VERIFICATION_RESEND_INTERVAL) {
+      throw new Error('Verification email was sent recently; please wait before requesting another');
+    }
+
+    await sendVerificationEmail(user);
+
+    return { sent: true };
+  } catch (error) {
+    console.error('Resend verification email failed:', error);
+    throw error;
+  }
+}
+
+export async function unlockAccount(token: string, actor: AuditActor = SYSTEM_ACTOR): Promise<{ success: boolean }> {
+  try {
+    const claims = verifyActionToken(token, 'unlock_account');
+
+    await resetFailures(accountKey(claims.email));
+
+    await recordAuditEvent(actor, {
+      action: 'auth.account_unlocked',
+      target_type: 'user',
+      target_id: claims.userId
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Account unlock failed:', error);
+    throw error;
+  }
+}
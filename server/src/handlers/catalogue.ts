@@ -0,0 +1,506 @@
+import { db } from '../db';
+import { skillsTable, skillCategoriesTable, skillAliasesTable, skillMergesTable } from '../db/schema';
+import {
+  catalogueRowSchema,
+  type AuditActor,
+  type CatalogueDiff,
+  type CatalogueFormat,
+  type CatalogueRow,
+  type ImportSkillCatalogueInput,
+  type SkillCatalogueExport
+} from '../schema';
+import { eq, and, asc, inArray, notInArray, sql } from 'drizzle-orm';
+import { parseCsv, stringifyCsv } from '../lib/csv';
+import { recordAuditEvent, SYSTEM_ACTOR } from '../lib/audit';
+import { slugifyCategory } from './categories';
+import { syncVerificationExpiry } from './expiry';
+
+// Category paths read "Construction > Plumbing"; CSV cells list aliases as "Plumber|Pipe fitter"
+const CATEGORY_SEPARATOR = ' > ';
+const ALIAS_SEPARATOR = '|';
+const CSV_COLUMNS = ['id', 'name', 'category', 'description', 'icon', 'aliases', 'validity_days', 'is_active'] as const;
+
+type Executor = Pick<typeof db, 'select' | 'insert' | 'update' | 'delete'>;
+type SkillRow = typeof skillsTable.$inferSelect;
+type CategoryRow = typeof skillCategoriesTable.$inferSelect;
+type Changes = Record<string, { before: unknown; after: unknown }>;
+
+type PlannedRow = {
+  row: CatalogueRow;
+  skill: SkillRow | null;
+  path: string[];
+  changes: Changes;
+  deactivate: boolean;
+};
+
+function splitCategoryPath(path: string): string[] {
+  return path.split('>').map(segment => segment.trim()).filter(segment => segment !== '');
+}
+
+// Categories by parent and lowercased name, so paths resolve the same whatever their casing
+function createCategoryIndex(categories: CategoryRow[]) {
+  const byKey = new Map<string, CategoryRow>();
+  const byId = new Map<number, CategoryRow>();
+  const slugs = new Set<string>();
+
+  const key = (parentId: number | null, name: string) => `${parentId ?? 'root'}:${name.toLowerCase()}`;
+
+  const add = (category: CategoryRow) => {
+    byKey.set(key(category.parent_id, category.name), category);
+    byId.set(category.id, category);
+    slugs.add(category.slug);
+  };
+
+  categories.forEach(add);
+
+  // Id of the category at the end of the path, or null when part of it does not exist yet
+  const resolve = (path: string[]): number | null => {
+    let parentId: number | null = null;
+    for (const name of path) {
+      const category = byKey.get(key(parentId, name));
+      if (!category) {
+        return null;
+      }
+      parentId = category.id;
+    }
+    return parentId;
+  };
+
+  return {
+    resolve,
+
+    // Every prefix of the path that has no category yet, e.g. "Energy" and "Energy > Solar"
+    missing(path: string[]): string[] {
+      const missing: string[] = [];
+      for (let depth = 1; depth <= path.length; depth++) {
+        if (resolve(path.slice(0, depth)) === null) {
+          missing.push(path.slice(0, depth).join(CATEGORY_SEPARATOR));
+        }
+      }
+      return missing;
+    },
+
+    pathOf(categoryId: number): string[] {
+      const path: string[] = [];
+      let category = byId.get(categoryId);
+      while (category) {
+        path.unshift(category.name);
+        category = category.parent_id !== null ? byId.get(category.parent_id) : undefined;
+      }
+      return path;
+    },
+
+    async ensure(path: string[], executor: Executor): Promise<CategoryRow> {
+      let parent: CategoryRow | null = null;
+      for (let depth = 0; depth < path.length; depth++) {
+        const name = path[depth];
+        let category = byKey.get(key(parent?.id ?? null, name));
+
+        if (!category) {
+          // Nested categories get their whole path as slug, numbered if that is taken too
+          const base = slugifyCategory(path.slice(0, depth + 1).join(' '));
+          let slug = base;
+          for (let n = 2; slugs.has(slug); n++) {
+            slug = `${base}-${n}`;
+          }
+
+          const created: CategoryRow[] = await executor.insert(skillCategoriesTable)
+            .values({ name, slug, parent_id: parent?.id ?? null })
+            .returning()
+            .execute();
+          category = created[0];
+          add(category);
+        }
+
+        parent = category;
+      }
+      return parent!;
+    }
+  };
+}
+
+function rowError(line: number, message: string): Error {
+  return new Error(`Row ${line}: ${message}`);
+}
+
+function validateRows(values: unknown[]): CatalogueRow[] {
+  const errors: string[] = [];
+  const rows: CatalogueRow[] = [];
+
+  values.forEach((value, index) => {
+    const result = catalogueRowSchema.safeParse(value);
+    if (result.success) {
+      rows.push(result.data);
+    } else {
+      for (const issue of result.error.issues) {
+        errors.push(`Row ${index + 1}: ${issue.path.length > 0 ? `${issue.path.join('.')}: ` : ''}${issue.message}`);
+      }
+    }
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid catalogue. ${errors.slice(0, 20).join('; ')}`);
+  }
+
+  return rows;
+}
+
+// Turns CSV cells into the values the row schema expects. Empty cells clear nullable fields.
+function csvRecord(header: string[], cells: string[]): Record<string, unknown> {
+  const record: Record<string, unknown> = {};
+
+  header.forEach((column, index) => {
+    const cell = (cells[index] ?? '').trim();
+
+    switch (column) {
+      case 'id':
+        if (cell !== '') {
+          record[column] = /^\d+$/.test(cell) ? parseInt(cell, 10) : cell;
+        }
+        break;
+      case 'validity_days':
+        record[column] = cell === '' ? null : /^\d+$/.test(cell) ? parseInt(cell, 10) : cell;
+        break;
+      case 'is_active':
+        if (cell !== '') {
+          record[column] = cell.toLowerCase() === 'true' ? true : cell.toLowerCase() === 'false' ? false : cell;
+        }
+        break;
+      case 'aliases':
+        record[column] = cell.split(ALIAS_SEPARATOR).map(alias => alias.trim()).filter(alias => alias !== '');
+        break;
+      case 'description':
+      case 'icon':
+        record[column] = cell === '' ? null : cell;
+        break;
+      default:
+        record[column] = cell;
+    }
+  });
+
+  return record;
+}
+
+export function parseCatalogue(format: CatalogueFormat, content: string): CatalogueRow[] {
+  if (format === 'json') {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      throw new Error('Catalogue is not valid JSON');
+    }
+
+    if (!Array.isArray(parsed)) {
+      throw new Error('A JSON catalogue must be an array of skills');
+    }
+
+    return validateRows(parsed);
+  }
+
+  const [header, ...records] = parseCsv(content);
+  if (!header) {
+    throw new Error('Catalogue is empty');
+  }
+
+  const columns = header.map(column => column.trim().toLowerCase());
+  const unknown = columns.filter(column => !(CSV_COLUMNS as readonly string[]).includes(column));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown catalogue column ${unknown.map(column => `"${column}"`).join(', ')}`);
+  }
+  if (!columns.includes('name') || !columns.includes('category')) {
+    throw new Error('A CSV catalogue needs name and category columns');
+  }
+
+  return validateRows(records.map(cells => csvRecord(columns, cells)));
+}
+
+const sameAliases = (a: string[], b: string[]) =>
+  JSON.stringify([...new Set(a.map(alias => alias.toLowerCase()))].sort()) ===
+  JSON.stringify([...new Set(b.map(alias => alias.toLowerCase()))].sort());
+
+async function planImport(executor: Executor, rows: CatalogueRow[], deactivateMissing: boolean) {
+  const skills = await executor.select().from(skillsTable).orderBy(asc(skillsTable.id)).execute();
+  const merged = new Set(
+    (await executor.select({ id: skillMergesTable.source_skill_id }).from(skillMergesTable).execute()).map(merge => merge.id)
+  );
+  const aliases = await executor.select().from(skillAliasesTable).orderBy(asc(skillAliasesTable.id)).execute();
+  const categories = createCategoryIndex(await executor.select().from(skillCategoriesTable).execute());
+
+  const aliasesOf = (skillId: number) => aliases.filter(alias => alias.skill_id === skillId).map(alias => alias.alias);
+  const current = skills.filter(skill => !merged.has(skill.id));
+  const byName = new Map(current.map(skill => [skill.name.toLowerCase(), skill]));
+
+  const planned: PlannedRow[] = [];
+  const seenNames = new Set<string>();
+  const matched = new Set<number>();
+
+  rows.forEach((row, index) => {
+    const line = index + 1;
+    const name = row.name.toLowerCase();
+
+    if (seenNames.has(name)) {
+      throw rowError(line, `"${row.name}" appears more than once`);
+    }
+    seenNames.add(name);
+
+    let skill: SkillRow | null = null;
+    if (row.id !== undefined) {
+      skill = skills.find(entry => entry.id === row.id) ?? null;
+      if (!skill) {
+        throw rowError(line, `skill ${row.id} not found`);
+      }
+      if (merged.has(skill.id)) {
+        throw rowError(line, `skill ${row.id} has been merged into another skill`);
+      }
+    } else {
+      skill = byName.get(name) ?? null;
+    }
+
+    if (skill && matched.has(skill.id)) {
+      throw rowError(line, `"${skill.name}" is already matched by an earlier row`);
+    }
+
+    const namesake = byName.get(name);
+    if (namesake && namesake.id !== skill?.id) {
+      throw rowError(line, `another skill is already named "${namesake.name}"`);
+    }
+
+    const path = splitCategoryPath(row.category);
+    if (path.length === 0) {
+      throw rowError(line, 'category is required');
+    }
+
+    const changes: Changes = {};
+    let deactivate = false;
+
+    if (skill) {
+      matched.add(skill.id);
+
+      if (row.name !== skill.name) {
+        changes['name'] = { before: skill.name, after: row.name };
+      }
+
+      const categoryId = categories.resolve(path);
+      if (categoryId === null || categoryId !== skill.category_id) {
+        const before = skill.category_id !== null ? categories.pathOf(skill.category_id).join(CATEGORY_SEPARATOR) : skill.category;
+        changes['category'] = { before, after: path.join(CATEGORY_SEPARATOR) };
+      }
+
+      for (const field of ['description', 'icon', 'validity_days'] as const) {
+        if (row[field] !== undefined && row[field] !== skill[field]) {
+          changes[field] = { before: skill[field], after: row[field] };
+        }
+      }
+
+      if (row.aliases !== undefined && !sameAliases(row.aliases, aliasesOf(skill.id))) {
+        changes['aliases'] = { before: aliasesOf(skill.id), after: row.aliases };
+      }
+
+      if (row.is_active === true && !skill.is_active) {
+        changes['is_active'] = { before: false, after: true };
+      }
+      deactivate = row.is_active === false && skill.is_active;
+    }
+
+    planned.push({ row, skill, path, changes, deactivate });
+  });
+
+  const missing = deactivateMissing
+    ? current.filter(skill => skill.is_active && !matched.has(skill.id))
+    : [];
+
+  const diff: CatalogueDiff = {
+    applied: false,
+    created: planned
+      .filter(entry => entry.skill === null)
+      .map(entry => ({ name: entry.row.name, category: entry.path.join(CATEGORY_SEPARATOR) })),
+    updated: planned
+      .filter(entry => entry.skill !== null && Object.keys(entry.changes).length > 0)
+      .map(entry => ({ id: entry.skill!.id, name: entry.skill!.name, changes: entry.changes })),
+    deactivated: [
+      ...planned.filter(entry => entry.deactivate).map(entry => ({ id: entry.skill!.id, name: entry.skill!.name })),
+      ...missing.map(skill => ({ id: skill.id, name: skill.name }))
+    ],
+    categories_created: [...new Set(planned.flatMap(entry => categories.missing(entry.path)))],
+    unchanged: planned.filter(entry => entry.skill !== null && Object.keys(entry.changes).length === 0 && !entry.deactivate).length
+  };
+
+  return { planned, missing, categories, diff };
+}
+
+// Replaces a skill's aliases with the given ones, keeping existing aliases (and their locale)
+// that are still listed
+async function replaceAliases(executor: Executor, skillId: number, aliases: string[]): Promise<void> {
+  const wanted = new Map(aliases.map(alias => [alias.toLowerCase(), alias]));
+
+  await executor.delete(skillAliasesTable)
+    .where(
+      and(
+        eq(skillAliasesTable.skill_id, skillId),
+        wanted.size > 0 ? notInArray(sql`lower(${skillAliasesTable.alias})`, [...wanted.keys()]) : undefined
+      )
+    )
+    .execute();
+
+  if (wanted.size > 0) {
+    await executor.insert(skillAliasesTable)
+      .values([...wanted.values()].map(alias => ({ skill_id: skillId, alias })))
+      .onConflictDoNothing()
+      .execute();
+  }
+}
+
+// Imports a catalogue kept outside the app. A dry run (the default) reports the differences
+// against the current catalogue without writing anything; otherwise every change is applied
+// in one transaction.
+export async function importSkillCatalogue(
+  input: ImportSkillCatalogueInput,
+  actor: AuditActor = SYSTEM_ACTOR
+): Promise<CatalogueDiff> {
+  try {
+    const rows = parseCatalogue(input.format, input.content);
+    const dryRun = input.dry_run ?? true;
+
+    if (dryRun) {
+      const { diff } = await planImport(db, rows, input.deactivate_missing ?? false);
+      return diff;
+    }
+
+    return await db.transaction(async (tx) => {
+      const { planned, missing, categories, diff } = await planImport(tx, rows, input.deactivate_missing ?? false);
+
+      for (const entry of planned) {
+        const { row, skill, changes } = entry;
+
+        if (skill === null) {
+          const category = await categories.ensure(entry.path, tx);
+          const created = await tx.insert(skillsTable)
+            .values({
+              name: row.name,
+              category: category.name,
+              category_id: category.id,
+              description: row.description ?? null,
+              icon: row.icon ?? null,
+              validity_days: row.validity_days ?? null,
+              is_active: row.is_active ?? true
+            })
+            .returning()
+            .execute();
+
+          if (row.aliases !== undefined) {
+            await replaceAliases(tx, created[0].id, row.aliases);
+          }
+          continue;
+        }
+
+        const updateData: Partial<typeof skillsTable.$inferInsert> = {};
+        if (changes['name']) {
+          updateData.name = row.name;
+        }
+        if (changes['category']) {
+          const category = await categories.ensure(entry.path, tx);
+          updateData.category_id = category.id;
+          updateData.category = category.name;
+        }
+        if (changes['description']) {
+          updateData.description = row.description;
+        }
+        if (changes['icon']) {
+          updateData.icon = row.icon;
+        }
+        if (changes['validity_days']) {
+          updateData.validity_days = row.validity_days;
+        }
+        if (changes['is_active'] || entry.deactivate) {
+          updateData.is_active = !entry.deactivate;
+        }
+
+        if (Object.keys(updateData).length > 0) {
+          await tx.update(skillsTable)
+            .set(updateData)
+            .where(eq(skillsTable.id, skill.id))
+            .execute();
+        }
+
+        if (changes['aliases']) {
+          await replaceAliases(tx, skill.id, row.aliases!);
+        }
+
+        if (changes['validity_days']) {
+          await syncVerificationExpiry(skill.id, tx);
+        }
+      }
+
+      if (missing.length > 0) {
+        await tx.update(skillsTable)
+          .set({ is_active: false })
+          .where(inArray(skillsTable.id, missing.map(skill => skill.id)))
+          .execute();
+      }
+
+      await recordAuditEvent(actor, {
+        action: 'skill_catalogue.imported',
+        target_type: 'skill_catalogue',
+        target_id: null,
+        after: {
+          format: input.format,
+          created: diff.created.length,
+          updated: diff.updated.length,
+          deactivated: diff.deactivated.length,
+          categories_created: diff.categories_created.length
+        }
+      }, tx);
+
+      return { ...diff, applied: true };
+    });
+  } catch (error) {
+    console.error('Skill catalogue import failed:', error);
+    throw error;
+  }
+}
+
+// The whole catalogue, inactive skills included, in the same shape the import reads
+export async function exportSkillCatalogue(format: CatalogueFormat): Promise<SkillCatalogueExport> {
+  try {
+    const skills = await db.select()
+      .from(skillsTable)
+      .where(notInArray(skillsTable.id, db.select({ id: skillMergesTable.source_skill_id }).from(skillMergesTable)))
+      .execute();
+    const aliases = await db.select().from(skillAliasesTable).orderBy(asc(skillAliasesTable.id)).execute();
+    const categories = createCategoryIndex(await db.select().from(skillCategoriesTable).execute());
+
+    const rows: CatalogueRow[] = skills
+      .map(skill => ({
+        id: skill.id,
+        name: skill.name,
+        category: (skill.category_id !== null ? categories.pathOf(skill.category_id) : [skill.category]).join(CATEGORY_SEPARATOR),
+        description: skill.description,
+        icon: skill.icon,
+        aliases: aliases.filter(alias => alias.skill_id === skill.id).map(alias => alias.alias),
+        validity_days: skill.validity_days,
+        is_active: skill.is_active
+      }))
+      .sort((a, b) => a.category.localeCompare(b.category) || a.name.localeCompare(b.name));
+
+    const content = format === 'json'
+      ? JSON.stringify(rows, null, 2)
+      : stringifyCsv([
+        [...CSV_COLUMNS],
+        ...rows.map(row => [
+          String(row.id),
+          row.name,
+          row.category,
+          row.description ?? '',
+          row.icon ?? '',
+          row.aliases!.join(ALIAS_SEPARATOR),
+          row.validity_days !== null && row.validity_days !== undefined ? String(row.validity_days) : '',
+          String(row.is_active)
+        ])
+      ]);
+
+    return { format, content, skill_count: rows.length };
+  } catch (error) {
+    console.error('Skill catalogue export failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,258 @@
+import { db } from '../db';
+import { skillCategoriesTable, skillsTable } from '../db/schema';
+import {
+  type Skill,
+  type SkillCategory,
+  type SkillCategoryNode,
+  type CreateSkillCategoryInput,
+  type UpdateSkillCategoryInput
+} from '../schema';
+import { eq, and, asc, isNull, inArray, SQL, sql } from 'drizzle-orm';
+
+type Executor = Pick<typeof db, 'select' | 'insert'>;
+
+// "Plumbing", "plumbing " and "Plumbing!" all become "plumbing"
+// Empty when the name has no letters or digits that survive transliteration
+function categorySlug(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+export function slugifyCategory(name: string): string {
+  const slug = categorySlug(name);
+
+  if (!slug) {
+    throw new Error('Category name must contain letters or digits');
+  }
+
+  return slug;
+}
+
+// Ids of the category and everything below it, for use inside inArray()
+export function categorySubtree(categoryId: number): SQL {
+  return sql`(
+    with recursive subtree(id) as (
+      select ${categoryId}::integer
+      union all
+      select child.id from ${skillCategoriesTable} child join subtree on child.parent_id = subtree.id
+    )
+    select id from subtree
+  )`;
+}
+
+// Files a free-text category under the top-level category with the same slug, creating it if needed
+export async function findOrCreateCategory(name: string, executor: Executor = db): Promise<SkillCategory> {
+  const slug = slugifyCategory(name);
+
+  await executor.insert(skillCategoriesTable)
+    .values({ name: name.trim(), slug })
+    .onConflictDoNothing({ target: skillCategoriesTable.slug })
+    .execute();
+
+  const categories = await executor.select()
+    .from(skillCategoriesTable)
+    .where(eq(skillCategoriesTable.slug, slug))
+    .execute();
+
+  return categories[0];
+}
+
+export async function getCategory(categoryId: number): Promise<SkillCategory> {
+  const categories = await db.select()
+    .from(skillCategoriesTable)
+    .where(eq(skillCategoriesTable.id, categoryId))
+    .execute();
+
+  if (categories.length === 0) {
+    throw new Error('Category not found');
+  }
+
+  return categories[0];
+}
+
+// Nests the categories and files each skill under its own category. With a root id only
+// that category's subtree is returned.
+export async function buildCategoryTree(skills: Skill[], rootId?: number): Promise<SkillCategoryNode[]> {
+  const categories = await db.select()
+    .from(skillCategoriesTable)
+    .where(rootId !== undefined ? inArray(skillCategoriesTable.id, categorySubtree(rootId)) : undefined)
+    .orderBy(asc(skillCategoriesTable.sort_order), asc(skillCategoriesTable.name))
+    .execute();
+
+  const nodes = new Map<number, SkillCategoryNode>();
+  for (const category of categories) {
+    nodes.set(category.id, { ...category, skills: [], children: [] });
+  }
+
+  for (const skill of skills) {
+    if (skill.category_id !== null) {
+      nodes.get(skill.category_id)?.skills.push(skill);
+    }
+  }
+
+  const roots: SkillCategoryNode[] = [];
+  for (const node of nodes.values()) {
+    const parent = node.id !== rootId && node.parent_id !== null ? nodes.get(node.parent_id) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  return roots;
+}
+
+export async function createSkillCategory(input: CreateSkillCategoryInput): Promise<SkillCategory> {
+  try {
+    if (input.parent_id !== undefined && input.parent_id !== null) {
+      await getCategory(input.parent_id);
+    }
+
+    const slug = input.slug ?? slugifyCategory(input.name);
+    await assertSlugAvailable(slug);
+
+    const results = await db.insert(skillCategoriesTable)
+      .values({
+        name: input.name,
+        slug,
+        parent_id: input.parent_id ?? null,
+        sort_order: input.sort_order ?? 0,
+        icon: input.icon ?? null
+      })
+      .returning()
+      .execute();
+
+    return results[0];
+  } catch (error) {
+    console.error('Failed to create skill category:', error);
+    throw error;
+  }
+}
+
+export async function updateSkillCategory(input: UpdateSkillCategoryInput): Promise<SkillCategory> {
+  try {
+    const existing = await getCategory(input.id);
+
+    if (input.parent_id !== undefined && input.parent_id !== null) {
+      await getCategory(input.parent_id);
+
+      // The new parent may not sit inside the subtree being moved
+      const inSubtree = await db.select({ id: skillCategoriesTable.id })
+        .from(skillCategoriesTable)
+        .where(
+          and(
+            eq(skillCategoriesTable.id, input.parent_id),
+            inArray(skillCategoriesTable.id, categorySubtree(input.id))
+          )
+        )
+        .execute();
+
+      if (inSubtree.length > 0) {
+        throw new Error('A category cannot be moved under itself or its descendants');
+      }
+    }
+
+    if (input.slug !== undefined && input.slug !== existing.slug) {
+      await assertSlugAvailable(input.slug);
+    }
+
+    const updateData: Partial<typeof skillCategoriesTable.$inferInsert> = {};
+
+    if (input.name !== undefined) {
+      updateData.name = input.name;
+    }
+    if (input.slug !== undefined) {
+      updateData.slug = input.slug;
+    }
+    if (input.parent_id !== undefined) {
+      updateData.parent_id = input.parent_id;
+    }
+    if (input.sort_order !== undefined) {
+      updateData.sort_order = input.sort_order;
+    }
+    if (input.icon !== undefined) {
+      updateData.icon = input.icon;
+    }
+
+    if (Object.keys(updateData).length === 0) {
+      return existing;
+    }
+
+    return await db.transaction(async (tx) => {
+      const results = await tx.update(skillCategoriesTable)
+        .set(updateData)
+        .where(eq(skillCategoriesTable.id, input.id))
+        .returning()
+        .execute();
+
+      // Keep the display name stored on skills in step with a rename
+      if (input.name !== undefined) {
+        await tx.update(skillsTable)
+          .set({ category: input.name })
+          .where(eq(skillsTable.category_id, input.id))
+          .execute();
+      }
+
+      return results[0];
+    });
+  } catch (error) {
+    console.error('Failed to update skill category:', error);
+    throw error;
+  }
+}
+
+// Files every skill that still only has a free-text category into the taxonomy. Categories
+// that differ only in case or punctuation end up as one; the first spelling seen wins.
+// Categories with no letters or digits to build a slug from are skipped and their skills
+// reported, so an admin can file them by hand. Safe to run repeatedly.
+export async function migrateSkillCategories(): Promise<{ categorized: number; skipped: number[] }> {
+  try {
+    return await db.transaction(async (tx) => {
+      const uncategorized = await tx.select({ id: skillsTable.id, category: skillsTable.category })
+        .from(skillsTable)
+        .where(isNull(skillsTable.category_id))
+        .orderBy(asc(skillsTable.id))
+        .execute();
+
+      let categorized = 0;
+      const skipped: number[] = [];
+      for (const skill of uncategorized) {
+        const name = skill.category.trim() || 'Uncategorized';
+        if (!categorySlug(name)) {
+          skipped.push(skill.id);
+          continue;
+        }
+
+        const category = await findOrCreateCategory(name, tx);
+
+        await tx.update(skillsTable)
+          .set({ category_id: category.id, category: category.name })
+          .where(eq(skillsTable.id, skill.id))
+          .execute();
+
+        categorized++;
+      }
+
+      return { categorized, skipped };
+    });
+  } catch (error) {
+    console.error('Skill category migration failed:', error);
+    throw error;
+  }
+}
+
+async function assertSlugAvailable(slug: string): Promise<void> {
+  const taken = await db.select({ id: skillCategoriesTable.id })
+    .from(skillCategoriesTable)
+    .where(eq(skillCategoriesTable.slug, slug))
+    .execute();
+
+  if (taken.length > 0) {
+    throw new Error(`Category slug "${slug}" is already in use`);
+  }
+}
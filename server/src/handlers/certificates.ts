@@ -1,15 +1,16 @@
 import { db } from '../db';
 import { certificatesTable, userSkillsTable, skillsTable, usersTable } from '../db/schema';
-import { type Certificate } from '../schema';
-import { eq, and } from 'drizzle-orm';
+import { type Certificate, type CertificateVerification, type AuditActor } from '../schema';
+import { eq, and, isNull } from 'drizzle-orm';
 import crypto from 'crypto';
+import { recordAuditEvent, SYSTEM_ACTOR } from '../lib/audit';
 
-export async function generateCertificate(userSkillId: number): Promise<Certificate> {
+export async function generateCertificate(userSkillId: number, actor: AuditActor = SYSTEM_ACTOR): Promise<Certificate> {
   try {
     // Verify that the user_skill exists and is verified
     const userSkill = await db.select()
       .from(userSkillsTable)
-      .where(eq(userSkillsTable.id, userSkillId))
+      .where(and(eq(userSkillsTable.id, userSkillId), isNull(userSkillsTable.archived_at)))
       .execute();
 
     if (!userSkill.length || !userSkill[0].is_verified) {
@@ -51,7 +52,16 @@ export async function generateCertificate(userSkillId: number): Promise<Certific
       .returning()
       .execute();
 
-    return result[0];
+    const certificate = result[0];
+
+    await recordAuditEvent(actor, {
+      action: 'certificate.issued',
+      target_type: 'certificate',
+      target_id: certificate.id,
+      after: { user_skill_id: userSkillId, certificate_number: certificate.certificate_number }
+    });
+
+    return certificate;
   } catch (error) {
     console.error('Certificate generation failed:', error);
     throw error;
@@ -97,10 +107,18 @@ export async function getUserCertificates(userId: number): Promise<Certificate[]
   }
 }
 
-export async function verifyCertificate(certificateNumber: string): Promise<Certificate | null> {
+export async function verifyCertificate(certificateNumber: string): Promise<CertificateVerification | null> {
   try {
-    const results = await db.select()
+    const results = await db.select({
+      certificate: certificatesTable,
+      skill_name: skillsTable.name,
+      holder_name: usersTable.full_name,
+      holder_deleted_at: usersTable.deleted_at
+    })
       .from(certificatesTable)
+      .innerJoin(userSkillsTable, eq(certificatesTable.user_skill_id, userSkillsTable.id))
+      .innerJoin(skillsTable, eq(userSkillsTable.skill_id, skillsTable.id))
+      .innerJoin(usersTable, eq(userSkillsTable.user_id, usersTable.id))
       .where(
         and(
           eq(certificatesTable.certificate_number, certificateNumber),
@@ -109,7 +127,20 @@ export async function verifyCertificate(certificateNumber: string): Promise<Cert
       )
       .execute();
 
-    return results.length > 0 ? results[0] : null;
+    if (results.length === 0) {
+      return null;
+    }
+
+    // Certificates outlive account deletion; only the holder's identity is withheld
+    const { certificate, skill_name, holder_name, holder_deleted_at } = results[0];
+    const withdrawn = holder_deleted_at !== null;
+
+    return {
+      ...certificate,
+      skill_name,
+      holder_name: withdrawn ? null : holder_name,
+      note: withdrawn ? 'Valid certificate; holder withdrew consent to display name' : null
+    };
   } catch (error) {
     console.error('Certificate verification failed:', error);
     throw error;
@@ -144,7 +175,8 @@ export async function downloadCertificate(certificateId: number): Promise<{ url:
     const cert = certificate[0];
     
     // Generate filename with user name and skill
-    const sanitizedUserName = cert.user.full_name.replace(/[^a-zA-Z0-9]/g, '_');
+    const holderName = cert.user.deleted_at === null ? cert.user.full_name : 'Certificate_Holder';
+    const sanitizedUserName = holderName.replace(/[^a-zA-Z0-9]/g, '_');
     const sanitizedSkillName = cert.skill.name.replace(/[^a-zA-Z0-9]/g, '_');
     const filename = `${sanitizedUserName}_${sanitizedSkillName}_Certificate.pdf`;
 
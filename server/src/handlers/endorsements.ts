@@ -0,0 +1,202 @@
+import { db } from '../db';
+import {
+  usersTable,
+  userSkillsTable,
+  endorsementsTable,
+  jobListingsTable,
+  jobApplicationsTable
+} from '../db/schema';
+import { type Endorsement, type EndorseSkillInput, type AuditActor } from '../schema';
+import { eq, and, asc, gte, inArray, isNull, count } from 'drizzle-orm';
+import { recordAuditEvent, SYSTEM_ACTOR } from '../lib/audit';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// An endorser can vouch for only so many skills a day, and for only so many of one worker's
+// skills a week, so endorsements stay worth reading
+const DAILY_ENDORSEMENT_LIMIT = 10;
+const WEEKLY_ENDORSEMENTS_PER_WORKER = 5;
+
+export async function endorseSkill(
+  endorserId: number,
+  input: EndorseSkillInput,
+  actor: AuditActor = SYSTEM_ACTOR
+): Promise<Endorsement> {
+  try {
+    const userSkills = await db.select({ id: userSkillsTable.id, user_id: userSkillsTable.user_id })
+      .from(userSkillsTable)
+      .innerJoin(usersTable, eq(userSkillsTable.user_id, usersTable.id))
+      .where(
+        and(
+          eq(userSkillsTable.id, input.user_skill_id),
+          isNull(userSkillsTable.archived_at),
+          isNull(usersTable.deleted_at)
+        )
+      )
+      .execute();
+
+    if (userSkills.length === 0) {
+      throw new Error('User skill not found');
+    }
+
+    const workerId = userSkills[0].user_id;
+
+    if (workerId === endorserId) {
+      throw new Error('You cannot endorse your own skills');
+    }
+
+    const endorsers = await db.select({ full_name: usersTable.full_name, is_verified: usersTable.is_verified })
+      .from(usersTable)
+      .where(and(eq(usersTable.id, endorserId), isNull(usersTable.deleted_at)))
+      .execute();
+
+    if (endorsers.length === 0) {
+      throw new Error('Endorser not found');
+    }
+
+    const endorser = endorsers[0];
+
+    // Unverified employers still count when they hired this worker through one of their listings
+    if (!endorser.is_verified) {
+      const hires = await db.select({ id: jobApplicationsTable.id })
+        .from(jobApplicationsTable)
+        .innerJoin(jobListingsTable, eq(jobApplicationsTable.job_listing_id, jobListingsTable.id))
+        .where(
+          and(
+            eq(jobApplicationsTable.applicant_id, workerId),
+            eq(jobApplicationsTable.status, 'hired'),
+            eq(jobListingsTable.employer_id, endorserId)
+          )
+        )
+        .execute();
+
+      if (hires.length === 0) {
+        throw new Error('Only verified employers or employers who hired this worker on the platform can endorse');
+      }
+    }
+
+    const now = Date.now();
+
+    const today = await db.select({ count: count() })
+      .from(endorsementsTable)
+      .where(
+        and(
+          eq(endorsementsTable.endorser_id, endorserId),
+          gte(endorsementsTable.created_at, new Date(now - DAY_MS))
+        )
+      )
+      .execute();
+
+    if ((today[0]?.count ?? 0) >= DAILY_ENDORSEMENT_LIMIT) {
+      throw new Error('Daily endorsement limit reached; try again tomorrow');
+    }
+
+    const thisWeek = await db.select({ count: count() })
+      .from(endorsementsTable)
+      .innerJoin(userSkillsTable, eq(endorsementsTable.user_skill_id, userSkillsTable.id))
+      .where(
+        and(
+          eq(endorsementsTable.endorser_id, endorserId),
+          eq(userSkillsTable.user_id, workerId),
+          gte(endorsementsTable.created_at, new Date(now - 7 * DAY_MS))
+        )
+      )
+      .execute();
+
+    if ((thisWeek[0]?.count ?? 0) >= WEEKLY_ENDORSEMENTS_PER_WORKER) {
+      throw new Error('Weekly endorsement limit for this worker reached');
+    }
+
+    const results = await db.insert(endorsementsTable)
+      .values({
+        user_skill_id: input.user_skill_id,
+        endorser_id: endorserId,
+        relationship: input.relationship,
+        statement: input.statement
+      })
+      .onConflictDoNothing()
+      .returning()
+      .execute();
+
+    if (results.length === 0) {
+      throw new Error('You have already endorsed this skill');
+    }
+
+    const endorsement = results[0];
+
+    await recordAuditEvent(actor, {
+      action: 'endorsement.created',
+      target_type: 'user_skill',
+      target_id: endorsement.user_skill_id,
+      after: { endorsement_id: endorsement.id, relationship: endorsement.relationship }
+    });
+
+    return { ...endorsement, endorser_name: endorser.full_name };
+  } catch (error) {
+    console.error('Endorsing skill failed:', error);
+    throw error;
+  }
+}
+
+// Endorsers can take back their own endorsements
+export async function removeEndorsement(
+  endorserId: number,
+  endorsementId: number,
+  actor: AuditActor = SYSTEM_ACTOR
+): Promise<{ success: boolean }> {
+  try {
+    const results = await db.delete(endorsementsTable)
+      .where(and(eq(endorsementsTable.id, endorsementId), eq(endorsementsTable.endorser_id, endorserId)))
+      .returning()
+      .execute();
+
+    if (results.length === 0) {
+      throw new Error('Endorsement not found');
+    }
+
+    await recordAuditEvent(actor, {
+      action: 'endorsement.removed',
+      target_type: 'user_skill',
+      target_id: results[0].user_skill_id,
+      before: { endorsement_id: results[0].id, relationship: results[0].relationship }
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Removing endorsement failed:', error);
+    throw error;
+  }
+}
+
+// Endorsements of a skill the worker removed stay on file as history but are no longer shown
+export async function getSkillEndorsements(userSkillId: number): Promise<Endorsement[]> {
+  try {
+    const results = await db.select({ endorsement: endorsementsTable, endorser_name: usersTable.full_name })
+      .from(endorsementsTable)
+      .innerJoin(usersTable, eq(endorsementsTable.endorser_id, usersTable.id))
+      .innerJoin(userSkillsTable, eq(endorsementsTable.user_skill_id, userSkillsTable.id))
+      .where(and(eq(endorsementsTable.user_skill_id, userSkillId), isNull(userSkillsTable.archived_at)))
+      .orderBy(asc(endorsementsTable.created_at), asc(endorsementsTable.id))
+      .execute();
+
+    return results.map(result => ({ ...result.endorsement, endorser_name: result.endorser_name }));
+  } catch (error) {
+    console.error('Getting skill endorsements failed:', error);
+    throw error;
+  }
+}
+
+// Endorsement count per user skill; skills without endorsements are left out of the map
+export async function countEndorsements(userSkillIds: number[]): Promise<Map<number, number>> {
+  if (userSkillIds.length === 0) {
+    return new Map();
+  }
+
+  const results = await db.select({ user_skill_id: endorsementsTable.user_skill_id, count: count() })
+    .from(endorsementsTable)
+    .where(inArray(endorsementsTable.user_skill_id, userSkillIds))
+    .groupBy(endorsementsTable.user_skill_id)
+    .execute();
+
+  return new Map(results.map(result => [result.user_skill_id, result.count]));
+}
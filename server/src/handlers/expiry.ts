@@ -0,0 +1,149 @@
+import { db } from '../db';
+import { usersTable, skillsTable, userSkillsTable } from '../db/schema';
+import { eq, and, gt, lte, inArray, isNull, isNotNull, sql } from 'drizzle-orm';
+import { parseDuration } from '../lib/jwt';
+import { sendMail, APP_URL } from '../lib/mail';
+import { recordAuditEvent, SYSTEM_ACTOR } from '../lib/audit';
+
+const SKILL_EXPIRY_REMINDER_WINDOW = process.env['SKILL_EXPIRY_REMINDER_WINDOW'] || '30d';
+
+type Executor = Pick<typeof db, 'update'>;
+
+// Brings expires_at in line with the verification date and the skill's validity. Verifications
+// are renewed by setting a new verification date, and validity periods can change, so this
+// recomputes instead of only filling gaps. Lapsed verifications keep the expiry they had.
+export async function syncVerificationExpiry(skillId?: number, executor: Executor = db): Promise<number> {
+  const expiry = sql`${userSkillsTable.verification_date} + make_interval(days => ${skillsTable.validity_days})`;
+
+  const results = await executor.update(userSkillsTable)
+    .set({ expires_at: expiry, expiry_reminder_sent_at: null })
+    .from(skillsTable)
+    .where(
+      and(
+        eq(userSkillsTable.skill_id, skillsTable.id),
+        eq(userSkillsTable.is_verified, true),
+        isNotNull(userSkillsTable.verification_date),
+        skillId !== undefined ? eq(skillsTable.id, skillId) : undefined,
+        sql`${userSkillsTable.expires_at} is distinct from ${expiry}`
+      )
+    )
+    .returning({ id: userSkillsTable.id })
+    .execute();
+
+  return results.length;
+}
+
+// Run periodically. Reminds workers whose verification runs out within the reminder window,
+// then turns verifications past their expiry back off so the skill has to be proven again.
+// The verified level goes with the verification and is re-derived when the skill is verified
+// again (see evaluateSkillLevel). Skills the worker removed are left as they were archived.
+export async function processSkillExpiries(now: Date = new Date()): Promise<{ reminded: number; expired: number }> {
+  try {
+    await syncVerificationExpiry();
+
+    const reminderHorizon = new Date(now.getTime() + parseDuration(SKILL_EXPIRY_REMINDER_WINDOW) * 1000);
+
+    const expiring = await db.select({
+      user_skill_id: userSkillsTable.id,
+      expires_at: userSkillsTable.expires_at,
+      skill_name: skillsTable.name,
+      full_name: usersTable.full_name,
+      email: usersTable.email
+    })
+      .from(userSkillsTable)
+      .innerJoin(skillsTable, eq(userSkillsTable.skill_id, skillsTable.id))
+      .innerJoin(usersTable, eq(userSkillsTable.user_id, usersTable.id))
+      .where(
+        and(
+          eq(userSkillsTable.is_verified, true),
+          isNull(userSkillsTable.archived_at),
+          gt(userSkillsTable.expires_at, now),
+          lte(userSkillsTable.expires_at, reminderHorizon),
+          isNull(userSkillsTable.expiry_reminder_sent_at),
+          isNull(usersTable.deleted_at)
+        )
+      )
+      .execute();
+
+    let reminded = 0;
+    for (const entry of expiring) {
+      // A failed delivery leaves the reminder unsent so the next run tries again
+      try {
+        await sendMail({
+          to: entry.email,
+          subject: `Your ${entry.skill_name} verification expires soon`,
+          text: `Hi ${entry.full_name},\n\nYour verification for ${entry.skill_name} expires on ${entry.expires_at!.toUTCString()}. Upload fresh proof or retake the skill tests before then to keep it on your marketplace profile:\n${APP_URL}/skills`
+        });
+      } catch (error) {
+        console.error('Skill expiry reminder delivery failed:', error);
+        continue;
+      }
+
+      await db.update(userSkillsTable)
+        .set({ expiry_reminder_sent_at: now })
+        .where(eq(userSkillsTable.id, entry.user_skill_id))
+        .execute();
+
+      reminded++;
+    }
+
+    const lapsed = await db.select({ id: userSkillsTable.id, verified_level: userSkillsTable.verified_level })
+      .from(userSkillsTable)
+      .where(
+        and(
+          eq(userSkillsTable.is_verified, true),
+          isNull(userSkillsTable.archived_at),
+          lte(userSkillsTable.expires_at, now)
+        )
+      )
+      .execute();
+
+    const expired = lapsed.length === 0 ? [] : await db.update(userSkillsTable)
+      .set({ is_verified: false, verified_level: null })
+      .where(
+        and(
+          inArray(userSkillsTable.id, lapsed.map(userSkill => userSkill.id)),
+          eq(userSkillsTable.is_verified, true)
+        )
+      )
+      .returning()
+      .execute();
+
+    for (const userSkill of expired) {
+      const verifiedLevel = lapsed.find(entry => entry.id === userSkill.id)!.verified_level;
+
+      await recordAuditEvent(SYSTEM_ACTOR, {
+        action: 'user_skill.verification_expired',
+        target_type: 'user_skill',
+        target_id: userSkill.id,
+        before: { is_verified: true, verified_level: verifiedLevel },
+        after: { is_verified: false, verified_level: null, expires_at: userSkill.expires_at }
+      });
+
+      const details = await db.select({ skill_name: skillsTable.name, full_name: usersTable.full_name, email: usersTable.email })
+        .from(skillsTable)
+        .innerJoin(usersTable, eq(usersTable.id, userSkill.user_id))
+        .where(and(eq(skillsTable.id, userSkill.skill_id), isNull(usersTable.deleted_at)))
+        .execute();
+
+      if (details.length === 0) {
+        continue;
+      }
+
+      try {
+        await sendMail({
+          to: details[0].email,
+          subject: `Your ${details[0].skill_name} verification has expired`,
+          text: `Hi ${details[0].full_name},\n\nYour verification for ${details[0].skill_name} expired and no longer shows on the marketplace. Upload fresh proof or retake the skill tests to verify it again:\n${APP_URL}/skills`
+        });
+      } catch (error) {
+        console.error('Skill expiry notice delivery failed:', error);
+      }
+    }
+
+    return { reminded, expired: expired.length };
+  } catch (error) {
+    console.error('Skill expiry processing failed:', error);
+    throw error;
+  }
+}
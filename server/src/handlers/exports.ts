@@ -0,0 +1,325 @@
+import { db } from '../db';
+import {
+  usersTable,
+  userSkillsTable,
+  skillsTable,
+  skillProofsTable,
+  testAttemptsTable,
+  certificatesTable,
+  endorsementsTable,
+  jobListingsTable,
+  jobApplicationsTable,
+  dataExportsTable
+} from '../db/schema';
+import { type DataExport, type DataExportDownload, type AuditActor } from '../schema';
+import { eq, and, asc, desc, ne, lt } from 'drizzle-orm';
+import { generateOpaqueToken, hashOpaqueToken } from '../lib/tokens';
+import { parseDuration } from '../lib/jwt';
+import { sendMail, APP_URL } from '../lib/mail';
+import { runInBackground } from '../lib/jobs';
+import { recordAuditEvent, SYSTEM_ACTOR } from '../lib/audit';
+
+const DATA_EXPORT_LINK_TTL = process.env['DATA_EXPORT_LINK_TTL'] || '48h';
+const DATA_EXPORT_BUILD_TIMEOUT = process.env['DATA_EXPORT_BUILD_TIMEOUT'] || '15m';
+const ARCHIVE_FORMAT_VERSION = 1;
+
+// Hides the archive and token hash from status listings
+function toDataExport(row: typeof dataExportsTable.$inferSelect): DataExport {
+  const { archive: _archive, download_token_hash: _tokenHash, ...dataExport } = row;
+  return dataExport;
+}
+
+// Test answers are stored as JSON text; keep the raw value if it does not parse
+function parseAnswers(answers: string): unknown {
+  try {
+    return JSON.parse(answers);
+  } catch {
+    return answers;
+  }
+}
+
+// Everything we hold about the user, as plain JSON. Applications other people sent to the
+// user's listings are left out because they are the applicants' personal data, not theirs.
+async function assembleArchive(userId: number): Promise<Record<string, unknown>> {
+  const users = await db.select()
+    .from(usersTable)
+    .where(eq(usersTable.id, userId))
+    .execute();
+
+  if (users.length === 0) {
+    throw new Error('User not found');
+  }
+
+  const { password_hash: _passwordHash, ...user } = users[0];
+
+  const userSkills = await db.select({
+    id: userSkillsTable.id,
+    skill_id: userSkillsTable.skill_id,
+    skill_name: skillsTable.name,
+    is_verified: userSkillsTable.is_verified,
+    verification_date: userSkillsTable.verification_date,
+    claimed_level: userSkillsTable.claimed_level,
+    verified_level: userSkillsTable.verified_level,
+    expires_at: userSkillsTable.expires_at,
+    archived_at: userSkillsTable.archived_at,
+    created_at: userSkillsTable.created_at
+  })
+    .from(userSkillsTable)
+    .innerJoin(skillsTable, eq(userSkillsTable.skill_id, skillsTable.id))
+    .where(eq(userSkillsTable.user_id, userId))
+    .orderBy(asc(userSkillsTable.id))
+    .execute();
+
+  const proofs = await db.select({ proof: skillProofsTable })
+    .from(skillProofsTable)
+    .innerJoin(userSkillsTable, eq(skillProofsTable.user_skill_id, userSkillsTable.id))
+    .where(eq(userSkillsTable.user_id, userId))
+    .orderBy(asc(skillProofsTable.id))
+    .execute();
+
+  const attempts = await db.select({ attempt: testAttemptsTable })
+    .from(testAttemptsTable)
+    .innerJoin(userSkillsTable, eq(testAttemptsTable.user_skill_id, userSkillsTable.id))
+    .where(eq(userSkillsTable.user_id, userId))
+    .orderBy(asc(testAttemptsTable.id))
+    .execute();
+
+  const certificates = await db.select({ certificate: certificatesTable })
+    .from(certificatesTable)
+    .innerJoin(userSkillsTable, eq(certificatesTable.user_skill_id, userSkillsTable.id))
+    .where(eq(userSkillsTable.user_id, userId))
+    .orderBy(asc(certificatesTable.id))
+    .execute();
+
+  const endorsementsReceived = await db.select({ endorsement: endorsementsTable, endorser_name: usersTable.full_name })
+    .from(endorsementsTable)
+    .innerJoin(userSkillsTable, eq(endorsementsTable.user_skill_id, userSkillsTable.id))
+    .innerJoin(usersTable, eq(endorsementsTable.endorser_id, usersTable.id))
+    .where(eq(userSkillsTable.user_id, userId))
+    .orderBy(asc(endorsementsTable.id))
+    .execute();
+
+  const endorsementsGiven = await db.select()
+    .from(endorsementsTable)
+    .where(eq(endorsementsTable.endorser_id, userId))
+    .orderBy(asc(endorsementsTable.id))
+    .execute();
+
+  const jobListings = await db.select()
+    .from(jobListingsTable)
+    .where(eq(jobListingsTable.employer_id, userId))
+    .orderBy(asc(jobListingsTable.id))
+    .execute();
+
+  const jobApplications = await db.select({
+    application: jobApplicationsTable,
+    job_title: jobListingsTable.title
+  })
+    .from(jobApplicationsTable)
+    .innerJoin(jobListingsTable, eq(jobApplicationsTable.job_listing_id, jobListingsTable.id))
+    .where(eq(jobApplicationsTable.applicant_id, userId))
+    .orderBy(asc(jobApplicationsTable.id))
+    .execute();
+
+  const skillProofs = proofs.map(({ proof }) => ({
+    ...proof,
+    ai_verification_score: proof.ai_verification_score ? parseFloat(proof.ai_verification_score) : null
+  }));
+
+  // Round trip through JSON so dates are stored as ISO strings, exactly as downloaded
+  return JSON.parse(JSON.stringify({
+    format_version: ARCHIVE_FORMAT_VERSION,
+    generated_at: new Date(),
+    user: { ...user, rating: user.rating ? parseFloat(user.rating) : null },
+    user_skills: userSkills,
+    skill_proofs: skillProofs,
+    test_attempts: attempts.map(({ attempt }) => ({ ...attempt, answers: parseAnswers(attempt.answers) })),
+    certificates: certificates.map(({ certificate }) => certificate),
+    endorsements_received: endorsementsReceived.map(({ endorsement, endorser_name }) => ({ ...endorsement, endorser_name })),
+    endorsements_given: endorsementsGiven,
+    job_listings: jobListings,
+    job_applications: jobApplications.map(({ application, job_title }) => ({ ...application, job_title })),
+    proof_files: skillProofs.map(proof => ({ proof_id: proof.id, file_url: proof.file_url, file_type: proof.file_type }))
+  }));
+}
+
+// Builds the archive and mails the download link; failures are recorded on the export
+export async function buildDataExport(exportId: number): Promise<void> {
+  const exports = await db.select()
+    .from(dataExportsTable)
+    .innerJoin(usersTable, eq(dataExportsTable.user_id, usersTable.id))
+    .where(eq(dataExportsTable.id, exportId))
+    .execute();
+
+  if (exports.length === 0 || exports[0].data_exports.status !== 'pending') {
+    return;
+  }
+
+  const { users: user } = exports[0];
+
+  try {
+    const archive = await assembleArchive(user.id);
+    const download = generateOpaqueToken();
+    const expiresAt = new Date(Date.now() + parseDuration(DATA_EXPORT_LINK_TTL) * 1000);
+
+    await db.update(dataExportsTable)
+      .set({
+        status: 'ready',
+        archive,
+        download_token_hash: download.hash,
+        download_expires_at: expiresAt,
+        completed_at: new Date()
+      })
+      .where(eq(dataExportsTable.id, exportId))
+      .execute();
+
+    await sendMail({
+      to: user.email,
+      subject: 'Your Skill-Proof data export is ready',
+      text: `Hi ${user.full_name},\n\nThe copy of your Skill-Proof data you asked for is ready. Download it with this link:\n${APP_URL}/data-export?token=${download.token}\n\nThe link expires in ${DATA_EXPORT_LINK_TTL}.`
+    });
+  } catch (error) {
+    await db.update(dataExportsTable)
+      .set({
+        status: 'failed',
+        archive: null,
+        download_token_hash: null,
+        error: error instanceof Error ? error.message : String(error),
+        completed_at: new Date()
+      })
+      .where(eq(dataExportsTable.id, exportId))
+      .execute();
+
+    throw error;
+  }
+}
+
+// Exports are built in-process, so a restart mid-build leaves one pending with nothing working
+// on it. Pending exports older than the build timeout are given up on and marked failed.
+export async function failStaleDataExports(now: Date = new Date(), userId?: number): Promise<number> {
+  const cutoff = new Date(now.getTime() - parseDuration(DATA_EXPORT_BUILD_TIMEOUT) * 1000);
+
+  const results = await db.update(dataExportsTable)
+    .set({ status: 'failed', error: 'The export did not finish in time', completed_at: now })
+    .where(
+      and(
+        eq(dataExportsTable.status, 'pending'),
+        lt(dataExportsTable.created_at, cutoff),
+        userId !== undefined ? eq(dataExportsTable.user_id, userId) : undefined
+      )
+    )
+    .returning({ id: dataExportsTable.id })
+    .execute();
+
+  return results.length;
+}
+
+export async function requestDataExport(userId: number, actor: AuditActor = SYSTEM_ACTOR): Promise<DataExport> {
+  try {
+    await failStaleDataExports(new Date(), userId);
+
+    const pending = await db.select({ id: dataExportsTable.id })
+      .from(dataExportsTable)
+      .where(
+        and(
+          eq(dataExportsTable.user_id, userId),
+          eq(dataExportsTable.status, 'pending')
+        )
+      )
+      .execute();
+
+    if (pending.length > 0) {
+      throw new Error('A data export is already being prepared');
+    }
+
+    const result = await db.insert(dataExportsTable)
+      .values({ user_id: userId })
+      .returning()
+      .execute();
+
+    const dataExport = result[0];
+
+    // Only the newest archive is kept; older links stop working
+    await db.update(dataExportsTable)
+      .set({ archive: null, download_token_hash: null })
+      .where(
+        and(
+          eq(dataExportsTable.user_id, userId),
+          ne(dataExportsTable.id, dataExport.id)
+        )
+      )
+      .execute();
+
+    await recordAuditEvent(actor, {
+      action: 'data_export.requested',
+      target_type: 'user',
+      target_id: userId,
+      after: { data_export_id: dataExport.id }
+    });
+
+    runInBackground(`data export ${dataExport.id}`, () => buildDataExport(dataExport.id));
+
+    return toDataExport(dataExport);
+  } catch (error) {
+    console.error('Data export request failed:', error);
+    throw error;
+  }
+}
+
+export async function getDataExports(userId: number): Promise<DataExport[]> {
+  try {
+    const results = await db.select()
+      .from(dataExportsTable)
+      .where(eq(dataExportsTable.user_id, userId))
+      .orderBy(desc(dataExportsTable.created_at), desc(dataExportsTable.id))
+      .execute();
+
+    return results.map(toDataExport);
+  } catch (error) {
+    console.error('Get data exports failed:', error);
+    throw error;
+  }
+}
+
+// The token in the emailed link is the only credential, so the link works from any device
+export async function downloadDataExport(token: string, actor: AuditActor = SYSTEM_ACTOR): Promise<DataExportDownload> {
+  try {
+    const results = await db.select()
+      .from(dataExportsTable)
+      .where(eq(dataExportsTable.download_token_hash, hashOpaqueToken(token)))
+      .execute();
+
+    if (results.length === 0 || results[0].archive === null) {
+      throw new Error('Invalid or expired download link');
+    }
+
+    const dataExport = results[0];
+
+    if (dataExport.download_expires_at === null || dataExport.download_expires_at.getTime() <= Date.now()) {
+      // Expired archives are not kept around
+      await db.update(dataExportsTable)
+        .set({ archive: null, download_token_hash: null })
+        .where(eq(dataExportsTable.id, dataExport.id))
+        .execute();
+
+      throw new Error('Invalid or expired download link');
+    }
+
+    await recordAuditEvent(actor, {
+      action: 'data_export.downloaded',
+      target_type: 'user',
+      target_id: dataExport.user_id,
+      after: { data_export_id: dataExport.id }
+    });
+
+    const date = (dataExport.completed_at ?? dataExport.created_at).toISOString().slice(0, 10);
+
+    return {
+      filename: `skill-proof-export-${dataExport.user_id}-${date}.json`,
+      archive: dataExport.archive as Record<string, unknown>
+    };
+  } catch (error) {
+    console.error('Data export download failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,110 @@
+import { db } from '../db';
+import { usersTable, userRolesTable, sessionsTable } from '../db/schema';
+import {
+  type StartImpersonationInput,
+  type ImpersonationSession,
+  type RequestMetadata,
+  type AuditActor
+} from '../schema';
+import { eq, and, isNull, isNotNull } from 'drizzle-orm';
+import { issueAccessToken } from '../lib/tokens';
+import { parseDuration } from '../lib/jwt';
+import { recordAuditEvent, auditActor } from '../lib/audit';
+
+const IMPERSONATION_TTL = process.env['IMPERSONATION_TTL'] || '30m';
+
+export async function startImpersonation(
+  adminId: number,
+  input: StartImpersonationInput,
+  meta: RequestMetadata = { ip_address: null, user_agent: null }
+): Promise<ImpersonationSession> {
+  try {
+    if (input.user_id === adminId) {
+      throw new Error('Cannot impersonate yourself');
+    }
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(and(eq(usersTable.id, input.user_id), isNull(usersTable.deleted_at)))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error('User not found');
+    }
+
+    // Acting as another admin would hand out their reach without their second factor
+    const adminRoles = await db.select({ id: userRolesTable.id })
+      .from(userRolesTable)
+      .where(and(eq(userRolesTable.user_id, input.user_id), eq(userRolesTable.role, 'admin')))
+      .execute();
+
+    if (adminRoles.length > 0) {
+      throw new Error('Admins cannot be impersonated');
+    }
+
+    const user = users[0];
+
+    const sessions = await db.insert(sessionsTable)
+      .values({
+        user_id: user.id,
+        impersonator_id: adminId,
+        device_label: 'Support session',
+        ip_address: meta.ip_address,
+        user_agent: meta.user_agent
+      })
+      .returning()
+      .execute();
+
+    const session = sessions[0];
+
+    await recordAuditEvent(auditActor(adminId, meta), {
+      action: 'impersonation.started',
+      target_type: 'user',
+      target_id: user.id,
+      after: { session_id: session.id, reason: input.reason }
+    });
+
+    // No refresh token: the session ends when this access token expires
+    return {
+      token: issueAccessToken({ userId: user.id, email: user.email, sessionId: session.id, impersonatorId: adminId }, IMPERSONATION_TTL),
+      session_id: session.id,
+      expires_at: new Date(Date.now() + parseDuration(IMPERSONATION_TTL) * 1000)
+    };
+  } catch (error) {
+    console.error('Impersonation start failed:', error);
+    throw error;
+  }
+}
+
+// Called with the impersonation token itself; revokes the session so the token stops working
+export async function stopImpersonation(sessionId: number, actor: AuditActor): Promise<{ success: boolean }> {
+  try {
+    const result = await db.update(sessionsTable)
+      .set({ revoked_at: new Date() })
+      .where(
+        and(
+          eq(sessionsTable.id, sessionId),
+          isNotNull(sessionsTable.impersonator_id),
+          isNull(sessionsTable.revoked_at)
+        )
+      )
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error('Not an active impersonation session');
+    }
+
+    await recordAuditEvent(actor, {
+      action: 'impersonation.stopped',
+      target_type: 'user',
+      target_id: result[0].user_id,
+      after: { session_id: sessionId }
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Impersonation stop failed:', error);
+    throw error;
+  }
+}
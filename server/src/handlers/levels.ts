@@ -0,0 +1,206 @@
+import { db } from '../db';
+import {
+  skillsTable,
+  userSkillsTable,
+  miniTestsTable,
+  testAttemptsTable,
+  skillProofsTable,
+  skillLevelRequirementsTable
+} from '../db/schema';
+import {
+  proficiencyLevelSchema,
+  type ProficiencyLevel,
+  type SkillLevel,
+  type SkillLevelRequirement,
+  type SetSkillLevelRequirementInput,
+  type UserSkill
+} from '../schema';
+import { eq, and, asc, gt, count } from 'drizzle-orm';
+import { recordAuditEvent, SYSTEM_ACTOR } from '../lib/audit';
+import { resolveSkillId } from './skills';
+import { syncVerificationExpiry } from './expiry';
+
+export const levelRank = (level: ProficiencyLevel | null): number =>
+  level === null ? -1 : proficiencyLevelSchema.options.indexOf(level);
+
+export async function getSkillLevels(requestedSkillId: number): Promise<SkillLevel[]> {
+  try {
+    const skillId = await resolveSkillId(requestedSkillId);
+    const skills = await db.select({ id: skillsTable.id })
+      .from(skillsTable)
+      .where(eq(skillsTable.id, skillId))
+      .execute();
+
+    if (skills.length === 0) {
+      throw new Error('Skill not found');
+    }
+
+    const requirements = await db.select()
+      .from(skillLevelRequirementsTable)
+      .where(eq(skillLevelRequirementsTable.skill_id, skillId))
+      .execute();
+
+    const tests = await db.select()
+      .from(miniTestsTable)
+      .where(and(eq(miniTestsTable.skill_id, skillId), eq(miniTestsTable.is_active, true)))
+      .orderBy(asc(miniTestsTable.title))
+      .execute();
+
+    return proficiencyLevelSchema.options.map(level => ({
+      level,
+      required_proofs: requirements.find(requirement => requirement.level === level)?.required_proofs ?? 0,
+      tests: tests.filter(test => test.level === level)
+    }));
+  } catch (error) {
+    console.error('Getting skill levels failed:', error);
+    throw error;
+  }
+}
+
+export async function setSkillLevelRequirement(input: SetSkillLevelRequirementInput): Promise<SkillLevelRequirement> {
+  try {
+    const skills = await db.select({ id: skillsTable.id })
+      .from(skillsTable)
+      .where(eq(skillsTable.id, input.skill_id))
+      .execute();
+
+    if (skills.length === 0) {
+      throw new Error('Skill not found');
+    }
+
+    const results = await db.insert(skillLevelRequirementsTable)
+      .values({
+        skill_id: input.skill_id,
+        level: input.level,
+        required_proofs: input.required_proofs
+      })
+      .onConflictDoUpdate({
+        target: [skillLevelRequirementsTable.skill_id, skillLevelRequirementsTable.level],
+        set: { required_proofs: input.required_proofs, updated_at: new Date() }
+      })
+      .returning()
+      .execute();
+
+    return results[0];
+  } catch (error) {
+    console.error('Setting skill level requirement failed:', error);
+    throw error;
+  }
+}
+
+// Re-checks a user skill after a passed test or a verified proof. A level counts once every
+// active test at that level has been passed and the skill has enough verified proofs for it;
+// the verified level moves up to the highest such level and never down. Reaching any level
+// verifies the skill and renews its verification date. Once a verification has lapsed, only
+// tests passed and proofs uploaded since the last verification count, so the level has to be
+// earned again rather than restored from old evidence. Removed skills are left as archived.
+export async function evaluateSkillLevel(userSkillId: number): Promise<UserSkill> {
+  const userSkills = await db.select()
+    .from(userSkillsTable)
+    .where(eq(userSkillsTable.id, userSkillId))
+    .execute();
+
+  if (userSkills.length === 0) {
+    throw new Error('User skill not found');
+  }
+
+  const userSkill = userSkills[0];
+
+  if (userSkill.archived_at !== null) {
+    return userSkill;
+  }
+
+  const lapsedSince = !userSkill.is_verified ? userSkill.verification_date : null;
+
+  const tests = await db.select({ id: miniTestsTable.id, level: miniTestsTable.level })
+    .from(miniTestsTable)
+    .where(and(eq(miniTestsTable.skill_id, userSkill.skill_id), eq(miniTestsTable.is_active, true)))
+    .execute();
+
+  const passedAttempts = await db.select({ test_id: testAttemptsTable.test_id })
+    .from(testAttemptsTable)
+    .where(
+      and(
+        eq(testAttemptsTable.user_skill_id, userSkillId),
+        eq(testAttemptsTable.passed, true),
+        lapsedSince ? gt(testAttemptsTable.started_at, lapsedSince) : undefined
+      )
+    )
+    .execute();
+  const passedTestIds = new Set(passedAttempts.map(attempt => attempt.test_id));
+
+  const requirements = await db.select()
+    .from(skillLevelRequirementsTable)
+    .where(eq(skillLevelRequirementsTable.skill_id, userSkill.skill_id))
+    .execute();
+
+  const proofResult = await db.select({ count: count() })
+    .from(skillProofsTable)
+    .where(
+      and(
+        eq(skillProofsTable.user_skill_id, userSkillId),
+        eq(skillProofsTable.upload_status, 'verified'),
+        lapsedSince ? gt(skillProofsTable.created_at, lapsedSince) : undefined
+      )
+    )
+    .execute();
+  const verifiedProofs = proofResult[0]?.count ?? 0;
+
+  let reached: ProficiencyLevel | null = null;
+  for (const level of proficiencyLevelSchema.options) {
+    const levelTests = tests.filter(test => test.level === level);
+    const requiredProofs = requirements.find(requirement => requirement.level === level)?.required_proofs ?? 0;
+
+    if (
+      levelTests.length > 0 &&
+      levelTests.every(test => passedTestIds.has(test.id)) &&
+      verifiedProofs >= requiredProofs
+    ) {
+      reached = level;
+    }
+  }
+
+  if (reached === null) {
+    return userSkill;
+  }
+
+  const promoted = levelRank(reached) > levelRank(userSkill.verified_level);
+
+  await db.update(userSkillsTable)
+    .set({
+      is_verified: true,
+      verification_date: new Date(),
+      ...(promoted ? { verified_level: reached } : {})
+    })
+    .where(eq(userSkillsTable.id, userSkillId))
+    .execute();
+
+  await syncVerificationExpiry(userSkill.skill_id);
+
+  if (!userSkill.is_verified) {
+    await recordAuditEvent(SYSTEM_ACTOR, {
+      action: 'user_skill.verified',
+      target_type: 'user_skill',
+      target_id: userSkillId,
+      before: { is_verified: false },
+      after: { is_verified: true }
+    });
+  }
+
+  if (promoted) {
+    await recordAuditEvent(SYSTEM_ACTOR, {
+      action: 'user_skill.level_promoted',
+      target_type: 'user_skill',
+      target_id: userSkillId,
+      before: { verified_level: userSkill.verified_level },
+      after: { verified_level: reached }
+    });
+  }
+
+  const result = await db.select()
+    .from(userSkillsTable)
+    .where(eq(userSkillsTable.id, userSkillId))
+    .execute();
+
+  return result[0];
+}
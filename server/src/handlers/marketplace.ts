@@ -1,18 +1,62 @@
 import { db } from '../db';
-import { usersTable, skillsTable, userSkillsTable, skillProofsTable, jobListingsTable, jobApplicationsTable } from '../db/schema';
-import { type MarketplaceWorker, type MarketplaceFilter, type JobListing, type CreateJobListingInput, type JobApplication, type ApplyForJobInput } from '../schema';
-import { eq, and, gte, ilike, isNotNull, desc, count, SQL } from 'drizzle-orm';
+import { usersTable, skillsTable, skillTranslationsTable, userSkillsTable, skillProofsTable, jobListingsTable, jobApplicationsTable } from '../db/schema';
+import { type MarketplaceWorker, type MarketplaceFilter, type JobListing, type CreateJobListingInput, type JobApplication, type ApplyForJobInput, type UpdateApplicationStatusInput, type AuditActor, type Locale } from '../schema';
+import { eq, and, or, gt, gte, lte, ilike, inArray, isNotNull, isNull, desc, count, SQL } from 'drizzle-orm';
+import { recordAuditEvent, SYSTEM_ACTOR } from '../lib/audit';
+import { categorySubtree } from './categories';
+import { resolveSkillId } from './skills';
+import { countEndorsements } from './endorsements';
+import { skillTranslationJoin, localizedSkillName } from './translations';
+import { DEFAULT_LOCALE } from '../lib/locale';
+
+// A verification counts until it expires, even before the expiry job has flipped it off.
+// Lapsed verifications are only listed on request, flagged as expired. Skills the worker
+// removed never show.
+function verificationCondition(now: Date, includeExpired: boolean): SQL {
+  const current = and(
+    isNull(userSkillsTable.archived_at),
+    eq(userSkillsTable.is_verified, true),
+    isNotNull(userSkillsTable.verification_date),
+    or(isNull(userSkillsTable.expires_at), gt(userSkillsTable.expires_at, now))
+  )!;
+
+  if (!includeExpired) {
+    return current;
+  }
+
+  return or(
+    current,
+    and(
+      isNull(userSkillsTable.archived_at),
+      isNotNull(userSkillsTable.verification_date),
+      lte(userSkillsTable.expires_at, now)
+    )
+  )!;
+}
+
+const isExpired = (expiresAt: Date | null, now: Date) => expiresAt !== null && expiresAt <= now;
 
 export async function getMarketplaceWorkers(filter: MarketplaceFilter): Promise<MarketplaceWorker[]> {
   try {
+    const now = new Date();
+    const verified = verificationCondition(now, filter.include_expired ?? false);
+
     // Build conditions array
     const conditions: SQL<unknown>[] = [
-      eq(userSkillsTable.is_verified, true),
-      isNotNull(userSkillsTable.verification_date)
+      verified,
+      isNull(usersTable.deleted_at)
     ];
 
     if (filter.skill_id !== undefined) {
-      conditions.push(eq(skillsTable.id, filter.skill_id));
+      conditions.push(eq(skillsTable.id, await resolveSkillId(filter.skill_id)));
+    }
+
+    if (filter.category_id !== undefined) {
+      conditions.push(inArray(skillsTable.category_id, categorySubtree(filter.category_id)));
+    }
+
+    if (filter.min_level !== undefined) {
+      conditions.push(gte(userSkillsTable.verified_level, filter.min_level));
     }
 
     if (filter.location) {
@@ -62,28 +106,29 @@ export async function getMarketplaceWorkers(filter: MarketplaceFilter): Promise<
     for (const user of uniqueUsers.values()) {
       // Get verified skills
       const verifiedSkills = await db.select({
-        skill_name: skillsTable.name,
+        skill_name: localizedSkillName,
         category: skillsTable.category,
-        verification_date: userSkillsTable.verification_date
+        claimed_level: userSkillsTable.claimed_level,
+        verified_level: userSkillsTable.verified_level,
+        verification_date: userSkillsTable.verification_date,
+        expires_at: userSkillsTable.expires_at,
+        user_skill_id: userSkillsTable.id
       })
       .from(userSkillsTable)
       .innerJoin(skillsTable, eq(userSkillsTable.skill_id, skillsTable.id))
-      .where(
-        and(
-          eq(userSkillsTable.user_id, user.id),
-          eq(userSkillsTable.is_verified, true),
-          isNotNull(userSkillsTable.verification_date)
-        )
-      )
+      .leftJoin(skillTranslationsTable, skillTranslationJoin(filter.locale ?? DEFAULT_LOCALE))
+      .where(and(eq(userSkillsTable.user_id, user.id), verified))
       .execute();
 
       // Get portfolio count (skill proofs count)
       const portfolioResult = await db.select({ count: count() })
         .from(skillProofsTable)
         .innerJoin(userSkillsTable, eq(skillProofsTable.user_skill_id, userSkillsTable.id))
-        .where(eq(userSkillsTable.user_id, user.id))
+        .where(and(eq(userSkillsTable.user_id, user.id), isNull(userSkillsTable.archived_at)))
         .execute();
 
+      const endorsements = await countEndorsements(verifiedSkills.map(skill => skill.user_skill_id));
+
       workers.push({
         id: user.id,
         full_name: user.full_name,
@@ -93,9 +138,15 @@ export async function getMarketplaceWorkers(filter: MarketplaceFilter): Promise<
         verified_skills: verifiedSkills.map(skill => ({
           skill_name: skill.skill_name,
           category: skill.category,
-          verification_date: skill.verification_date!
+          claimed_level: skill.claimed_level,
+          verified_level: skill.verified_level,
+          verification_date: skill.verification_date!,
+          expires_at: skill.expires_at,
+          expired: isExpired(skill.expires_at, now),
+          endorsement_count: endorsements.get(skill.user_skill_id) ?? 0
         })),
-        portfolio_count: portfolioResult[0]?.count || 0
+        portfolio_count: portfolioResult[0]?.count || 0,
+        endorsement_count: [...endorsements.values()].reduce((total, value) => total + value, 0)
       });
     }
 
@@ -106,12 +157,12 @@ export async function getMarketplaceWorkers(filter: MarketplaceFilter): Promise<
   }
 }
 
-export async function getWorkerProfile(workerId: number): Promise<MarketplaceWorker & { bio: string; contact_info: string }> {
+export async function getWorkerProfile(workerId: number, locale: Locale = DEFAULT_LOCALE): Promise<MarketplaceWorker & { bio: string; contact_info: string }> {
   try {
     // Get user details
     const userResult = await db.select()
       .from(usersTable)
-      .where(eq(usersTable.id, workerId))
+      .where(and(eq(usersTable.id, workerId), isNull(usersTable.deleted_at)))
       .execute();
 
     if (userResult.length === 0) {
@@ -119,31 +170,33 @@ export async function getWorkerProfile(workerId: number): Promise<MarketplaceWor
     }
 
     const user = userResult[0];
+    const now = new Date();
 
-    // Get verified skills
+    // Get verified skills, lapsed ones included and flagged
     const verifiedSkills = await db.select({
-      skill_name: skillsTable.name,
+      skill_name: localizedSkillName,
       category: skillsTable.category,
-      verification_date: userSkillsTable.verification_date
+      claimed_level: userSkillsTable.claimed_level,
+      verified_level: userSkillsTable.verified_level,
+      verification_date: userSkillsTable.verification_date,
+      expires_at: userSkillsTable.expires_at,
+      user_skill_id: userSkillsTable.id
     })
     .from(userSkillsTable)
     .innerJoin(skillsTable, eq(userSkillsTable.skill_id, skillsTable.id))
-    .where(
-      and(
-        eq(userSkillsTable.user_id, workerId),
-        eq(userSkillsTable.is_verified, true),
-        isNotNull(userSkillsTable.verification_date)
-      )
-    )
+    .leftJoin(skillTranslationsTable, skillTranslationJoin(locale))
+    .where(and(eq(userSkillsTable.user_id, workerId), verificationCondition(now, true)))
     .execute();
 
     // Get portfolio count
     const portfolioResult = await db.select({ count: count() })
       .from(skillProofsTable)
       .innerJoin(userSkillsTable, eq(skillProofsTable.user_skill_id, userSkillsTable.id))
-      .where(eq(userSkillsTable.user_id, workerId))
+      .where(and(eq(userSkillsTable.user_id, workerId), isNull(userSkillsTable.archived_at)))
       .execute();
 
+    const endorsements = await countEndorsements(verifiedSkills.map(skill => skill.user_skill_id));
+
     return {
       id: user.id,
       full_name: user.full_name,
@@ -153,9 +206,15 @@ export async function getWorkerProfile(workerId: number): Promise<MarketplaceWor
       verified_skills: verifiedSkills.map(skill => ({
         skill_name: skill.skill_name,
         category: skill.category,
-        verification_date: skill.verification_date!
+        claimed_level: skill.claimed_level,
+        verified_level: skill.verified_level,
+        verification_date: skill.verification_date!,
+        expires_at: skill.expires_at,
+        expired: isExpired(skill.expires_at, now),
+        endorsement_count: endorsements.get(skill.user_skill_id) ?? 0
       })),
       portfolio_count: portfolioResult[0]?.count || 0,
+      endorsement_count: [...endorsements.values()].reduce((total, value) => total + value, 0),
       bio: user.bio || '',
       contact_info: user.email
     };
@@ -165,7 +224,11 @@ export async function getWorkerProfile(workerId: number): Promise<MarketplaceWor
   }
 }
 
-export async function createJobListing(employerId: number, input: CreateJobListingInput): Promise<JobListing> {
+export async function createJobListing(
+  employerId: number,
+  input: CreateJobListingInput,
+  actor: AuditActor = SYSTEM_ACTOR
+): Promise<JobListing> {
   try {
     // Verify employer exists
     const employerResult = await db.select({ id: usersTable.id })
@@ -177,23 +240,27 @@ export async function createJobListing(employerId: number, input: CreateJobListi
       throw new Error('Employer not found');
     }
 
-    // Verify skill exists
-    const skillResult = await db.select({ id: skillsTable.id })
+    // Verify skill exists; a merged skill's id posts to the skill it became
+    const skillResult = await db.select({ id: skillsTable.id, is_active: skillsTable.is_active })
       .from(skillsTable)
-      .where(eq(skillsTable.id, input.skill_id))
+      .where(eq(skillsTable.id, await resolveSkillId(input.skill_id)))
       .execute();
 
     if (skillResult.length === 0) {
       throw new Error('Skill not found');
     }
 
+    if (!skillResult[0].is_active) {
+      throw new Error('Skill is no longer offered');
+    }
+
     // Create job listing
     const result = await db.insert(jobListingsTable)
       .values({
         employer_id: employerId,
         title: input.title,
         description: input.description,
-        skill_id: input.skill_id,
+        skill_id: skillResult[0].id,
         location: input.location,
         salary_range: input.salary_range,
         employment_type: input.employment_type
@@ -201,7 +268,16 @@ export async function createJobListing(employerId: number, input: CreateJobListi
       .returning()
       .execute();
 
-    return result[0];
+    const listing = result[0];
+
+    await recordAuditEvent(actor, {
+      action: 'job_listing.created',
+      target_type: 'job_listing',
+      target_id: listing.id,
+      after: { title: listing.title, skill_id: listing.skill_id, employment_type: listing.employment_type }
+    });
+
+    return listing;
   } catch (error) {
     console.error('Create job listing failed:', error);
     throw error;
@@ -214,7 +290,7 @@ export async function getJobListings(skillId?: number, location?: string): Promi
     const conditions: SQL<unknown>[] = [eq(jobListingsTable.is_active, true)];
 
     if (skillId !== undefined) {
-      conditions.push(eq(jobListingsTable.skill_id, skillId));
+      conditions.push(eq(jobListingsTable.skill_id, await resolveSkillId(skillId)));
     }
 
     if (location) {
@@ -235,7 +311,11 @@ export async function getJobListings(skillId?: number, location?: string): Promi
   }
 }
 
-export async function applyForJob(applicantId: number, input: ApplyForJobInput): Promise<JobApplication> {
+export async function applyForJob(
+  applicantId: number,
+  input: ApplyForJobInput,
+  actor: AuditActor = SYSTEM_ACTOR
+): Promise<JobApplication> {
   try {
     // Verify applicant exists
     const applicantResult = await db.select({ id: usersTable.id })
@@ -287,13 +367,70 @@ export async function applyForJob(applicantId: number, input: ApplyForJobInput):
       .returning()
       .execute();
 
-    return result[0];
+    const application = result[0];
+
+    await recordAuditEvent(actor, {
+      action: 'job_application.submitted',
+      target_type: 'job_application',
+      target_id: application.id,
+      after: { job_listing_id: application.job_listing_id, status: application.status }
+    });
+
+    return application;
   } catch (error) {
     console.error('Apply for job failed:', error);
     throw error;
   }
 }
 
+// Employers move applications on their own listings through the hiring pipeline
+export async function updateJobApplicationStatus(
+  employerId: number,
+  input: UpdateApplicationStatusInput,
+  actor: AuditActor = SYSTEM_ACTOR
+): Promise<JobApplication> {
+  try {
+    const existing = await db.select({ application: jobApplicationsTable })
+      .from(jobApplicationsTable)
+      .innerJoin(jobListingsTable, eq(jobApplicationsTable.job_listing_id, jobListingsTable.id))
+      .where(
+        and(
+          eq(jobApplicationsTable.id, input.application_id),
+          eq(jobListingsTable.employer_id, employerId)
+        )
+      )
+      .execute();
+
+    if (existing.length === 0) {
+      throw new Error('Job application not found or access denied');
+    }
+
+    const result = await db.update(jobApplicationsTable)
+      .set({
+        status: input.status,
+        updated_at: new Date()
+      })
+      .where(eq(jobApplicationsTable.id, input.application_id))
+      .returning()
+      .execute();
+
+    const application = result[0];
+
+    await recordAuditEvent(actor, {
+      action: 'job_application.status_changed',
+      target_type: 'job_application',
+      target_id: application.id,
+      before: { status: existing[0].application.status },
+      after: { status: application.status }
+    });
+
+    return application;
+  } catch (error) {
+    console.error('Update job application status failed:', error);
+    throw error;
+  }
+}
+
 export async function getJobApplications(userId: number, isEmployer: boolean): Promise<JobApplication[]> {
   try {
     let query;
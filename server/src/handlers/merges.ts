@@ -0,0 +1,311 @@
+import { db } from '../db';
+import {
+  skillsTable,
+  skillMergesTable,
+  skillAliasesTable,
+  skillTranslationsTable,
+  skillLevelRequirementsTable,
+  skillPrerequisitesTable,
+  userSkillsTable,
+  skillProofsTable,
+  testAttemptsTable,
+  certificatesTable,
+  endorsementsTable,
+  miniTestsTable,
+  jobListingsTable
+} from '../db/schema';
+import { type MergeSkillsInput, type SkillMergeResult, type AuditActor } from '../schema';
+import { eq, and, or, inArray, notInArray, isNull } from 'drizzle-orm';
+import { recordAuditEvent, SYSTEM_ACTOR } from '../lib/audit';
+import { levelRank } from './levels';
+import { prerequisiteClosure } from './prerequisites';
+import { syncVerificationExpiry } from './expiry';
+
+// Folds a duplicate skill into the one that survives. Everything pointing at the source moves
+// to the target; a user who had both keeps a single user skill carrying the stronger
+// verification and all proofs, attempts, certificates and endorsements of the two. The source
+// stays behind deactivated, with its name kept as an alias of the target.
+export async function mergeSkills(input: MergeSkillsInput, actor: AuditActor = SYSTEM_ACTOR): Promise<SkillMergeResult> {
+  try {
+    if (input.source_id === input.target_id) {
+      throw new Error('Cannot merge a skill into itself');
+    }
+
+    return await db.transaction(async (tx) => {
+      const skills = await tx.select()
+        .from(skillsTable)
+        .where(inArray(skillsTable.id, [input.source_id, input.target_id]))
+        .for('update')
+        .execute();
+
+      const source = skills.find(skill => skill.id === input.source_id);
+      const target = skills.find(skill => skill.id === input.target_id);
+
+      if (!source || !target) {
+        throw new Error('Skill not found');
+      }
+
+      const priorMerges = await tx.select()
+        .from(skillMergesTable)
+        .where(inArray(skillMergesTable.source_skill_id, [source.id, target.id]))
+        .execute();
+
+      if (priorMerges.some(merge => merge.source_skill_id === source.id)) {
+        throw new Error('Source skill has already been merged');
+      }
+      if (priorMerges.some(merge => merge.source_skill_id === target.id)) {
+        throw new Error('Target skill has been merged into another skill');
+      }
+
+      // Users holding both skills: combine their two user skills into the target one. Removed
+      // (archived) user skills are history and simply move across.
+      const sourceUserSkills = await tx.select()
+        .from(userSkillsTable)
+        .where(and(eq(userSkillsTable.skill_id, source.id), isNull(userSkillsTable.archived_at)))
+        .execute();
+      const targetUserSkills = await tx.select()
+        .from(userSkillsTable)
+        .where(and(eq(userSkillsTable.skill_id, target.id), isNull(userSkillsTable.archived_at)))
+        .execute();
+
+      let combined = 0;
+      for (const duplicate of sourceUserSkills) {
+        const survivor = targetUserSkills.find(userSkill => userSkill.user_id === duplicate.user_id);
+        if (!survivor) {
+          continue;
+        }
+
+        // The most recent current verification carries over; a lapsed one only when neither is current
+        const verifications = [survivor, duplicate].filter(userSkill => userSkill.verification_date !== null);
+        const current = verifications.filter(userSkill => userSkill.is_verified);
+        const carried = (current.length > 0 ? current : verifications)
+          .sort((a, b) => b.verification_date!.getTime() - a.verification_date!.getTime())[0];
+
+        await tx.update(userSkillsTable)
+          .set({
+            is_verified: survivor.is_verified || duplicate.is_verified,
+            verification_date: carried?.verification_date ?? null,
+            expires_at: carried?.expires_at ?? null,
+            expiry_reminder_sent_at: carried?.expiry_reminder_sent_at ?? null,
+            claimed_level: levelRank(duplicate.claimed_level) > levelRank(survivor.claimed_level)
+              ? duplicate.claimed_level
+              : survivor.claimed_level,
+            verified_level: levelRank(duplicate.verified_level) > levelRank(survivor.verified_level)
+              ? duplicate.verified_level
+              : survivor.verified_level
+          })
+          .where(eq(userSkillsTable.id, survivor.id))
+          .execute();
+
+        await tx.update(skillProofsTable)
+          .set({ user_skill_id: survivor.id })
+          .where(eq(skillProofsTable.user_skill_id, duplicate.id))
+          .execute();
+        await tx.update(testAttemptsTable)
+          .set({ user_skill_id: survivor.id })
+          .where(eq(testAttemptsTable.user_skill_id, duplicate.id))
+          .execute();
+        await tx.update(certificatesTable)
+          .set({ user_skill_id: survivor.id })
+          .where(eq(certificatesTable.user_skill_id, duplicate.id))
+          .execute();
+        // Someone who endorsed both keeps the endorsement already on the surviving skill
+        await tx.update(endorsementsTable)
+          .set({ user_skill_id: survivor.id })
+          .where(
+            and(
+              eq(endorsementsTable.user_skill_id, duplicate.id),
+              notInArray(
+                endorsementsTable.endorser_id,
+                tx.select({ id: endorsementsTable.endorser_id })
+                  .from(endorsementsTable)
+                  .where(eq(endorsementsTable.user_skill_id, survivor.id))
+              )
+            )
+          )
+          .execute();
+        await tx.delete(endorsementsTable)
+          .where(eq(endorsementsTable.user_skill_id, duplicate.id))
+          .execute();
+
+        await tx.delete(userSkillsTable)
+          .where(eq(userSkillsTable.id, duplicate.id))
+          .execute();
+
+        combined++;
+      }
+
+      const movedUserSkills = await tx.update(userSkillsTable)
+        .set({ skill_id: target.id })
+        .where(eq(userSkillsTable.skill_id, source.id))
+        .returning({ id: userSkillsTable.id })
+        .execute();
+
+      const movedTests = await tx.update(miniTestsTable)
+        .set({ skill_id: target.id })
+        .where(eq(miniTestsTable.skill_id, source.id))
+        .returning({ id: miniTestsTable.id })
+        .execute();
+
+      const movedListings = await tx.update(jobListingsTable)
+        .set({ skill_id: target.id, updated_at: new Date() })
+        .where(eq(jobListingsTable.skill_id, source.id))
+        .returning({ id: jobListingsTable.id })
+        .execute();
+
+      // Level requirements the target has not set itself carry over
+      await tx.update(skillLevelRequirementsTable)
+        .set({ skill_id: target.id, updated_at: new Date() })
+        .where(
+          and(
+            eq(skillLevelRequirementsTable.skill_id, source.id),
+            notInArray(
+              skillLevelRequirementsTable.level,
+              tx.select({ level: skillLevelRequirementsTable.level })
+                .from(skillLevelRequirementsTable)
+                .where(eq(skillLevelRequirementsTable.skill_id, target.id))
+            )
+          )
+        )
+        .execute();
+      await tx.delete(skillLevelRequirementsTable)
+        .where(eq(skillLevelRequirementsTable.skill_id, source.id))
+        .execute();
+
+      // Prerequisite edges follow as well, minus the ones that would now point from the target
+      // to itself or duplicate an edge the target already has
+      await tx.delete(skillPrerequisitesTable)
+        .where(
+          or(
+            and(eq(skillPrerequisitesTable.skill_id, source.id), eq(skillPrerequisitesTable.prerequisite_skill_id, target.id)),
+            and(eq(skillPrerequisitesTable.skill_id, target.id), eq(skillPrerequisitesTable.prerequisite_skill_id, source.id))
+          )
+        )
+        .execute();
+      await tx.update(skillPrerequisitesTable)
+        .set({ skill_id: target.id })
+        .where(
+          and(
+            eq(skillPrerequisitesTable.skill_id, source.id),
+            notInArray(
+              skillPrerequisitesTable.prerequisite_skill_id,
+              tx.select({ id: skillPrerequisitesTable.prerequisite_skill_id })
+                .from(skillPrerequisitesTable)
+                .where(eq(skillPrerequisitesTable.skill_id, target.id))
+            )
+          )
+        )
+        .execute();
+      await tx.update(skillPrerequisitesTable)
+        .set({ prerequisite_skill_id: target.id })
+        .where(
+          and(
+            eq(skillPrerequisitesTable.prerequisite_skill_id, source.id),
+            notInArray(
+              skillPrerequisitesTable.skill_id,
+              tx.select({ id: skillPrerequisitesTable.skill_id })
+                .from(skillPrerequisitesTable)
+                .where(eq(skillPrerequisitesTable.prerequisite_skill_id, target.id))
+            )
+          )
+        )
+        .execute();
+      await tx.delete(skillPrerequisitesTable)
+        .where(
+          or(
+            eq(skillPrerequisitesTable.skill_id, source.id),
+            eq(skillPrerequisitesTable.prerequisite_skill_id, source.id)
+          )
+        )
+        .execute();
+
+      const closure = await prerequisiteClosure(target.id, tx);
+      if (closure.some(edge => edge.prerequisite_skill_id === target.id)) {
+        throw new Error('Merging these skills would create a prerequisite cycle');
+      }
+
+      // Aliases move across too, and the source name and its translations become ones so
+      // searches for them still land
+      const targetAliases = await tx.select({ alias: skillAliasesTable.alias })
+        .from(skillAliasesTable)
+        .where(eq(skillAliasesTable.skill_id, target.id))
+        .execute();
+      const taken = new Set([target.name, ...targetAliases.map(entry => entry.alias)].map(name => name.toLowerCase()));
+
+      const sourceAliases = await tx.delete(skillAliasesTable)
+        .where(eq(skillAliasesTable.skill_id, source.id))
+        .returning()
+        .execute();
+
+      const sourceTranslations = await tx.select({ alias: skillTranslationsTable.name, locale: skillTranslationsTable.locale })
+        .from(skillTranslationsTable)
+        .where(eq(skillTranslationsTable.skill_id, source.id))
+        .execute();
+
+      const carriedAliases = [{ alias: source.name, locale: null as string | null }, ...sourceTranslations, ...sourceAliases]
+        .filter(entry => {
+          const key = entry.alias.toLowerCase();
+          if (taken.has(key)) {
+            return false;
+          }
+          taken.add(key);
+          return true;
+        });
+
+      if (carriedAliases.length > 0) {
+        await tx.insert(skillAliasesTable)
+          .values(carriedAliases.map(entry => ({ skill_id: target.id, alias: entry.alias, locale: entry.locale })))
+          .execute();
+      }
+
+      await tx.update(skillsTable)
+        .set({ is_active: false })
+        .where(eq(skillsTable.id, source.id))
+        .execute();
+
+      // Verifications moved over now run on the target's validity period
+      await syncVerificationExpiry(target.id, tx);
+
+      // Skills merged into the source earlier now resolve straight to the target
+      await tx.update(skillMergesTable)
+        .set({ target_skill_id: target.id })
+        .where(eq(skillMergesTable.target_skill_id, source.id))
+        .execute();
+
+      const merges = await tx.insert(skillMergesTable)
+        .values({
+          source_skill_id: source.id,
+          target_skill_id: target.id,
+          merged_by: actor.user_id
+        })
+        .returning()
+        .execute();
+
+      const result = {
+        merge: merges[0],
+        user_skills_moved: movedUserSkills.length,
+        user_skills_combined: combined,
+        mini_tests_moved: movedTests.length,
+        job_listings_moved: movedListings.length
+      };
+
+      await recordAuditEvent(actor, {
+        action: 'skill.merged',
+        target_type: 'skill',
+        target_id: target.id,
+        before: { source_skill_id: source.id, source_name: source.name },
+        after: {
+          user_skills_moved: result.user_skills_moved,
+          user_skills_combined: result.user_skills_combined,
+          mini_tests_moved: result.mini_tests_moved,
+          job_listings_moved: result.job_listings_moved
+        }
+      }, tx);
+
+      return result;
+    });
+  } catch (error) {
+    console.error('Skill merge failed:', error);
+    throw error;
+  }
+}
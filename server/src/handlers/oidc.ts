@@ -0,0 +1,253 @@
+import { randomBytes } from 'crypto';
+import { db } from '../db';
+import { usersTable, userRolesTable, userIdentitiesTable, oidcLoginStatesTable } from '../db/schema';
+import {
+  type IdentityProvider,
+  type StartOidcInput,
+  type OidcAuthorization,
+  type OidcCallbackInput,
+  type UserIdentity,
+  type LoginResult,
+  type RequestMetadata
+} from '../schema';
+import { eq, and, asc, sql } from 'drizzle-orm';
+import { hashPassword } from '../lib/passwords';
+import {
+  listOidcProviders,
+  getOidcProvider,
+  discover,
+  createPkcePair,
+  buildAuthorizationUrl,
+  exchangeCode,
+  verifyIdToken,
+  type OidcClaims
+} from '../lib/oidc';
+import { completeLogin } from './auth';
+
+const OIDC_STATE_TTL_MS = 10 * 60 * 1000;
+
+async function createAuthorization(providerId: string, linkUserId: number | null): Promise<OidcAuthorization> {
+  const provider = getOidcProvider(providerId);
+  const discovery = await discover(provider.issuer);
+
+  const state = randomBytes(32).toString('base64url');
+  const nonce = randomBytes(32).toString('base64url');
+  const pkce = createPkcePair();
+
+  await db.insert(oidcLoginStatesTable)
+    .values({
+      state,
+      provider: provider.id,
+      nonce,
+      code_verifier: pkce.verifier,
+      link_user_id: linkUserId,
+      expires_at: new Date(Date.now() + OIDC_STATE_TTL_MS)
+    })
+    .execute();
+
+  return {
+    authorization_url: buildAuthorizationUrl(provider, discovery, { state, nonce, code_challenge: pkce.challenge }),
+    state
+  };
+}
+
+// Consumes the pending request and returns the verified ID token claims
+async function redeemCallback(input: { state: string; code: string }) {
+  // Deleting up front makes every state single-use, even when the exchange fails
+  const states = await db.delete(oidcLoginStatesTable)
+    .where(eq(oidcLoginStatesTable.state, input.state))
+    .returning()
+    .execute();
+
+  if (states.length === 0 || states[0].expires_at.getTime() <= Date.now()) {
+    throw new Error('Invalid or expired sign-in request');
+  }
+
+  const pending = states[0];
+  const provider = getOidcProvider(pending.provider);
+  const discovery = await discover(provider.issuer);
+
+  const idToken = await exchangeCode(provider, discovery, input.code, pending.code_verifier);
+  const claims = await verifyIdToken(idToken, provider, discovery, pending.nonce);
+
+  return { pending, claims };
+}
+
+async function linkIdentity(userId: number, provider: string, claims: OidcClaims): Promise<UserIdentity> {
+  const result = await db.insert(userIdentitiesTable)
+    .values({
+      user_id: userId,
+      provider,
+      subject: claims.sub,
+      email: claims.email,
+      last_login_at: new Date()
+    })
+    .returning()
+    .execute();
+
+  return result[0];
+}
+
+// Finds the local account for an external identity, linking or creating one on first sign-in
+async function resolveAccount(provider: string, claims: OidcClaims): Promise<typeof usersTable.$inferSelect> {
+  const linked = await db.select()
+    .from(userIdentitiesTable)
+    .innerJoin(usersTable, eq(userIdentitiesTable.user_id, usersTable.id))
+    .where(
+      and(
+        eq(userIdentitiesTable.provider, provider),
+        eq(userIdentitiesTable.subject, claims.sub)
+      )
+    )
+    .execute();
+
+  if (linked.length > 0) {
+    await db.update(userIdentitiesTable)
+      .set({ last_login_at: new Date(), email: claims.email })
+      .where(eq(userIdentitiesTable.id, linked[0].user_identities.id))
+      .execute();
+
+    return linked[0].users;
+  }
+
+  if (!claims.email) {
+    throw new Error('Identity provider did not share an email address');
+  }
+
+  const existing = await db.select()
+    .from(usersTable)
+    .where(eq(sql`lower(${usersTable.email})`, claims.email))
+    .execute();
+
+  if (existing.length > 0) {
+    // Only link automatically when both sides have proven ownership of the address;
+    // otherwise whoever registered the email first could capture the other account
+    if (!claims.email_verified || !existing[0].is_verified) {
+      throw new Error('An account with this email already exists; sign in and link your identity from account settings');
+    }
+
+    await linkIdentity(existing[0].id, provider, claims);
+    return existing[0];
+  }
+
+  return await db.transaction(async (tx) => {
+    // Single sign-on accounts get an unguessable password; a reset can set a real one later
+    const created = await tx.insert(usersTable)
+      .values({
+        full_name: claims.name ?? claims.email!.split('@')[0],
+        email: claims.email!,
+        phone: null,
+        password_hash: hashPassword(randomBytes(32).toString('hex')),
+        is_verified: claims.email_verified
+      })
+      .returning()
+      .execute();
+
+    const user = created[0];
+
+    await tx.insert(userRolesTable)
+      .values({ user_id: user.id, role: 'worker' })
+      .execute();
+
+    await tx.insert(userIdentitiesTable)
+      .values({
+        user_id: user.id,
+        provider,
+        subject: claims.sub,
+        email: claims.email,
+        last_login_at: new Date()
+      })
+      .execute();
+
+    return user;
+  });
+}
+
+export async function getIdentityProviders(): Promise<IdentityProvider[]> {
+  return listOidcProviders().map(provider => ({ id: provider.id, name: provider.name }));
+}
+
+export async function startOidcLogin(input: StartOidcInput): Promise<OidcAuthorization> {
+  try {
+    return await createAuthorization(input.provider, null);
+  } catch (error) {
+    console.error('OIDC login start failed:', error);
+    throw error;
+  }
+}
+
+export async function completeOidcLogin(
+  input: OidcCallbackInput,
+  meta: RequestMetadata = { ip_address: null, user_agent: null }
+): Promise<LoginResult> {
+  try {
+    const { pending, claims } = await redeemCallback(input);
+
+    if (pending.link_user_id !== null) {
+      throw new Error('Invalid or expired sign-in request');
+    }
+
+    const user = await resolveAccount(pending.provider, claims);
+
+    // Second factor still applies to accounts that enabled it
+    return await completeLogin(user, meta, input.device_label ?? null, 'oidc');
+  } catch (error) {
+    console.error('OIDC login failed:', error);
+    throw error;
+  }
+}
+
+export async function startOidcLink(userId: number, input: StartOidcInput): Promise<OidcAuthorization> {
+  try {
+    return await createAuthorization(input.provider, userId);
+  } catch (error) {
+    console.error('OIDC link start failed:', error);
+    throw error;
+  }
+}
+
+export async function completeOidcLink(userId: number, input: OidcCallbackInput): Promise<UserIdentity> {
+  try {
+    const { pending, claims } = await redeemCallback(input);
+
+    // The callback must come back to the account that started the link
+    if (pending.link_user_id !== userId) {
+      throw new Error('Invalid or expired sign-in request');
+    }
+
+    const existing = await db.select()
+      .from(userIdentitiesTable)
+      .where(
+        and(
+          eq(userIdentitiesTable.provider, pending.provider),
+          eq(userIdentitiesTable.subject, claims.sub)
+        )
+      )
+      .execute();
+
+    if (existing.length > 0) {
+      if (existing[0].user_id !== userId) {
+        throw new Error('This identity is already linked to another account');
+      }
+      return existing[0];
+    }
+
+    return await linkIdentity(userId, pending.provider, claims);
+  } catch (error) {
+    console.error('OIDC link failed:', error);
+    throw error;
+  }
+}
+
+export async function getUserIdentities(userId: number): Promise<UserIdentity[]> {
+  try {
+    return await db.select()
+      .from(userIdentitiesTable)
+      .where(eq(userIdentitiesTable.user_id, userId))
+      .orderBy(asc(userIdentitiesTable.created_at))
+      .execute();
+  } catch (error) {
+    console.error('Get user identities failed:', error);
+    throw error;
+  }
+}
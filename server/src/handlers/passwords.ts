@@ -0,0 +1,166 @@
+import { db } from '../db';
+import { usersTable, passwordResetTokensTable, sessionsTable } from '../db/schema';
+import { type RequestPasswordResetInput, type ResetPasswordInput, type ChangePasswordInput, type AuditActor } from '../schema';
+import { eq, and, isNull, ne } from 'drizzle-orm';
+import { hashPassword, verifyPassword } from '../lib/passwords';
+import { generateOpaqueToken, hashOpaqueToken } from '../lib/tokens';
+import { parseDuration } from '../lib/jwt';
+import { sendMail, APP_URL } from '../lib/mail';
+import { runInBackground } from '../lib/jobs';
+import { recordAuditEvent, SYSTEM_ACTOR } from '../lib/audit';
+
+const PASSWORD_RESET_TTL = process.env['PASSWORD_RESET_TTL'] || '1h';
+
+async function sendPasswordReset(email: string): Promise<void> {
+  const users = await db.select()
+    .from(usersTable)
+    .where(eq(usersTable.email, email))
+    .execute();
+
+  if (users.length === 0) {
+    return;
+  }
+
+  const user = users[0];
+  const reset = generateOpaqueToken();
+
+  await db.insert(passwordResetTokensTable)
+    .values({
+      user_id: user.id,
+      token_hash: reset.hash,
+      expires_at: new Date(Date.now() + parseDuration(PASSWORD_RESET_TTL) * 1000)
+    })
+    .execute();
+
+  await sendMail({
+    to: user.email,
+    subject: 'Reset your Skill-Proof password',
+    text: `Hi ${user.full_name},\n\nSomeone asked to reset your password. If it was you, open this link:\n${APP_URL}/reset-password?token=${reset.token}\n\nThe link expires in ${PASSWORD_RESET_TTL} and can be used once. If you did not ask for this, you can ignore this email.`
+  });
+}
+
+// Always reports success so the response does not reveal whether the email is registered. The
+// lookup and delivery run in the background, so known and unknown addresses answer equally fast
+// and a mail failure is logged rather than surfaced to the caller.
+export async function requestPasswordReset(input: RequestPasswordResetInput): Promise<{ success: boolean }> {
+  runInBackground('password reset email', () => sendPasswordReset(input.email));
+  return { success: true };
+}
+
+export async function resetPassword(input: ResetPasswordInput, actor: AuditActor = SYSTEM_ACTOR): Promise<{ success: boolean }> {
+  try {
+    const tokens = await db.select()
+      .from(passwordResetTokensTable)
+      .where(eq(passwordResetTokensTable.token_hash, hashOpaqueToken(input.token)))
+      .execute();
+
+    if (tokens.length === 0 || tokens[0].used_at !== null || tokens[0].expires_at < new Date()) {
+      throw new Error('Invalid or expired reset token');
+    }
+
+    const stored = tokens[0];
+
+    await db.transaction(async (tx) => {
+      // Claim the token first so two concurrent submissions cannot both succeed
+      const claimed = await tx.update(passwordResetTokensTable)
+        .set({ used_at: new Date() })
+        .where(and(eq(passwordResetTokensTable.id, stored.id), isNull(passwordResetTokensTable.used_at)))
+        .returning()
+        .execute();
+
+      if (claimed.length === 0) {
+        throw new Error('Invalid or expired reset token');
+      }
+
+      // Any other outstanding links for this account die with this one
+      await tx.update(passwordResetTokensTable)
+        .set({ used_at: new Date() })
+        .where(and(eq(passwordResetTokensTable.user_id, stored.user_id), isNull(passwordResetTokensTable.used_at)))
+        .execute();
+
+      await tx.update(usersTable)
+        .set({
+          password_hash: hashPassword(input.new_password),
+          updated_at: new Date()
+        })
+        .where(eq(usersTable.id, stored.user_id))
+        .execute();
+
+      // Whoever had the old password loses every session
+      const revoked = await tx.update(sessionsTable)
+        .set({ revoked_at: new Date() })
+        .where(and(eq(sessionsTable.user_id, stored.user_id), isNull(sessionsTable.revoked_at)))
+        .returning({ id: sessionsTable.id })
+        .execute();
+
+      await recordAuditEvent(actor, {
+        action: 'auth.password_reset',
+        target_type: 'user',
+        target_id: stored.user_id,
+        after: { revoked_sessions: revoked.length }
+      }, tx);
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Password reset failed:', error);
+    throw error;
+  }
+}
+
+export async function changePassword(
+  userId: number,
+  currentSessionId: number,
+  input: ChangePasswordInput,
+  actor: AuditActor = SYSTEM_ACTOR
+): Promise<{ success: boolean }> {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error('User not found');
+    }
+
+    if (!verifyPassword(input.current_password, users[0].password_hash)) {
+      throw new Error('Current password is incorrect');
+    }
+
+    await db.transaction(async (tx) => {
+      await tx.update(usersTable)
+        .set({
+          password_hash: hashPassword(input.new_password),
+          updated_at: new Date()
+        })
+        .where(eq(usersTable.id, userId))
+        .execute();
+
+      // Sign out every other device but keep the one that made the change
+      const revoked = await tx.update(sessionsTable)
+        .set({ revoked_at: new Date() })
+        .where(
+          and(
+            eq(sessionsTable.user_id, userId),
+            isNull(sessionsTable.revoked_at),
+            ne(sessionsTable.id, currentSessionId)
+          )
+        )
+        .returning({ id: sessionsTable.id })
+        .execute();
+
+      await recordAuditEvent(actor, {
+        action: 'auth.password_changed',
+        target_type: 'user',
+        target_id: userId,
+        after: { revoked_sessions: revoked.length }
+      }, tx);
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Password change failed:', error);
+    throw error;
+  }
+}
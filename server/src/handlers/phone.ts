@@ -0,0 +1,247 @@
+import { randomInt } from 'crypto';
+import { db } from '../db';
+import { usersTable, phoneCodesTable } from '../db/schema';
+import {
+  type VerifyPhoneInput,
+  type RequestSmsLoginInput,
+  type SmsLoginInput,
+  type LoginResult,
+  type User,
+  type RequestMetadata
+} from '../schema';
+import { eq, and, isNull, isNotNull, gt, ne, desc } from 'drizzle-orm';
+import { hashOpaqueToken } from '../lib/tokens';
+import { sendSms } from '../lib/sms';
+import { assertNotThrottled, recordFailure, resetFailures, phoneKey, ipKey, accountPolicy, ipPolicy } from '../lib/throttle';
+import { completeLogin } from './auth';
+
+type PhoneCodePurpose = typeof phoneCodesTable.$inferSelect['purpose'];
+
+const PHONE_CODE_TTL_MS = 10 * 60 * 1000;
+const PHONE_CODE_RESEND_INTERVAL = 60 * 1000; // 1 minute between codes
+
+async function sentRecently(userId: number, purpose: PhoneCodePurpose): Promise<boolean> {
+  const previous = await db.select()
+    .from(phoneCodesTable)
+    .where(
+      and(
+        eq(phoneCodesTable.user_id, userId),
+        eq(phoneCodesTable.purpose, purpose)
+      )
+    )
+    .orderBy(desc(phoneCodesTable.created_at))
+    .limit(1)
+    .execute();
+
+  return previous.length > 0 && Date.now() - previous[0].created_at.getTime() < PHONE_CODE_RESEND_INTERVAL;
+}
+
+// Replaces any unused code for the same purpose and texts a fresh one
+async function sendPhoneCode(userId: number, phone: string, purpose: PhoneCodePurpose): Promise<void> {
+  const code = randomInt(0, 1_000_000).toString().padStart(6, '0');
+
+  await db.transaction(async (tx) => {
+    await tx.delete(phoneCodesTable)
+      .where(
+        and(
+          eq(phoneCodesTable.user_id, userId),
+          eq(phoneCodesTable.purpose, purpose),
+          isNull(phoneCodesTable.used_at)
+        )
+      )
+      .execute();
+
+    await tx.insert(phoneCodesTable)
+      .values({
+        user_id: userId,
+        phone,
+        purpose,
+        code_hash: hashOpaqueToken(code),
+        expires_at: new Date(Date.now() + PHONE_CODE_TTL_MS)
+      })
+      .execute();
+  });
+
+  const action = purpose === 'login' ? 'sign-in' : 'verification';
+  await sendSms({
+    to: phone,
+    body: `Your Skill-Proof ${action} code is ${code}. It expires in 10 minutes. Never share it with anyone.`
+  });
+}
+
+// Marks a matching, unexpired code as used; false when there is none
+async function consumePhoneCode(userId: number, phone: string, purpose: PhoneCodePurpose, code: string): Promise<boolean> {
+  const result = await db.update(phoneCodesTable)
+    .set({ used_at: new Date() })
+    .where(
+      and(
+        eq(phoneCodesTable.user_id, userId),
+        eq(phoneCodesTable.phone, phone),
+        eq(phoneCodesTable.purpose, purpose),
+        eq(phoneCodesTable.code_hash, hashOpaqueToken(code)),
+        isNull(phoneCodesTable.used_at),
+        gt(phoneCodesTable.expires_at, new Date())
+      )
+    )
+    .returning()
+    .execute();
+
+  return result.length > 0;
+}
+
+export async function requestPhoneVerification(userId: number): Promise<{ sent: boolean }> {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error('User not found');
+    }
+
+    const user = users[0];
+
+    if (!user.phone) {
+      throw new Error('No phone number on this account');
+    }
+
+    if (user.phone_verified_at) {
+      throw new Error('Phone number is already verified');
+    }
+
+    if (await sentRecently(user.id, 'verify_phone')) {
+      throw new Error('A code was sent recently; please wait before requesting another');
+    }
+
+    await sendPhoneCode(user.id, user.phone, 'verify_phone');
+
+    return { sent: true };
+  } catch (error) {
+    console.error('Phone verification request failed:', error);
+    throw error;
+  }
+}
+
+export async function verifyPhone(userId: number, input: VerifyPhoneInput): Promise<User> {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error('User not found');
+    }
+
+    const phone = users[0].phone;
+    if (!phone) {
+      throw new Error('No phone number on this account');
+    }
+
+    // Six digits are guessable, so wrong codes back off like failed logins
+    const throttleKey = phoneKey(phone);
+    await assertNotThrottled([throttleKey]);
+
+    // The code must have been sent to the number currently on the account
+    if (!(await consumePhoneCode(userId, phone, 'verify_phone', input.code))) {
+      await recordFailure([{ key: throttleKey, policy: accountPolicy }]);
+      throw new Error('Invalid or expired code');
+    }
+
+    await resetFailures(throttleKey);
+
+    const taken = await db.select({ id: usersTable.id })
+      .from(usersTable)
+      .where(
+        and(
+          eq(usersTable.phone, phone),
+          isNotNull(usersTable.phone_verified_at),
+          ne(usersTable.id, userId)
+        )
+      )
+      .execute();
+
+    if (taken.length > 0) {
+      throw new Error('Phone number is already verified on another account');
+    }
+
+    const result = await db.update(usersTable)
+      .set({
+        phone_verified_at: new Date(),
+        updated_at: new Date()
+      })
+      .where(eq(usersTable.id, userId))
+      .returning()
+      .execute();
+
+    const user = result[0];
+    return {
+      ...user,
+      rating: user.rating ? parseFloat(user.rating) : null
+    };
+  } catch (error) {
+    console.error('Phone verification failed:', error);
+    throw error;
+  }
+}
+
+export async function requestSmsLogin(input: RequestSmsLoginInput): Promise<{ success: boolean }> {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(
+        and(
+          eq(usersTable.phone, input.phone),
+          isNotNull(usersTable.phone_verified_at)
+        )
+      )
+      .execute();
+
+    // Same response whether or not the number belongs to an account, or a code was just sent
+    if (users.length > 0 && !(await sentRecently(users[0].id, 'login'))) {
+      await sendPhoneCode(users[0].id, input.phone, 'login');
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('SMS login request failed:', error);
+    throw error;
+  }
+}
+
+export async function loginWithSmsCode(
+  input: SmsLoginInput,
+  meta: RequestMetadata = { ip_address: null, user_agent: null }
+): Promise<LoginResult> {
+  try {
+    const throttleKeys = [
+      { key: phoneKey(input.phone), policy: accountPolicy },
+      ...(meta.ip_address ? [{ key: ipKey(meta.ip_address), policy: ipPolicy }] : [])
+    ];
+    await assertNotThrottled(throttleKeys.map(entry => entry.key));
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(
+        and(
+          eq(usersTable.phone, input.phone),
+          isNotNull(usersTable.phone_verified_at)
+        )
+      )
+      .execute();
+
+    if (users.length === 0 || !(await consumePhoneCode(users[0].id, input.phone, 'login', input.code))) {
+      await recordFailure(throttleKeys);
+      throw new Error('Invalid or expired code');
+    }
+
+    const user = users[0];
+    await resetFailures(phoneKey(input.phone));
+
+    return await completeLogin(user, meta, input.device_label ?? null, 'sms');
+  } catch (error) {
+    console.error('SMS login failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,206 @@
+import { db } from '../db';
+import { skillsTable, skillPrerequisitesTable, userSkillsTable } from '../db/schema';
+import {
+  type Skill,
+  type SkillPath,
+  type SkillPrerequisite,
+  type SkillPrerequisiteInput
+} from '../schema';
+import { eq, and, asc, inArray, isNull, sql } from 'drizzle-orm';
+import { resolveSkillId } from './skills';
+
+type Executor = Pick<typeof db, 'execute'>;
+
+// Every prerequisite edge reachable from the skill, i.e. everything it builds on directly
+// or indirectly. UNION rather than UNION ALL keeps this finite even on a cyclic graph.
+export async function prerequisiteClosure(
+  skillId: number,
+  executor: Executor = db
+): Promise<Array<{ skill_id: number; prerequisite_skill_id: number }>> {
+  const result = await executor.execute<{ skill_id: number; prerequisite_skill_id: number }>(sql`
+    with recursive closure(skill_id, prerequisite_skill_id) as (
+      select ${skillPrerequisitesTable.skill_id}, ${skillPrerequisitesTable.prerequisite_skill_id}
+      from ${skillPrerequisitesTable}
+      where ${skillPrerequisitesTable.skill_id} = ${skillId}
+      union
+      select edge.skill_id, edge.prerequisite_skill_id
+      from ${skillPrerequisitesTable} edge
+      join closure on edge.skill_id = closure.prerequisite_skill_id
+    )
+    select skill_id, prerequisite_skill_id from closure
+  `);
+
+  return result.rows;
+}
+
+export async function addSkillPrerequisite(input: SkillPrerequisiteInput): Promise<SkillPrerequisite> {
+  try {
+    if (input.skill_id === input.prerequisite_skill_id) {
+      throw new Error('A skill cannot be its own prerequisite');
+    }
+
+    // Both skills stay locked until the edge is in, so a concurrent reverse edge waits for this
+    // one and then sees it in its own cycle check. Locking in id order keeps the two from deadlocking.
+    return await db.transaction(async (tx) => {
+      const skills = await tx.select({ id: skillsTable.id, name: skillsTable.name })
+        .from(skillsTable)
+        .where(inArray(skillsTable.id, [input.skill_id, input.prerequisite_skill_id]))
+        .orderBy(asc(skillsTable.id))
+        .for('update')
+        .execute();
+
+      if (skills.length < 2) {
+        throw new Error('Skill not found');
+      }
+
+      // The new edge closes a cycle when the prerequisite already builds on the skill
+      const closure = await prerequisiteClosure(input.prerequisite_skill_id, tx);
+      if (closure.some(edge => edge.prerequisite_skill_id === input.skill_id)) {
+        const name = (id: number) => skills.find(skill => skill.id === id)!.name;
+        throw new Error(`"${name(input.prerequisite_skill_id)}" already builds on "${name(input.skill_id)}", so this would create a cycle`);
+      }
+
+      const results = await tx.insert(skillPrerequisitesTable)
+        .values({
+          skill_id: input.skill_id,
+          prerequisite_skill_id: input.prerequisite_skill_id
+        })
+        .onConflictDoNothing()
+        .returning()
+        .execute();
+
+      if (results.length === 0) {
+        throw new Error('Prerequisite already exists');
+      }
+
+      return results[0];
+    });
+  } catch (error) {
+    console.error('Adding skill prerequisite failed:', error);
+    throw error;
+  }
+}
+
+export async function removeSkillPrerequisite(input: SkillPrerequisiteInput): Promise<{ success: boolean }> {
+  try {
+    const result = await db.delete(skillPrerequisitesTable)
+      .where(
+        and(
+          eq(skillPrerequisitesTable.skill_id, input.skill_id),
+          eq(skillPrerequisitesTable.prerequisite_skill_id, input.prerequisite_skill_id)
+        )
+      )
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error('Prerequisite not found');
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Removing skill prerequisite failed:', error);
+    throw error;
+  }
+}
+
+// Direct prerequisites only; getSkillPath walks the whole graph
+export async function getSkillPrerequisites(skillId: number): Promise<Skill[]> {
+  try {
+    const results = await db.select({ skill: skillsTable })
+      .from(skillPrerequisitesTable)
+      .innerJoin(skillsTable, eq(skillPrerequisitesTable.prerequisite_skill_id, skillsTable.id))
+      .where(eq(skillPrerequisitesTable.skill_id, await resolveSkillId(skillId)))
+      .orderBy(asc(skillsTable.name))
+      .execute();
+
+    return results.map(result => result.skill);
+  } catch (error) {
+    console.error('Getting skill prerequisites failed:', error);
+    throw error;
+  }
+}
+
+// Orders the target and everything it builds on so each skill comes after its prerequisites,
+// and marks where the worker stands on each. The skills to verify next are the ready ones the
+// worker has not verified yet.
+export async function getSkillPath(userId: number, targetSkillId: number): Promise<SkillPath> {
+  try {
+    const skillId = await resolveSkillId(targetSkillId);
+
+    const targets = await db.select({ id: skillsTable.id })
+      .from(skillsTable)
+      .where(eq(skillsTable.id, skillId))
+      .execute();
+
+    if (targets.length === 0) {
+      throw new Error('Skill not found');
+    }
+
+    const edges = await prerequisiteClosure(skillId);
+    const skillIds = [...new Set([skillId, ...edges.map(edge => edge.prerequisite_skill_id)])];
+
+    const skills = await db.select({ id: skillsTable.id, name: skillsTable.name })
+      .from(skillsTable)
+      .where(inArray(skillsTable.id, skillIds))
+      .execute();
+
+    const held = await db.select({ skill_id: userSkillsTable.skill_id, is_verified: userSkillsTable.is_verified })
+      .from(userSkillsTable)
+      .where(
+        and(
+          eq(userSkillsTable.user_id, userId),
+          inArray(userSkillsTable.skill_id, skillIds),
+          isNull(userSkillsTable.archived_at)
+        )
+      )
+      .execute();
+
+    const prerequisitesOf = new Map<number, number[]>(skillIds.map(id => [id, []]));
+    for (const edge of edges) {
+      prerequisitesOf.get(edge.skill_id)!.push(edge.prerequisite_skill_id);
+    }
+
+    const status = (id: number) => {
+      const userSkill = held.find(entry => entry.skill_id === id);
+      if (!userSkill) {
+        return 'not_started' as const;
+      }
+      return userSkill.is_verified ? 'verified' as const : 'in_progress' as const;
+    };
+
+    // Kahn's algorithm; alphabetical among skills that are free at the same time
+    const byName = [...skills].sort((a, b) => a.name.localeCompare(b.name));
+    const placed = new Set<number>();
+    const steps: SkillPath['steps'] = [];
+    while (steps.length < byName.length) {
+      const next = byName.find(skill =>
+        !placed.has(skill.id) && prerequisitesOf.get(skill.id)!.every(id => placed.has(id))
+      );
+      if (!next) {
+        throw new Error('Prerequisite graph contains a cycle');
+      }
+
+      placed.add(next.id);
+      const prerequisiteIds = prerequisitesOf.get(next.id)!;
+      steps.push({
+        skill_id: next.id,
+        name: next.name,
+        prerequisite_skill_ids: prerequisiteIds,
+        status: status(next.id),
+        ready: prerequisiteIds.every(id => status(id) === 'verified')
+      });
+    }
+
+    return {
+      target_skill_id: skillId,
+      steps,
+      next_skill_ids: steps
+        .filter(step => step.ready && step.status !== 'verified')
+        .map(step => step.skill_id)
+    };
+  } catch (error) {
+    console.error('Getting skill path failed:', error);
+    throw error;
+  }
+}
@@ -1,9 +1,15 @@
 import { db } from '../db';
 import { usersTable, userSkillsTable, skillsTable, skillProofsTable, certificatesTable } from '../db/schema';
-import { type User, type UpdateProfileInput } from '../schema';
-import { eq, count, sql } from 'drizzle-orm';
-
-export async function updateUserProfile(userId: number, input: UpdateProfileInput): Promise<User> {
+import { type User, type UpdateProfileInput, type AuditActor } from '../schema';
+import { eq, and, isNull, count, sql } from 'drizzle-orm';
+import { recordAuditEvent, diffSnapshots, SYSTEM_ACTOR } from '../lib/audit';
+import { countEndorsements } from './endorsements';
+
+export async function updateUserProfile(
+  userId: number,
+  input: UpdateProfileInput,
+  actor: AuditActor = SYSTEM_ACTOR
+): Promise<User> {
   try {
     // Check if user exists
     const existingUser = await db.select()
@@ -25,6 +31,10 @@ export async function updateUserProfile(userId: number, input: UpdateProfileInpu
     }
     if (input.phone !== undefined) {
       updateData['phone'] = input.phone;
+      // A new number has to be verified again
+      if (input.phone !== existingUser[0].phone) {
+        updateData['phone_verified_at'] = null;
+      }
     }
     if (input.profile_photo !== undefined) {
       updateData['profile_photo'] = input.profile_photo;
@@ -44,6 +54,14 @@ export async function updateUserProfile(userId: number, input: UpdateProfileInpu
       .execute();
 
     const user = result[0];
+
+    await recordAuditEvent(actor, {
+      action: 'profile.updated',
+      target_type: 'user',
+      target_id: userId,
+      ...diffSnapshots(existingUser[0], user)
+    });
+
     return {
       ...user,
       rating: user.rating ? parseFloat(user.rating) : null
@@ -54,7 +72,7 @@ export async function updateUserProfile(userId: number, input: UpdateProfileInpu
   }
 }
 
-export async function uploadProfilePhoto(userId: number, fileUrl: string): Promise<User> {
+export async function uploadProfilePhoto(userId: number, fileUrl: string, actor: AuditActor = SYSTEM_ACTOR): Promise<User> {
   try {
     // Check if user exists
     const existingUser = await db.select()
@@ -77,6 +95,15 @@ export async function uploadProfilePhoto(userId: number, fileUrl: string): Promi
       .execute();
 
     const user = result[0];
+
+    await recordAuditEvent(actor, {
+      action: 'profile.photo_updated',
+      target_type: 'user',
+      target_id: userId,
+      before: { profile_photo: existingUser[0].profile_photo },
+      after: { profile_photo: user.profile_photo }
+    });
+
     return {
       ...user,
       rating: user.rating ? parseFloat(user.rating) : null
@@ -94,15 +121,17 @@ export async function getUserPortfolio(userId: number): Promise<{
     category: string;
     is_verified: boolean;
     proof_count: number;
+    endorsement_count: number;
     certificate_url?: string;
   }>;
   total_certificates: number;
+  total_endorsements: number;
 }> {
   try {
     // Get user information
     const userResult = await db.select()
       .from(usersTable)
-      .where(eq(usersTable.id, userId))
+      .where(and(eq(usersTable.id, userId), isNull(usersTable.deleted_at)))
       .execute();
 
     if (userResult.length === 0) {
@@ -123,9 +152,11 @@ export async function getUserPortfolio(userId: number): Promise<{
     })
     .from(userSkillsTable)
     .innerJoin(skillsTable, eq(userSkillsTable.skill_id, skillsTable.id))
-    .where(eq(userSkillsTable.user_id, userId))
+    .where(and(eq(userSkillsTable.user_id, userId), isNull(userSkillsTable.archived_at)))
     .execute();
 
+    const endorsements = await countEndorsements(skillsQuery.map(skill => skill.user_skill_id));
+
     // Get proof counts for each user skill
     const skills = [];
     for (const skill of skillsQuery) {
@@ -154,6 +185,7 @@ export async function getUserPortfolio(userId: number): Promise<{
         category: skill.category,
         is_verified: skill.is_verified,
         proof_count: typeof proof_count === 'number' ? proof_count : 0,
+        endorsement_count: endorsements.get(skill.user_skill_id) ?? 0,
         certificate_url
       });
     }
@@ -164,7 +196,7 @@ export async function getUserPortfolio(userId: number): Promise<{
     })
     .from(certificatesTable)
     .innerJoin(userSkillsTable, eq(certificatesTable.user_skill_id, userSkillsTable.id))
-    .where(eq(userSkillsTable.user_id, userId))
+    .where(and(eq(userSkillsTable.user_id, userId), isNull(userSkillsTable.archived_at)))
     .execute();
 
     const total_certificates = totalCertificatesResult[0]?.count || 0;
@@ -172,7 +204,8 @@ export async function getUserPortfolio(userId: number): Promise<{
     return {
       user,
       skills,
-      total_certificates: typeof total_certificates === 'number' ? total_certificates : 0
+      total_certificates: typeof total_certificates === 'number' ? total_certificates : 0,
+      total_endorsements: [...endorsements.values()].reduce((total, value) => total + value, 0)
     };
   } catch (error) {
     console.error('Get user portfolio failed:', error);
@@ -1,9 +1,15 @@
 import { db } from '../db';
 import { skillProofsTable, userSkillsTable } from '../db/schema';
-import { type SkillProof, type UploadProofInput } from '../schema';
-import { eq, and } from 'drizzle-orm';
+import { type SkillProof, type UploadProofInput, type AuditActor } from '../schema';
+import { eq, and, isNull } from 'drizzle-orm';
+import { recordAuditEvent, diffSnapshots, SYSTEM_ACTOR } from '../lib/audit';
+import { evaluateSkillLevel } from './levels';
 
-export async function uploadSkillProof(userId: number, input: UploadProofInput): Promise<SkillProof> {
+export async function uploadSkillProof(
+  userId: number,
+  input: UploadProofInput,
+  actor: AuditActor = SYSTEM_ACTOR
+): Promise<SkillProof> {
   try {
     // Verify that the user_skill_id belongs to the current user
     const userSkill = await db.select()
@@ -11,7 +17,8 @@ export async function uploadSkillProof(userId: number, input: UploadProofInput):
       .where(
         and(
           eq(userSkillsTable.id, input.user_skill_id),
-          eq(userSkillsTable.user_id, userId)
+          eq(userSkillsTable.user_id, userId),
+          isNull(userSkillsTable.archived_at)
         )
       )
       .execute();
@@ -33,6 +40,14 @@ export async function uploadSkillProof(userId: number, input: UploadProofInput):
       .execute();
 
     const proof = result[0];
+
+    await recordAuditEvent(actor, {
+      action: 'proof.uploaded',
+      target_type: 'skill_proof',
+      target_id: proof.id,
+      after: { user_skill_id: proof.user_skill_id, file_url: proof.file_url, file_type: proof.file_type }
+    });
+
     return {
       ...proof,
       ai_verification_score: proof.ai_verification_score ? parseFloat(proof.ai_verification_score) : null
@@ -43,14 +58,16 @@ export async function uploadSkillProof(userId: number, input: UploadProofInput):
   }
 }
 
+// Proofs of a skill the worker removed stay on file as history but are no longer shown
 export async function getSkillProofs(userSkillId: number): Promise<SkillProof[]> {
   try {
-    const results = await db.select()
+    const results = await db.select({ proof: skillProofsTable })
       .from(skillProofsTable)
-      .where(eq(skillProofsTable.user_skill_id, userSkillId))
+      .innerJoin(userSkillsTable, eq(skillProofsTable.user_skill_id, userSkillsTable.id))
+      .where(and(eq(skillProofsTable.user_skill_id, userSkillId), isNull(userSkillsTable.archived_at)))
       .execute();
 
-    return results.map(proof => ({
+    return results.map(({ proof }) => ({
       ...proof,
       ai_verification_score: proof.ai_verification_score ? parseFloat(proof.ai_verification_score) : null
     }));
@@ -60,8 +77,17 @@ export async function getSkillProofs(userSkillId: number): Promise<SkillProof[]>
   }
 }
 
-export async function processAIVerification(proofId: number): Promise<SkillProof> {
+export async function processAIVerification(proofId: number, actor: AuditActor = SYSTEM_ACTOR): Promise<SkillProof> {
   try {
+    const existing = await db.select()
+      .from(skillProofsTable)
+      .where(eq(skillProofsTable.id, proofId))
+      .execute();
+
+    if (existing.length === 0) {
+      throw new Error('Skill proof not found');
+    }
+
     // Simulate AI verification process
     const aiScore = Math.random() * 100; // Random score 0-100
     const aiReasons = [
@@ -85,11 +111,20 @@ export async function processAIVerification(proofId: number): Promise<SkillProof
       .returning()
       .execute();
 
-    if (result.length === 0) {
-      throw new Error('Skill proof not found');
+    const proof = result[0];
+
+    await recordAuditEvent(actor, {
+      action: 'proof.verification_processed',
+      target_type: 'skill_proof',
+      target_id: proofId,
+      ...diffSnapshots(existing[0], proof)
+    });
+
+    // A verified proof may complete the proof requirement of a level whose tests are already passed
+    if (proof.upload_status === 'verified') {
+      await evaluateSkillLevel(proof.user_skill_id);
     }
 
-    const proof = result[0];
     return {
       ...proof,
       ai_verification_score: proof.ai_verification_score ? parseFloat(proof.ai_verification_score) : null
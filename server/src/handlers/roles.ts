@@ -0,0 +1,108 @@
+import { db } from '../db';
+import { userRolesTable, usersTable } from '../db/schema';
+import { type UserRole, type RoleAssignmentInput, type AuditActor } from '../schema';
+import { eq, and, asc } from 'drizzle-orm';
+import { recordAuditEvent, SYSTEM_ACTOR } from '../lib/audit';
+
+export async function getUserRoles(userId: number): Promise<UserRole[]> {
+  try {
+    const results = await db.select()
+      .from(userRolesTable)
+      .where(eq(userRolesTable.user_id, userId))
+      .orderBy(asc(userRolesTable.created_at))
+      .execute();
+
+    return results;
+  } catch (error) {
+    console.error('Get user roles failed:', error);
+    throw error;
+  }
+}
+
+export async function grantRole(
+  grantedBy: number | null,
+  input: RoleAssignmentInput,
+  actor: AuditActor = SYSTEM_ACTOR
+): Promise<UserRole> {
+  try {
+    const userResult = await db.select({ id: usersTable.id })
+      .from(usersTable)
+      .where(eq(usersTable.id, input.user_id))
+      .execute();
+
+    if (userResult.length === 0) {
+      throw new Error('User not found');
+    }
+
+    const existing = await db.select()
+      .from(userRolesTable)
+      .where(
+        and(
+          eq(userRolesTable.user_id, input.user_id),
+          eq(userRolesTable.role, input.role)
+        )
+      )
+      .execute();
+
+    if (existing.length > 0) {
+      throw new Error('User already has this role');
+    }
+
+    const result = await db.insert(userRolesTable)
+      .values({
+        user_id: input.user_id,
+        role: input.role,
+        granted_by: grantedBy
+      })
+      .returning()
+      .execute();
+
+    await recordAuditEvent(actor, {
+      action: 'role.granted',
+      target_type: 'user',
+      target_id: input.user_id,
+      after: { role: input.role }
+    });
+
+    return result[0];
+  } catch (error) {
+    console.error('Grant role failed:', error);
+    throw error;
+  }
+}
+
+export async function revokeRole(revokedBy: number, input: RoleAssignmentInput, actor: AuditActor = SYSTEM_ACTOR): Promise<UserRole> {
+  try {
+    // Prevent an admin from locking themselves out of role management
+    if (revokedBy === input.user_id && input.role === 'admin') {
+      throw new Error('Admins cannot revoke their own admin role');
+    }
+
+    const result = await db.delete(userRolesTable)
+      .where(
+        and(
+          eq(userRolesTable.user_id, input.user_id),
+          eq(userRolesTable.role, input.role)
+        )
+      )
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error('User does not have this role');
+    }
+
+    await recordAuditEvent(actor, {
+      action: 'role.revoked',
+      target_type: 'user',
+      target_id: input.user_id,
+      before: { role: input.role }
+    });
+
+    return result[0];
+  } catch (error) {
+    console.error('Revoke role failed:', error);
+    throw error;
+  }
+}
+
@@ -0,0 +1,208 @@
+import { db } from '../db';
+import { sessionsTable, refreshTokensTable, usersTable } from '../db/schema';
+import { type AuthTokens, type RequestMetadata, type Session, type AuditActor } from '../schema';
+import { eq, and, isNull, desc, ne, type SQL } from 'drizzle-orm';
+import { issueAccessToken, generateOpaqueToken, hashOpaqueToken, refreshTokenExpiry } from '../lib/tokens';
+import { recordAuditEvent, SYSTEM_ACTOR } from '../lib/audit';
+
+export async function createSession(
+  user: { id: number; email: string },
+  meta: RequestMetadata,
+  deviceLabel: string | null = null
+): Promise<AuthTokens> {
+  try {
+    const sessionResult = await db.insert(sessionsTable)
+      .values({
+        user_id: user.id,
+        device_label: deviceLabel,
+        ip_address: meta.ip_address,
+        user_agent: meta.user_agent
+      })
+      .returning()
+      .execute();
+
+    const session = sessionResult[0];
+    const refresh = generateOpaqueToken();
+
+    await db.insert(refreshTokensTable)
+      .values({
+        session_id: session.id,
+        token_hash: refresh.hash,
+        expires_at: refreshTokenExpiry()
+      })
+      .execute();
+
+    return {
+      token: issueAccessToken({ userId: user.id, email: user.email, sessionId: session.id }),
+      refresh_token: refresh.token
+    };
+  } catch (error) {
+    console.error('Session creation failed:', error);
+    throw error;
+  }
+}
+
+export async function refreshSession(refreshToken: string, meta: RequestMetadata): Promise<AuthTokens> {
+  try {
+    const results = await db.select()
+      .from(refreshTokensTable)
+      .innerJoin(sessionsTable, eq(refreshTokensTable.session_id, sessionsTable.id))
+      .innerJoin(usersTable, eq(sessionsTable.user_id, usersTable.id))
+      .where(eq(refreshTokensTable.token_hash, hashOpaqueToken(refreshToken)))
+      .execute();
+
+    if (results.length === 0) {
+      throw new Error('Invalid refresh token');
+    }
+
+    const { refresh_tokens: stored, sessions: session, users: user } = results[0];
+
+    if (session.revoked_at !== null) {
+      throw new Error('Session has been revoked');
+    }
+
+    // A rotated token coming back means it was copied; kill the whole session
+    if (stored.used_at !== null) {
+      await db.update(sessionsTable)
+        .set({ revoked_at: new Date() })
+        .where(eq(sessionsTable.id, session.id))
+        .execute();
+      throw new Error('Refresh token reuse detected; session revoked');
+    }
+
+    if (stored.expires_at < new Date()) {
+      throw new Error('Refresh token expired');
+    }
+
+    const refresh = generateOpaqueToken();
+
+    await db.transaction(async (tx) => {
+      // Guard against two concurrent refreshes both rotating the same token
+      const claimed = await tx.update(refreshTokensTable)
+        .set({ used_at: new Date() })
+        .where(and(eq(refreshTokensTable.id, stored.id), isNull(refreshTokensTable.used_at)))
+        .returning()
+        .execute();
+
+      if (claimed.length === 0) {
+        throw new Error('Invalid refresh token');
+      }
+
+      await tx.insert(refreshTokensTable)
+        .values({
+          session_id: session.id,
+          token_hash: refresh.hash,
+          expires_at: refreshTokenExpiry()
+        })
+        .execute();
+
+      await tx.update(sessionsTable)
+        .set({
+          last_seen_at: new Date(),
+          ip_address: meta.ip_address,
+          user_agent: meta.user_agent
+        })
+        .where(eq(sessionsTable.id, session.id))
+        .execute();
+    });
+
+    return {
+      token: issueAccessToken({ userId: user.id, email: user.email, sessionId: session.id }),
+      refresh_token: refresh.token
+    };
+  } catch (error) {
+    console.error('Session refresh failed:', error);
+    throw error;
+  }
+}
+
+export async function getActiveSessions(userId: number, currentSessionId: number): Promise<Array<Session & { is_current: boolean }>> {
+  try {
+    const results = await db.select()
+      .from(sessionsTable)
+      .where(
+        and(
+          eq(sessionsTable.user_id, userId),
+          isNull(sessionsTable.revoked_at)
+        )
+      )
+      .orderBy(desc(sessionsTable.last_seen_at))
+      .execute();
+
+    return results.map(session => ({
+      ...session,
+      is_current: session.id === currentSessionId
+    }));
+  } catch (error) {
+    console.error('Get active sessions failed:', error);
+    throw error;
+  }
+}
+
+export async function revokeSession(userId: number, sessionId: number, actor: AuditActor = SYSTEM_ACTOR): Promise<Session> {
+  try {
+    const result = await db.update(sessionsTable)
+      .set({ revoked_at: new Date() })
+      .where(
+        and(
+          eq(sessionsTable.id, sessionId),
+          eq(sessionsTable.user_id, userId),
+          isNull(sessionsTable.revoked_at)
+        )
+      )
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error('Session not found or already revoked');
+    }
+
+    await recordAuditEvent(actor, {
+      action: 'session.revoked',
+      target_type: 'session',
+      target_id: sessionId,
+      after: { user_id: userId, device_label: result[0].device_label }
+    });
+
+    return result[0];
+  } catch (error) {
+    console.error('Session revocation failed:', error);
+    throw error;
+  }
+}
+
+// Revokes every active session of the user, optionally keeping one (e.g. the caller's)
+export async function revokeAllSessions(
+  userId: number,
+  exceptSessionId?: number,
+  actor: AuditActor = SYSTEM_ACTOR
+): Promise<{ revoked: number }> {
+  try {
+    const conditions: SQL<unknown>[] = [
+      eq(sessionsTable.user_id, userId),
+      isNull(sessionsTable.revoked_at)
+    ];
+
+    if (exceptSessionId !== undefined) {
+      conditions.push(ne(sessionsTable.id, exceptSessionId));
+    }
+
+    const result = await db.update(sessionsTable)
+      .set({ revoked_at: new Date() })
+      .where(and(...conditions))
+      .returning({ id: sessionsTable.id })
+      .execute();
+
+    await recordAuditEvent(actor, {
+      action: 'session.revoked_all',
+      target_type: 'user',
+      target_id: userId,
+      after: { revoked_session_ids: result.map(session => session.id) }
+    });
+
+    return { revoked: result.length };
+  } catch (error) {
+    console.error('Revoke all sessions failed:', error);
+    throw error;
+  }
+}
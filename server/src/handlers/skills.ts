@@ -1,17 +1,67 @@
 import { db } from '../db';
-import { skillsTable, userSkillsTable, usersTable } from '../db/schema';
-import { type Skill, type CreateSkillInput, type AddUserSkillInput, type UserSkill } from '../schema';
-import { eq, and, ilike, or } from 'drizzle-orm';
-import { SQL } from 'drizzle-orm';
+import {
+  skillsTable,
+  skillAliasesTable,
+  skillMergesTable,
+  skillPrerequisitesTable,
+  skillTranslationsTable,
+  userSkillsTable,
+  usersTable,
+  certificatesTable
+} from '../db/schema';
+import {
+  type Skill,
+  type SkillFilter,
+  type SkillCategoryNode,
+  type SkillSearchResult,
+  type SkillSuggestion,
+  type SkillAlias,
+  type AddSkillAliasInput,
+  type AutocompleteSkillsInput,
+  type CreateSkillInput,
+  type UpdateSkillInput,
+  type AuditActor,
+  type Locale,
+  type AddUserSkillInput,
+  type UserSkill
+} from '../schema';
+import { eq, and, or, inArray, exists, isNull, asc, desc, getTableColumns, sql } from 'drizzle-orm';
+import { SQL, type AnyColumn } from 'drizzle-orm';
+import { escapeLikePattern, highlightRanges, trigramMatch } from '../lib/search';
+import { recordAuditEvent, diffSnapshots, SYSTEM_ACTOR } from '../lib/audit';
+import { categorySubtree, getCategory, findOrCreateCategory, buildCategoryTree } from './categories';
+import { syncVerificationExpiry } from './expiry';
+import { skillTranslationJoin, localizedSkillName, localizedSkillDescription } from './translations';
+import { DEFAULT_LOCALE } from '../lib/locale';
 
-export async function getSkills(): Promise<Skill[]> {
+// Flat list by default; with `tree` the skills come nested under the category taxonomy.
+// Names and descriptions are in the filter's locale where translated.
+export async function getSkills(filter?: SkillFilter & { tree?: false }): Promise<Skill[]>;
+export async function getSkills(filter: SkillFilter & { tree: true }): Promise<SkillCategoryNode[]>;
+export async function getSkills(filter: SkillFilter = {}): Promise<Skill[] | SkillCategoryNode[]> {
   try {
-    const results = await db.select()
+    const conditions: SQL<unknown>[] = [eq(skillsTable.is_active, true)];
+
+    if (filter.category_id !== undefined) {
+      await getCategory(filter.category_id);
+      conditions.push(inArray(skillsTable.category_id, categorySubtree(filter.category_id)));
+    }
+
+    const results = await db.select({
+      ...getTableColumns(skillsTable),
+      name: localizedSkillName,
+      description: localizedSkillDescription
+    })
       .from(skillsTable)
-      .where(eq(skillsTable.is_active, true))
-      .orderBy(skillsTable.category, skillsTable.name)
+      .leftJoin(skillTranslationsTable, skillTranslationJoin(filter.locale ?? DEFAULT_LOCALE))
+      .where(and(...conditions))
+      .orderBy(skillsTable.category, localizedSkillName)
       .execute();
 
+    if (filter.tree) {
+      return await buildCategoryTree(results, filter.category_id);
+    }
+
     return results;
   } catch (error) {
     console.error('Failed to fetch skills:', error);
@@ -19,44 +69,258 @@ export async function getSkills(): Promise<Skill[]> {
   }
 }
 
-export async function searchSkills(query: string): Promise<Skill[]> {
+const SEARCH_RESULT_LIMIT = 50;
+const AUTOCOMPLETE_LIMIT = 8;
+
+// Relevance of each searchable field for a lowercased query, from pg_trgm similarity. Names
+// get a boost for exact, prefix and substring hits; aliases count slightly less than the name
+// and category and description less still. The translated name and description, when the
+// query joins them, match as well as the default-language ones.
+function relevance(term: string) {
+  const contains = `%${escapeLikePattern(term)}%`;
+  const prefix = `${escapeLikePattern(term)}%`;
+  // Drizzle leaves columns unqualified in single-table queries, which inside the alias
+  // subqueries would resolve to skill_aliases.id
+  const outerSkillId = sql`${skillsTable}.${sql.identifier(skillsTable.id.name)}`;
+  const aliasScore = sql`greatest(similarity(lower(${skillAliasesTable.alias}), ${term}), word_similarity(${term}, lower(${skillAliasesTable.alias})))
+    + case when lower(${skillAliasesTable.alias}) like ${prefix} then 0.4 else 0 end`;
+
+  // Null columns (no translation) score null, which greatest() skips
+  const nameScore = (column: AnyColumn) => sql<number>`greatest(similarity(lower(${column}), ${term}), word_similarity(${term}, lower(${column})))
+    + case
+        when lower(${column}) = ${term} then 1
+        when lower(${column}) like ${prefix} then 0.5
+        when lower(${column}) like ${contains} then 0.25
+        else 0
+      end`;
+  const descriptionScore = (column: AnyColumn) => sql<number>`word_similarity(${term}, lower(coalesce(${column}, ''))) * 0.4
+    + case when lower(${column}) like ${contains} then 0.1 else 0 end`;
+
+  const name = sql<number>`greatest(${nameScore(skillsTable.name)}, ${nameScore(skillTranslationsTable.name)})`;
+  const alias = sql<number>`coalesce((
+    select max(${aliasScore}) * 0.9 from ${skillAliasesTable} where ${skillAliasesTable.skill_id} = ${outerSkillId}
+  ), 0)`;
+  const bestAlias = sql<string | null>`(
+    select ${skillAliasesTable.alias} from ${skillAliasesTable}
+    where ${skillAliasesTable.skill_id} = ${outerSkillId}
+    order by ${aliasScore} desc, ${skillAliasesTable.id}
+    limit 1
+  )`;
+  const category = sql<number>`word_similarity(${term}, lower(${skillsTable.category})) * 0.6
+    + case when lower(${skillsTable.category}) like ${contains} then 0.1 else 0 end`;
+  const description = sql<number>`greatest(${descriptionScore(skillsTable.description)}, ${descriptionScore(skillTranslationsTable.description)})`;
+
+  // Candidates are found with index-backed trigram operators; the scores above only rank them
+  const aliasMatch = exists(
+    db.select({ id: skillAliasesTable.id })
+      .from(skillAliasesTable)
+      .where(and(eq(skillAliasesTable.skill_id, outerSkillId), trigramMatch(skillAliasesTable.alias, term)))
+  );
+  const nameMatch = or(
+    trigramMatch(skillsTable.name, term),
+    trigramMatch(skillTranslationsTable.name, term),
+    aliasMatch
+  )!;
+  const anyMatch = or(
+    nameMatch,
+    trigramMatch(skillsTable.category, term),
+    trigramMatch(skillsTable.description, term),
+    trigramMatch(skillTranslationsTable.description, term)
+  )!;
+
+  return { name, alias, bestAlias, category, description, nameMatch, anyMatch };
+}
+
+export async function searchSkills(query: string, locale: Locale = DEFAULT_LOCALE): Promise<SkillSearchResult[]> {
   try {
-    if (!query.trim()) {
+    const term = query.trim().toLowerCase();
+    if (!term) {
       return [];
     }
 
-    const searchTerm = `%${query.trim()}%`;
-    
-    const results = await db.select()
+    const scores = relevance(term);
+    const score = sql<number>`greatest(${scores.name}, ${scores.alias}, ${scores.category}, ${scores.description})`;
+
+    const results = await db.select({
+      ...getTableColumns(skillsTable),
+      name: localizedSkillName,
+      description: localizedSkillDescription,
+      name_score: scores.name,
+      alias_score: scores.alias,
+      best_alias: scores.bestAlias,
+      category_score: scores.category,
+      description_score: scores.description,
+      score
+    })
       .from(skillsTable)
+      .leftJoin(skillTranslationsTable, skillTranslationJoin(locale))
       .where(
         and(
           eq(skillsTable.is_active, true),
-          or(
-            ilike(skillsTable.name, searchTerm),
-            ilike(skillsTable.category, searchTerm),
-            ilike(skillsTable.description, searchTerm)
-          )
+          scores.anyMatch
         )
       )
-      .orderBy(skillsTable.name)
+      .orderBy(desc(score), asc(localizedSkillName))
+      .limit(SEARCH_RESULT_LIMIT)
       .execute();
 
-    return results;
+    return results.map(({ name_score, alias_score, best_alias, category_score, description_score, score, ...skill }) => {
+      // Highlight whichever field matched best; the name wins ties
+      const candidates = [
+        { field: 'name' as const, text: skill.name, score: name_score },
+        { field: 'alias' as const, text: best_alias, score: alias_score },
+        { field: 'category' as const, text: skill.category, score: category_score },
+        { field: 'description' as const, text: skill.description, score: description_score }
+      ];
+      let best = candidates[0];
+      for (const candidate of candidates) {
+        if (candidate.text !== null && candidate.score > best.score) {
+          best = candidate;
+        }
+      }
+
+      const text = best.text ?? skill.name;
+      return {
+        ...skill,
+        score,
+        highlight: { field: best.field, text, ranges: highlightRanges(text, term) }
+      };
+    });
   } catch (error) {
     console.error('Failed to search skills:', error);
     throw error;
   }
 }
 
+// Type-ahead suggestions from names and aliases only, to stay cheap on every keystroke
+export async function autocompleteSkills(input: AutocompleteSkillsInput): Promise<SkillSuggestion[]> {
+  try {
+    const term = input.query.trim().toLowerCase();
+    if (!term) {
+      return [];
+    }
+
+    const scores = relevance(term);
+    const score = sql<number>`greatest(${scores.name}, ${scores.alias})`;
+
+    const results = await db.select({
+      skill_id: skillsTable.id,
+      name: localizedSkillName,
+      category: skillsTable.category,
+      name_score: scores.name,
+      alias_score: scores.alias,
+      best_alias: scores.bestAlias
+    })
+      .from(skillsTable)
+      .leftJoin(skillTranslationsTable, skillTranslationJoin(input.locale ?? DEFAULT_LOCALE))
+      .where(
+        and(
+          eq(skillsTable.is_active, true),
+          scores.nameMatch
+        )
+      )
+      .orderBy(desc(score), asc(localizedSkillName))
+      .limit(input.limit ?? AUTOCOMPLETE_LIMIT)
+      .execute();
+
+    return results.map(result => ({
+      skill_id: result.skill_id,
+      name: result.name,
+      category: result.category,
+      matched_alias: result.alias_score > result.name_score ? result.best_alias : null
+    }));
+  } catch (error) {
+    console.error('Failed to autocomplete skills:', error);
+    throw error;
+  }
+}
+
+export async function addSkillAlias(input: AddSkillAliasInput): Promise<SkillAlias> {
+  try {
+    const skills = await db.select({ id: skillsTable.id })
+      .from(skillsTable)
+      .where(eq(skillsTable.id, input.skill_id))
+      .execute();
+
+    if (skills.length === 0) {
+      throw new Error(`Skill with id ${input.skill_id} not found`);
+    }
+
+    const existing = await db.select({ id: skillAliasesTable.id })
+      .from(skillAliasesTable)
+      .where(
+        and(
+          eq(skillAliasesTable.skill_id, input.skill_id),
+          eq(sql`lower(${skillAliasesTable.alias})`, input.alias.toLowerCase())
+        )
+      )
+      .execute();
+
+    if (existing.length > 0) {
+      throw new Error('Skill already has this alias');
+    }
+
+    const results = await db.insert(skillAliasesTable)
+      .values({
+        skill_id: input.skill_id,
+        alias: input.alias,
+        locale: input.locale ?? null
+      })
+      .returning()
+      .execute();
+
+    return results[0];
+  } catch (error) {
+    console.error('Failed to add skill alias:', error);
+    throw error;
+  }
+}
+
+export async function removeSkillAlias(aliasId: number): Promise<{ success: boolean }> {
+  try {
+    const result = await db.delete(skillAliasesTable)
+      .where(eq(skillAliasesTable.id, aliasId))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error('Skill alias not found');
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to remove skill alias:', error);
+    throw error;
+  }
+}
+
+export async function getSkillAliases(skillId: number): Promise<SkillAlias[]> {
+  try {
+    return await db.select()
+      .from(skillAliasesTable)
+      .where(eq(skillAliasesTable.skill_id, skillId))
+      .orderBy(asc(skillAliasesTable.alias))
+      .execute();
+  } catch (error) {
+    console.error('Failed to fetch skill aliases:', error);
+    throw error;
+  }
+}
+
 export async function createSkill(input: CreateSkillInput): Promise<Skill> {
   try {
+    const category = input.category_id !== undefined
+      ? await getCategory(input.category_id)
+      : await findOrCreateCategory(input.category!);
+
     const results = await db.insert(skillsTable)
       .values({
         name: input.name,
-        category: input.category,
+        category: category.name,
+        category_id: category.id,
         description: input.description,
-        icon: input.icon
+        icon: input.icon,
+        validity_days: input.validity_days ?? null
       })
       .returning()
       .execute();
@@ -68,6 +332,131 @@ export async function createSkill(input: CreateSkillInput): Promise<Skill> {
   }
 }
 
+// Follows a merge so links and clients holding a merged skill's id keep working
+export async function resolveSkillId(skillId: number): Promise<number> {
+  const merges = await db.select({ target_skill_id: skillMergesTable.target_skill_id })
+    .from(skillMergesTable)
+    .where(eq(skillMergesTable.source_skill_id, skillId))
+    .execute();
+
+  return merges[0]?.target_skill_id ?? skillId;
+}
+
+// Throws unless the user holds every direct prerequisite of the skill as a verified skill.
+// Only called for skills with enforce_prerequisites set.
+export async function assertPrerequisitesMet(userId: number, skillId: number): Promise<void> {
+  const missing = await db.select({ name: skillsTable.name })
+    .from(skillPrerequisitesTable)
+    .innerJoin(skillsTable, eq(skillPrerequisitesTable.prerequisite_skill_id, skillsTable.id))
+    .leftJoin(userSkillsTable, and(
+      eq(userSkillsTable.skill_id, skillPrerequisitesTable.prerequisite_skill_id),
+      eq(userSkillsTable.user_id, userId),
+      eq(userSkillsTable.is_verified, true),
+      isNull(userSkillsTable.archived_at)
+    ))
+    .where(and(eq(skillPrerequisitesTable.skill_id, skillId), isNull(userSkillsTable.id)))
+    .orderBy(asc(skillsTable.name))
+    .execute();
+
+  if (missing.length > 0) {
+    throw new Error(`Verify these prerequisite skills first: ${missing.map(skill => skill.name).join(', ')}`);
+  }
+}
+
+// Looks a skill up by id, following merges to the skill that survived
+export async function getSkill(skillId: number): Promise<Skill> {
+  try {
+    const results = await db.select()
+      .from(skillsTable)
+      .where(eq(skillsTable.id, await resolveSkillId(skillId)))
+      .execute();
+
+    if (results.length === 0) {
+      throw new Error(`Skill with id ${skillId} not found`);
+    }
+
+    return results[0];
+  } catch (error) {
+    console.error('Failed to fetch skill:', error);
+    throw error;
+  }
+}
+
+export async function updateSkill(input: UpdateSkillInput, actor: AuditActor = SYSTEM_ACTOR): Promise<Skill> {
+  try {
+    const existing = await db.select()
+      .from(skillsTable)
+      .where(eq(skillsTable.id, input.id))
+      .execute();
+
+    if (existing.length === 0) {
+      throw new Error(`Skill with id ${input.id} not found`);
+    }
+
+    const updateData: Partial<typeof skillsTable.$inferInsert> = {};
+
+    if (input.name !== undefined) {
+      updateData.name = input.name;
+    }
+    if (input.category_id !== undefined) {
+      const category = await getCategory(input.category_id);
+      updateData.category_id = category.id;
+      updateData.category = category.name;
+    }
+    if (input.description !== undefined) {
+      updateData.description = input.description;
+    }
+    if (input.icon !== undefined) {
+      updateData.icon = input.icon;
+    }
+    if (input.is_active !== undefined) {
+      if (input.is_active && await resolveSkillId(input.id) !== input.id) {
+        throw new Error('A merged skill cannot be reactivated');
+      }
+      updateData.is_active = input.is_active;
+    }
+    if (input.enforce_prerequisites !== undefined) {
+      updateData.enforce_prerequisites = input.enforce_prerequisites;
+    }
+    if (input.validity_days !== undefined) {
+      updateData.validity_days = input.validity_days;
+    }
+
+    if (Object.keys(updateData).length === 0) {
+      return existing[0];
+    }
+
+    const results = await db.update(skillsTable)
+      .set(updateData)
+      .where(eq(skillsTable.id, input.id))
+      .returning()
+      .execute();
+
+    // Current verifications move to the new validity straight away
+    if (input.validity_days !== undefined) {
+      await syncVerificationExpiry(input.id);
+    }
+
+    await recordAuditEvent(actor, {
+      action: 'skill.updated',
+      target_type: 'skill',
+      target_id: input.id,
+      ...diffSnapshots(existing[0], results[0])
+    });
+
+    return results[0];
+  } catch (error) {
+    console.error('Failed to update skill:', error);
+    throw error;
+  }
+}
+
+// Hides a skill from the catalogue and stops new claims and listings for it. Users who
+// already hold it keep it.
+export async function deactivateSkill(skillId: number, actor: AuditActor = SYSTEM_ACTOR): Promise<Skill> {
+  return await updateSkill({ id: skillId, is_active: false }, actor);
+}
+
 export async function addUserSkill(userId: number, input: AddUserSkillInput): Promise<UserSkill> {
   try {
     // First verify that both user and skill exist
@@ -80,38 +469,41 @@ export async function addUserSkill(userId: number, input: AddUserSkillInput): Pr
       throw new Error(`User with id ${userId} not found`);
     }
 
-    const skillExists = await db.select({ id: skillsTable.id })
+    const skillId = await resolveSkillId(input.skill_id);
+
+    const skillExists = await db.select()
       .from(skillsTable)
-      .where(eq(skillsTable.id, input.skill_id))
+      .where(eq(skillsTable.id, skillId))
       .execute();
 
     if (skillExists.length === 0) {
       throw new Error(`Skill with id ${input.skill_id} not found`);
     }
 
-    // Check if user already has this skill
-    const existingUserSkill = await db.select()
-      .from(userSkillsTable)
-      .where(
-        and(
-          eq(userSkillsTable.user_id, userId),
-          eq(userSkillsTable.skill_id, input.skill_id)
-        )
-      )
-      .execute();
+    if (!skillExists[0].is_active) {
+      throw new Error('Skill is no longer offered');
+    }
 
-    if (existingUserSkill.length > 0) {
-      throw new Error('User already has this skill');
+    if (skillExists[0].enforce_prerequisites) {
+      await assertPrerequisitesMet(userId, skillId);
     }
 
+    // The partial unique index allows one active row per skill, so of two concurrent adds only
+    // one inserts; a removed skill can be added again
     const results = await db.insert(userSkillsTable)
       .values({
         user_id: userId,
-        skill_id: input.skill_id
+        skill_id: skillId,
+        claimed_level: input.claimed_level ?? 'beginner'
       })
+      .onConflictDoNothing()
       .returning()
       .execute();
 
+    if (results.length === 0) {
+      throw new Error('User already has this skill');
+    }
+
     return results[0];
   } catch (error) {
     console.error('Failed to add user skill:', error);
@@ -133,7 +525,7 @@ export async function getUserSkills(userId: number): Promise<UserSkill[]> {
 
     const results = await db.select()
       .from(userSkillsTable)
-      .where(eq(userSkillsTable.user_id, userId))
+      .where(and(eq(userSkillsTable.user_id, userId), isNull(userSkillsTable.archived_at)))
       .orderBy(userSkillsTable.created_at)
       .execute();
 
@@ -142,4 +534,51 @@ export async function getUserSkills(userId: number): Promise<UserSkill[]> {
     console.error('Failed to fetch user skills:', error);
     throw error;
   }
+}
+
+// Archives a skill the user no longer wants on their profile. Nothing is deleted: proofs, test
+// attempts and certificates stay attached to the archived row as history, but its certificates
+// stop verifying. Adding the skill again starts a fresh user skill.
+export async function removeUserSkill(userId: number, userSkillId: number, actor: AuditActor = SYSTEM_ACTOR): Promise<UserSkill> {
+  try {
+    return await db.transaction(async (tx) => {
+      const archived = await tx.update(userSkillsTable)
+        .set({ archived_at: new Date() })
+        .where(
+          and(
+            eq(userSkillsTable.id, userSkillId),
+            eq(userSkillsTable.user_id, userId),
+            isNull(userSkillsTable.archived_at)
+          )
+        )
+        .returning()
+        .execute();
+
+      if (archived.length === 0) {
+        throw new Error('User skill not found');
+      }
+
+      const certificates = await tx.update(certificatesTable)
+        .set({ is_active: false })
+        .where(and(eq(certificatesTable.user_skill_id, userSkillId), eq(certificatesTable.is_active, true)))
+        .returning({ id: certificatesTable.id })
+        .execute();
+
+      await recordAuditEvent(actor, {
+        action: 'user_skill.archived',
+        target_type: 'user_skill',
+        target_id: userSkillId,
+        before: { archived_at: null },
+        after: {
+          archived_at: archived[0].archived_at,
+          deactivated_certificate_ids: certificates.map(certificate => certificate.id)
+        }
+      }, tx);
+
+      return archived[0];
+    });
+  } catch (error) {
+    console.error('Failed to remove user skill:', error);
+    throw error;
+  }
 }
\ No newline at end of file
@@ -1,26 +1,37 @@
 import { db } from '../db';
 import { 
   miniTestsTable, 
+  miniTestTranslationsTable,
   testQuestionsTable, 
   testAttemptsTable, 
   userSkillsTable,
   usersTable,
   skillsTable
 } from '../db/schema';
-import { eq, and, desc, asc } from 'drizzle-orm';
-import { type MiniTest, type TestQuestion, type TestAttempt, type StartTestInput, type SubmitTestInput } from '../schema';
-
-export const getTestsForSkill = async (skillId: number): Promise<MiniTest[]> => {
+import { eq, and, desc, asc, isNull, getTableColumns } from 'drizzle-orm';
+import { type MiniTest, type TestQuestion, type TestAttempt, type StartTestInput, type SubmitTestInput, type Locale } from '../schema';
+import { evaluateSkillLevel } from './levels';
+import { resolveSkillId, assertPrerequisitesMet } from './skills';
+import { miniTestTranslationJoin, localizedTestTitle, localizedTestDescription } from './translations';
+import { DEFAULT_LOCALE } from '../lib/locale';
+
+export const getTestsForSkill = async (requestedSkillId: number, locale: Locale = DEFAULT_LOCALE): Promise<MiniTest[]> => {
   try {
-    const results = await db.select()
+    const skillId = await resolveSkillId(requestedSkillId);
+    const results = await db.select({
+      ...getTableColumns(miniTestsTable),
+      title: localizedTestTitle,
+      description: localizedTestDescription
+    })
       .from(miniTestsTable)
+      .leftJoin(miniTestTranslationsTable, miniTestTranslationJoin(locale))
       .where(
         and(
           eq(miniTestsTable.skill_id, skillId),
           eq(miniTestsTable.is_active, true)
         )
       )
-      .orderBy(asc(miniTestsTable.title))
+      .orderBy(asc(miniTestsTable.level), asc(localizedTestTitle))
       .execute();
 
     return results.map(test => ({
@@ -60,7 +71,8 @@ export const startTest = async (userId: number, input: StartTestInput): Promise<
       .where(
         and(
           eq(userSkillsTable.id, input.user_skill_id),
-          eq(userSkillsTable.user_id, userId)
+          eq(userSkillsTable.user_id, userId),
+          isNull(userSkillsTable.archived_at)
         )
       )
       .execute();
@@ -84,6 +96,15 @@ export const startTest = async (userId: number, input: StartTestInput): Promise<
       throw new Error('Test not found or is not active');
     }
 
+    const skills = await db.select({ enforce_prerequisites: skillsTable.enforce_prerequisites })
+      .from(skillsTable)
+      .where(eq(skillsTable.id, userSkill[0].skill_id))
+      .execute();
+
+    if (skills[0]?.enforce_prerequisites) {
+      await assertPrerequisitesMet(userId, userSkill[0].skill_id);
+    }
+
     // Calculate total points for the test
     const questions = await db.select()
       .from(testQuestionsTable)
@@ -125,7 +146,8 @@ export const submitTest = async (userId: number, input: SubmitTestInput): Promis
       .where(
         and(
           eq(testAttemptsTable.id, input.attempt_id),
-          eq(userSkillsTable.user_id, userId)
+          eq(userSkillsTable.user_id, userId),
+          isNull(userSkillsTable.archived_at)
         )
       )
       .execute();
@@ -178,6 +200,10 @@ export const submitTest = async (userId: number, input: SubmitTestInput): Promis
       .returning()
       .execute();
 
+    if (passed) {
+      await evaluateSkillLevel(attempt.user_skill_id);
+    }
+
     return {
       ...result[0],
       score: result[0].score, // Integer column - no conversion needed
@@ -192,17 +218,17 @@ export const submitTest = async (userId: number, input: SubmitTestInput): Promis
 export const getUserTestAttempts = async (userId: number, skillId?: number): Promise<TestAttempt[]> => {
   try {
     // Build conditions array
-    const conditions = [eq(userSkillsTable.user_id, userId)];
+    const conditions = [eq(userSkillsTable.user_id, userId), isNull(userSkillsTable.archived_at)];
 
     if (skillId !== undefined) {
-      conditions.push(eq(userSkillsTable.skill_id, skillId));
+      conditions.push(eq(userSkillsTable.skill_id, await resolveSkillId(skillId)));
     }
 
     // Build complete query in one chain
     const results = await db.select()
       .from(testAttemptsTable)
       .innerJoin(userSkillsTable, eq(testAttemptsTable.user_skill_id, userSkillsTable.id))
-      .where(conditions.length === 1 ? conditions[0] : and(...conditions))
+      .where(and(...conditions))
       .orderBy(desc(testAttemptsTable.started_at))
       .execute();
 
@@ -0,0 +1,312 @@
+import { randomBytes } from 'crypto';
+import QRCode from 'qrcode';
+import { db } from '../db';
+import { usersTable, totpCredentialsTable, recoveryCodesTable } from '../db/schema';
+import {
+  type User,
+  type LoginResult,
+  type TwoFactorLoginInput,
+  type TotpEnrollment,
+  type ConfirmTotpInput,
+  type DisableTwoFactorInput,
+  type RecoveryCodes,
+  type RequestMetadata,
+  type AuditActor
+} from '../schema';
+import { eq, and, or, lt, isNull, isNotNull } from 'drizzle-orm';
+import { verifyPassword } from '../lib/passwords';
+import { issueActionToken, verifyActionToken, hashOpaqueToken } from '../lib/tokens';
+import { generateTotpSecret, verifyTotp, otpauthUri, base32Encode } from '../lib/totp';
+import { assertNotThrottled, recordFailure, resetFailures, accountPolicy } from '../lib/throttle';
+import { createSession } from './sessions';
+import { recordAuditEvent, auditActor, SYSTEM_ACTOR } from '../lib/audit';
+
+const TOTP_ISSUER = 'Skill-Proof';
+const TWO_FACTOR_CHALLENGE_TTL = '5m';
+const RECOVERY_CODE_COUNT = 10;
+
+const twoFactorKey = (userId: number) => `two_factor:${userId}`;
+
+// Recovery codes look like "k3xq7-p2mva"; dashes, spaces and case are ignored when redeeming
+function generateRecoveryCode(): string {
+  const raw = base32Encode(randomBytes(7)).slice(0, 10).toLowerCase();
+  return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+}
+
+function normalizeRecoveryCode(code: string): string {
+  return code.replace(/[\s-]/g, '').toLowerCase();
+}
+
+async function replaceRecoveryCodes(userId: number): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+
+  await db.transaction(async (tx) => {
+    await tx.delete(recoveryCodesTable)
+      .where(eq(recoveryCodesTable.user_id, userId))
+      .execute();
+
+    await tx.insert(recoveryCodesTable)
+      .values(codes.map(code => ({
+        user_id: userId,
+        code_hash: hashOpaqueToken(normalizeRecoveryCode(code))
+      })))
+      .execute();
+  });
+
+  return codes;
+}
+
+async function getConfirmedCredential(userId: number) {
+  const credentials = await db.select()
+    .from(totpCredentialsTable)
+    .where(
+      and(
+        eq(totpCredentialsTable.user_id, userId),
+        isNotNull(totpCredentialsTable.confirmed_at)
+      )
+    )
+    .execute();
+
+  return credentials.length > 0 ? credentials[0] : null;
+}
+
+// Accepts a TOTP code (each time step only once) or consumes an unused recovery code
+async function verifySecondFactor(userId: number, code: string): Promise<boolean> {
+  const credential = await getConfirmedCredential(userId);
+  if (!credential) {
+    return false;
+  }
+
+  const step = verifyTotp(credential.secret, code);
+  if (step !== null) {
+    // Claiming the step in the same statement that checks it keeps two concurrent requests
+    // from both accepting one code
+    const accepted = await db.update(totpCredentialsTable)
+      .set({ last_used_step: step })
+      .where(
+        and(
+          eq(totpCredentialsTable.id, credential.id),
+          or(isNull(totpCredentialsTable.last_used_step), lt(totpCredentialsTable.last_used_step, step))
+        )
+      )
+      .returning({ id: totpCredentialsTable.id })
+      .execute();
+
+    return accepted.length > 0;
+  }
+
+  const used = await db.update(recoveryCodesTable)
+    .set({ used_at: new Date() })
+    .where(
+      and(
+        eq(recoveryCodesTable.user_id, userId),
+        eq(recoveryCodesTable.code_hash, hashOpaqueToken(normalizeRecoveryCode(code))),
+        isNull(recoveryCodesTable.used_at)
+      )
+    )
+    .returning()
+    .execute();
+
+  return used.length > 0;
+}
+
+// Codes are only six digits, so every place that accepts one shares the login backoff and
+// lockout for the user
+async function assertSecondFactor(userId: number, code: string): Promise<void> {
+  await assertNotThrottled([twoFactorKey(userId)]);
+
+  if (!(await verifySecondFactor(userId, code))) {
+    await recordFailure([{ key: twoFactorKey(userId), policy: accountPolicy }]);
+    throw new Error('Invalid authentication code');
+  }
+
+  await resetFailures(twoFactorKey(userId));
+}
+
+export async function hasTwoFactorEnabled(userId: number): Promise<boolean> {
+  return (await getConfirmedCredential(userId)) !== null;
+}
+
+// Short-lived token proving the password step succeeded; exchanged for a session with a code
+export function issueTwoFactorChallenge(user: { id: number; email: string }): string {
+  return issueActionToken('two_factor_login', { userId: user.id, email: user.email }, TWO_FACTOR_CHALLENGE_TTL);
+}
+
+export async function startTotpEnrollment(userId: number): Promise<TotpEnrollment> {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error('User not found');
+    }
+
+    if (await hasTwoFactorEnabled(userId)) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+
+    // Restarting enrollment replaces any secret that was never confirmed
+    const secret = generateTotpSecret();
+    await db.insert(totpCredentialsTable)
+      .values({ user_id: userId, secret })
+      .onConflictDoUpdate({
+        target: totpCredentialsTable.user_id,
+        set: { secret, last_used_step: null, created_at: new Date() }
+      })
+      .execute();
+
+    const uri = otpauthUri(secret, users[0].email, TOTP_ISSUER);
+
+    return {
+      secret,
+      otpauth_uri: uri,
+      qr_code: await QRCode.toDataURL(uri)
+    };
+  } catch (error) {
+    console.error('TOTP enrollment failed:', error);
+    throw error;
+  }
+}
+
+export async function confirmTotpEnrollment(userId: number, input: ConfirmTotpInput): Promise<RecoveryCodes> {
+  try {
+    const credentials = await db.select()
+      .from(totpCredentialsTable)
+      .where(eq(totpCredentialsTable.user_id, userId))
+      .execute();
+
+    if (credentials.length === 0) {
+      throw new Error('No two-factor enrollment in progress');
+    }
+
+    const credential = credentials[0];
+    if (credential.confirmed_at !== null) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+
+    const step = verifyTotp(credential.secret, input.code);
+    if (step === null) {
+      throw new Error('Invalid authentication code');
+    }
+
+    await db.update(totpCredentialsTable)
+      .set({ confirmed_at: new Date(), last_used_step: step })
+      .where(eq(totpCredentialsTable.id, credential.id))
+      .execute();
+
+    return { recovery_codes: await replaceRecoveryCodes(userId) };
+  } catch (error) {
+    console.error('TOTP confirmation failed:', error);
+    throw error;
+  }
+}
+
+export async function completeTwoFactorLogin(
+  input: TwoFactorLoginInput,
+  meta: RequestMetadata = { ip_address: null, user_agent: null }
+): Promise<LoginResult> {
+  try {
+    const claims = verifyActionToken(input.challenge_token, 'two_factor_login');
+    await assertSecondFactor(claims.userId, input.code);
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(
+        and(
+          eq(usersTable.id, claims.userId),
+          eq(usersTable.email, claims.email)
+        )
+      )
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error('User not found');
+    }
+
+    const user = users[0];
+    const tokens = await createSession(user, meta, input.device_label ?? null);
+
+    await recordAuditEvent(auditActor(user.id, meta), {
+      action: 'auth.login',
+      target_type: 'user',
+      target_id: user.id,
+      after: { method: 'two_factor', device_label: input.device_label ?? null }
+    });
+
+    const userData: User = {
+      ...user,
+      rating: user.rating ? parseFloat(user.rating) : null
+    };
+
+    return {
+      two_factor_required: false,
+      user: userData,
+      ...tokens
+    };
+  } catch (error) {
+    console.error('Two-factor login failed:', error);
+    throw error;
+  }
+}
+
+export async function regenerateRecoveryCodes(userId: number, input: ConfirmTotpInput): Promise<RecoveryCodes> {
+  try {
+    await assertSecondFactor(userId, input.code);
+
+    return { recovery_codes: await replaceRecoveryCodes(userId) };
+  } catch (error) {
+    console.error('Recovery code regeneration failed:', error);
+    throw error;
+  }
+}
+
+export async function disableTwoFactor(
+  userId: number,
+  input: DisableTwoFactorInput,
+  actor: AuditActor = SYSTEM_ACTOR
+): Promise<{ success: boolean }> {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error('User not found');
+    }
+
+    // Re-authenticate with both factors so a hijacked session cannot strip the second one;
+    // wrong passwords count towards the same lockout as wrong codes
+    await assertNotThrottled([twoFactorKey(userId)]);
+
+    if (!verifyPassword(input.password, users[0].password_hash)) {
+      await recordFailure([{ key: twoFactorKey(userId), policy: accountPolicy }]);
+      throw new Error('Current password is incorrect');
+    }
+
+    await assertSecondFactor(userId, input.code);
+
+    await db.transaction(async (tx) => {
+      await tx.delete(recoveryCodesTable)
+        .where(eq(recoveryCodesTable.user_id, userId))
+        .execute();
+
+      await tx.delete(totpCredentialsTable)
+        .where(eq(totpCredentialsTable.user_id, userId))
+        .execute();
+
+      await recordAuditEvent(actor, {
+        action: 'two_factor.disabled',
+        target_type: 'user',
+        target_id: userId
+      }, tx);
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Disable two-factor failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,155 @@
+import { db } from '../db';
+import { skillsTable, skillTranslationsTable, miniTestsTable, miniTestTranslationsTable } from '../db/schema';
+import {
+  type Locale,
+  type SkillTranslation,
+  type SetSkillTranslationInput,
+  type TestTranslation,
+  type SetTestTranslationInput
+} from '../schema';
+import { eq, and, asc, sql } from 'drizzle-orm';
+import { DEFAULT_LOCALE } from '../lib/locale';
+
+// Localized reads left join the translation for the requested locale and fall back field by
+// field to the default language on the skill or test itself
+export function skillTranslationJoin(locale: Locale) {
+  return and(eq(skillTranslationsTable.skill_id, skillsTable.id), eq(skillTranslationsTable.locale, locale))!;
+}
+
+export const localizedSkillName = sql<string>`coalesce(${skillTranslationsTable.name}, ${skillsTable.name})`;
+export const localizedSkillDescription = sql<string | null>`coalesce(${skillTranslationsTable.description}, ${skillsTable.description})`;
+
+export function miniTestTranslationJoin(locale: Locale) {
+  return and(eq(miniTestTranslationsTable.test_id, miniTestsTable.id), eq(miniTestTranslationsTable.locale, locale))!;
+}
+
+export const localizedTestTitle = sql<string>`coalesce(${miniTestTranslationsTable.title}, ${miniTestsTable.title})`;
+export const localizedTestDescription = sql<string | null>`coalesce(${miniTestTranslationsTable.description}, ${miniTestsTable.description})`;
+
+function assertTranslatableLocale(locale: Locale): void {
+  if (locale === DEFAULT_LOCALE) {
+    throw new Error(`Text in the default language (${DEFAULT_LOCALE}) is edited on the record itself`);
+  }
+}
+
+export async function setSkillTranslation(input: SetSkillTranslationInput): Promise<SkillTranslation> {
+  try {
+    assertTranslatableLocale(input.locale);
+
+    const skills = await db.select({ id: skillsTable.id })
+      .from(skillsTable)
+      .where(eq(skillsTable.id, input.skill_id))
+      .execute();
+
+    if (skills.length === 0) {
+      throw new Error(`Skill with id ${input.skill_id} not found`);
+    }
+
+    const description = input.description ?? null;
+    const results = await db.insert(skillTranslationsTable)
+      .values({ skill_id: input.skill_id, locale: input.locale, name: input.name, description })
+      .onConflictDoUpdate({
+        target: [skillTranslationsTable.skill_id, skillTranslationsTable.locale],
+        set: { name: input.name, description, updated_at: new Date() }
+      })
+      .returning()
+      .execute();
+
+    return results[0];
+  } catch (error) {
+    console.error('Setting skill translation failed:', error);
+    throw error;
+  }
+}
+
+export async function removeSkillTranslation(skillId: number, locale: Locale): Promise<{ success: boolean }> {
+  try {
+    const result = await db.delete(skillTranslationsTable)
+      .where(and(eq(skillTranslationsTable.skill_id, skillId), eq(skillTranslationsTable.locale, locale)))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error('Skill translation not found');
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Removing skill translation failed:', error);
+    throw error;
+  }
+}
+
+export async function getSkillTranslations(skillId: number): Promise<SkillTranslation[]> {
+  try {
+    return await db.select()
+      .from(skillTranslationsTable)
+      .where(eq(skillTranslationsTable.skill_id, skillId))
+      .orderBy(asc(skillTranslationsTable.locale))
+      .execute();
+  } catch (error) {
+    console.error('Fetching skill translations failed:', error);
+    throw error;
+  }
+}
+
+export async function setTestTranslation(input: SetTestTranslationInput): Promise<TestTranslation> {
+  try {
+    assertTranslatableLocale(input.locale);
+
+    const tests = await db.select({ id: miniTestsTable.id })
+      .from(miniTestsTable)
+      .where(eq(miniTestsTable.id, input.test_id))
+      .execute();
+
+    if (tests.length === 0) {
+      throw new Error('Test not found');
+    }
+
+    const description = input.description ?? null;
+    const results = await db.insert(miniTestTranslationsTable)
+      .values({ test_id: input.test_id, locale: input.locale, title: input.title, description })
+      .onConflictDoUpdate({
+        target: [miniTestTranslationsTable.test_id, miniTestTranslationsTable.locale],
+        set: { title: input.title, description, updated_at: new Date() }
+      })
+      .returning()
+      .execute();
+
+    return results[0];
+  } catch (error) {
+    console.error('Setting test translation failed:', error);
+    throw error;
+  }
+}
+
+export async function removeTestTranslation(testId: number, locale: Locale): Promise<{ success: boolean }> {
+  try {
+    const result = await db.delete(miniTestTranslationsTable)
+      .where(and(eq(miniTestTranslationsTable.test_id, testId), eq(miniTestTranslationsTable.locale, locale)))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error('Test translation not found');
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Removing test translation failed:', error);
+    throw error;
+  }
+}
+
+export async function getTestTranslations(testId: number): Promise<TestTranslation[]> {
+  try {
+    return await db.select()
+      .from(miniTestTranslationsTable)
+      .where(eq(miniTestTranslationsTable.test_id, testId))
+      .orderBy(asc(miniTestTranslationsTable.locale))
+      .execute();
+  } catch (error) {
+    console.error('Fetching test translations failed:', error);
+    throw error;
+  }
+}
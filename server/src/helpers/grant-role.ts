@@ -0,0 +1,36 @@
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { roleSchema } from '../schema';
+import { grantRole } from '../handlers/roles';
+import { eq } from 'drizzle-orm';
+
+// Usage: bun src/helpers/grant-role.ts <email> [role]
+// Bootstraps the first admin, who can then grant roles through the API
+const [email, role = 'admin'] = process.argv.slice(2);
+
+async function main() {
+  if (!email) {
+    throw new Error('Usage: grant-role.ts <email> [role]');
+  }
+
+  const users = await db.select({ id: usersTable.id })
+    .from(usersTable)
+    .where(eq(usersTable.email, email))
+    .execute();
+
+  if (users.length === 0) {
+    throw new Error(`User with email ${email} not found`);
+  }
+
+  await grantRole(null, { user_id: users[0].id, role: roleSchema.parse(role) });
+}
+
+main()
+  .then(() => {
+    console.log(`Granted ${role} role to ${email}`);
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
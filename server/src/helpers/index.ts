@@ -2,6 +2,7 @@ import { db } from '../db';
 import { sql } from 'drizzle-orm';
 import * as schema from "../db/schema";
 import { generateDrizzleJson, generateMigration } from 'drizzle-kit/api';
+import { ensureSearchExtension } from '../lib/search';
 
 export const resetDB = async () => {
   await db.execute(sql`drop schema if exists public cascade`);
@@ -10,6 +11,8 @@ export const resetDB = async () => {
 };
 
 export const createDB = async () => {
+  // Dropping the public schema takes pg_trgm with it
+  await ensureSearchExtension();
   const migrationStatements = await generateMigration(
     generateDrizzleJson({}),
     generateDrizzleJson({ ...schema })
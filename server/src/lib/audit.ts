@@ -0,0 +1,149 @@
+import { db } from '../db';
+import { auditEventsTable } from '../db/schema';
+import { eq, and, or } from 'drizzle-orm';
+import { type AuditActor, type RequestMetadata } from '../schema';
+
+// Recording side of the audit log; events are only ever inserted, never deleted, and only updated
+// to scrub the personal details of an account that is purged
+
+export const SYSTEM_ACTOR: AuditActor = {
+  user_id: null,
+  api_key_id: null,
+  impersonator_id: null,
+  ip_address: null,
+  user_agent: null
+};
+
+export function auditActor(
+  userId: number | null,
+  meta: RequestMetadata,
+  apiKeyId: number | null = null,
+  impersonatorId: number | null = null
+): AuditActor {
+  return {
+    user_id: userId,
+    api_key_id: apiKeyId,
+    impersonator_id: impersonatorId,
+    ip_address: meta.ip_address,
+    user_agent: meta.user_agent
+  };
+}
+
+// Credentials never belong in the log, even hashed
+const REDACTED_FIELDS = new Set([
+  'password', 'current_password', 'new_password', 'password_hash',
+  'secret', 'secret_hash', 'code', 'code_hash', 'token', 'token_hash'
+]);
+
+type Snapshot = Record<string, unknown>;
+
+function comparable(value: unknown): unknown {
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+// Walks nested objects and arrays too, since snapshots can carry request input as a whole
+function omitFields(snapshot: Snapshot, fields: Set<string>): Snapshot {
+  return Object.fromEntries(
+    Object.entries(snapshot)
+      .filter(([field]) => !fields.has(field))
+      .map(([field, value]) => [field, omitNestedFields(value, fields)])
+  );
+}
+
+function omitNestedFields(value: unknown, fields: Set<string>): unknown {
+  if (Array.isArray(value)) {
+    return value.map(item => omitNestedFields(item, fields));
+  }
+
+  if (value !== null && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    return omitFields(value as Snapshot, fields);
+  }
+
+  return value;
+}
+
+function redact(snapshot: Snapshot): Snapshot {
+  return omitFields(snapshot, REDACTED_FIELDS);
+}
+
+// Keeps only the fields that changed, so events stay small and show exactly what moved
+export function diffSnapshots(before: Snapshot, after: Snapshot): { before: Snapshot; after: Snapshot } {
+  const changedBefore: Snapshot = {};
+  const changedAfter: Snapshot = {};
+
+  for (const field of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if (REDACTED_FIELDS.has(field) || field === 'updated_at') {
+      continue;
+    }
+
+    if (JSON.stringify(comparable(before[field])) !== JSON.stringify(comparable(after[field]))) {
+      changedBefore[field] = before[field] ?? null;
+      changedAfter[field] = after[field] ?? null;
+    }
+  }
+
+  return { before: changedBefore, after: changedAfter };
+}
+
+export type AuditEventInput = {
+  action: string;
+  target_type: string;
+  target_id: number | null;
+  before?: Snapshot | null;
+  after?: Snapshot | null;
+};
+
+// Accepts a transaction so the event commits or rolls back with the change it describes
+type Executor = Pick<typeof db, 'insert'>;
+
+export async function recordAuditEvent(actor: AuditActor, event: AuditEventInput, executor: Executor = db): Promise<void> {
+  await executor.insert(auditEventsTable)
+    .values({
+      actor_user_id: actor.user_id,
+      actor_api_key_id: actor.api_key_id,
+      actor_impersonator_id: actor.impersonator_id,
+      action: event.action,
+      target_type: event.target_type,
+      target_id: event.target_id,
+      before: event.before ? redact(event.before) : null,
+      after: event.after ? redact(event.after) : null,
+      ip_address: actor.ip_address,
+      user_agent: actor.user_agent
+    })
+    .execute();
+}
+
+// Personal details events copy from an account, e.g. on registration and profile updates
+const PERSONAL_FIELDS = new Set([
+  'full_name', 'email', 'phone', 'location', 'bio', 'profile_photo', 'message'
+]);
+
+type ScrubExecutor = Pick<typeof db, 'select' | 'update'>;
+
+// Strips the personal details of a purged account from the events about it and the events it
+// caused, and forgets where its own requests came from. The actions themselves stay on record.
+export async function scrubAuditEvents(userId: number, executor: ScrubExecutor = db): Promise<void> {
+  const events = await executor.select()
+    .from(auditEventsTable)
+    .where(
+      or(
+        and(eq(auditEventsTable.target_type, 'user'), eq(auditEventsTable.target_id, userId)),
+        eq(auditEventsTable.actor_user_id, userId)
+      )
+    )
+    .execute();
+
+  for (const event of events) {
+    const ownRequest = event.actor_user_id === userId;
+
+    await executor.update(auditEventsTable)
+      .set({
+        before: event.before ? omitFields(event.before as Snapshot, PERSONAL_FIELDS) : null,
+        after: event.after ? omitFields(event.after as Snapshot, PERSONAL_FIELDS) : null,
+        ip_address: ownRequest ? null : event.ip_address,
+        user_agent: ownRequest ? null : event.user_agent
+      })
+      .where(eq(auditEventsTable.id, event.id))
+      .execute();
+  }
+}
@@ -0,0 +1,22 @@
+// In-process background work: the request returns straight away while the task runs on.
+// Tasks are tracked so tests and shutdown can wait for them to settle.
+
+const running = new Set<Promise<void>>();
+
+export function runInBackground(name: string, task: () => Promise<void>): void {
+  const job = task()
+    .catch(error => {
+      console.error(`Background job ${name} failed:`, error);
+    })
+    .finally(() => {
+      running.delete(job);
+    });
+
+  running.add(job);
+}
+
+export async function waitForBackgroundJobs(): Promise<void> {
+  while (running.size > 0) {
+    await Promise.all(running);
+  }
+}
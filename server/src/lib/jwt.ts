@@ -0,0 +1,244 @@
+import {
+  createHmac,
+  createPrivateKey,
+  createPublicKey,
+  createHash,
+  sign as cryptoSign,
+  verify as cryptoVerify,
+  timingSafeEqual,
+  type JsonWebKey,
+  type KeyObject
+} from 'crypto';
+
+// RFC 7519 JSON Web Tokens signed with HMAC-SHA256 or Ed25519; RS256 is accepted for
+// tokens issued by external identity providers
+
+export type JWTAlgorithm = 'HS256' | 'EdDSA' | 'RS256';
+
+export type JWTKey =
+  | { kid: string; alg: 'HS256'; secret: Buffer }
+  | { kid: string; alg: 'EdDSA' | 'RS256'; publicKey: KeyObject; privateKey: KeyObject | null };
+
+// The signing key issues new tokens; every key in `keys` is accepted on verification
+export type JWTKeyring = {
+  signingKey: JWTKey;
+  keys: JWTKey[];
+};
+
+export type JWTPayload = {
+  sub?: string;
+  iss?: string;
+  aud?: string | string[];
+  iat?: number;
+  nbf?: number;
+  exp?: number;
+  jti?: string;
+  [claim: string]: unknown;
+};
+
+export type SignOptions = {
+  expiresIn: string | number;
+  notBefore?: string | number;
+  issuer?: string;
+  audience?: string | string[];
+  subject?: string;
+};
+
+export type VerifyOptions = {
+  issuer?: string;
+  audience?: string;
+  clockTolerance?: number; // in seconds
+};
+
+const DURATION_UNITS: Record<string, number> = {
+  s: 1,
+  m: 60,
+  h: 60 * 60,
+  d: 24 * 60 * 60
+};
+
+// Accepts seconds or strings such as "900", "15m", "12h", "7d"
+export function parseDuration(value: string | number): number {
+  if (typeof value === 'number') {
+    return value;
+  }
+
+  const match = /^(\d+)\s*([smhd]?)$/.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid duration: ${value}`);
+  }
+
+  return parseInt(match[1], 10) * DURATION_UNITS[match[2] || 's'];
+}
+
+export function hmacKey(secret: string): JWTKey {
+  // Derive the key id from the secret without revealing anything about it
+  const kid = createHmac('sha256', secret).update('jwt-key-id').digest('base64url').slice(0, 16);
+  return { kid, alg: 'HS256', secret: Buffer.from(secret) };
+}
+
+export function ed25519Key(pem: string): JWTKey {
+  const isPrivate = pem.includes('PRIVATE KEY');
+  const privateKey = isPrivate ? createPrivateKey(pem) : null;
+  const publicKey = privateKey ? createPublicKey(privateKey) : createPublicKey(pem);
+
+  if (publicKey.asymmetricKeyType !== 'ed25519') {
+    throw new Error('Only Ed25519 keys are supported for EdDSA');
+  }
+
+  // RFC 7638 JWK thumbprint as the key id
+  const jwk = publicKey.export({ format: 'jwk' });
+  const kid = createHash('sha256')
+    .update(JSON.stringify({ crv: jwk.crv, kty: jwk.kty, x: jwk.x }))
+    .digest('base64url');
+
+  return { kid, alg: 'EdDSA', publicKey, privateKey };
+}
+
+// Public key from a JWK Set entry, such as an identity provider's jwks_uri
+export function jwkKey(jwk: JsonWebKey & { kid?: string; alg?: string }): JWTKey | null {
+  if (jwk.kty === 'RSA' && (jwk.alg === undefined || jwk.alg === 'RS256')) {
+    return { kid: jwk.kid ?? '', alg: 'RS256', publicKey: createPublicKey({ key: jwk, format: 'jwk' }), privateKey: null };
+  }
+
+  if (jwk.kty === 'OKP' && jwk.crv === 'Ed25519') {
+    return { kid: jwk.kid ?? '', alg: 'EdDSA', publicKey: createPublicKey({ key: jwk, format: 'jwk' }), privateKey: null };
+  }
+
+  // Unsupported key types are skipped rather than failing the whole set
+  return null;
+}
+
+// Builds the keyring from the environment:
+// - JWT_PRIVATE_KEY: Ed25519 PEM used for signing (falls back to JWT_SECRET with HS256)
+// - JWT_SECRET: current HMAC secret
+// - JWT_PREVIOUS_SECRETS / JWT_PREVIOUS_PUBLIC_KEYS: comma-separated retired keys still accepted
+export function loadKeyringFromEnv(env: Record<string, string | undefined> = process.env): JWTKeyring {
+  const split = (value: string | undefined) => (value ?? '')
+    .split(',')
+    .map(part => part.trim())
+    .filter(part => part.length > 0);
+
+  const hmacKeys = [env['JWT_SECRET'] || 'development_secret_key', ...split(env['JWT_PREVIOUS_SECRETS'])]
+    .map(hmacKey);
+  const edKeys = [
+    ...(env['JWT_PRIVATE_KEY'] ? [env['JWT_PRIVATE_KEY']] : []),
+    ...split(env['JWT_PREVIOUS_PUBLIC_KEYS'])
+  ].map(pem => ed25519Key(pem.replace(/\\n/g, '\n')));
+
+  const signingKey = env['JWT_PRIVATE_KEY'] ? edKeys[0] : hmacKeys[0];
+
+  return {
+    signingKey,
+    keys: [...edKeys, ...hmacKeys]
+  };
+}
+
+function signature(key: JWTKey, data: string): Buffer {
+  if (key.alg === 'HS256') {
+    return createHmac('sha256', key.secret).update(data).digest();
+  }
+
+  if (!key.privateKey) {
+    throw new Error(`Key ${key.kid} cannot be used for signing`);
+  }
+
+  return cryptoSign(key.alg === 'RS256' ? 'sha256' : null, Buffer.from(data), key.privateKey);
+}
+
+function signatureMatches(key: JWTKey, data: string, provided: Buffer): boolean {
+  if (key.alg === 'HS256') {
+    const expected = signature(key, data);
+    return expected.length === provided.length && timingSafeEqual(expected, provided);
+  }
+
+  return cryptoVerify(key.alg === 'RS256' ? 'sha256' : null, Buffer.from(data), key.publicKey, provided);
+}
+
+export function signJWT(claims: Record<string, unknown>, keyring: JWTKeyring, options: SignOptions): string {
+  const key = keyring.signingKey;
+  const header = {
+    alg: key.alg,
+    typ: 'JWT',
+    kid: key.kid
+  };
+
+  const now = Math.floor(Date.now() / 1000);
+  const payload: JWTPayload = {
+    ...claims,
+    iat: now,
+    exp: now + parseDuration(options.expiresIn)
+  };
+
+  if (options.notBefore !== undefined) {
+    payload.nbf = now + parseDuration(options.notBefore);
+  }
+  if (options.issuer !== undefined) {
+    payload.iss = options.issuer;
+  }
+  if (options.audience !== undefined) {
+    payload.aud = options.audience;
+  }
+  if (options.subject !== undefined) {
+    payload.sub = options.subject;
+  }
+
+  const encodedHeader = Buffer.from(JSON.stringify(header)).toString('base64url');
+  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  const data = `${encodedHeader}.${encodedPayload}`;
+
+  return `${data}.${signature(key, data).toString('base64url')}`;
+}
+
+export function verifyJWT(token: string, keyring: JWTKeyring, options: VerifyOptions = {}): JWTPayload {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new Error('Invalid token format');
+  }
+
+  const [encodedHeader, encodedPayload, encodedSignature] = parts;
+
+  let header: { alg?: string; kid?: string };
+  let payload: JWTPayload;
+  try {
+    header = JSON.parse(Buffer.from(encodedHeader, 'base64url').toString());
+    payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString());
+  } catch {
+    throw new Error('Invalid token format');
+  }
+
+  // Only consider keys whose algorithm matches the header to prevent algorithm confusion
+  const candidates = keyring.keys.filter(key =>
+    key.alg === header.alg && (header.kid === undefined || key.kid === header.kid)
+  );
+
+  const data = `${encodedHeader}.${encodedPayload}`;
+  const provided = Buffer.from(encodedSignature, 'base64url');
+  if (!candidates.some(key => signatureMatches(key, data, provided))) {
+    throw new Error('Invalid token signature');
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const tolerance = options.clockTolerance ?? 30;
+
+  if (typeof payload.exp !== 'number' || payload.exp + tolerance <= now) {
+    throw new Error('Token expired');
+  }
+
+  if (typeof payload.nbf === 'number' && payload.nbf - tolerance > now) {
+    throw new Error('Token not yet valid');
+  }
+
+  if (options.issuer !== undefined && payload.iss !== options.issuer) {
+    throw new Error('Invalid token issuer');
+  }
+
+  if (options.audience !== undefined) {
+    const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+    if (!audiences.includes(options.audience)) {
+      throw new Error('Invalid token audience');
+    }
+  }
+
+  return payload;
+}
@@ -0,0 +1,30 @@
+import { localeSchema, type Locale } from '../schema';
+
+export const DEFAULT_LOCALE: Locale = localeSchema.options[0];
+
+// Picks the supported locale the client ranks highest in an Accept-Language header, e.g.
+// "sw-KE,sw;q=0.9,en;q=0.8". Regional variants match their base language.
+export function negotiateLocale(header: string | null | undefined): Locale {
+  if (!header) {
+    return DEFAULT_LOCALE;
+  }
+
+  const ranked = header.split(',')
+    .map((entry, index) => {
+      const [range, ...params] = entry.trim().split(';');
+      const quality = params.map(param => param.trim()).find(param => param.startsWith('q='));
+      const q = quality ? Number(quality.slice(2)) : 1;
+      return { language: range.trim().toLowerCase().split('-')[0], q: Number.isNaN(q) ? 0 : q, index };
+    })
+    .filter(entry => entry.q > 0)
+    .sort((a, b) => b.q - a.q || a.index - b.index);
+
+  for (const entry of ranked) {
+    const locale = localeSchema.safeParse(entry.language);
+    if (locale.success) {
+      return locale.data;
+    }
+  }
+
+  return DEFAULT_LOCALE;
+}
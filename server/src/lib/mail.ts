@@ -0,0 +1,50 @@
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { type Sender, createOutboxSender, readOutboxDirectory, createSenderSlot } from './outbox';
+
+// Base URL of the web client, used to build links in emails
+export const APP_URL = process.env['APP_URL'] || 'http://localhost:5173';
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+};
+
+export type MailTransport = Sender<MailMessage>;
+
+// Prints messages to stdout; the default for local development
+export function createConsoleTransport(): MailTransport {
+  return {
+    async send(message) {
+      console.log(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}`);
+    }
+  };
+}
+
+export function createOutboxTransport(directory: string): MailTransport {
+  return createOutboxSender<MailMessage>(directory);
+}
+
+export async function readOutbox(directory: string): Promise<Array<MailMessage & { sent_at: string }>> {
+  return readOutboxDirectory<MailMessage>(directory);
+}
+
+// MAIL_TRANSPORT=outbox writes to MAIL_OUTBOX_DIR; anything else logs to the console
+function transportFromEnv(): MailTransport {
+  if (process.env['MAIL_TRANSPORT'] === 'outbox') {
+    return createOutboxTransport(process.env['MAIL_OUTBOX_DIR'] || join(tmpdir(), 'skill-proof-outbox'));
+  }
+
+  return createConsoleTransport();
+}
+
+const transport = createSenderSlot(transportFromEnv());
+
+export function setMailTransport(next: MailTransport): void {
+  transport.set(next);
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  await transport.send(message);
+}
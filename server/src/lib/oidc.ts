@@ -0,0 +1,214 @@
+import { createHash, randomBytes } from 'crypto';
+import { verifyJWT, jwkKey, type JWTKey, type JWTKeyring } from './jwt';
+import { APP_URL } from './mail';
+
+// OpenID Connect relying party: authorization code flow with PKCE (RFC 7636)
+
+export type OidcProvider = {
+  id: string; // stable identifier stored on linked identities, e.g. "nairobi-tech-institute"
+  name: string;
+  issuer: string;
+  client_id: string;
+  client_secret: string | null; // public clients rely on PKCE alone
+  redirect_uri: string;
+};
+
+export type OidcDiscovery = {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+};
+
+export type OidcClaims = {
+  sub: string;
+  email: string | null;
+  email_verified: boolean;
+  name: string | null;
+};
+
+// OIDC_PROVIDERS is a JSON array of providers; redirect_uri defaults to the web client callback
+function providersFromEnv(): OidcProvider[] {
+  const raw = process.env['OIDC_PROVIDERS'];
+  if (!raw) {
+    return [];
+  }
+
+  const parsed = JSON.parse(raw) as Array<Partial<OidcProvider>>;
+  return parsed.map(provider => ({
+    id: provider.id!,
+    name: provider.name ?? provider.id!,
+    issuer: provider.issuer!,
+    client_id: provider.client_id!,
+    client_secret: provider.client_secret ?? null,
+    redirect_uri: provider.redirect_uri ?? `${APP_URL}/auth/oidc/callback`
+  }));
+}
+
+let providers: OidcProvider[] = providersFromEnv();
+
+export function setOidcProviders(next: OidcProvider[]): void {
+  providers = next;
+}
+
+export function listOidcProviders(): OidcProvider[] {
+  return providers;
+}
+
+export function getOidcProvider(id: string): OidcProvider {
+  const provider = providers.find(candidate => candidate.id === id);
+  if (!provider) {
+    throw new Error('Unknown identity provider');
+  }
+  return provider;
+}
+
+const discoveryCache = new Map<string, OidcDiscovery>();
+const keyCache = new Map<string, JWTKey[]>();
+
+async function fetchJson(url: string, init?: RequestInit): Promise<Record<string, unknown>> {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    throw new Error(`Identity provider request failed with status ${response.status}`);
+  }
+  return await response.json() as Record<string, unknown>;
+}
+
+export async function discover(issuer: string): Promise<OidcDiscovery> {
+  const cached = discoveryCache.get(issuer);
+  if (cached) {
+    return cached;
+  }
+
+  const document = await fetchJson(`${issuer.replace(/\/$/, '')}/.well-known/openid-configuration`);
+
+  // The document must describe the issuer we asked for (OIDC Discovery 1.0, section 4.3)
+  if (document['issuer'] !== issuer) {
+    throw new Error('Identity provider discovery document has a mismatched issuer');
+  }
+
+  const discovery: OidcDiscovery = {
+    issuer,
+    authorization_endpoint: String(document['authorization_endpoint']),
+    token_endpoint: String(document['token_endpoint']),
+    jwks_uri: String(document['jwks_uri'])
+  };
+
+  discoveryCache.set(issuer, discovery);
+  return discovery;
+}
+
+async function fetchKeys(jwksUri: string, refresh: boolean): Promise<JWTKey[]> {
+  const cached = keyCache.get(jwksUri);
+  if (cached && !refresh) {
+    return cached;
+  }
+
+  const document = await fetchJson(jwksUri);
+  const keys = ((document['keys'] ?? []) as Parameters<typeof jwkKey>[0][])
+    .map(jwkKey)
+    .filter((key): key is JWTKey => key !== null);
+
+  keyCache.set(jwksUri, keys);
+  return keys;
+}
+
+export function createPkcePair(): { verifier: string; challenge: string } {
+  const verifier = randomBytes(32).toString('base64url');
+  const challenge = createHash('sha256').update(verifier).digest('base64url');
+  return { verifier, challenge };
+}
+
+export function buildAuthorizationUrl(
+  provider: OidcProvider,
+  discovery: OidcDiscovery,
+  params: { state: string; nonce: string; code_challenge: string }
+): string {
+  const url = new URL(discovery.authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: provider.client_id,
+    redirect_uri: provider.redirect_uri,
+    scope: 'openid email profile',
+    state: params.state,
+    nonce: params.nonce,
+    code_challenge: params.code_challenge,
+    code_challenge_method: 'S256'
+  }).toString();
+
+  return url.toString();
+}
+
+// Redeems the authorization code and returns the raw ID token
+export async function exchangeCode(
+  provider: OidcProvider,
+  discovery: OidcDiscovery,
+  code: string,
+  codeVerifier: string
+): Promise<string> {
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: provider.redirect_uri,
+    client_id: provider.client_id,
+    code_verifier: codeVerifier
+  });
+  if (provider.client_secret) {
+    body.set('client_secret', provider.client_secret);
+  }
+
+  const tokens = await fetchJson(discovery.token_endpoint, {
+    method: 'POST',
+    headers: { 'content-type': 'application/x-www-form-urlencoded', accept: 'application/json' },
+    body
+  });
+
+  if (typeof tokens['id_token'] !== 'string') {
+    throw new Error('Identity provider did not return an ID token');
+  }
+
+  return tokens['id_token'];
+}
+
+export async function verifyIdToken(
+  idToken: string,
+  provider: OidcProvider,
+  discovery: OidcDiscovery,
+  nonce: string
+): Promise<OidcClaims> {
+  const verify = async (refresh: boolean) => {
+    const keys = await fetchKeys(discovery.jwks_uri, refresh);
+    if (keys.length === 0) {
+      throw new Error('Identity provider has no usable signing keys');
+    }
+
+    const keyring: JWTKeyring = { signingKey: keys[0], keys };
+    return verifyJWT(idToken, keyring, { issuer: discovery.issuer, audience: provider.client_id });
+  };
+
+  let payload;
+  try {
+    payload = await verify(false);
+  } catch (error) {
+    // The provider may have rotated its keys since we cached them
+    if (!(error instanceof Error) || error.message !== 'Invalid token signature') {
+      throw error;
+    }
+    payload = await verify(true);
+  }
+
+  if (payload['nonce'] !== nonce) {
+    throw new Error('Invalid ID token nonce');
+  }
+
+  if (typeof payload.sub !== 'string' || payload.sub.length === 0) {
+    throw new Error('ID token has no subject');
+  }
+
+  return {
+    sub: payload.sub,
+    email: typeof payload['email'] === 'string' ? payload['email'].toLowerCase() : null,
+    email_verified: payload['email_verified'] === true,
+    name: typeof payload['name'] === 'string' ? payload['name'] : null
+  };
+}
@@ -0,0 +1,53 @@
+import { mkdir, readdir, readFile, writeFile } from 'fs/promises';
+import { randomBytes } from 'crypto';
+import { join } from 'path';
+
+// Outgoing mail and SMS share one shape of sender, a file outbox for dev and tests, and a slot
+// holding the sender picked from the environment that tests can swap out
+
+export interface Sender<T> {
+  send(message: T): Promise<void>;
+}
+
+// Writes each message as a JSON file into a directory that tests and developers can inspect
+export function createOutboxSender<T extends object>(directory: string): Sender<T> {
+  return {
+    async send(message) {
+      await mkdir(directory, { recursive: true });
+      const filename = `${Date.now()}-${randomBytes(4).toString('hex')}.json`;
+      await writeFile(join(directory, filename), JSON.stringify({ ...message, sent_at: new Date().toISOString() }, null, 2));
+    }
+  };
+}
+
+// Messages in the order they were written; an outbox nothing was sent to yet reads as empty
+export async function readOutboxDirectory<T>(directory: string): Promise<Array<T & { sent_at: string }>> {
+  let files: string[];
+  try {
+    files = await readdir(directory);
+  } catch {
+    return [];
+  }
+
+  const messages = await Promise.all(
+    files
+      .filter(file => file.endsWith('.json'))
+      .sort()
+      .map(async file => JSON.parse(await readFile(join(directory, file), 'utf8')))
+  );
+
+  return messages;
+}
+
+export function createSenderSlot<T>(initial: Sender<T>) {
+  let current = initial;
+
+  return {
+    set(next: Sender<T>): void {
+      current = next;
+    },
+    async send(message: T): Promise<void> {
+      await current.send(message);
+    }
+  };
+}
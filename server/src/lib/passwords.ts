@@ -0,0 +1,15 @@
+import { pbkdf2Sync, randomBytes } from 'crypto';
+
+const SALT_ROUNDS = 10000; // PBKDF2 iterations
+
+export function hashPassword(password: string): string {
+  const salt = randomBytes(32).toString('hex');
+  const hash = pbkdf2Sync(password, salt, SALT_ROUNDS, 64, 'sha512').toString('hex');
+  return `${salt}:${hash}`;
+}
+
+export function verifyPassword(password: string, hashedPassword: string): boolean {
+  const [salt, hash] = hashedPassword.split(':');
+  const verifyHash = pbkdf2Sync(password, salt, SALT_ROUNDS, 64, 'sha512').toString('hex');
+  return hash === verifyHash;
+}
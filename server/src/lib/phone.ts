@@ -0,0 +1,22 @@
+// Phone numbers are stored in E.164 form (+ followed by up to 15 digits)
+
+// Calling code assumed for numbers entered in national format, e.g. 0712 345 678
+export const DEFAULT_COUNTRY_CODE = process.env['DEFAULT_PHONE_COUNTRY_CODE'] || '254';
+
+const E164_PATTERN = /^\+[1-9]\d{7,14}$/;
+
+// Returns the E.164 form of a phone number, or null when it cannot be a valid number
+export function normalizePhone(value: string, countryCode: string = DEFAULT_COUNTRY_CODE): string | null {
+  let digits = value.trim().replace(/[\s().-]/g, '');
+
+  if (digits.startsWith('00')) {
+    digits = `+${digits.slice(2)}`;
+  } else if (digits.startsWith('0')) {
+    // National trunk prefix
+    digits = `+${countryCode}${digits.slice(1)}`;
+  } else if (!digits.startsWith('+')) {
+    digits = digits.startsWith(countryCode) ? `+${digits}` : `+${countryCode}${digits}`;
+  }
+
+  return E164_PATTERN.test(digits) ? digits : null;
+}
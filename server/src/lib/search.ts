@@ -0,0 +1,92 @@
+import { db } from '../db';
+import { ilike, or, sql, type AnyColumn, type SQL } from 'drizzle-orm';
+
+// Skill search ranks with pg_trgm. It is a trusted extension, so the database owner can create it.
+// It has to exist before the schema, whose trigram indexes use its operator classes.
+export async function ensureSearchExtension(): Promise<void> {
+  await db.execute(sql`create extension if not exists pg_trgm`);
+}
+
+// Whether a column is a candidate for a lowercased search term: similar as a whole (%), holding
+// a similar word (<%), or containing the term. All three can be served by a trigram index, so
+// filtering goes through here and the similarity scores are left to ordering.
+export function trigramMatch(column: AnyColumn, term: string): SQL {
+  return or(
+    sql`${column} % ${term}`,
+    sql`${term} <% ${column}`,
+    ilike(column, `%${escapeLikePattern(term)}%`)
+  )!;
+}
+
+// Escapes LIKE wildcards so user input only ever matches literally
+export function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, '\\$&');
+}
+
+// Same trigram split as pg_trgm: lowercased words, padded with two spaces in front and one behind
+function trigrams(word: string): Set<string> {
+  const padded = `  ${word.toLowerCase()} `;
+  const result = new Set<string>();
+  for (let i = 0; i < padded.length - 2; i++) {
+    result.add(padded.slice(i, i + 3));
+  }
+  return result;
+}
+
+export function trigramSimilarity(a: string, b: string): number {
+  const left = trigrams(a);
+  const right = trigrams(b);
+  let shared = 0;
+  for (const trigram of left) {
+    if (right.has(trigram)) {
+      shared++;
+    }
+  }
+  return shared / (left.size + right.size - shared);
+}
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+const FUZZY_WORD_THRESHOLD = 0.3;
+
+// Character ranges of `text` to highlight for `query`: literal occurrences of each query word,
+// or failing that the closest-spelled word, so "electritian" still marks "Electrician"
+export function highlightRanges(text: string, query: string): Array<{ start: number; length: number }> {
+  const ranges: Array<{ start: number; length: number }> = [];
+  const lowerText = text.toLowerCase();
+  const words = [...text.matchAll(WORD_PATTERN)];
+
+  for (const [term] of query.toLowerCase().matchAll(WORD_PATTERN)) {
+    let from = lowerText.indexOf(term);
+    if (from !== -1) {
+      while (from !== -1) {
+        ranges.push({ start: from, length: term.length });
+        from = lowerText.indexOf(term, from + term.length);
+      }
+      continue;
+    }
+
+    let best: { start: number; length: number; score: number } | null = null;
+    for (const word of words) {
+      const score = trigramSimilarity(term, word[0]);
+      if (score >= FUZZY_WORD_THRESHOLD && (best === null || score > best.score)) {
+        best = { start: word.index!, length: word[0].length, score };
+      }
+    }
+    if (best) {
+      ranges.push({ start: best.start, length: best.length });
+    }
+  }
+
+  // Sorted and merged so clients can wrap them in order
+  ranges.sort((a, b) => a.start - b.start);
+  const merged: Array<{ start: number; length: number }> = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.start + last.length) {
+      last.length = Math.max(last.length, range.start + range.length - last.start);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
@@ -0,0 +1,46 @@
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { type Sender, createOutboxSender, readOutboxDirectory, createSenderSlot } from './outbox';
+
+export type SmsMessage = {
+  to: string; // E.164
+  body: string;
+};
+
+// Implemented by the SMS gateway integration; the file provider stands in for dev and tests
+export type SmsProvider = Sender<SmsMessage>;
+
+export function createConsoleSmsProvider(): SmsProvider {
+  return {
+    async send(message) {
+      console.log(`[sms] To: ${message.to}\n${message.body}`);
+    }
+  };
+}
+
+export function createFileSmsProvider(directory: string): SmsProvider {
+  return createOutboxSender<SmsMessage>(directory);
+}
+
+export async function readSmsOutbox(directory: string): Promise<Array<SmsMessage & { sent_at: string }>> {
+  return readOutboxDirectory<SmsMessage>(directory);
+}
+
+// SMS_PROVIDER=file writes to SMS_OUTBOX_DIR; anything else logs to the console
+function providerFromEnv(): SmsProvider {
+  if (process.env['SMS_PROVIDER'] === 'file') {
+    return createFileSmsProvider(process.env['SMS_OUTBOX_DIR'] || join(tmpdir(), 'skill-proof-sms'));
+  }
+
+  return createConsoleSmsProvider();
+}
+
+const provider = createSenderSlot(providerFromEnv());
+
+export function setSmsProvider(next: SmsProvider): void {
+  provider.set(next);
+}
+
+export async function sendSms(message: SmsMessage): Promise<void> {
+  await provider.send(message);
+}
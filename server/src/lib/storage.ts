@@ -0,0 +1,23 @@
+// Uploaded files (proof media, profile photos) live in external storage and are referenced by URL.
+// The storage integration implements this to remove them; the console store only logs.
+export interface FileStore {
+  delete(url: string): Promise<void>;
+}
+
+export function createConsoleFileStore(): FileStore {
+  return {
+    async delete(url) {
+      console.log(`[storage] Delete: ${url}`);
+    }
+  };
+}
+
+let store: FileStore = createConsoleFileStore();
+
+export function setFileStore(next: FileStore): void {
+  store = next;
+}
+
+export async function deleteStoredFile(url: string): Promise<void> {
+  await store.delete(url);
+}
@@ -0,0 +1,174 @@
+import { TRPCError } from '@trpc/server';
+import { eq, sql } from 'drizzle-orm';
+import { db } from '../db';
+import { loginAttemptsTable } from '../db/schema';
+
+// Failed-login tracking with exponential backoff and temporary lockout
+
+export type AttemptRecord = {
+  failures: number;
+  blocked_until: Date | null;
+};
+
+export interface AttemptStore {
+  get(key: string): Promise<AttemptRecord | null>;
+  // Increments the counter (restarting it when the last failure is older than windowStart)
+  increment(key: string, now: Date, windowStart: Date): Promise<number>;
+  block(key: string, until: Date | null): Promise<void>;
+  reset(key: string): Promise<void>;
+}
+
+export type ThrottlePolicy = {
+  freeAttempts: number; // failures allowed before backoff starts
+  lockoutThreshold: number; // failures that trigger a full lockout
+  lockoutMs: number;
+  baseBackoffMs: number;
+  maxBackoffMs: number;
+};
+
+const WINDOW_MS = 60 * 60 * 1000; // failures older than an hour are forgotten
+
+export const accountPolicy: ThrottlePolicy = {
+  freeAttempts: 3,
+  lockoutThreshold: parseInt(process.env['LOGIN_LOCKOUT_THRESHOLD'] || '10', 10),
+  lockoutMs: 15 * 60 * 1000,
+  baseBackoffMs: 1000,
+  maxBackoffMs: 5 * 60 * 1000
+};
+
+// Shared IPs (cafés, training centres) get more room and never a hard lockout
+export const ipPolicy: ThrottlePolicy = {
+  freeAttempts: 20,
+  lockoutThreshold: Number.POSITIVE_INFINITY,
+  lockoutMs: 0,
+  baseBackoffMs: 1000,
+  maxBackoffMs: 5 * 60 * 1000
+};
+
+export function blockDuration(failures: number, policy: ThrottlePolicy): number {
+  if (failures >= policy.lockoutThreshold) {
+    return policy.lockoutMs;
+  }
+
+  if (failures <= policy.freeAttempts) {
+    return 0;
+  }
+
+  return Math.min(policy.baseBackoffMs * 2 ** (failures - policy.freeAttempts - 1), policy.maxBackoffMs);
+}
+
+export function createMemoryAttemptStore(): AttemptStore {
+  const records = new Map<string, AttemptRecord & { last_failure_at: Date }>();
+
+  return {
+    async get(key) {
+      const record = records.get(key);
+      return record ? { failures: record.failures, blocked_until: record.blocked_until } : null;
+    },
+    async increment(key, now, windowStart) {
+      const record = records.get(key);
+      const failures = record && record.last_failure_at >= windowStart ? record.failures + 1 : 1;
+      records.set(key, { failures, last_failure_at: now, blocked_until: record?.blocked_until ?? null });
+      return failures;
+    },
+    async block(key, until) {
+      const record = records.get(key);
+      if (record) {
+        record.blocked_until = until;
+      }
+    },
+    async reset(key) {
+      records.delete(key);
+    }
+  };
+}
+
+export function createPostgresAttemptStore(): AttemptStore {
+  return {
+    async get(key) {
+      const results = await db.select()
+        .from(loginAttemptsTable)
+        .where(eq(loginAttemptsTable.key, key))
+        .execute();
+
+      return results.length > 0 ? results[0] : null;
+    },
+    async increment(key, now, windowStart) {
+      // Single upsert so concurrent processes never lose a failure
+      const result = await db.insert(loginAttemptsTable)
+        .values({ key, failures: 1, last_failure_at: now })
+        .onConflictDoUpdate({
+          target: loginAttemptsTable.key,
+          set: {
+            failures: sql`case when ${loginAttemptsTable.last_failure_at} < ${windowStart.toISOString()} then 1 else ${loginAttemptsTable.failures} + 1 end`,
+            last_failure_at: now
+          }
+        })
+        .returning()
+        .execute();
+
+      return result[0].failures;
+    },
+    async block(key, until) {
+      await db.update(loginAttemptsTable)
+        .set({ blocked_until: until })
+        .where(eq(loginAttemptsTable.key, key))
+        .execute();
+    },
+    async reset(key) {
+      await db.delete(loginAttemptsTable)
+        .where(eq(loginAttemptsTable.key, key))
+        .execute();
+    }
+  };
+}
+
+let store: AttemptStore = createPostgresAttemptStore();
+
+export function setAttemptStore(next: AttemptStore): void {
+  store = next;
+}
+
+export const accountKey = (email: string) => `account:${email.trim().toLowerCase()}`;
+export const ipKey = (ip: string) => `ip:${ip}`;
+export const phoneKey = (phone: string) => `phone:${phone}`;
+
+// Throws TOO_MANY_REQUESTS while any of the keys is blocked
+export async function assertNotThrottled(keys: string[]): Promise<void> {
+  const now = Date.now();
+
+  for (const key of keys) {
+    const record = await store.get(key);
+    if (record?.blocked_until && record.blocked_until.getTime() > now) {
+      const retryAfter = Math.ceil((record.blocked_until.getTime() - now) / 1000);
+      throw new TRPCError({
+        code: 'TOO_MANY_REQUESTS',
+        message: `Too many failed login attempts; try again in ${retryAfter} seconds`
+      });
+    }
+  }
+}
+
+// Records a failure against each key; reports whether the account just got locked out
+export async function recordFailure(entries: Array<{ key: string; policy: ThrottlePolicy }>): Promise<{ locked: boolean }> {
+  const now = new Date();
+  const windowStart = new Date(now.getTime() - WINDOW_MS);
+  let locked = false;
+
+  for (const { key, policy } of entries) {
+    const failures = await store.increment(key, now, windowStart);
+    const duration = blockDuration(failures, policy);
+
+    await store.block(key, duration > 0 ? new Date(now.getTime() + duration) : null);
+
+    if (failures === policy.lockoutThreshold) {
+      locked = true;
+    }
+  }
+
+  return { locked };
+}
+
+export async function resetFailures(key: string): Promise<void> {
+  await store.reset(key);
+}
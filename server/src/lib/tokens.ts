@@ -0,0 +1,103 @@
+import { createHash, randomBytes } from 'crypto';
+import { signJWT, verifyJWT, loadKeyringFromEnv, parseDuration } from './jwt';
+
+// Access token configuration; rotate keys via JWT_PREVIOUS_SECRETS / JWT_PREVIOUS_PUBLIC_KEYS (see ./jwt)
+const keyring = loadKeyringFromEnv();
+const JWT_ISSUER = process.env['JWT_ISSUER'] || 'skill-proof';
+const JWT_AUDIENCE = process.env['JWT_AUDIENCE'] || 'skill-proof-api';
+const ACCESS_TOKEN_TTL = process.env['JWT_ACCESS_TOKEN_TTL'] || '15m';
+const REFRESH_TOKEN_TTL = process.env['REFRESH_TOKEN_TTL'] || '30d';
+
+export type AccessTokenClaims = {
+  userId: number;
+  email: string;
+  sessionId: number;
+  impersonatorId?: number | null; // admin acting as the user; such tokens carry an "imp" claim
+};
+
+export function issueAccessToken(claims: AccessTokenClaims, expiresIn: string | number = ACCESS_TOKEN_TTL): string {
+  return signJWT(
+    {
+      email: claims.email,
+      sid: claims.sessionId,
+      ...(claims.impersonatorId ? { imp: claims.impersonatorId } : {})
+    },
+    keyring,
+    {
+      subject: claims.userId.toString(),
+      issuer: JWT_ISSUER,
+      audience: JWT_AUDIENCE,
+      expiresIn
+    }
+  );
+}
+
+export function verifyAccessToken(token: string): AccessTokenClaims & { impersonatorId: number | null } {
+  const payload = verifyJWT(token, keyring, {
+    issuer: JWT_ISSUER,
+    audience: JWT_AUDIENCE
+  });
+
+  const userId = Number(payload.sub);
+  const sessionId = payload['sid'];
+  const impersonatorId = payload['imp'] ?? null;
+  if (!Number.isInteger(userId) || typeof sessionId !== 'number' || (impersonatorId !== null && typeof impersonatorId !== 'number')) {
+    throw new Error('Invalid token claims');
+  }
+
+  return {
+    userId,
+    email: String(payload['email']),
+    sessionId,
+    impersonatorId
+  };
+}
+
+// Single-purpose signed tokens (e.g. email verification links); they carry no session
+// and are rejected by verifyAccessToken, while verifyActionToken checks the purpose
+export function issueActionToken(purpose: string, claims: { userId: number; email: string }, expiresIn: string | number): string {
+  return signJWT(
+    {
+      email: claims.email,
+      purpose
+    },
+    keyring,
+    {
+      subject: claims.userId.toString(),
+      issuer: JWT_ISSUER,
+      audience: JWT_AUDIENCE,
+      expiresIn
+    }
+  );
+}
+
+export function verifyActionToken(token: string, purpose: string): { userId: number; email: string } {
+  const payload = verifyJWT(token, keyring, {
+    issuer: JWT_ISSUER,
+    audience: JWT_AUDIENCE
+  });
+
+  const userId = Number(payload.sub);
+  if (payload['purpose'] !== purpose || !Number.isInteger(userId)) {
+    throw new Error('Invalid token purpose');
+  }
+
+  return {
+    userId,
+    email: String(payload['email'])
+  };
+}
+
+// Opaque high-entropy secret; only its SHA-256 digest is stored
+export function generateOpaqueToken(): { token: string; hash: string } {
+  const token = randomBytes(32).toString('base64url');
+  return { token, hash: hashOpaqueToken(token) };
+}
+
+export function hashOpaqueToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function refreshTokenExpiry(from: Date = new Date()): Date {
+  return new Date(from.getTime() + parseDuration(REFRESH_TOKEN_TTL) * 1000);
+}
@@ -0,0 +1,527 @@
+import { z } from 'zod';
+import {
+  router,
+  publicProcedure,
+  protectedProcedure,
+  accountOwnerProcedure,
+  verifiedProcedure,
+  adminProcedure,
+  assessorProcedure,
+  employerProcedure,
+  employerAccountOwnerProcedure,
+  scopedProcedure,
+  employerApiProcedure
+} from './trpc';
+
+// Import schemas
+import {
+  registerInputSchema,
+  loginInputSchema,
+  refreshTokenInputSchema,
+  verifyEmailInputSchema,
+  unlockAccountInputSchema,
+  requestPasswordResetInputSchema,
+  resetPasswordInputSchema,
+  changePasswordInputSchema,
+  deleteAccountInputSchema,
+  twoFactorLoginInputSchema,
+  confirmTotpInputSchema,
+  disableTwoFactorInputSchema,
+  verifyPhoneInputSchema,
+  requestSmsLoginInputSchema,
+  smsLoginInputSchema,
+  startOidcInputSchema,
+  oidcCallbackInputSchema,
+  createApiKeyInputSchema,
+  roleAssignmentInputSchema,
+  auditEventFilterSchema,
+  startImpersonationInputSchema,
+  downloadDataExportInputSchema,
+  updateProfileInputSchema,
+  createSkillInputSchema,
+  skillFilterSchema,
+  updateSkillInputSchema,
+  mergeSkillsInputSchema,
+  importSkillCatalogueInputSchema,
+  catalogueFormatSchema,
+  skillPrerequisiteInputSchema,
+  addSkillAliasInputSchema,
+  localeSchema,
+  setSkillTranslationInputSchema,
+  setTestTranslationInputSchema,
+  autocompleteSkillsInputSchema,
+  createSkillCategoryInputSchema,
+  updateSkillCategoryInputSchema,
+  addUserSkillInputSchema,
+  endorseSkillInputSchema,
+  setSkillLevelRequirementInputSchema,
+  uploadProofInputSchema,
+  startTestInputSchema,
+  submitTestInputSchema,
+  createJobListingInputSchema,
+  applyForJobInputSchema,
+  updateApplicationStatusInputSchema,
+  marketplaceFilterSchema
+} from './schema';
+
+// Import handlers
+import { registerUser, loginUser, getUserProfile, verifyEmail, resendVerificationEmail, unlockAccount } from './handlers/auth';
+import { requestPasswordReset, resetPassword, changePassword } from './handlers/passwords';
+import { startTotpEnrollment, confirmTotpEnrollment, completeTwoFactorLogin, regenerateRecoveryCodes, disableTwoFactor } from './handlers/totp';
+import { requestPhoneVerification, verifyPhone, requestSmsLogin, loginWithSmsCode } from './handlers/phone';
+import { getIdentityProviders, startOidcLogin, completeOidcLogin, startOidcLink, completeOidcLink, getUserIdentities } from './handlers/oidc';
+import { createApiKey, getApiKeys, revokeApiKey } from './handlers/apikeys';
+import { getUserRoles, grantRole, revokeRole } from './handlers/roles';
+import { refreshSession, getActiveSessions, revokeSession, revokeAllSessions } from './handlers/sessions';
+import {
+  getSkills,
+  searchSkills,
+  autocompleteSkills,
+  createSkill,
+  getSkill,
+  updateSkill,
+  deactivateSkill,
+  addSkillAlias,
+  removeSkillAlias,
+  getSkillAliases,
+  addUserSkill,
+  removeUserSkill,
+  getUserSkills
+} from './handlers/skills';
+import { createSkillCategory, updateSkillCategory } from './handlers/categories';
+import { getSkillLevels, setSkillLevelRequirement } from './handlers/levels';
+import { mergeSkills } from './handlers/merges';
+import { importSkillCatalogue, exportSkillCatalogue } from './handlers/catalogue';
+import {
+  setSkillTranslation,
+  removeSkillTranslation,
+  getSkillTranslations,
+  setTestTranslation,
+  removeTestTranslation,
+  getTestTranslations
+} from './handlers/translations';
+import { addSkillPrerequisite, removeSkillPrerequisite, getSkillPrerequisites, getSkillPath } from './handlers/prerequisites';
+import { uploadSkillProof, getSkillProofs, processAIVerification, getProofUploadStatus } from './handlers/proofs';
+import { getTestsForSkill, getTestQuestions, startTest, submitTest, getUserTestAttempts } from './handlers/tests';
+import { generateCertificate, getUserCertificates, verifyCertificate, downloadCertificate } from './handlers/certificates';
+import { getMarketplaceWorkers, getWorkerProfile, createJobListing, getJobListings, applyForJob, getJobApplications, updateJobApplicationStatus } from './handlers/marketplace';
+import { getAuditEvents } from './handlers/audit';
+import { startImpersonation, stopImpersonation } from './handlers/impersonation';
+import { updateUserProfile, uploadProfilePhoto, getUserPortfolio } from './handlers/profile';
+import { endorseSkill, removeEndorsement, getSkillEndorsements } from './handlers/endorsements';
+import { requestDataExport, getDataExports, downloadDataExport } from './handlers/exports';
+import { requestAccountDeletion, cancelAccountDeletion } from './handlers/accounts';
+
+export const appRouter = router({
+  // Health check
+  healthcheck: publicProcedure.query(() => {
+    return { status: 'ok', timestamp: new Date().toISOString() };
+  }),
+
+  // Authentication routes
+  register: publicProcedure
+    .input(registerInputSchema)
+    .mutation(({ input, ctx }) => registerUser(input, ctx.meta)),
+
+  login: publicProcedure
+    .input(loginInputSchema)
+    .mutation(({ input, ctx }) => loginUser(input, ctx.meta)),
+
+  completeTwoFactorLogin: publicProcedure
+    .input(twoFactorLoginInputSchema)
+    .mutation(({ input, ctx }) => completeTwoFactorLogin(input, ctx.meta)),
+
+  // Passwordless login by SMS code
+  requestSmsLogin: publicProcedure
+    .input(requestSmsLoginInputSchema)
+    .mutation(({ input }) => requestSmsLogin(input)),
+
+  loginWithSmsCode: publicProcedure
+    .input(smsLoginInputSchema)
+    .mutation(({ input, ctx }) => loginWithSmsCode(input, ctx.meta)),
+
+  // Single sign-on with partner identity providers
+  getIdentityProviders: publicProcedure
+    .query(() => getIdentityProviders()),
+
+  startOidcLogin: publicProcedure
+    .input(startOidcInputSchema)
+    .mutation(({ input }) => startOidcLogin(input)),
+
+  completeOidcLogin: publicProcedure
+    .input(oidcCallbackInputSchema)
+    .mutation(({ input, ctx }) => completeOidcLogin(input, ctx.meta)),
+
+  startOidcLink: accountOwnerProcedure
+    .input(startOidcInputSchema)
+    .mutation(({ input, ctx }) => startOidcLink(ctx.user.id, input)),
+
+  completeOidcLink: accountOwnerProcedure
+    .input(oidcCallbackInputSchema)
+    .mutation(({ input, ctx }) => completeOidcLink(ctx.user.id, input)),
+
+  getUserIdentities: protectedProcedure
+    .query(({ ctx }) => getUserIdentities(ctx.user.id)),
+
+  refreshToken: publicProcedure
+    .input(refreshTokenInputSchema)
+    .mutation(({ input, ctx }) => refreshSession(input.refresh_token, ctx.meta)),
+
+  verifyEmail: publicProcedure
+    .input(verifyEmailInputSchema)
+    .mutation(({ input, ctx }) => verifyEmail(input.token, ctx.actor)),
+
+  resendVerificationEmail: protectedProcedure
+    .mutation(({ ctx }) => resendVerificationEmail(ctx.user.id)),
+
+  unlockAccount: publicProcedure
+    .input(unlockAccountInputSchema)
+    .mutation(({ input, ctx }) => unlockAccount(input.token, ctx.actor)),
+
+  requestPasswordReset: publicProcedure
+    .input(requestPasswordResetInputSchema)
+    .mutation(({ input }) => requestPasswordReset(input)),
+
+  resetPassword: publicProcedure
+    .input(resetPasswordInputSchema)
+    .mutation(({ input, ctx }) => resetPassword(input, ctx.actor)),
+
+  changePassword: accountOwnerProcedure
+    .input(changePasswordInputSchema)
+    .mutation(({ input, ctx }) => changePassword(ctx.user.id, ctx.user.session_id, input, ctx.actor)),
+
+  // Phone verification
+  requestPhoneVerification: accountOwnerProcedure
+    .mutation(({ ctx }) => requestPhoneVerification(ctx.user.id)),
+
+  verifyPhone: accountOwnerProcedure
+    .input(verifyPhoneInputSchema)
+    .mutation(({ input, ctx }) => verifyPhone(ctx.user.id, input)),
+
+  // Two-factor authentication
+  startTwoFactorEnrollment: accountOwnerProcedure
+    .mutation(({ ctx }) => startTotpEnrollment(ctx.user.id)),
+
+  confirmTwoFactorEnrollment: accountOwnerProcedure
+    .input(confirmTotpInputSchema)
+    .mutation(({ input, ctx }) => confirmTotpEnrollment(ctx.user.id, input)),
+
+  regenerateRecoveryCodes: accountOwnerProcedure
+    .input(confirmTotpInputSchema)
+    .mutation(({ input, ctx }) => regenerateRecoveryCodes(ctx.user.id, input)),
+
+  disableTwoFactor: accountOwnerProcedure
+    .input(disableTwoFactorInputSchema)
+    .mutation(({ input, ctx }) => disableTwoFactor(ctx.user.id, input, ctx.actor)),
+
+  logout: protectedProcedure
+    .mutation(({ ctx }) => revokeSession(ctx.user.id, ctx.user.session_id, ctx.actor)),
+
+  getUserProfile: protectedProcedure
+    .query(({ ctx }) => getUserProfile(ctx.user.id)),
+
+  // Session management routes
+  getSessions: protectedProcedure
+    .query(({ ctx }) => getActiveSessions(ctx.user.id, ctx.user.session_id)),
+
+  revokeSession: protectedProcedure
+    .input(z.object({ sessionId: z.number() }))
+    .mutation(({ input, ctx }) => revokeSession(ctx.user.id, input.sessionId, ctx.actor)),
+
+  logoutEverywhere: protectedProcedure
+    .mutation(({ ctx }) => revokeAllSessions(ctx.user.id, undefined, ctx.actor)),
+
+  // Role management routes
+  getUserRoles: adminProcedure
+    .input(z.number())
+    .query(({ input }) => getUserRoles(input)),
+
+  grantRole: adminProcedure
+    .input(roleAssignmentInputSchema)
+    .mutation(({ input, ctx }) => grantRole(ctx.user.id, input, ctx.actor)),
+
+  revokeRole: adminProcedure
+    .input(roleAssignmentInputSchema)
+    .mutation(({ input, ctx }) => revokeRole(ctx.user.id, input, ctx.actor)),
+
+  // Audit log, newest first
+  getAuditEvents: adminProcedure
+    .input(auditEventFilterSchema)
+    .query(({ input }) => getAuditEvents(input)),
+
+  // Support staff acting as a user; the returned token is marked and expires quickly
+  startImpersonation: adminProcedure
+    .input(startImpersonationInputSchema)
+    .mutation(({ input, ctx }) => startImpersonation(ctx.user.id, input, ctx.meta)),
+
+  stopImpersonation: protectedProcedure
+    .mutation(({ ctx }) => stopImpersonation(ctx.user.session_id, ctx.actor)),
+
+  getImpersonationStatus: protectedProcedure
+    .query(({ ctx }) => ({ impersonating: ctx.impersonating, impersonator_id: ctx.user.impersonator_id })),
+
+  // API keys for employer integrations; managed from a signed-in session only
+  createApiKey: employerAccountOwnerProcedure
+    .input(createApiKeyInputSchema)
+    .mutation(({ input, ctx }) => createApiKey(ctx.user.id, input, ctx.actor)),
+
+  getApiKeys: employerProcedure
+    .query(({ ctx }) => getApiKeys(ctx.user.id)),
+
+  revokeApiKey: employerAccountOwnerProcedure
+    .input(z.object({ apiKeyId: z.number() }))
+    .mutation(({ input, ctx }) => revokeApiKey(ctx.user.id, input.apiKeyId, ctx.actor)),
+
+  // Profile management routes
+  updateProfile: protectedProcedure
+    .input(updateProfileInputSchema)
+    .mutation(({ input, ctx }) => updateUserProfile(ctx.user.id, input, ctx.actor)),
+
+  uploadProfilePhoto: protectedProcedure
+    .input(z.object({ fileUrl: z.string() }))
+    .mutation(({ input, ctx }) => uploadProfilePhoto(ctx.user.id, input.fileUrl, ctx.actor)),
+
+  getUserPortfolio: publicProcedure
+    .input(z.number())
+    .query(({ input }) => getUserPortfolio(input)),
+
+  // Personal data export; the download link is mailed once the archive is ready
+  requestDataExport: accountOwnerProcedure
+    .mutation(({ ctx }) => requestDataExport(ctx.user.id, ctx.actor)),
+
+  getDataExports: protectedProcedure
+    .query(({ ctx }) => getDataExports(ctx.user.id)),
+
+  downloadDataExport: publicProcedure
+    .input(downloadDataExportInputSchema)
+    .query(({ input, ctx }) => downloadDataExport(input.token, ctx.actor)),
+
+  // Account deletion runs after a grace period and can be cancelled until then
+  deleteAccount: accountOwnerProcedure
+    .input(deleteAccountInputSchema)
+    .mutation(({ input, ctx }) => requestAccountDeletion(ctx.user.id, input, ctx.actor)),
+
+  cancelAccountDeletion: accountOwnerProcedure
+    .mutation(({ ctx }) => cancelAccountDeletion(ctx.user.id, ctx.actor)),
+
+  // Skills routes
+  getSkills: publicProcedure
+    .input(skillFilterSchema.optional())
+    .query(async ({ input, ctx }) => input?.tree
+      ? await getSkills({ ...input, tree: true, locale: input.locale ?? ctx.locale })
+      : await getSkills({ ...input, tree: false, locale: input?.locale ?? ctx.locale })),
+
+  searchSkills: publicProcedure
+    .input(z.string())
+    .query(({ input, ctx }) => searchSkills(input, ctx.locale)),
+
+  autocompleteSkills: publicProcedure
+    .input(autocompleteSkillsInputSchema)
+    .query(({ input, ctx }) => autocompleteSkills({ ...input, locale: input.locale ?? ctx.locale })),
+
+  getSkillAliases: publicProcedure
+    .input(z.number())
+    .query(({ input }) => getSkillAliases(input)),
+
+  addSkillAlias: adminProcedure
+    .input(addSkillAliasInputSchema)
+    .mutation(({ input }) => addSkillAlias(input)),
+
+  removeSkillAlias: adminProcedure
+    .input(z.number())
+    .mutation(({ input }) => removeSkillAlias(input)),
+
+  getSkillTranslations: adminProcedure
+    .input(z.number())
+    .query(({ input }) => getSkillTranslations(input)),
+
+  setSkillTranslation: adminProcedure
+    .input(setSkillTranslationInputSchema)
+    .mutation(({ input }) => setSkillTranslation(input)),
+
+  removeSkillTranslation: adminProcedure
+    .input(z.object({ skill_id: z.number(), locale: localeSchema }))
+    .mutation(({ input }) => removeSkillTranslation(input.skill_id, input.locale)),
+
+  createSkill: adminProcedure
+    .input(createSkillInputSchema)
+    .mutation(({ input }) => createSkill(input)),
+
+  getSkill: publicProcedure
+    .input(z.number())
+    .query(({ input }) => getSkill(input)),
+
+  updateSkill: adminProcedure
+    .input(updateSkillInputSchema)
+    .mutation(({ input, ctx }) => updateSkill(input, ctx.actor)),
+
+  deactivateSkill: adminProcedure
+    .input(z.number())
+    .mutation(({ input, ctx }) => deactivateSkill(input, ctx.actor)),
+
+  mergeSkills: adminProcedure
+    .input(mergeSkillsInputSchema)
+    .mutation(({ input, ctx }) => mergeSkills(input, ctx.actor)),
+
+  importSkillCatalogue: adminProcedure
+    .input(importSkillCatalogueInputSchema)
+    .mutation(({ input, ctx }) => importSkillCatalogue(input, ctx.actor)),
+
+  exportSkillCatalogue: adminProcedure
+    .input(z.object({ format: catalogueFormatSchema }))
+    .query(({ input }) => exportSkillCatalogue(input.format)),
+
+  getSkillPrerequisites: publicProcedure
+    .input(z.number())
+    .query(({ input }) => getSkillPrerequisites(input)),
+
+  addSkillPrerequisite: adminProcedure
+    .input(skillPrerequisiteInputSchema)
+    .mutation(({ input }) => addSkillPrerequisite(input)),
+
+  removeSkillPrerequisite: adminProcedure
+    .input(skillPrerequisiteInputSchema)
+    .mutation(({ input }) => removeSkillPrerequisite(input)),
+
+  // Which skills the worker should verify next on the way to a target skill
+  getSkillPath: protectedProcedure
+    .input(z.number())
+    .query(({ input, ctx }) => getSkillPath(ctx.user.id, input)),
+
+  createSkillCategory: adminProcedure
+    .input(createSkillCategoryInputSchema)
+    .mutation(({ input }) => createSkillCategory(input)),
+
+  updateSkillCategory: adminProcedure
+    .input(updateSkillCategoryInputSchema)
+    .mutation(({ input }) => updateSkillCategory(input)),
+
+  getSkillLevels: publicProcedure
+    .input(z.number())
+    .query(({ input }) => getSkillLevels(input)),
+
+  setSkillLevelRequirement: adminProcedure
+    .input(setSkillLevelRequirementInputSchema)
+    .mutation(({ input }) => setSkillLevelRequirement(input)),
+
+  addUserSkill: protectedProcedure
+    .input(addUserSkillInputSchema)
+    .mutation(({ input, ctx }) => addUserSkill(ctx.user.id, input)),
+
+  removeUserSkill: protectedProcedure
+    .input(z.number())
+    .mutation(({ input, ctx }) => removeUserSkill(ctx.user.id, input, ctx.actor)),
+
+  getUserSkills: protectedProcedure
+    .query(({ ctx }) => getUserSkills(ctx.user.id)),
+
+  // Skill proofs routes
+  uploadSkillProof: protectedProcedure
+    .input(uploadProofInputSchema)
+    .mutation(({ input, ctx }) => uploadSkillProof(ctx.user.id, input, ctx.actor)),
+
+  getSkillProofs: publicProcedure
+    .input(z.number())
+    .query(({ input }) => getSkillProofs(input)),
+
+  processAIVerification: assessorProcedure
+    .input(z.number())
+    .mutation(({ input, ctx }) => processAIVerification(input, ctx.actor)),
+
+  getProofUploadStatus: publicProcedure
+    .input(z.number())
+    .query(({ input }) => getProofUploadStatus(input)),
+
+  // Tests routes
+  getTestsForSkill: publicProcedure
+    .input(z.number())
+    .query(({ input, ctx }) => getTestsForSkill(input, ctx.locale)),
+
+  getTestTranslations: adminProcedure
+    .input(z.number())
+    .query(({ input }) => getTestTranslations(input)),
+
+  setTestTranslation: adminProcedure
+    .input(setTestTranslationInputSchema)
+    .mutation(({ input }) => setTestTranslation(input)),
+
+  removeTestTranslation: adminProcedure
+    .input(z.object({ test_id: z.number(), locale: localeSchema }))
+    .mutation(({ input }) => removeTestTranslation(input.test_id, input.locale)),
+
+  getTestQuestions: publicProcedure
+    .input(z.number())
+    .query(({ input }) => getTestQuestions(input)),
+
+  startTest: protectedProcedure
+    .input(startTestInputSchema)
+    .mutation(({ input, ctx }) => startTest(ctx.user.id, input)),
+
+  submitTest: protectedProcedure
+    .input(submitTestInputSchema)
+    .mutation(({ input, ctx }) => submitTest(ctx.user.id, input)),
+
+  getUserTestAttempts: protectedProcedure
+    .input(z.object({ skillId: z.number().optional() }))
+    .query(({ input, ctx }) => getUserTestAttempts(ctx.user.id, input.skillId)),
+
+  // Certificates routes
+  generateCertificate: assessorProcedure
+    .input(z.number())
+    .mutation(({ input, ctx }) => generateCertificate(input, ctx.actor)),
+
+  getUserCertificates: protectedProcedure
+    .query(({ ctx }) => getUserCertificates(ctx.user.id)),
+
+  verifyCertificate: scopedProcedure('certificates:verify')
+    .input(z.string())
+    .query(({ input }) => verifyCertificate(input)),
+
+  downloadCertificate: publicProcedure
+    .input(z.number())
+    .query(({ input }) => downloadCertificate(input)),
+
+  // Endorsements routes
+  endorseSkill: employerProcedure
+    .input(endorseSkillInputSchema)
+    .mutation(({ input, ctx }) => endorseSkill(ctx.user.id, input, ctx.actor)),
+
+  removeEndorsement: protectedProcedure
+    .input(z.number())
+    .mutation(({ input, ctx }) => removeEndorsement(ctx.user.id, input, ctx.actor)),
+
+  getSkillEndorsements: publicProcedure
+    .input(z.number())
+    .query(({ input }) => getSkillEndorsements(input)),
+
+  // Marketplace routes
+  getMarketplaceWorkers: scopedProcedure('marketplace:read')
+    .input(marketplaceFilterSchema)
+    .query(({ input, ctx }) => getMarketplaceWorkers({ ...input, locale: input.locale ?? ctx.locale })),
+
+  getWorkerProfile: scopedProcedure('marketplace:read')
+    .input(z.number())
+    .query(({ input, ctx }) => getWorkerProfile(input, ctx.locale)),
+
+  createJobListing: employerApiProcedure('jobs:write')
+    .input(createJobListingInputSchema)
+    .mutation(({ input, ctx }) => createJobListing(ctx.user.id, input, ctx.actor)),
+
+  getJobListings: publicProcedure
+    .input(z.object({ skillId: z.number().optional(), location: z.string().optional() }))
+    .query(({ input }) => getJobListings(input.skillId, input.location)),
+
+  applyForJob: verifiedProcedure
+    .input(applyForJobInputSchema)
+    .mutation(({ input, ctx }) => applyForJob(ctx.user.id, input, ctx.actor)),
+
+  getJobApplications: protectedProcedure
+    .input(z.object({ isEmployer: z.boolean() }))
+    .query(({ input, ctx }) => getJobApplications(ctx.user.id, input.isEmployer)),
+
+  updateJobApplicationStatus: employerProcedure
+    .input(updateApplicationStatusInputSchema)
+    .mutation(({ input, ctx }) => updateJobApplicationStatus(ctx.user.id, input, ctx.actor)),
+});
+
+export type AppRouter = typeof appRouter;
@@ -1,4 +1,35 @@
 import { z } from 'zod';
+import { normalizePhone } from './lib/phone';
+
+// Roles; admin implies every other role
+export const roleSchema = z.enum(['worker', 'employer', 'assessor', 'admin']);
+
+export type Role = z.infer<typeof roleSchema>;
+
+// Permissions an API key can carry
+export const apiKeyScopeSchema = z.enum(['marketplace:read', 'jobs:write', 'certificates:verify']);
+
+export type ApiKeyScope = z.infer<typeof apiKeyScopeSchema>;
+
+// Proficiency levels, lowest first
+export const proficiencyLevelSchema = z.enum(['beginner', 'intermediate', 'advanced', 'expert']);
+
+export type ProficiencyLevel = z.infer<typeof proficiencyLevelSchema>;
+
+// Languages skills and tests can be shown in; the first is the default, held on the records themselves
+export const localeSchema = z.enum(['en', 'fr', 'sw']);
+
+export type Locale = z.infer<typeof localeSchema>;
+
+// Phone number input, normalized to E.164
+export const phoneSchema = z.string().transform((value, ctx) => {
+  const phone = normalizePhone(value);
+  if (!phone) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Invalid phone number" });
+    return z.NEVER;
+  }
+  return phone;
+});
 
 // User schema
 export const userSchema = z.object({
@@ -6,12 +37,16 @@ export const userSchema = z.object({
   full_name: z.string(),
   email: z.string().email(),
   phone: z.string().nullable(),
+  phone_verified_at: z.coerce.date().nullable(),
   password_hash: z.string(),
   profile_photo: z.string().nullable(),
   location: z.string().nullable(),
   bio: z.string().nullable(),
   rating: z.number().nullable(),
   is_verified: z.boolean(),
+  email_verification_sent_at: z.coerce.date().nullable(),
+  deletion_scheduled_for: z.coerce.date().nullable(),
+  deleted_at: z.coerce.date().nullable(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
@@ -22,7 +57,7 @@ export type User = z.infer<typeof userSchema>;
 export const registerInputSchema = z.object({
   full_name: z.string().min(2, "Name must be at least 2 characters"),
   email: z.string().email("Invalid email format"),
-  phone: z.string().nullable(),
+  phone: phoneSchema.nullable(),
   password: z.string().min(6, "Password must be at least 6 characters")
 });
 
@@ -31,15 +66,388 @@ export type RegisterInput = z.infer<typeof registerInputSchema>;
 // Login input schema
 export const loginInputSchema = z.object({
   email: z.string().email("Invalid email format"),
-  password: z.string()
+  password: z.string(),
+  device_label: z.string().max(100).nullable().optional()
 });
 
 export type LoginInput = z.infer<typeof loginInputSchema>;
 
+// Authenticated user resolved from a bearer token
+export const authUserSchema = z.object({
+  id: z.number(),
+  email: z.string().email(),
+  is_verified: z.boolean(),
+  roles: z.array(roleSchema),
+  two_factor_enabled: z.boolean(),
+  session_id: z.number().nullable(), // null when the request carries an API key instead of a session
+  api_key: z.object({
+    id: z.number(),
+    scopes: z.array(apiKeyScopeSchema)
+  }).nullable(),
+  impersonator_id: z.number().nullable() // set when an admin is acting as this user
+});
+
+export type AuthUser = z.infer<typeof authUserSchema>;
+
+// Email verification input schema
+export const verifyEmailInputSchema = z.object({
+  token: z.string()
+});
+
+export type VerifyEmailInput = z.infer<typeof verifyEmailInputSchema>;
+
+// Account unlock input schema
+export const unlockAccountInputSchema = z.object({
+  token: z.string()
+});
+
+export type UnlockAccountInput = z.infer<typeof unlockAccountInputSchema>;
+
+// Password reset request input schema
+export const requestPasswordResetInputSchema = z.object({
+  email: z.string().email("Invalid email format")
+});
+
+export type RequestPasswordResetInput = z.infer<typeof requestPasswordResetInputSchema>;
+
+// Password reset input schema
+export const resetPasswordInputSchema = z.object({
+  token: z.string(),
+  new_password: z.string().min(6, "Password must be at least 6 characters")
+});
+
+export type ResetPasswordInput = z.infer<typeof resetPasswordInputSchema>;
+
+// Change password input schema
+export const changePasswordInputSchema = z.object({
+  current_password: z.string(),
+  new_password: z.string().min(6, "Password must be at least 6 characters")
+});
+
+export type ChangePasswordInput = z.infer<typeof changePasswordInputSchema>;
+
+// Account deletion; the account is purged once the grace period ends unless cancelled
+export const deleteAccountInputSchema = z.object({
+  password: z.string()
+});
+
+export type DeleteAccountInput = z.infer<typeof deleteAccountInputSchema>;
+
+export const accountDeletionSchema = z.object({
+  deletion_scheduled_for: z.coerce.date().nullable()
+});
+
+export type AccountDeletion = z.infer<typeof accountDeletionSchema>;
+
+// User role schema
+export const userRoleSchema = z.object({
+  id: z.number(),
+  user_id: z.number(),
+  role: roleSchema,
+  granted_by: z.number().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type UserRole = z.infer<typeof userRoleSchema>;
+
+// Grant / revoke role input schema
+export const roleAssignmentInputSchema = z.object({
+  user_id: z.number(),
+  role: roleSchema
+});
+
+export type RoleAssignmentInput = z.infer<typeof roleAssignmentInputSchema>;
+
+// Request details recorded alongside sessions
+export const requestMetadataSchema = z.object({
+  ip_address: z.string().nullable(),
+  user_agent: z.string().nullable()
+});
+
+export type RequestMetadata = z.infer<typeof requestMetadataSchema>;
+
+// Access and refresh token pair issued on login and refresh
+export const authTokensSchema = z.object({
+  token: z.string(),
+  refresh_token: z.string()
+});
+
+export type AuthTokens = z.infer<typeof authTokensSchema>;
+
+// Login result; accounts with two-factor enabled get a challenge to complete instead of tokens
+export const loginResultSchema = z.discriminatedUnion('two_factor_required', [
+  z.object({
+    two_factor_required: z.literal(false),
+    user: userSchema,
+    token: z.string(),
+    refresh_token: z.string()
+  }),
+  z.object({
+    two_factor_required: z.literal(true),
+    challenge_token: z.string()
+  })
+]);
+
+export type LoginResult = z.infer<typeof loginResultSchema>;
+
+// Second login step: a TOTP code or an unused recovery code
+export const twoFactorLoginInputSchema = z.object({
+  challenge_token: z.string(),
+  code: z.string().min(1),
+  device_label: z.string().max(100).nullable().optional()
+});
+
+export type TwoFactorLoginInput = z.infer<typeof twoFactorLoginInputSchema>;
+
+// TOTP enrollment details shown once while setting up an authenticator app
+export const totpEnrollmentSchema = z.object({
+  secret: z.string(),
+  otpauth_uri: z.string(),
+  qr_code: z.string() // PNG data URL
+});
+
+export type TotpEnrollment = z.infer<typeof totpEnrollmentSchema>;
+
+export const confirmTotpInputSchema = z.object({
+  code: z.string().min(1)
+});
+
+export type ConfirmTotpInput = z.infer<typeof confirmTotpInputSchema>;
+
+// Disabling two-factor requires the password and a current code
+export const disableTwoFactorInputSchema = z.object({
+  password: z.string(),
+  code: z.string().min(1)
+});
+
+export type DisableTwoFactorInput = z.infer<typeof disableTwoFactorInputSchema>;
+
+export const recoveryCodesSchema = z.object({
+  recovery_codes: z.array(z.string())
+});
+
+export type RecoveryCodes = z.infer<typeof recoveryCodesSchema>;
+
+// Code sent by SMS to confirm the phone number on the account
+export const verifyPhoneInputSchema = z.object({
+  code: z.string().regex(/^\d{6}$/, "Code must be 6 digits")
+});
+
+export type VerifyPhoneInput = z.infer<typeof verifyPhoneInputSchema>;
+
+// Passwordless login by SMS code, for accounts with a verified phone number
+export const requestSmsLoginInputSchema = z.object({
+  phone: phoneSchema
+});
+
+export type RequestSmsLoginInput = z.infer<typeof requestSmsLoginInputSchema>;
+
+export const smsLoginInputSchema = z.object({
+  phone: phoneSchema,
+  code: z.string().regex(/^\d{6}$/, "Code must be 6 digits"),
+  device_label: z.string().max(100).nullable().optional()
+});
+
+export type SmsLoginInput = z.infer<typeof smsLoginInputSchema>;
+
+// Refresh token input schema
+export const refreshTokenInputSchema = z.object({
+  refresh_token: z.string()
+});
+
+export type RefreshTokenInput = z.infer<typeof refreshTokenInputSchema>;
+
+// Session schema
+export const sessionSchema = z.object({
+  id: z.number(),
+  user_id: z.number(),
+  device_label: z.string().nullable(),
+  ip_address: z.string().nullable(),
+  user_agent: z.string().nullable(),
+  impersonator_id: z.number().nullable(),
+  last_seen_at: z.coerce.date(),
+  revoked_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type Session = z.infer<typeof sessionSchema>;
+
+// Identity provider offered for single sign-on
+export const identityProviderSchema = z.object({
+  id: z.string(),
+  name: z.string()
+});
+
+export type IdentityProvider = z.infer<typeof identityProviderSchema>;
+
+export const startOidcInputSchema = z.object({
+  provider: z.string()
+});
+
+export type StartOidcInput = z.infer<typeof startOidcInputSchema>;
+
+// Where to send the browser to sign in with the identity provider
+export const oidcAuthorizationSchema = z.object({
+  authorization_url: z.string().url(),
+  state: z.string()
+});
+
+export type OidcAuthorization = z.infer<typeof oidcAuthorizationSchema>;
+
+// Parameters the identity provider redirects back with
+export const oidcCallbackInputSchema = z.object({
+  state: z.string(),
+  code: z.string(),
+  device_label: z.string().max(100).nullable().optional()
+});
+
+export type OidcCallbackInput = z.infer<typeof oidcCallbackInputSchema>;
+
+export const userIdentitySchema = z.object({
+  id: z.number(),
+  user_id: z.number(),
+  provider: z.string(),
+  subject: z.string(),
+  email: z.string().nullable(),
+  last_login_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type UserIdentity = z.infer<typeof userIdentitySchema>;
+
+// API key as listed to its owner; the secret is never returned after creation
+export const apiKeySchema = z.object({
+  id: z.number(),
+  user_id: z.number(),
+  name: z.string(),
+  prefix: z.string(),
+  scopes: z.array(apiKeyScopeSchema),
+  last_used_at: z.coerce.date().nullable(),
+  expires_at: z.coerce.date().nullable(),
+  revoked_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type ApiKey = z.infer<typeof apiKeySchema>;
+
+export const createApiKeyInputSchema = z.object({
+  name: z.string().min(1).max(100),
+  scopes: z.array(apiKeyScopeSchema).min(1, "Choose at least one scope"),
+  expires_at: z.coerce.date().nullable().optional()
+});
+
+export type CreateApiKeyInput = z.infer<typeof createApiKeyInputSchema>;
+
+// Returned once at creation; only the hash is kept afterwards
+export const createdApiKeySchema = z.object({
+  api_key: apiKeySchema,
+  secret: z.string()
+});
+
+export type CreatedApiKey = z.infer<typeof createdApiKeySchema>;
+
+// Who performed an audited action and from where
+export const auditActorSchema = z.object({
+  user_id: z.number().nullable(), // null for system actions and anonymous callers
+  api_key_id: z.number().nullable(),
+  impersonator_id: z.number().nullable(),
+  ip_address: z.string().nullable(),
+  user_agent: z.string().nullable()
+});
+
+export type AuditActor = z.infer<typeof auditActorSchema>;
+
+export const auditEventSchema = z.object({
+  id: z.number(),
+  actor_user_id: z.number().nullable(),
+  actor_api_key_id: z.number().nullable(),
+  actor_impersonator_id: z.number().nullable(),
+  action: z.string(),
+  target_type: z.string(),
+  target_id: z.number().nullable(),
+  before: z.unknown(),
+  after: z.unknown(),
+  ip_address: z.string().nullable(),
+  user_agent: z.string().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type AuditEvent = z.infer<typeof auditEventSchema>;
+
+// Audit log query; results are newest first and `cursor` is the last id already seen
+export const auditEventFilterSchema = z.object({
+  actor_user_id: z.number().optional(),
+  action: z.string().optional(),
+  target_type: z.string().optional(),
+  target_id: z.number().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  cursor: z.number().optional(),
+  limit: z.number().int().min(1).max(200).default(50)
+});
+
+export type AuditEventFilter = z.infer<typeof auditEventFilterSchema>;
+
+export const auditEventPageSchema = z.object({
+  events: z.array(auditEventSchema),
+  next_cursor: z.number().nullable()
+});
+
+export type AuditEventPage = z.infer<typeof auditEventPageSchema>;
+
+// Support staff acting as a user; the reason is kept on the audit trail
+export const startImpersonationInputSchema = z.object({
+  user_id: z.number(),
+  reason: z.string().min(5).max(500)
+});
+
+export type StartImpersonationInput = z.infer<typeof startImpersonationInputSchema>;
+
+export const impersonationSessionSchema = z.object({
+  token: z.string(), // access token only; impersonation sessions cannot be refreshed
+  session_id: z.number(),
+  expires_at: z.coerce.date()
+});
+
+export type ImpersonationSession = z.infer<typeof impersonationSessionSchema>;
+
+export const impersonationStatusSchema = z.object({
+  impersonating: z.boolean(),
+  impersonator_id: z.number().nullable()
+});
+
+export type ImpersonationStatus = z.infer<typeof impersonationStatusSchema>;
+
+// Personal data export; the archive itself is only returned through the download link
+export const dataExportSchema = z.object({
+  id: z.number(),
+  user_id: z.number(),
+  status: z.enum(['pending', 'ready', 'failed']),
+  error: z.string().nullable(),
+  download_expires_at: z.coerce.date().nullable(),
+  completed_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type DataExport = z.infer<typeof dataExportSchema>;
+
+export const downloadDataExportInputSchema = z.object({
+  token: z.string()
+});
+
+export type DownloadDataExportInput = z.infer<typeof downloadDataExportInputSchema>;
+
+export const dataExportDownloadSchema = z.object({
+  filename: z.string(),
+  archive: z.record(z.unknown())
+});
+
+export type DataExportDownload = z.infer<typeof dataExportDownloadSchema>;
+
 // Update profile input schema
 export const updateProfileInputSchema = z.object({
   full_name: z.string().min(2).optional(),
-  phone: z.string().nullable().optional(),
+  phone: phoneSchema.nullable().optional(),
   profile_photo: z.string().nullable().optional(),
   location: z.string().nullable().optional(),
   bio: z.string().nullable().optional()
@@ -47,25 +455,321 @@ export const updateProfileInputSchema = z.object({
 
 export type UpdateProfileInput = z.infer<typeof updateProfileInputSchema>;
 
+// Skill category schema
+export const skillCategorySchema = z.object({
+  id: z.number(),
+  parent_id: z.number().nullable(),
+  name: z.string(),
+  slug: z.string(),
+  sort_order: z.number().int(),
+  icon: z.string().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type SkillCategory = z.infer<typeof skillCategorySchema>;
+
+const categorySlugSchema = z.string().regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, "Slug may only contain lowercase letters, digits and single dashes");
+
+// Create skill category input schema
+export const createSkillCategoryInputSchema = z.object({
+  name: z.string().trim().min(2, "Category name must be at least 2 characters"),
+  slug: categorySlugSchema.optional(),
+  parent_id: z.number().nullable().optional(),
+  sort_order: z.number().int().optional(),
+  icon: z.string().nullable().optional()
+});
+
+export type CreateSkillCategoryInput = z.infer<typeof createSkillCategoryInputSchema>;
+
+// Update skill category input schema; moving a category takes its whole subtree along
+export const updateSkillCategoryInputSchema = z.object({
+  id: z.number(),
+  name: z.string().trim().min(2, "Category name must be at least 2 characters").optional(),
+  slug: categorySlugSchema.optional(),
+  parent_id: z.number().nullable().optional(),
+  sort_order: z.number().int().optional(),
+  icon: z.string().nullable().optional()
+});
+
+export type UpdateSkillCategoryInput = z.infer<typeof updateSkillCategoryInputSchema>;
+
 // Skills schema
 export const skillSchema = z.object({
   id: z.number(),
   name: z.string(),
   category: z.string(),
+  category_id: z.number().nullable(),
   description: z.string().nullable(),
   icon: z.string().nullable(),
   is_active: z.boolean(),
+  enforce_prerequisites: z.boolean(),
+  validity_days: z.number().int().nullable(),
   created_at: z.coerce.date()
 });
 
 export type Skill = z.infer<typeof skillSchema>;
 
-// Create skill input schema
+// Update skill input schema; the category is changed by id
+export const updateSkillInputSchema = z.object({
+  id: z.number(),
+  name: z.string().min(2, "Skill name must be at least 2 characters").optional(),
+  category_id: z.number().optional(),
+  description: z.string().nullable().optional(),
+  icon: z.string().nullable().optional(),
+  is_active: z.boolean().optional(),
+  enforce_prerequisites: z.boolean().optional(), // block claims and tests until prerequisites are verified
+  validity_days: z.number().int().positive().nullable().optional() // null: verifications never expire
+});
+
+export type UpdateSkillInput = z.infer<typeof updateSkillInputSchema>;
+
+// Skill prerequisite schema
+export const skillPrerequisiteSchema = z.object({
+  id: z.number(),
+  skill_id: z.number(),
+  prerequisite_skill_id: z.number(),
+  created_at: z.coerce.date()
+});
+
+export type SkillPrerequisite = z.infer<typeof skillPrerequisiteSchema>;
+
+// Add or remove skill prerequisite input schema
+export const skillPrerequisiteInputSchema = z.object({
+  skill_id: z.number(),
+  prerequisite_skill_id: z.number()
+});
+
+export type SkillPrerequisiteInput = z.infer<typeof skillPrerequisiteInputSchema>;
+
+// Learning path toward a target skill: the target and everything it builds on, prerequisites
+// first. `ready` steps have all their direct prerequisites verified.
+export const skillPathSchema = z.object({
+  target_skill_id: z.number(),
+  steps: z.array(z.object({
+    skill_id: z.number(),
+    name: z.string(),
+    prerequisite_skill_ids: z.array(z.number()),
+    status: z.enum(['verified', 'in_progress', 'not_started']),
+    ready: z.boolean()
+  })),
+  next_skill_ids: z.array(z.number())
+});
+
+export type SkillPath = z.infer<typeof skillPathSchema>;
+
+// Merge skills input schema; the source skill is folded into the target
+export const mergeSkillsInputSchema = z.object({
+  source_id: z.number(),
+  target_id: z.number()
+});
+
+export type MergeSkillsInput = z.infer<typeof mergeSkillsInputSchema>;
+
+// Skill merge schema
+export const skillMergeSchema = z.object({
+  id: z.number(),
+  source_skill_id: z.number(),
+  target_skill_id: z.number(),
+  merged_by: z.number().nullable(),
+  merged_at: z.coerce.date()
+});
+
+export type SkillMerge = z.infer<typeof skillMergeSchema>;
+
+// What a merge moved; combined user skills belonged to users who had both skills
+export const skillMergeResultSchema = z.object({
+  merge: skillMergeSchema,
+  user_skills_moved: z.number(),
+  user_skills_combined: z.number(),
+  mini_tests_moved: z.number(),
+  job_listings_moved: z.number()
+});
+
+export type SkillMergeResult = z.infer<typeof skillMergeResultSchema>;
+
+export const catalogueFormatSchema = z.enum(['csv', 'json']);
+
+export type CatalogueFormat = z.infer<typeof catalogueFormatSchema>;
+
+// One skill in an imported or exported catalogue. The category is a path such as
+// "Construction > Plumbing". Rows match existing skills by id, or by name when the id is left
+// out; fields left out of a row are not touched.
+export const catalogueRowSchema = z.object({
+  id: z.number().int().positive().optional(),
+  name: z.string().trim().min(2, "Skill name must be at least 2 characters"),
+  category: z.string().trim().min(1, "Category is required"),
+  description: z.string().nullable().optional(),
+  icon: z.string().nullable().optional(),
+  aliases: z.array(z.string().trim().min(2, "Alias must be at least 2 characters")).optional(),
+  validity_days: z.number().int().positive().nullable().optional(),
+  is_active: z.boolean().optional()
+});
+
+export type CatalogueRow = z.infer<typeof catalogueRowSchema>;
+
+// Import skill catalogue input schema; a dry run only reports what would change
+export const importSkillCatalogueInputSchema = z.object({
+  format: catalogueFormatSchema,
+  content: z.string().min(1),
+  dry_run: z.boolean().optional(), // defaults to true
+  deactivate_missing: z.boolean().optional() // deactivate active skills the catalogue leaves out
+});
+
+export type ImportSkillCatalogueInput = z.infer<typeof importSkillCatalogueInputSchema>;
+
+// What an import changes, or would change on a dry run
+export const catalogueDiffSchema = z.object({
+  applied: z.boolean(),
+  created: z.array(z.object({ name: z.string(), category: z.string() })),
+  updated: z.array(z.object({
+    id: z.number(),
+    name: z.string(),
+    changes: z.record(z.object({ before: z.unknown(), after: z.unknown() }))
+  })),
+  deactivated: z.array(z.object({ id: z.number(), name: z.string() })),
+  categories_created: z.array(z.string()),
+  unchanged: z.number()
+});
+
+export type CatalogueDiff = z.infer<typeof catalogueDiffSchema>;
+
+// Exported skill catalogue; merged skills are left out
+export const skillCatalogueExportSchema = z.object({
+  format: catalogueFormatSchema,
+  content: z.string(),
+  skill_count: z.number()
+});
+
+export type SkillCatalogueExport = z.infer<typeof skillCatalogueExportSchema>;
+
+// Skill alias schema
+export const skillAliasSchema = z.object({
+  id: z.number(),
+  skill_id: z.number(),
+  alias: z.string(),
+  locale: z.string().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type SkillAlias = z.infer<typeof skillAliasSchema>;
+
+// Add skill alias input schema
+export const addSkillAliasInputSchema = z.object({
+  skill_id: z.number(),
+  alias: z.string().trim().min(2, "Alias must be at least 2 characters"),
+  locale: z.string().min(2).max(10).nullable().optional()
+});
+
+export type AddSkillAliasInput = z.infer<typeof addSkillAliasInputSchema>;
+
+// Skill name and description in a language other than the default
+export const skillTranslationSchema = z.object({
+  id: z.number(),
+  skill_id: z.number(),
+  locale: localeSchema,
+  name: z.string(),
+  description: z.string().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type SkillTranslation = z.infer<typeof skillTranslationSchema>;
+
+// Set skill translation input schema; replaces any translation the skill has for the locale
+export const setSkillTranslationInputSchema = z.object({
+  skill_id: z.number(),
+  locale: localeSchema,
+  name: z.string().trim().min(2, "Skill name must be at least 2 characters"),
+  description: z.string().trim().min(1).nullable().optional()
+});
+
+export type SetSkillTranslationInput = z.infer<typeof setSkillTranslationInputSchema>;
+
+// Mini test title and description in a language other than the default
+export const testTranslationSchema = z.object({
+  id: z.number(),
+  test_id: z.number(),
+  locale: localeSchema,
+  title: z.string(),
+  description: z.string().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type TestTranslation = z.infer<typeof testTranslationSchema>;
+
+// Set mini test translation input schema; replaces any translation the test has for the locale
+export const setTestTranslationInputSchema = z.object({
+  test_id: z.number(),
+  locale: localeSchema,
+  title: z.string().trim().min(1, "Title is required"),
+  description: z.string().trim().min(1).nullable().optional()
+});
+
+export type SetTestTranslationInput = z.infer<typeof setTestTranslationInputSchema>;
+
+// Skill search result, best match first. The highlight ranges index into `highlight.text`.
+export const skillSearchResultSchema = skillSchema.extend({
+  score: z.number(),
+  highlight: z.object({
+    field: z.enum(['name', 'alias', 'category', 'description']),
+    text: z.string(),
+    ranges: z.array(z.object({ start: z.number().int(), length: z.number().int() }))
+  })
+});
+
+export type SkillSearchResult = z.infer<typeof skillSearchResultSchema>;
+
+// Autocomplete input schema
+export const autocompleteSkillsInputSchema = z.object({
+  query: z.string(),
+  limit: z.number().int().min(1).max(20).optional(),
+  locale: localeSchema.optional()
+});
+
+export type AutocompleteSkillsInput = z.infer<typeof autocompleteSkillsInputSchema>;
+
+// Autocomplete suggestion; `matched_alias` is set when an alias matched better than the name
+export const skillSuggestionSchema = z.object({
+  skill_id: z.number(),
+  name: z.string(),
+  category: z.string(),
+  matched_alias: z.string().nullable()
+});
+
+export type SkillSuggestion = z.infer<typeof skillSuggestionSchema>;
+
+// Category tree node with the active skills filed directly under it
+export type SkillCategoryNode = SkillCategory & {
+  skills: Skill[];
+  children: SkillCategoryNode[];
+};
+
+export const skillCategoryNodeSchema: z.ZodType<SkillCategoryNode, z.ZodTypeDef, unknown> = skillCategorySchema.extend({
+  skills: z.array(skillSchema),
+  children: z.lazy(() => z.array(skillCategoryNodeSchema))
+});
+
+// Skills filter schema; a category includes all of its descendants
+export const skillFilterSchema = z.object({
+  category_id: z.number().optional(),
+  tree: z.boolean().optional(),
+  locale: localeSchema.optional() // defaults to the request's Accept-Language
+});
+
+export type SkillFilter = z.infer<typeof skillFilterSchema>;
+
+// Create skill input schema; a free-text category is filed under the category with the same slug
 export const createSkillInputSchema = z.object({
   name: z.string().min(2, "Skill name must be at least 2 characters"),
-  category: z.string(),
+  category: z.string().trim().min(1).optional(),
+  category_id: z.number().optional(),
   description: z.string().nullable(),
-  icon: z.string().nullable()
+  icon: z.string().nullable(),
+  validity_days: z.number().int().positive().nullable().optional()
+}).refine(input => input.category !== undefined || input.category_id !== undefined, {
+  message: "Either category or category_id is required",
+  path: ['category_id']
 });
 
 export type CreateSkillInput = z.infer<typeof createSkillInputSchema>;
@@ -77,6 +781,10 @@ export const userSkillSchema = z.object({
   skill_id: z.number(),
   is_verified: z.boolean(),
   verification_date: z.coerce.date().nullable(),
+  claimed_level: proficiencyLevelSchema,
+  verified_level: proficiencyLevelSchema.nullable(),
+  expires_at: z.coerce.date().nullable(),
+  archived_at: z.coerce.date().nullable(),
   created_at: z.coerce.date()
 });
 
@@ -84,11 +792,38 @@ export type UserSkill = z.infer<typeof userSkillSchema>;
 
 // Add user skill input schema
 export const addUserSkillInputSchema = z.object({
-  skill_id: z.number()
+  skill_id: z.number(),
+  claimed_level: proficiencyLevelSchema.optional()
 });
 
 export type AddUserSkillInput = z.infer<typeof addUserSkillInputSchema>;
 
+export const endorsementRelationshipSchema = z.enum(['employer', 'co_worker', 'trainer']);
+
+export type EndorsementRelationship = z.infer<typeof endorsementRelationshipSchema>;
+
+// Endorsement schema; the endorser's name is shown alongside the statement
+export const endorsementSchema = z.object({
+  id: z.number(),
+  user_skill_id: z.number(),
+  endorser_id: z.number(),
+  endorser_name: z.string(),
+  relationship: endorsementRelationshipSchema,
+  statement: z.string(),
+  created_at: z.coerce.date()
+});
+
+export type Endorsement = z.infer<typeof endorsementSchema>;
+
+// Endorse skill input schema
+export const endorseSkillInputSchema = z.object({
+  user_skill_id: z.number(),
+  relationship: endorsementRelationshipSchema,
+  statement: z.string().trim().min(10).max(500)
+});
+
+export type EndorseSkillInput = z.infer<typeof endorseSkillInputSchema>;
+
 // Skill proof schema
 export const skillProofSchema = z.object({
   id: z.number(),
@@ -121,6 +856,7 @@ export const miniTestSchema = z.object({
   skill_id: z.number(),
   title: z.string(),
   description: z.string().nullable(),
+  level: proficiencyLevelSchema,
   time_limit: z.number().nullable(), // in minutes
   passing_score: z.number(),
   is_active: z.boolean(),
@@ -129,6 +865,37 @@ export const miniTestSchema = z.object({
 
 export type MiniTest = z.infer<typeof miniTestSchema>;
 
+// What a user skill needs at one level: every active test at that level passed and
+// enough verified proofs
+export const skillLevelSchema = z.object({
+  level: proficiencyLevelSchema,
+  required_proofs: z.number().int(),
+  tests: z.array(miniTestSchema)
+});
+
+export type SkillLevel = z.infer<typeof skillLevelSchema>;
+
+// Skill level requirement schema
+export const skillLevelRequirementSchema = z.object({
+  id: z.number(),
+  skill_id: z.number(),
+  level: proficiencyLevelSchema,
+  required_proofs: z.number().int(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type SkillLevelRequirement = z.infer<typeof skillLevelRequirementSchema>;
+
+// Set skill level requirement input schema
+export const setSkillLevelRequirementInputSchema = z.object({
+  skill_id: z.number(),
+  level: proficiencyLevelSchema,
+  required_proofs: z.number().int().min(0)
+});
+
+export type SetSkillLevelRequirementInput = z.infer<typeof setSkillLevelRequirementInputSchema>;
+
 // Test question schema
 export const testQuestionSchema = z.object({
   id: z.number(),
@@ -187,6 +954,15 @@ export const certificateSchema = z.object({
 
 export type Certificate = z.infer<typeof certificateSchema>;
 
+// Public answer to "is this certificate genuine?"; the holder's name is withheld once they delete their account
+export const certificateVerificationSchema = certificateSchema.extend({
+  skill_name: z.string(),
+  holder_name: z.string().nullable(),
+  note: z.string().nullable()
+});
+
+export type CertificateVerification = z.infer<typeof certificateVerificationSchema>;
+
 // Job listing schema
 export const jobListingSchema = z.object({
   id: z.number(),
@@ -237,12 +1013,24 @@ export const applyForJobInputSchema = z.object({
 
 export type ApplyForJobInput = z.infer<typeof applyForJobInputSchema>;
 
+// Employer decision on an application
+export const updateApplicationStatusInputSchema = z.object({
+  application_id: z.number(),
+  status: z.enum(['pending', 'viewed', 'contacted', 'hired', 'rejected'])
+});
+
+export type UpdateApplicationStatusInput = z.infer<typeof updateApplicationStatusInputSchema>;
+
 // Marketplace filter schema
 export const marketplaceFilterSchema = z.object({
   skill_id: z.number().optional(),
+  category_id: z.number().optional(),
+  min_level: proficiencyLevelSchema.optional(), // verified level, not the claimed one
+  include_expired: z.boolean().optional(), // also list lapsed verifications, flagged as expired
   location: z.string().optional(),
   min_rating: z.number().min(0).max(5).optional(),
   search_query: z.string().optional(),
+  locale: localeSchema.optional(), // language of skill names; defaults to the request's Accept-Language
   limit: z.number().min(1).max(100).optional(),
   offset: z.number().min(0).optional()
 });
@@ -259,9 +1047,15 @@ export const marketplaceWorkerSchema = z.object({
   verified_skills: z.array(z.object({
     skill_name: z.string(),
     category: z.string(),
-    verification_date: z.coerce.date()
+    claimed_level: proficiencyLevelSchema,
+    verified_level: proficiencyLevelSchema.nullable(),
+    verification_date: z.coerce.date(),
+    expires_at: z.coerce.date().nullable(),
+    expired: z.boolean(),
+    endorsement_count: z.number()
   })),
-  portfolio_count: z.number()
+  portfolio_count: z.number(),
+  endorsement_count: z.number()
 });
 
 export type MarketplaceWorker = z.infer<typeof marketplaceWorkerSchema>;
\ No newline at end of file
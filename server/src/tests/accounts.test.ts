@@ -0,0 +1,229 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  usersTable,
+  userRolesTable,
+  sessionsTable,
+  skillsTable,
+  userSkillsTable,
+  skillProofsTable,
+  miniTestsTable,
+  testAttemptsTable,
+  certificatesTable,
+  jobListingsTable,
+  jobApplicationsTable,
+  auditEventsTable
+} from '../db/schema';
+import { registerUser, loginUser } from '../handlers/auth';
+import { requestAccountDeletion, cancelAccountDeletion, purgeAccount, purgeDueAccountDeletions } from '../handlers/accounts';
+import { verifyCertificate } from '../handlers/certificates';
+import { getMarketplaceWorkers } from '../handlers/marketplace';
+import { getUserPortfolio } from '../handlers/profile';
+import { setFileStore, createConsoleFileStore } from '../lib/storage';
+import { hashPassword } from '../lib/passwords';
+import { eq, and } from 'drizzle-orm';
+
+describe('Account deletion', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let workerId: number;
+  let employerId: number;
+  let certifiedSkillId: number;
+  let deletedFiles: string[];
+
+  beforeEach(async () => {
+    deletedFiles = [];
+    setFileStore({
+      async delete(url) {
+        deletedFiles.push(url);
+      }
+    });
+
+    const worker = await registerUser({ full_name: 'Jane Worker', email: 'jane@example.com', phone: '+254712345678', password: 'password123' });
+    workerId = worker.id;
+    await db.update(usersTable).set({ profile_photo: 'https://files.example.com/jane.jpg', bio: 'Welder' }).where(eq(usersTable.id, workerId)).execute();
+    await loginUser({ email: 'jane@example.com', password: 'password123' });
+
+    const employers = await db.insert(usersTable).values({
+      full_name: 'Hiring Manager',
+      email: 'hr@employer.com',
+      phone: null,
+      password_hash: hashPassword('password123')
+    }).returning().execute();
+    employerId = employers[0].id;
+
+    const skills = await db.insert(skillsTable).values([
+      { name: 'Welding', category: 'Technical' },
+      { name: 'Plumbing', category: 'Technical' }
+    ]).returning().execute();
+
+    const userSkills = await db.insert(userSkillsTable).values([
+      { user_id: workerId, skill_id: skills[0].id, is_verified: true, verification_date: new Date() },
+      { user_id: workerId, skill_id: skills[1].id }
+    ]).returning().execute();
+    certifiedSkillId = userSkills[0].id;
+
+    await db.insert(skillProofsTable).values([
+      { user_skill_id: userSkills[0].id, file_url: 'https://files.example.com/weld.mp4', file_type: 'video' },
+      { user_skill_id: userSkills[1].id, file_url: 'https://files.example.com/pipe.jpg', file_type: 'image' }
+    ]).execute();
+
+    const tests = await db.insert(miniTestsTable).values({ skill_id: skills[0].id, title: 'Welding basics', passing_score: 70 }).returning().execute();
+    await db.insert(testAttemptsTable).values({
+      user_skill_id: userSkills[0].id,
+      test_id: tests[0].id,
+      score: 9,
+      total_points: 10,
+      passed: true,
+      answers: '{}'
+    }).execute();
+
+    await db.insert(certificatesTable).values({ user_skill_id: certifiedSkillId, certificate_number: 'CERT-JANE', qr_code: 'qr' }).execute();
+
+    const listings = await db.insert(jobListingsTable).values({
+      employer_id: employerId,
+      title: 'Welder',
+      description: 'Welding work',
+      skill_id: skills[0].id,
+      employment_type: 'contract'
+    }).returning().execute();
+    await db.insert(jobApplicationsTable).values({ job_listing_id: listings[0].id, applicant_id: workerId, message: 'Call me on 0712 345 678' }).execute();
+  });
+
+  afterEach(() => {
+    setFileStore(createConsoleFileStore());
+  });
+
+  describe('requestAccountDeletion', () => {
+    it('should schedule deletion after the grace period', async () => {
+      const { deletion_scheduled_for } = await requestAccountDeletion(workerId, { password: 'password123' });
+
+      expect(deletion_scheduled_for!.getTime()).toBeGreaterThan(Date.now() + 13 * 24 * 60 * 60 * 1000);
+
+      // Nothing is removed until the grace period ends
+      expect(await purgeDueAccountDeletions()).toEqual({ purged: 0, failed: [] });
+      const users = await db.select().from(usersTable).where(eq(usersTable.id, workerId)).execute();
+      expect(users[0].email).toEqual('jane@example.com');
+    });
+
+    it('should require the current password', async () => {
+      await expect(requestAccountDeletion(workerId, { password: 'wrong' })).rejects.toThrow(/current password is incorrect/i);
+    });
+
+    it('should keep the original date when asked again', async () => {
+      const first = await requestAccountDeletion(workerId, { password: 'password123' });
+      const second = await requestAccountDeletion(workerId, { password: 'password123' });
+      expect(second.deletion_scheduled_for).toEqual(first.deletion_scheduled_for);
+    });
+  });
+
+  it('should not purge a cancelled deletion', async () => {
+    await requestAccountDeletion(workerId, { password: 'password123' });
+    await cancelAccountDeletion(workerId);
+
+    expect(await purgeDueAccountDeletions(new Date(Date.now() + 365 * 24 * 60 * 60 * 1000))).toEqual({ purged: 0, failed: [] });
+  });
+
+  describe('purge', () => {
+    beforeEach(async () => {
+      await requestAccountDeletion(workerId, { password: 'password123' });
+      expect(await purgeDueAccountDeletions(new Date(Date.now() + 365 * 24 * 60 * 60 * 1000))).toEqual({ purged: 1, failed: [] });
+    });
+
+    it('should anonymize the user row and remove credentials', async () => {
+      const [user] = await db.select().from(usersTable).where(eq(usersTable.id, workerId)).execute();
+
+      expect(user.full_name).toEqual('Deleted user');
+      expect(user.email).not.toContain('jane');
+      expect(user.phone).toBeNull();
+      expect(user.bio).toBeNull();
+      expect(user.profile_photo).toBeNull();
+      expect(user.deleted_at).toBeInstanceOf(Date);
+
+      expect(await db.select().from(sessionsTable).where(eq(sessionsTable.user_id, workerId)).execute()).toHaveLength(0);
+      expect(await db.select().from(userRolesTable).where(eq(userRolesTable.user_id, workerId)).execute()).toHaveLength(0);
+      await expect(loginUser({ email: 'jane@example.com', password: 'password123' })).rejects.toThrow(/invalid email or password/i);
+    });
+
+    it('should hard-delete proofs, attempts and their files', async () => {
+      expect(await db.select().from(skillProofsTable).execute()).toHaveLength(0);
+      expect(await db.select().from(testAttemptsTable).execute()).toHaveLength(0);
+      expect(deletedFiles.sort()).toEqual([
+        'https://files.example.com/jane.jpg',
+        'https://files.example.com/pipe.jpg',
+        'https://files.example.com/weld.mp4'
+      ]);
+    });
+
+    it('should keep only certified skills', async () => {
+      const remaining = await db.select().from(userSkillsTable).where(eq(userSkillsTable.user_id, workerId)).execute();
+      expect(remaining.map(userSkill => userSkill.id)).toEqual([certifiedSkillId]);
+    });
+
+    it('should keep applications for the employer without the message', async () => {
+      const applications = await db.select().from(jobApplicationsTable).execute();
+      expect(applications).toHaveLength(1);
+      expect(applications[0].message).toBeNull();
+    });
+
+    it('should keep certificates verifiable without the holder name', async () => {
+      const result = await verifyCertificate('CERT-JANE');
+
+      expect(result).not.toBeNull();
+      expect(result!.skill_name).toEqual('Welding');
+      expect(result!.holder_name).toBeNull();
+      expect(result!.note).toMatch(/holder withdrew consent to display name/i);
+    });
+
+    it('should disappear from the marketplace and portfolios', async () => {
+      expect(await getMarketplaceWorkers({})).toHaveLength(0);
+      await expect(getUserPortfolio(workerId)).rejects.toThrow(/user not found/i);
+    });
+
+    it('should scrub personal details from the audit trail', async () => {
+      const events = await db.select().from(auditEventsTable)
+        .where(and(eq(auditEventsTable.target_type, 'user'), eq(auditEventsTable.target_id, workerId)))
+        .execute();
+
+      expect(events.map(event => event.action)).toContain('auth.registered');
+      const trail = JSON.stringify(events);
+      expect(trail).not.toContain('jane');
+      expect(trail).not.toContain('Jane Worker');
+      expect(trail).not.toContain('+254712345678');
+    });
+
+    it('should not purge twice', async () => {
+      await expect(purgeAccount(workerId)).rejects.toThrow(/user not found/i);
+    });
+  });
+
+  it('should purge the rest of the batch when one account fails', async () => {
+    await requestAccountDeletion(workerId, { password: 'password123' });
+    await db.update(usersTable).set({ deletion_scheduled_for: new Date() }).where(eq(usersTable.id, employerId)).execute();
+    // Takes the placeholder address the employer would be renamed to, so their purge fails
+    await db.insert(usersTable).values({ full_name: 'Squatter', email: `deleted-${employerId}@deleted.invalid`, password_hash: 'hash' }).execute();
+
+    expect(await purgeDueAccountDeletions(new Date(Date.now() + 365 * 24 * 60 * 60 * 1000)))
+      .toEqual({ purged: 1, failed: [employerId] });
+
+    const users = await db.select().from(usersTable).where(eq(usersTable.id, employerId)).execute();
+    expect(users[0].deleted_at).toBeNull();
+    expect(users[0].email).toEqual('hr@employer.com');
+  });
+
+  it('should close listings of a deleted employer', async () => {
+    await purgeAccount(employerId);
+
+    const listings = await db.select().from(jobListingsTable).execute();
+    expect(listings).toHaveLength(1);
+    expect(listings[0].is_active).toBe(false);
+  });
+
+  it('should name the holder on certificates of active accounts', async () => {
+    const result = await verifyCertificate('CERT-JANE');
+    expect(result!.holder_name).toEqual('Jane Worker');
+    expect(result!.note).toBeNull();
+  });
+});
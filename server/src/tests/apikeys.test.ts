@@ -0,0 +1,186 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, userRolesTable, skillsTable, apiKeysTable, totpCredentialsTable } from '../db/schema';
+import { type CreateHTTPContextOptions } from '@trpc/server/adapters/standalone';
+import { TRPCError } from '@trpc/server';
+import { hashPassword } from '../lib/passwords';
+import { createApiKey, getApiKeys, revokeApiKey, authenticateApiKey } from '../handlers/apikeys';
+import { appRouter } from '../router';
+import { createCallerFactory, createContext } from '../trpc';
+import { eq } from 'drizzle-orm';
+
+const createCaller = createCallerFactory(appRouter);
+
+const callerWithKey = async (key: string) => createCaller(await createContext({
+  req: { headers: { authorization: `Bearer ${key}` } }
+} as CreateHTTPContextOptions));
+
+// Resolves to the tRPC error code of a failed call, or null when it succeeded
+async function errorCode(call: Promise<unknown>): Promise<string | null> {
+  try {
+    await call;
+    return null;
+  } catch (error) {
+    return error instanceof TRPCError ? error.code : 'UNKNOWN';
+  }
+}
+
+describe('API Key Handlers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let employerId: number;
+  let skillId: number;
+
+  beforeEach(async () => {
+    const users = await db.insert(usersTable).values({
+      full_name: 'Hiring Manager',
+      email: 'hr@employer.com',
+      phone: null,
+      password_hash: hashPassword('password123'),
+      is_verified: true
+    }).returning().execute();
+    employerId = users[0].id;
+
+    await db.insert(userRolesTable).values({ user_id: employerId, role: 'employer' }).execute();
+    await db.insert(totpCredentialsTable).values({ user_id: employerId, secret: 'JBSWY3DPEHPK3PXP', confirmed_at: new Date() }).execute();
+
+    const skills = await db.insert(skillsTable).values({ name: 'Welding', category: 'Technical' }).returning().execute();
+    skillId = skills[0].id;
+  });
+
+  describe('createApiKey', () => {
+    it('should return the secret once and store only its hash', async () => {
+      const result = await createApiKey(employerId, { name: 'HR system', scopes: ['marketplace:read'] });
+
+      expect(result.secret).toStartWith(`${result.api_key.prefix}_`);
+      expect(result.api_key.prefix).toMatch(/^sp_[0-9a-f]{12}$/);
+      expect(result.api_key.scopes).toEqual(['marketplace:read']);
+      expect(result.api_key).not.toHaveProperty('secret_hash');
+
+      const stored = await db.select().from(apiKeysTable).execute();
+      expect(stored[0].secret_hash).not.toContain(result.secret);
+    });
+
+    it('should reject an expiry in the past', async () => {
+      await expect(createApiKey(employerId, { name: 'Old', scopes: ['jobs:write'], expires_at: new Date(Date.now() - 1000) }))
+        .rejects.toThrow(/future/i);
+    });
+  });
+
+  describe('getApiKeys', () => {
+    it('should list only the owner\'s keys without secrets', async () => {
+      await createApiKey(employerId, { name: 'HR system', scopes: ['marketplace:read'] });
+
+      const keys = await getApiKeys(employerId);
+      expect(keys).toHaveLength(1);
+      expect(keys[0].name).toEqual('HR system');
+      expect(keys[0]).not.toHaveProperty('secret_hash');
+
+      expect(await getApiKeys(employerId + 1)).toHaveLength(0);
+    });
+  });
+
+  describe('revokeApiKey', () => {
+    it('should stop the key from authenticating', async () => {
+      const { api_key, secret } = await createApiKey(employerId, { name: 'HR system', scopes: ['marketplace:read'] });
+
+      const revoked = await revokeApiKey(employerId, api_key.id);
+      expect(revoked.revoked_at).toBeInstanceOf(Date);
+
+      await expect(authenticateApiKey(secret)).rejects.toThrow(/revoked/i);
+    });
+
+    it('should not revoke another employer\'s key', async () => {
+      const { api_key } = await createApiKey(employerId, { name: 'HR system', scopes: ['marketplace:read'] });
+      await expect(revokeApiKey(employerId + 1, api_key.id)).rejects.toThrow(/not found/i);
+    });
+  });
+
+  describe('authenticateApiKey', () => {
+    it('should resolve the owner with the key scopes and record use', async () => {
+      const { api_key, secret } = await createApiKey(employerId, { name: 'HR system', scopes: ['marketplace:read', 'jobs:write'] });
+
+      const principal = await authenticateApiKey(secret);
+      expect(principal.id).toEqual(employerId);
+      expect(principal.session_id).toBeNull();
+      expect(principal.api_key).toEqual({ id: api_key.id, scopes: ['marketplace:read', 'jobs:write'] });
+
+      const stored = await db.select().from(apiKeysTable).where(eq(apiKeysTable.id, api_key.id)).execute();
+      expect(stored[0].last_used_at).toBeInstanceOf(Date);
+    });
+
+    it('should reject a wrong secret with a known prefix', async () => {
+      const { secret } = await createApiKey(employerId, { name: 'HR system', scopes: ['marketplace:read'] });
+      await expect(authenticateApiKey(`${secret.slice(0, -4)}AAAA`)).rejects.toThrow(/invalid api key/i);
+    });
+
+    it('should reject expired keys', async () => {
+      const { api_key, secret } = await createApiKey(employerId, { name: 'HR system', scopes: ['marketplace:read'] });
+      await db.update(apiKeysTable).set({ expires_at: new Date(Date.now() - 1000) }).where(eq(apiKeysTable.id, api_key.id)).execute();
+
+      await expect(authenticateApiKey(secret)).rejects.toThrow(/expired/i);
+    });
+  });
+
+  describe('router access', () => {
+    const jobListing = () => ({
+      title: 'Senior Welder Position',
+      description: 'Looking for an experienced welder for construction projects',
+      skill_id: skillId,
+      location: null,
+      salary_range: null,
+      employment_type: 'full_time' as const
+    });
+
+    it('should let a marketplace:read key pull workers', async () => {
+      const { secret } = await createApiKey(employerId, { name: 'HR system', scopes: ['marketplace:read'] });
+      const caller = await callerWithKey(secret);
+
+      expect(await errorCode(caller.getMarketplaceWorkers({}))).toBeNull();
+      expect(await errorCode(caller.verifyCertificate('CERT-UNKNOWN'))).toEqual('FORBIDDEN');
+    });
+
+    it('should let a jobs:write key post listings as its owner', async () => {
+      const { secret } = await createApiKey(employerId, { name: 'HR system', scopes: ['jobs:write'] });
+      const caller = await callerWithKey(secret);
+
+      const listing = await caller.createJobListing(jobListing());
+      expect(listing.employer_id).toEqual(employerId);
+
+      expect(await errorCode(caller.getMarketplaceWorkers({}))).toEqual('FORBIDDEN');
+    });
+
+    it('should refuse a key without the scope', async () => {
+      const { secret } = await createApiKey(employerId, { name: 'Read only', scopes: ['marketplace:read'] });
+      expect(await errorCode((await callerWithKey(secret)).createJobListing(jobListing()))).toEqual('FORBIDDEN');
+    });
+
+    it('should stop working once the owner loses the employer role', async () => {
+      const { secret } = await createApiKey(employerId, { name: 'HR system', scopes: ['jobs:write'] });
+      await db.delete(userRolesTable).where(eq(userRolesTable.user_id, employerId)).execute();
+
+      expect(await errorCode((await callerWithKey(secret)).createJobListing(jobListing()))).toEqual('FORBIDDEN');
+    });
+
+    it('should keep session-only routes closed to keys', async () => {
+      const { secret } = await createApiKey(employerId, {
+        name: 'Everything',
+        scopes: ['marketplace:read', 'jobs:write', 'certificates:verify']
+      });
+      const caller = await callerWithKey(secret);
+
+      expect(await errorCode(caller.getUserProfile())).toEqual('UNAUTHORIZED');
+      expect(await errorCode(caller.getApiKeys())).toEqual('UNAUTHORIZED');
+      expect(await errorCode(caller.createApiKey({ name: 'Escalated', scopes: ['jobs:write'] }))).toEqual('UNAUTHORIZED');
+    });
+
+    it('should treat revoked keys as anonymous', async () => {
+      const { api_key, secret } = await createApiKey(employerId, { name: 'HR system', scopes: ['jobs:write'] });
+      await revokeApiKey(employerId, api_key.id);
+
+      expect(await errorCode((await callerWithKey(secret)).createJobListing(jobListing()))).toEqual('UNAUTHORIZED');
+    });
+  });
+});
@@ -0,0 +1,254 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  usersTable,
+  skillsTable,
+  jobListingsTable,
+  jobApplicationsTable,
+  auditEventsTable,
+  sessionsTable,
+  passwordResetTokensTable
+} from '../db/schema';
+import { registerUser, loginUser } from '../handlers/auth';
+import { updateUserProfile } from '../handlers/profile';
+import { updateJobApplicationStatus } from '../handlers/marketplace';
+import { getAuditEvents } from '../handlers/audit';
+import { grantRole, revokeRole } from '../handlers/roles';
+import { changePassword, resetPassword } from '../handlers/passwords';
+import { createApiKey, revokeApiKey } from '../handlers/apikeys';
+import { revokeSession, revokeAllSessions } from '../handlers/sessions';
+import { startTotpEnrollment, confirmTotpEnrollment, disableTwoFactor } from '../handlers/totp';
+import { hotp, currentStep } from '../lib/totp';
+import { hashOpaqueToken } from '../lib/tokens';
+import { auditActor, diffSnapshots, recordAuditEvent, SYSTEM_ACTOR } from '../lib/audit';
+import { hashPassword } from '../lib/passwords';
+import { eq } from 'drizzle-orm';
+
+const meta = { ip_address: '203.0.113.7', user_agent: 'bun-test' };
+
+describe('Audit log', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  describe('diffSnapshots', () => {
+    it('should keep only changed fields and drop credentials', () => {
+      const diff = diffSnapshots(
+        { full_name: 'Jane', bio: 'Old', password_hash: 'a', updated_at: new Date(1) },
+        { full_name: 'Jane', bio: 'New', password_hash: 'b', updated_at: new Date(2) }
+      );
+
+      expect(diff).toEqual({ before: { bio: 'Old' }, after: { bio: 'New' } });
+    });
+  });
+
+  describe('recordAuditEvent', () => {
+    it('should store the actor and redact secrets', async () => {
+      await recordAuditEvent(auditActor(7, meta, 3), {
+        action: 'test.action',
+        target_type: 'user',
+        target_id: 7,
+        after: { name: 'x', secret_hash: 'should not be stored' }
+      });
+
+      const events = await db.select().from(auditEventsTable).execute();
+      expect(events).toHaveLength(1);
+      expect(events[0].actor_user_id).toEqual(7);
+      expect(events[0].actor_api_key_id).toEqual(3);
+      expect(events[0].ip_address).toEqual('203.0.113.7');
+      expect(events[0].after).toEqual({ name: 'x' });
+    });
+
+    it('should redact secrets nested in objects and arrays', async () => {
+      await recordAuditEvent(SYSTEM_ACTOR, {
+        action: 'test.action',
+        target_type: 'user',
+        target_id: 7,
+        after: { input: { email: 'jane@example.com', new_password: 'hunter22', factors: [{ code: '123456', kind: 'totp' }] } }
+      });
+
+      const events = await db.select().from(auditEventsTable).execute();
+      expect(events[0].after).toEqual({ input: { email: 'jane@example.com', factors: [{ kind: 'totp' }] } });
+    });
+  });
+
+  describe('instrumented handlers', () => {
+    it('should record registration and logins', async () => {
+      const user = await registerUser({ full_name: 'Jane Worker', email: 'jane@example.com', phone: null, password: 'password123' }, meta);
+      await loginUser({ email: 'jane@example.com', password: 'password123' }, meta);
+      await expect(loginUser({ email: 'jane@example.com', password: 'wrong-password' }, meta)).rejects.toThrow();
+
+      const { events } = await getAuditEvents({ target_id: user.id, limit: 50 });
+      expect(events.map(event => event.action)).toEqual(['auth.login_failed', 'auth.login', 'auth.registered']);
+      expect(events[0].actor_user_id).toBeNull();
+      expect(events[1].after).toEqual({ method: 'password', device_label: null });
+    });
+
+    it('should record a profile update as a field diff', async () => {
+      const user = await registerUser({ full_name: 'Jane Worker', email: 'jane@example.com', phone: null, password: 'password123' });
+
+      await updateUserProfile(user.id, { bio: 'Welder' }, auditActor(user.id, meta));
+
+      const { events } = await getAuditEvents({ action: 'profile.updated', limit: 50 });
+      expect(events).toHaveLength(1);
+      expect(events[0].actor_user_id).toEqual(user.id);
+      expect(events[0].before).toEqual({ bio: null });
+      expect(events[0].after).toEqual({ bio: 'Welder' });
+    });
+
+    it('should record application status changes by the listing owner only', async () => {
+      const users = await db.insert(usersTable).values([
+        { full_name: 'Employer', email: 'hr@employer.com', phone: null, password_hash: hashPassword('password123') },
+        { full_name: 'Other Employer', email: 'other@employer.com', phone: null, password_hash: hashPassword('password123') },
+        { full_name: 'Applicant', email: 'worker@example.com', phone: null, password_hash: hashPassword('password123') }
+      ]).returning().execute();
+      const [employer, other, applicant] = users;
+
+      const skills = await db.insert(skillsTable).values({ name: 'Welding', category: 'Technical' }).returning().execute();
+      const listings = await db.insert(jobListingsTable).values({
+        employer_id: employer.id,
+        title: 'Welder',
+        description: 'Welding work',
+        skill_id: skills[0].id,
+        employment_type: 'contract'
+      }).returning().execute();
+      const applications = await db.insert(jobApplicationsTable).values({
+        job_listing_id: listings[0].id,
+        applicant_id: applicant.id,
+        message: null
+      }).returning().execute();
+
+      await expect(updateJobApplicationStatus(other.id, { application_id: applications[0].id, status: 'hired' }))
+        .rejects.toThrow(/not found or access denied/i);
+
+      const updated = await updateJobApplicationStatus(
+        employer.id,
+        { application_id: applications[0].id, status: 'contacted' },
+        auditActor(employer.id, meta)
+      );
+      expect(updated.status).toEqual('contacted');
+
+      const { events } = await getAuditEvents({ target_type: 'job_application', limit: 50 });
+      expect(events).toHaveLength(1);
+      expect(events[0].action).toEqual('job_application.status_changed');
+      expect(events[0].before).toEqual({ status: 'pending' });
+      expect(events[0].after).toEqual({ status: 'contacted' });
+    });
+  });
+
+  describe('security actions', () => {
+    let userId: number;
+    let adminId: number;
+
+    beforeEach(async () => {
+      const users = await db.insert(usersTable).values([
+        { full_name: 'Jane Worker', email: 'jane@example.com', phone: null, password_hash: hashPassword('password123') },
+        { full_name: 'Site Admin', email: 'admin@example.com', phone: null, password_hash: hashPassword('password123') }
+      ]).returning().execute();
+      [userId, adminId] = users.map(user => user.id);
+    });
+
+    const trail = async (action: string) => (await getAuditEvents({ action, limit: 50 })).events;
+
+    it('should record role grants and revocations by the admin', async () => {
+      await grantRole(adminId, { user_id: userId, role: 'employer' }, auditActor(adminId, meta));
+      await revokeRole(adminId, { user_id: userId, role: 'employer' }, auditActor(adminId, meta));
+
+      const [granted] = await trail('role.granted');
+      expect(granted).toMatchObject({ actor_user_id: adminId, target_type: 'user', target_id: userId, after: { role: 'employer' } });
+      const [revoked] = await trail('role.revoked');
+      expect(revoked).toMatchObject({ actor_user_id: adminId, target_id: userId, before: { role: 'employer' } });
+    });
+
+    it('should record password changes and resets without the passwords', async () => {
+      const sessions = await db.insert(sessionsTable).values([{ user_id: userId }, { user_id: userId }]).returning().execute();
+      await changePassword(userId, sessions[0].id, { current_password: 'password123', new_password: 'changed123' }, auditActor(userId, meta));
+
+      await db.insert(passwordResetTokensTable)
+        .values({ user_id: userId, token_hash: hashOpaqueToken('reset-token'), expires_at: new Date(Date.now() + 60 * 60 * 1000) })
+        .execute();
+      await resetPassword({ token: 'reset-token', new_password: 'reset12345' }, auditActor(null, meta));
+
+      const [changed] = await trail('auth.password_changed');
+      expect(changed).toMatchObject({ actor_user_id: userId, target_id: userId, after: { revoked_sessions: 1 } });
+      const [reset] = await trail('auth.password_reset');
+      expect(reset).toMatchObject({ actor_user_id: null, target_id: userId, after: { revoked_sessions: 1 } });
+
+      const stored = JSON.stringify(await db.select().from(auditEventsTable).execute());
+      expect(stored).not.toContain('changed123');
+      expect(stored).not.toContain('reset12345');
+      expect(stored).not.toContain('reset-token');
+    });
+
+    it('should record API keys being created and revoked without the secret', async () => {
+      const { api_key, secret } = await createApiKey(userId, { name: 'ATS sync', scopes: ['jobs:write'] }, auditActor(userId, meta));
+      await revokeApiKey(userId, api_key.id, auditActor(userId, meta));
+
+      const [created] = await trail('api_key.created');
+      expect(created).toMatchObject({ target_type: 'api_key', target_id: api_key.id, after: { name: 'ATS sync', prefix: api_key.prefix, scopes: ['jobs:write'] } });
+      expect((await trail('api_key.revoked')).map(event => event.target_id)).toEqual([api_key.id]);
+
+      expect(JSON.stringify(await db.select().from(auditEventsTable).execute())).not.toContain(secret);
+    });
+
+    it('should record revoked sessions', async () => {
+      const sessions = await db.insert(sessionsTable).values([{ user_id: userId }, { user_id: userId }, { user_id: userId }]).returning().execute();
+
+      await revokeSession(userId, sessions[0].id, auditActor(userId, meta));
+      await revokeAllSessions(userId, sessions[1].id, auditActor(userId, meta));
+
+      const [revoked] = await trail('session.revoked');
+      expect(revoked).toMatchObject({ target_type: 'session', target_id: sessions[0].id, after: { user_id: userId } });
+      const [revokedAll] = await trail('session.revoked_all');
+      expect(revokedAll).toMatchObject({ target_id: userId, after: { revoked_session_ids: [sessions[2].id] } });
+    });
+
+    it('should record two-factor being turned off without the code', async () => {
+      const { secret } = await startTotpEnrollment(userId);
+      await confirmTotpEnrollment(userId, { code: hotp(secret, currentStep()) });
+      const code = hotp(secret, currentStep() + 1);
+
+      await disableTwoFactor(userId, { password: 'password123', code }, auditActor(userId, meta));
+
+      const [disabled] = await trail('two_factor.disabled');
+      expect(disabled).toMatchObject({ actor_user_id: userId, target_type: 'user', target_id: userId });
+      expect(JSON.stringify(disabled)).not.toContain(code);
+    });
+  });
+
+  describe('getAuditEvents', () => {
+    beforeEach(async () => {
+      for (let i = 1; i <= 5; i++) {
+        await recordAuditEvent(auditActor(i % 2, meta), { action: `test.${i}`, target_type: 'user', target_id: i });
+      }
+    });
+
+    it('should page newest first with a cursor', async () => {
+      const first = await getAuditEvents({ limit: 2 });
+      expect(first.events.map(event => event.action)).toEqual(['test.5', 'test.4']);
+      expect(first.next_cursor).toEqual(first.events[1].id);
+
+      const second = await getAuditEvents({ limit: 2, cursor: first.next_cursor! });
+      expect(second.events.map(event => event.action)).toEqual(['test.3', 'test.2']);
+
+      const last = await getAuditEvents({ limit: 2, cursor: second.next_cursor! });
+      expect(last.events.map(event => event.action)).toEqual(['test.1']);
+      expect(last.next_cursor).toBeNull();
+    });
+
+    it('should filter by actor and time range', async () => {
+      expect((await getAuditEvents({ actor_user_id: 1, limit: 50 })).events).toHaveLength(3);
+
+      const future = new Date(Date.now() + 60 * 60 * 1000);
+      expect((await getAuditEvents({ from: future, limit: 50 })).events).toHaveLength(0);
+      expect((await getAuditEvents({ to: future, limit: 50 })).events).toHaveLength(5);
+    });
+  });
+
+  it('should keep events whose actor no longer has an account', async () => {
+    // Actors are plain ids so history survives account deletion
+    await recordAuditEvent(auditActor(99999, meta), { action: 'test.orphan', target_type: 'user', target_id: 99999 });
+    expect(await db.select().from(usersTable).where(eq(usersTable.id, 99999)).execute()).toHaveLength(0);
+    expect((await getAuditEvents({ actor_user_id: 99999, limit: 50 })).events).toHaveLength(1);
+  });
+});
@@ -1,13 +1,19 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable } from '../db/schema';
+import { usersTable, sessionsTable, loginAttemptsTable } from '../db/schema';
 import { type RegisterInput, type LoginInput } from '../schema';
-import { registerUser, loginUser, getUserProfile } from '../handlers/auth';
+import { registerUser, loginUser, getUserProfile, verifyEmail, resendVerificationEmail, unlockAccount } from '../handlers/auth';
 import { eq } from 'drizzle-orm';
-import { createHash, pbkdf2Sync } from 'crypto';
-
-const JWT_SECRET = process.env['JWT_SECRET'] || 'development_secret_key';
+import { pbkdf2Sync } from 'crypto';
+import { verifyJWT, loadKeyringFromEnv } from '../lib/jwt';
+import { issueActionToken } from '../lib/tokens';
+import { setMailTransport, createOutboxTransport, createConsoleTransport, readOutbox } from '../lib/mail';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const keyring = loadKeyringFromEnv();
 const SALT_ROUNDS = 10000;
 
 // Helper functions to match the handler implementation
@@ -17,34 +23,6 @@ function verifyPassword(password: string, hashedPassword: string): boolean {
   return hash === verifyHash;
 }
 
-function verifyJWT(token: string, secret: string): any {
-  const parts = token.split('.');
-  if (parts.length !== 3) {
-    throw new Error('Invalid token format');
-  }
-
-  const [encodedHeader, encodedPayload, signature] = parts;
-  
-  // Verify signature
-  const expectedSignature = createHash('sha256')
-    .update(`${encodedHeader}.${encodedPayload}.${secret}`)
-    .digest('base64url');
-  
-  if (signature !== expectedSignature) {
-    throw new Error('Invalid token signature');
-  }
-
-  // Decode payload
-  const payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString());
-  
-  // Check expiration
-  if (payload.exp && payload.exp < Math.floor(Date.now() / 1000)) {
-    throw new Error('Token expired');
-  }
-
-  return payload;
-}
-
 // Test inputs
 const testRegisterInput: RegisterInput = {
   full_name: 'John Doe',
@@ -136,6 +114,7 @@ describe('Auth Handlers', () => {
 
     it('should authenticate user with valid credentials', async () => {
       const result = await loginUser(testLoginInput);
+      if (result.two_factor_required) throw new Error('Unexpected two-factor challenge');
 
       // Check user data
       expect(result.user.full_name).toEqual('John Doe');
@@ -149,9 +128,9 @@ describe('Auth Handlers', () => {
       expect(typeof result.token).toBe('string');
 
       // Verify token is valid JWT
-      const decoded = verifyJWT(result.token, JWT_SECRET);
-      expect(decoded.userId).toEqual(result.user.id);
-      expect(decoded.email).toEqual('john@example.com');
+      const decoded = verifyJWT(result.token, keyring);
+      expect(decoded.sub).toEqual(result.user.id.toString());
+      expect(decoded['email']).toEqual('john@example.com');
       expect(decoded.exp).toBeDefined(); // Should have expiration
     });
 
@@ -183,6 +162,7 @@ describe('Auth Handlers', () => {
         .execute();
 
       const result = await loginUser(testLoginInput);
+      if (result.two_factor_required) throw new Error('Unexpected two-factor challenge');
       
       // Should convert to number
       expect(result.user.rating).toEqual(4.5);
@@ -282,38 +262,257 @@ describe('Auth Handlers', () => {
 
     it('should generate valid JWT tokens', async () => {
       const result = await loginUser(testLoginInput);
+      if (result.two_factor_required) throw new Error('Unexpected two-factor challenge');
       
       // Verify token structure (header.payload.signature)
       expect(result.token.split('.')).toHaveLength(3);
       
       // Decode and verify token
-      const decoded = verifyJWT(result.token, JWT_SECRET);
-      expect(decoded.userId).toEqual(result.user.id);
-      expect(decoded.email).toEqual('john@example.com');
+      const decoded = verifyJWT(result.token, keyring);
+      expect(decoded.sub).toEqual(result.user.id.toString());
+      expect(decoded['email']).toEqual('john@example.com');
       expect(decoded.iat).toBeDefined(); // issued at
       expect(decoded.exp).toBeDefined(); // expires at
+      expect(decoded.iss).toEqual('skill-proof');
+      expect(decoded.aud).toEqual('skill-proof-api');
+    });
+
+    it('should include algorithm and key id in the header', async () => {
+      const result = await loginUser(testLoginInput);
+      if (result.two_factor_required) throw new Error('Unexpected two-factor challenge');
+
+      const header = JSON.parse(Buffer.from(result.token.split('.')[0], 'base64url').toString());
+      expect(header.alg).toEqual('HS256');
+      expect(header.typ).toEqual('JWT');
+      expect(header.kid).toEqual(keyring.signingKey.kid);
     });
 
-    it('should set appropriate token expiration', async () => {
+    it('should issue short-lived access tokens', async () => {
       const result = await loginUser(testLoginInput);
+      if (result.two_factor_required) throw new Error('Unexpected two-factor challenge');
       
-      const decoded = verifyJWT(result.token, JWT_SECRET);
-      const expiresIn = decoded.exp - decoded.iat;
+      const decoded = verifyJWT(result.token, keyring);
+      const expiresIn = decoded.exp! - decoded.iat!;
       
-      // Should be approximately 7 days (604800 seconds)
-      expect(expiresIn).toBeGreaterThan(600000); // At least ~7 days
-      expect(expiresIn).toBeLessThan(610000); // Not more than ~7 days + buffer
+      // Should be 15 minutes (900 seconds)
+      expect(expiresIn).toEqual(900);
+    });
+
+    it('should bind the access token to a new session', async () => {
+      const result = await loginUser({ ...testLoginInput, device_label: 'Shared phone' }, {
+        ip_address: '10.0.0.1',
+        user_agent: 'TestAgent/1.0'
+      });
+      if (result.two_factor_required) throw new Error('Unexpected two-factor challenge');
+
+      const decoded = verifyJWT(result.token, keyring);
+      const sessions = await db.select()
+        .from(sessionsTable)
+        .where(eq(sessionsTable.user_id, result.user.id))
+        .execute();
+
+      expect(sessions).toHaveLength(1);
+      expect(decoded['sid']).toEqual(sessions[0].id);
+      expect(sessions[0].device_label).toEqual('Shared phone');
+      expect(sessions[0].ip_address).toEqual('10.0.0.1');
+      expect(sessions[0].user_agent).toEqual('TestAgent/1.0');
+      expect(result.refresh_token).toBeDefined();
     });
 
     it('should reject tokens with invalid signatures', async () => {
       const result = await loginUser(testLoginInput);
+      if (result.two_factor_required) throw new Error('Unexpected two-factor challenge');
       
       // Tamper with the token
       const parts = result.token.split('.');
       const tamperedToken = `${parts[0]}.${parts[1]}.invalidsignature`;
       
-      expect(() => verifyJWT(tamperedToken, JWT_SECRET))
+      expect(() => verifyJWT(tamperedToken, keyring))
         .toThrow(/invalid token signature/i);
     });
   });
-});
\ No newline at end of file
+
+  describe('Email Verification', () => {
+    let outbox: string;
+
+    beforeEach(async () => {
+      outbox = await mkdtemp(join(tmpdir(), 'outbox-'));
+      setMailTransport(createOutboxTransport(outbox));
+    });
+
+    afterEach(async () => {
+      setMailTransport(createConsoleTransport());
+      await rm(outbox, { recursive: true, force: true });
+    });
+
+    const tokenFromMail = (text: string) => /token=([\w.-]+)/.exec(text)![1];
+
+    it('should email a verification link on registration', async () => {
+      const user = await registerUser(testRegisterInput);
+
+      const messages = await readOutbox(outbox);
+      expect(messages).toHaveLength(1);
+      expect(messages[0].to).toEqual('john@example.com');
+      expect(messages[0].text).toContain('/verify-email?token=');
+      expect(user.email_verification_sent_at).toBeInstanceOf(Date);
+    });
+
+    it('should mark the user verified with a valid token', async () => {
+      const user = await registerUser(testRegisterInput);
+      const [message] = await readOutbox(outbox);
+
+      const result = await verifyEmail(tokenFromMail(message.text));
+      expect(result.is_verified).toBe(true);
+
+      const users = await db.select().from(usersTable).where(eq(usersTable.id, user.id)).execute();
+      expect(users[0].is_verified).toBe(true);
+    });
+
+    it('should reject tokens issued for another purpose', async () => {
+      const user = await registerUser(testRegisterInput);
+      const token = issueActionToken('reset_password', { userId: user.id, email: user.email }, '1h');
+
+      await expect(verifyEmail(token)).rejects.toThrow(/invalid token purpose/i);
+    });
+
+    it('should reject expired tokens', async () => {
+      const user = await registerUser(testRegisterInput);
+      const token = issueActionToken('verify_email', { userId: user.id, email: user.email }, -3600);
+
+      await expect(verifyEmail(token)).rejects.toThrow(/expired/i);
+    });
+
+    it('should reject a link sent to a previous email address', async () => {
+      const user = await registerUser(testRegisterInput);
+      const [message] = await readOutbox(outbox);
+
+      await db.update(usersTable)
+        .set({ email: 'changed@example.com' })
+        .where(eq(usersTable.id, user.id))
+        .execute();
+
+      await expect(verifyEmail(tokenFromMail(message.text))).rejects.toThrow(/invalid verification token/i);
+    });
+
+    it('should throttle resends', async () => {
+      const user = await registerUser(testRegisterInput);
+
+      await expect(resendVerificationEmail(user.id)).rejects.toThrow(/sent recently/i);
+      expect(await readOutbox(outbox)).toHaveLength(1);
+    });
+
+    it('should resend once the interval has passed', async () => {
+      const user = await registerUser(testRegisterInput);
+      await db.update(usersTable)
+        .set({ email_verification_sent_at: new Date(Date.now() - 2 * 60 * 1000) })
+        .where(eq(usersTable.id, user.id))
+        .execute();
+
+      const result = await resendVerificationEmail(user.id);
+      expect(result.sent).toBe(true);
+      expect(await readOutbox(outbox)).toHaveLength(2);
+    });
+
+    it('should not resend to a verified account', async () => {
+      const user = await registerUser(testRegisterInput);
+      await db.update(usersTable)
+        .set({ is_verified: true })
+        .where(eq(usersTable.id, user.id))
+        .execute();
+
+      await expect(resendVerificationEmail(user.id)).rejects.toThrow(/already verified/i);
+    });
+  });
+
+  describe('Brute-force Protection', () => {
+    let outbox: string;
+
+    beforeEach(async () => {
+      outbox = await mkdtemp(join(tmpdir(), 'outbox-'));
+      setMailTransport(createOutboxTransport(outbox));
+      await registerUser(testRegisterInput);
+    });
+
+    afterEach(async () => {
+      setMailTransport(createConsoleTransport());
+      await rm(outbox, { recursive: true, force: true });
+    });
+
+    const wrongPassword: LoginInput = { email: 'john@example.com', password: 'wrongpassword' };
+
+    // Lifts the backoff window so the next attempt is actually evaluated
+    const skipBackoff = () => db.update(loginAttemptsTable).set({ blocked_until: null }).execute();
+
+    it('should back off after repeated failures', async () => {
+      for (let i = 0; i < 4; i++) {
+        await expect(loginUser(wrongPassword)).rejects.toThrow(/invalid email or password/i);
+      }
+
+      // Even the right password is refused during the backoff window
+      await expect(loginUser(testLoginInput)).rejects.toMatchObject({ code: 'TOO_MANY_REQUESTS' });
+    });
+
+    it('should reset the account counter after a successful login', async () => {
+      await expect(loginUser(wrongPassword)).rejects.toThrow(/invalid email or password/i);
+      await expect(loginUser(wrongPassword)).rejects.toThrow(/invalid email or password/i);
+
+      await loginUser(testLoginInput);
+
+      const attempts = await db.select().from(loginAttemptsTable).execute();
+      expect(attempts).toHaveLength(0);
+    });
+
+    it('should lock the account and email an unlock link', async () => {
+      for (let i = 0; i < 10; i++) {
+        await skipBackoff();
+        await expect(loginUser(wrongPassword)).rejects.toThrow(/invalid email or password/i);
+      }
+
+      const attempts = await db.select().from(loginAttemptsTable).execute();
+      expect(attempts[0].failures).toEqual(10);
+      expect(attempts[0].blocked_until!.getTime()).toBeGreaterThan(Date.now() + 14 * 60 * 1000);
+
+      const messages = (await readOutbox(outbox)).filter(message => message.text.includes('/unlock-account?token='));
+      expect(messages).toHaveLength(1);
+      await expect(loginUser(testLoginInput)).rejects.toMatchObject({ code: 'TOO_MANY_REQUESTS' });
+
+      const token = /token=([\w.-]+)/.exec(messages[0].text)![1];
+      await unlockAccount(token);
+
+      const result = await loginUser(testLoginInput);
+      if (result.two_factor_required) throw new Error('Unexpected two-factor challenge');
+      expect(result.user.email).toEqual('john@example.com');
+    });
+
+    it('should throttle an IP trying many accounts', async () => {
+      const attacker = { ip_address: '203.0.113.9', user_agent: null };
+
+      for (let i = 0; i < 21; i++) {
+        await expect(loginUser({ email: `victim${i}@example.com`, password: 'guess' }, attacker))
+          .rejects.toThrow(/invalid email or password/i);
+      }
+
+      await expect(loginUser(testLoginInput, attacker)).rejects.toMatchObject({ code: 'TOO_MANY_REQUESTS' });
+
+      const result = await loginUser(testLoginInput, { ip_address: '198.51.100.7', user_agent: null });
+      if (result.two_factor_required) throw new Error('Unexpected two-factor challenge');
+      expect(result.user.email).toEqual('john@example.com');
+    });
+
+    it('should treat unknown emails like existing ones', async () => {
+      const unknown: LoginInput = { email: 'ghost@example.com', password: 'guess' };
+      for (let i = 0; i < 4; i++) {
+        await expect(loginUser(unknown)).rejects.toThrow(/invalid email or password/i);
+      }
+
+      await expect(loginUser(unknown)).rejects.toMatchObject({ code: 'TOO_MANY_REQUESTS' });
+    });
+
+    it('should reject unlock tokens issued for another purpose', async () => {
+      const users = await db.select().from(usersTable).execute();
+      const token = issueActionToken('verify_email', { userId: users[0].id, email: users[0].email }, '1h');
+
+      await expect(unlockAccount(token)).rejects.toThrow(/invalid token purpose/i);
+    });
+  });
+});
@@ -0,0 +1,218 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { skillsTable, skillCategoriesTable, skillAliasesTable } from '../db/schema';
+import { importSkillCatalogue, exportSkillCatalogue } from '../handlers/catalogue';
+import { createSkillCategory } from '../handlers/categories';
+import { mergeSkills } from '../handlers/merges';
+import { getAuditEvents } from '../handlers/audit';
+import { parseCsv, stringifyCsv } from '../lib/csv';
+import { asc, eq } from 'drizzle-orm';
+
+describe('CSV', () => {
+  it('should handle quotes, separators and line breaks inside fields', () => {
+    const content = '\ufeffname,description\r\n"Welding, MIG","Says ""hot""\nand more"\n\nPainting,\n';
+
+    expect(parseCsv(content)).toEqual([
+      ['name', 'description'],
+      ['Welding, MIG', 'Says "hot"\nand more'],
+      ['Painting', '']
+    ]);
+  });
+
+  it('should round-trip what it writes', () => {
+    const rows = [['a', 'b,c'], ['"quoted"', 'line\nbreak']];
+    expect(parseCsv(stringifyCsv(rows))).toEqual(rows);
+  });
+
+  it('should reject an unterminated quote', () => {
+    expect(() => parseCsv('name\n"Welding')).toThrow(/quoted field/i);
+  });
+});
+
+describe('Skill catalogue', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let constructionId: number;
+  let plumbingId: number;
+  let carpentryId: number;
+  let weldingId: number;
+
+  beforeEach(async () => {
+    const construction = await createSkillCategory({ name: 'Construction' });
+    constructionId = construction.id;
+
+    const skills = await db.insert(skillsTable).values([
+      { name: 'Plumbing', category: 'Construction', category_id: constructionId, description: 'Pipes and fittings' },
+      { name: 'Carpentry', category: 'Construction', category_id: constructionId },
+      { name: 'Welding', category: 'Construction', category_id: constructionId }
+    ]).returning().execute();
+    [plumbingId, carpentryId, weldingId] = skills.map(skill => skill.id);
+
+    await db.insert(skillAliasesTable).values({ skill_id: plumbingId, alias: 'Plumber' }).execute();
+  });
+
+  const csv = [
+    'name,category,description,aliases,validity_days',
+    'Plumbing,Construction,Pipes and fittings,Plumber|Pipe fitter,',
+    'Carpentry,Construction,Joinery and framing,,',
+    'Solar installation,Energy > Solar,Panels and inverters,PV installer,730'
+  ].join('\n');
+
+  const allSkills = () => db.select().from(skillsTable).orderBy(asc(skillsTable.id)).execute();
+
+  describe('importSkillCatalogue', () => {
+    it('should report the differences without writing on a dry run', async () => {
+      const diff = await importSkillCatalogue({ format: 'csv', content: csv, deactivate_missing: true });
+
+      expect(diff.applied).toBe(false);
+      expect(diff.created).toEqual([{ name: 'Solar installation', category: 'Energy > Solar' }]);
+      expect(diff.updated).toEqual([
+        { id: plumbingId, name: 'Plumbing', changes: { aliases: { before: ['Plumber'], after: ['Plumber', 'Pipe fitter'] } } },
+        { id: carpentryId, name: 'Carpentry', changes: { description: { before: null, after: 'Joinery and framing' } } }
+      ]);
+      expect(diff.deactivated).toEqual([{ id: weldingId, name: 'Welding' }]);
+      expect(diff.categories_created).toEqual(['Energy', 'Energy > Solar']);
+      expect(diff.unchanged).toEqual(0);
+
+      expect(await allSkills()).toHaveLength(3);
+      expect((await allSkills()).every(skill => skill.is_active)).toBe(true);
+    });
+
+    it('should apply the import', async () => {
+      const diff = await importSkillCatalogue({ format: 'csv', content: csv, dry_run: false, deactivate_missing: true });
+      expect(diff.applied).toBe(true);
+
+      const skills = await allSkills();
+      const solar = skills.find(skill => skill.name === 'Solar installation')!;
+      expect(solar.validity_days).toEqual(730);
+      expect(solar.category).toEqual('Solar');
+
+      const [solarCategory] = await db.select().from(skillCategoriesTable).where(eq(skillCategoriesTable.id, solar.category_id!)).execute();
+      const [energy] = await db.select().from(skillCategoriesTable).where(eq(skillCategoriesTable.id, solarCategory.parent_id!)).execute();
+      expect(energy.name).toEqual('Energy');
+
+      expect(skills.find(skill => skill.id === carpentryId)!.description).toEqual('Joinery and framing');
+      expect(skills.find(skill => skill.id === weldingId)!.is_active).toBe(false);
+
+      const aliases = await db.select().from(skillAliasesTable).where(eq(skillAliasesTable.skill_id, plumbingId)).orderBy(asc(skillAliasesTable.id)).execute();
+      expect(aliases.map(alias => alias.alias)).toEqual(['Plumber', 'Pipe fitter']);
+
+      const events = await getAuditEvents({ action: 'skill_catalogue.imported', limit: 10 });
+      expect(events.events).toHaveLength(1);
+      expect(events.events[0].after).toMatchObject({ created: 1, updated: 2, deactivated: 1 });
+
+      // Running it again changes nothing
+      const again = await importSkillCatalogue({ format: 'csv', content: csv, deactivate_missing: true });
+      expect(again).toMatchObject({ created: [], updated: [], deactivated: [], categories_created: [], unchanged: 3 });
+    });
+
+    it('should leave skills missing from the file alone unless asked', async () => {
+      const diff = await importSkillCatalogue({ format: 'csv', content: csv, dry_run: false });
+
+      expect(diff.deactivated).toEqual([]);
+      expect((await allSkills()).find(skill => skill.id === weldingId)!.is_active).toBe(true);
+    });
+
+    it('should match by id to rename, move, deactivate and reactivate skills', async () => {
+      await db.update(skillsTable).set({ is_active: false }).where(eq(skillsTable.id, carpentryId)).execute();
+      const plumbingCategory = await createSkillCategory({ name: 'Plumbing', parent_id: constructionId });
+
+      const content = JSON.stringify([
+        { id: plumbingId, name: 'Plumbing & drainage', category: 'construction > plumbing' },
+        { id: carpentryId, name: 'Carpentry', category: 'Construction', is_active: true },
+        { id: weldingId, name: 'Welding', category: 'Construction', is_active: false }
+      ]);
+
+      const diff = await importSkillCatalogue({ format: 'json', content, dry_run: false });
+
+      expect(diff.updated.map(entry => entry.id)).toEqual([plumbingId, carpentryId]);
+      expect(diff.updated[0].changes).toEqual({
+        name: { before: 'Plumbing', after: 'Plumbing & drainage' },
+        category: { before: 'Construction', after: 'construction > plumbing' }
+      });
+      expect(diff.deactivated).toEqual([{ id: weldingId, name: 'Welding' }]);
+      expect(diff.categories_created).toEqual([]);
+
+      const skills = await allSkills();
+      const plumbing = skills.find(skill => skill.id === plumbingId)!;
+      expect(plumbing.name).toEqual('Plumbing & drainage');
+      expect(plumbing.category_id).toEqual(plumbingCategory.id);
+      expect(skills.find(skill => skill.id === carpentryId)!.is_active).toBe(true);
+      expect(skills.find(skill => skill.id === weldingId)!.is_active).toBe(false);
+    });
+
+    it('should reject invalid catalogues with the offending row', async () => {
+      await expect(importSkillCatalogue({ format: 'csv', content: 'name,category\nPlumbing,Construction\nX,Construction' }))
+        .rejects.toThrow(/row 2: name: skill name must be at least 2 characters/i);
+      await expect(importSkillCatalogue({ format: 'csv', content: 'name,category,colour\nPlumbing,Construction,red' }))
+        .rejects.toThrow(/unknown catalogue column "colour"/i);
+      await expect(importSkillCatalogue({ format: 'csv', content: 'name,category,validity_days\nPlumbing,Construction,a year' }))
+        .rejects.toThrow(/row 1: validity_days/i);
+      await expect(importSkillCatalogue({ format: 'json', content: '{"name": "Plumbing"}' }))
+        .rejects.toThrow(/must be an array/i);
+      await expect(importSkillCatalogue({ format: 'json', content: 'not json' }))
+        .rejects.toThrow(/not valid json/i);
+    });
+
+    it('should reject rows that clash with each other or the catalogue', async () => {
+      await expect(importSkillCatalogue({ format: 'csv', content: 'name,category\nTiling,Construction\ntiling,Construction' }))
+        .rejects.toThrow(/row 2: "tiling" appears more than once/i);
+
+      const rename = JSON.stringify([{ id: carpentryId, name: 'Welding', category: 'Construction' }]);
+      await expect(importSkillCatalogue({ format: 'json', content: rename }))
+        .rejects.toThrow(/row 1: another skill is already named "Welding"/i);
+
+      await expect(importSkillCatalogue({ format: 'json', content: JSON.stringify([{ id: 99999, name: 'Tiling', category: 'Construction' }]) }))
+        .rejects.toThrow(/row 1: skill 99999 not found/i);
+
+      await mergeSkills({ source_id: weldingId, target_id: carpentryId });
+      await expect(importSkillCatalogue({ format: 'json', content: JSON.stringify([{ id: weldingId, name: 'Welding', category: 'Construction' }]) }))
+        .rejects.toThrow(/has been merged/i);
+    });
+  });
+
+  describe('exportSkillCatalogue', () => {
+    beforeEach(async () => {
+      await importSkillCatalogue({ format: 'csv', content: csv, dry_run: false });
+      await db.update(skillsTable).set({ is_active: false }).where(eq(skillsTable.id, weldingId)).execute();
+    });
+
+    it('should export CSV that imports back without changes', async () => {
+      const exported = await exportSkillCatalogue('csv');
+      expect(exported.skill_count).toEqual(4);
+
+      const rows = parseCsv(exported.content);
+      expect(rows[0]).toEqual(['id', 'name', 'category', 'description', 'icon', 'aliases', 'validity_days', 'is_active']);
+      expect(rows.map(row => row[1]).slice(1)).toEqual(['Carpentry', 'Plumbing', 'Welding', 'Solar installation']);
+      expect(rows.find(row => row[1] === 'Plumbing')![5]).toEqual('Plumber|Pipe fitter');
+      expect(rows.find(row => row[1] === 'Welding')![7]).toEqual('false');
+
+      const diff = await importSkillCatalogue({ format: 'csv', content: exported.content, deactivate_missing: true });
+      expect(diff).toMatchObject({ created: [], updated: [], deactivated: [], categories_created: [], unchanged: 4 });
+    });
+
+    it('should export JSON that imports back without changes', async () => {
+      const exported = await exportSkillCatalogue('json');
+      const rows = JSON.parse(exported.content);
+
+      expect(rows.find((row: { name: string }) => row.name === 'Solar installation')).toMatchObject({
+        category: 'Energy > Solar',
+        aliases: ['PV installer'],
+        validity_days: 730,
+        is_active: true
+      });
+
+      const diff = await importSkillCatalogue({ format: 'json', content: exported.content, deactivate_missing: true });
+      expect(diff).toMatchObject({ created: [], updated: [], deactivated: [], unchanged: 4 });
+    });
+
+    it('should leave merged skills out', async () => {
+      await mergeSkills({ source_id: carpentryId, target_id: plumbingId });
+
+      const exported = await exportSkillCatalogue('json');
+      expect(JSON.parse(exported.content).map((row: { id: number }) => row.id)).not.toContain(carpentryId);
+    });
+  });
+});
@@ -0,0 +1,157 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { skillsTable, skillCategoriesTable, usersTable, userSkillsTable } from '../db/schema';
+import {
+  createSkillCategory,
+  updateSkillCategory,
+  migrateSkillCategories,
+  slugifyCategory
+} from '../handlers/categories';
+import { getSkills, createSkill } from '../handlers/skills';
+import { getMarketplaceWorkers } from '../handlers/marketplace';
+import { eq } from 'drizzle-orm';
+
+describe('Skill categories', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  describe('migrateSkillCategories', () => {
+    beforeEach(async () => {
+      await db.insert(skillsTable).values([
+        { name: 'Pipe Fitting', category: 'Plumbing' },
+        { name: 'Drain Unblocking', category: 'plumbing ' },
+        { name: 'Copper Pipes', category: 'Plumbing & Pipes' },
+        { name: 'Wiring', category: 'Electrical' }
+      ]).execute();
+    });
+
+    it('should fold spellings of the same category together', async () => {
+      expect(await migrateSkillCategories()).toEqual({ categorized: 4, skipped: [] });
+
+      const categories = await db.select().from(skillCategoriesTable).orderBy(skillCategoriesTable.slug).execute();
+      expect(categories.map(category => [category.slug, category.name])).toEqual([
+        ['electrical', 'Electrical'],
+        ['plumbing', 'Plumbing'],
+        ['plumbing-pipes', 'Plumbing & Pipes']
+      ]);
+
+      const skills = await db.select().from(skillsTable).where(eq(skillsTable.name, 'Drain Unblocking')).execute();
+      expect(skills[0].category).toEqual('Plumbing');
+      expect(skills[0].category_id).toEqual(categories[1].id);
+    });
+
+    it('should be safe to run again', async () => {
+      await migrateSkillCategories();
+      expect(await migrateSkillCategories()).toEqual({ categorized: 0, skipped: [] });
+      expect(await db.select().from(skillCategoriesTable).execute()).toHaveLength(3);
+    });
+
+    it('should skip and report categories it cannot build a slug from', async () => {
+      const [unsluggable] = await db.insert(skillsTable).values({ name: 'Mapishi', category: '???' }).returning().execute();
+
+      expect(await migrateSkillCategories()).toEqual({ categorized: 4, skipped: [unsluggable.id] });
+
+      const skills = await db.select().from(skillsTable).where(eq(skillsTable.id, unsluggable.id)).execute();
+      expect(skills[0].category_id).toBeNull();
+      expect(skills[0].category).toEqual('???');
+    });
+  });
+
+  describe('taxonomy', () => {
+    let tradesId: number;
+    let plumbingId: number;
+    let pipesId: number;
+    let electricalId: number;
+
+    beforeEach(async () => {
+      tradesId = (await createSkillCategory({ name: 'Trades', icon: 'hammer' })).id;
+      plumbingId = (await createSkillCategory({ name: 'Plumbing', parent_id: tradesId, sort_order: 2 })).id;
+      electricalId = (await createSkillCategory({ name: 'Electrical', parent_id: tradesId, sort_order: 1 })).id;
+      pipesId = (await createSkillCategory({ name: 'Pipes & Fittings', parent_id: plumbingId })).id;
+
+      await createSkill({ name: 'Drain Unblocking', category_id: plumbingId, description: null, icon: null });
+      await createSkill({ name: 'Copper Pipes', category_id: pipesId, description: null, icon: null });
+      await createSkill({ name: 'Wiring', category_id: electricalId, description: null, icon: null });
+      await createSkill({ name: 'Bookkeeping', category: 'Office', description: null, icon: null });
+    });
+
+    it('should derive slugs from names', async () => {
+      const [pipes] = await db.select().from(skillCategoriesTable).where(eq(skillCategoriesTable.id, pipesId)).execute();
+      expect(pipes.slug).toEqual('pipes-fittings');
+      expect(slugifyCategory('  Électricité ')).toEqual('electricite');
+    });
+
+    it('should return the taxonomy as a nested tree', async () => {
+      const tree = await getSkills({ tree: true });
+
+      expect(tree.map(node => node.name)).toEqual(['Office', 'Trades']);
+      const trades = tree[1];
+      expect(trades.icon).toEqual('hammer');
+      expect(trades.children.map(node => node.name)).toEqual(['Electrical', 'Plumbing']);
+
+      const plumbing = trades.children[1];
+      expect(plumbing.skills.map(skill => skill.name)).toEqual(['Drain Unblocking']);
+      expect(plumbing.children[0].skills.map(skill => skill.name)).toEqual(['Copper Pipes']);
+    });
+
+    it('should filter by any subtree', async () => {
+      const plumbing = await getSkills({ category_id: plumbingId });
+      expect(plumbing.map(skill => skill.name).sort()).toEqual(['Copper Pipes', 'Drain Unblocking']);
+
+      const trades = await getSkills({ category_id: tradesId });
+      expect(trades).toHaveLength(3);
+
+      const subtree = await getSkills({ category_id: plumbingId, tree: true });
+      expect(subtree).toHaveLength(1);
+      expect(subtree[0].name).toEqual('Plumbing');
+      expect(subtree[0].children[0].name).toEqual('Pipes & Fittings');
+    });
+
+    it('should reject an unknown category', async () => {
+      await expect(getSkills({ category_id: 99999 })).rejects.toThrow(/category not found/i);
+    });
+
+    it('should file free-text categories under the matching slug', async () => {
+      const skill = await createSkill({ name: 'Leak Detection', category: 'PLUMBING', description: null, icon: null });
+      expect(skill.category_id).toEqual(plumbingId);
+      expect(skill.category).toEqual('Plumbing');
+    });
+
+    it('should refuse to move a category under its own descendant', async () => {
+      await expect(updateSkillCategory({ id: plumbingId, parent_id: pipesId })).rejects.toThrow(/under itself or its descendants/i);
+      await expect(updateSkillCategory({ id: plumbingId, parent_id: plumbingId })).rejects.toThrow(/under itself or its descendants/i);
+    });
+
+    it('should move a subtree and rename skills with their category', async () => {
+      await updateSkillCategory({ id: pipesId, parent_id: null, name: 'Pipework' });
+
+      expect(await getSkills({ category_id: plumbingId })).toHaveLength(1);
+      const pipework = await getSkills({ category_id: pipesId });
+      expect(pipework[0].category).toEqual('Pipework');
+    });
+
+    it('should reject a duplicate slug', async () => {
+      await expect(createSkillCategory({ name: 'plumbing' })).rejects.toThrow(/already in use/i);
+    });
+
+    it('should include descendants in the marketplace category filter', async () => {
+      const workers = await db.insert(usersTable).values([
+        { full_name: 'Pipe Worker', email: 'pipes@example.com', password_hash: 'hash' },
+        { full_name: 'Wire Worker', email: 'wires@example.com', password_hash: 'hash' }
+      ]).returning().execute();
+      const skills = await db.select().from(skillsTable).execute();
+      const skillId = (name: string) => skills.find(skill => skill.name === name)!.id;
+
+      await db.insert(userSkillsTable).values([
+        { user_id: workers[0].id, skill_id: skillId('Copper Pipes'), is_verified: true, verification_date: new Date() },
+        { user_id: workers[1].id, skill_id: skillId('Wiring'), is_verified: true, verification_date: new Date() }
+      ]).execute();
+
+      const plumbers = await getMarketplaceWorkers({ category_id: plumbingId });
+      expect(plumbers.map(worker => worker.full_name)).toEqual(['Pipe Worker']);
+
+      expect(await getMarketplaceWorkers({ category_id: tradesId })).toHaveLength(2);
+    });
+  });
+});
@@ -52,10 +52,18 @@ describe('certificates handlers', () => {
     testUserSkillId = userSkillResult[0].id;
 
     // Create unverified user skill
+    const unverifiedSkillResult = await db.insert(skillsTable)
+      .values({
+        name: 'TypeScript Programming',
+        category: 'Programming'
+      })
+      .returning()
+      .execute();
+
     const unverifiedResult = await db.insert(userSkillsTable)
       .values({
         user_id: testUserId,
-        skill_id: testSkillId,
+        skill_id: unverifiedSkillResult[0].id,
         is_verified: false
       })
       .returning()
@@ -117,10 +125,18 @@ describe('certificates handlers', () => {
 
     it('should generate unique certificate numbers', async () => {
       // Create another verified user skill
+      const skill2Result = await db.insert(skillsTable)
+        .values({
+          name: 'Rust Programming',
+          category: 'Programming'
+        })
+        .returning()
+        .execute();
+
       const userSkillResult2 = await db.insert(userSkillsTable)
         .values({
           user_id: testUserId,
-          skill_id: testSkillId,
+          skill_id: skill2Result[0].id,
           is_verified: true,
           verification_date: new Date()
         })
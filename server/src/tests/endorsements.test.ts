@@ -0,0 +1,222 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  usersTable,
+  skillsTable,
+  userSkillsTable,
+  endorsementsTable,
+  jobListingsTable,
+  jobApplicationsTable
+} from '../db/schema';
+import { endorseSkill, removeEndorsement, getSkillEndorsements } from '../handlers/endorsements';
+import { getMarketplaceWorkers, getWorkerProfile } from '../handlers/marketplace';
+import { getUserPortfolio } from '../handlers/profile';
+import { mergeSkills } from '../handlers/merges';
+import { purgeAccount } from '../handlers/accounts';
+import { eq } from 'drizzle-orm';
+
+describe('Endorsements', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let workerId: number;
+  let verifiedEmployerId: number;
+  let hiringEmployerId: number;
+  let otherEmployerId: number;
+  let weldingId: number;
+  let weldingSkillId: number;
+  let paintingSkillId: number;
+
+  const statement = 'Welded the frames for our warehouse extension without a single rework.';
+
+  beforeEach(async () => {
+    const users = await db.insert(usersTable).values([
+      { full_name: 'Juma Worker', email: 'juma@example.com', password_hash: 'hash' },
+      { full_name: 'Verified Builders', email: 'verified@example.com', password_hash: 'hash', is_verified: true },
+      { full_name: 'Hiring Builders', email: 'hiring@example.com', password_hash: 'hash' },
+      { full_name: 'Other Builders', email: 'other@example.com', password_hash: 'hash' }
+    ]).returning().execute();
+    [workerId, verifiedEmployerId, hiringEmployerId, otherEmployerId] = users.map(user => user.id);
+
+    const skills = await db.insert(skillsTable).values([
+      { name: 'Welding', category: 'Metalwork' },
+      { name: 'Painting', category: 'Finishing' }
+    ]).returning().execute();
+    weldingId = skills[0].id;
+
+    const userSkills = await db.insert(userSkillsTable).values([
+      { user_id: workerId, skill_id: skills[0].id, is_verified: true, verification_date: new Date() },
+      { user_id: workerId, skill_id: skills[1].id }
+    ]).returning().execute();
+    weldingSkillId = userSkills[0].id;
+    paintingSkillId = userSkills[1].id;
+
+    // The unverified employer hired the worker through one of their listings
+    const listings = await db.insert(jobListingsTable).values({
+      employer_id: hiringEmployerId,
+      title: 'Welder',
+      description: 'Steel frames',
+      skill_id: weldingId,
+      employment_type: 'contract'
+    }).returning().execute();
+    await db.insert(jobApplicationsTable).values({ job_listing_id: listings[0].id, applicant_id: workerId, status: 'hired' }).execute();
+  });
+
+  // Extra workers with one skill each, so limits can be filled without touching the main worker
+  const otherWorkerSkills = async (amount: number): Promise<number[]> => {
+    const users = await db.insert(usersTable).values(
+      Array.from({ length: amount }, (_, i) => ({ full_name: `Worker ${i}`, email: `worker${i}@example.com`, password_hash: 'hash' }))
+    ).returning().execute();
+    const userSkills = await db.insert(userSkillsTable).values(
+      users.map(user => ({ user_id: user.id, skill_id: weldingId }))
+    ).returning().execute();
+    return userSkills.map(userSkill => userSkill.id);
+  };
+
+  describe('endorseSkill', () => {
+    it('should let a verified employer endorse', async () => {
+      const endorsement = await endorseSkill(verifiedEmployerId, { user_skill_id: weldingSkillId, relationship: 'employer', statement });
+
+      expect(endorsement.endorser_id).toEqual(verifiedEmployerId);
+      expect(endorsement.endorser_name).toEqual('Verified Builders');
+      expect(endorsement.relationship).toEqual('employer');
+
+      const endorsements = await getSkillEndorsements(weldingSkillId);
+      expect(endorsements).toHaveLength(1);
+      expect(endorsements[0].statement).toEqual(statement);
+    });
+
+    it('should let an unverified employer endorse a worker they hired', async () => {
+      const endorsement = await endorseSkill(hiringEmployerId, { user_skill_id: paintingSkillId, relationship: 'co_worker', statement });
+      expect(endorsement.user_skill_id).toEqual(paintingSkillId);
+    });
+
+    it('should refuse unverified employers who never hired the worker', async () => {
+      await expect(endorseSkill(otherEmployerId, { user_skill_id: weldingSkillId, relationship: 'trainer', statement }))
+        .rejects.toThrow(/only verified employers or employers who hired/i);
+
+      // An application that did not end in a hire does not count either
+      const listings = await db.insert(jobListingsTable).values({
+        employer_id: otherEmployerId,
+        title: 'Painter',
+        description: 'Interior walls',
+        skill_id: weldingId,
+        employment_type: 'part_time'
+      }).returning().execute();
+      await db.insert(jobApplicationsTable).values({ job_listing_id: listings[0].id, applicant_id: workerId, status: 'contacted' }).execute();
+
+      await expect(endorseSkill(otherEmployerId, { user_skill_id: weldingSkillId, relationship: 'trainer', statement }))
+        .rejects.toThrow(/only verified employers or employers who hired/i);
+    });
+
+    it('should refuse self-endorsement, duplicates and unknown skills', async () => {
+      await db.update(usersTable).set({ is_verified: true }).where(eq(usersTable.id, workerId)).execute();
+      await expect(endorseSkill(workerId, { user_skill_id: weldingSkillId, relationship: 'employer', statement }))
+        .rejects.toThrow(/your own skills/i);
+
+      await endorseSkill(verifiedEmployerId, { user_skill_id: weldingSkillId, relationship: 'employer', statement });
+      await expect(endorseSkill(verifiedEmployerId, { user_skill_id: weldingSkillId, relationship: 'employer', statement }))
+        .rejects.toThrow(/already endorsed/i);
+
+      await expect(endorseSkill(verifiedEmployerId, { user_skill_id: 99999, relationship: 'employer', statement }))
+        .rejects.toThrow(/user skill not found/i);
+    });
+
+    it('should cap endorsements per day', async () => {
+      const userSkillIds = await otherWorkerSkills(10);
+      const yesterday = new Date(Date.now() - 25 * 60 * 60 * 1000);
+
+      // Endorsements older than a day no longer count
+      await db.insert(endorsementsTable).values(
+        userSkillIds.map(userSkillId => ({ user_skill_id: userSkillId, endorser_id: verifiedEmployerId, relationship: 'employer' as const, statement, created_at: yesterday }))
+      ).execute();
+      await endorseSkill(verifiedEmployerId, { user_skill_id: weldingSkillId, relationship: 'employer', statement });
+
+      await db.update(endorsementsTable).set({ created_at: new Date() }).execute();
+      await expect(endorseSkill(verifiedEmployerId, { user_skill_id: paintingSkillId, relationship: 'employer', statement }))
+        .rejects.toThrow(/daily endorsement limit/i);
+    });
+
+    it('should cap endorsements of one worker per week', async () => {
+      const skills = await db.insert(skillsTable).values(
+        Array.from({ length: 4 }, (_, i) => ({ name: `Extra skill ${i}`, category: 'Metalwork' }))
+      ).returning().execute();
+      const userSkills = await db.insert(userSkillsTable).values(
+        skills.map(skill => ({ user_id: workerId, skill_id: skill.id }))
+      ).returning().execute();
+
+      for (const userSkill of [weldingSkillId, ...userSkills.slice(0, 3).map(entry => entry.id)]) {
+        await endorseSkill(verifiedEmployerId, { user_skill_id: userSkill, relationship: 'employer', statement });
+      }
+      await endorseSkill(verifiedEmployerId, { user_skill_id: paintingSkillId, relationship: 'employer', statement });
+
+      await expect(endorseSkill(verifiedEmployerId, { user_skill_id: userSkills[3].id, relationship: 'employer', statement }))
+        .rejects.toThrow(/weekly endorsement limit/i);
+
+      // Other workers are unaffected
+      const [otherSkillId] = await otherWorkerSkills(1);
+      await endorseSkill(verifiedEmployerId, { user_skill_id: otherSkillId, relationship: 'employer', statement });
+    });
+  });
+
+  describe('removeEndorsement', () => {
+    it('should only let the endorser remove it', async () => {
+      const endorsement = await endorseSkill(verifiedEmployerId, { user_skill_id: weldingSkillId, relationship: 'employer', statement });
+
+      await expect(removeEndorsement(hiringEmployerId, endorsement.id)).rejects.toThrow(/endorsement not found/i);
+      expect(await removeEndorsement(verifiedEmployerId, endorsement.id)).toEqual({ success: true });
+      expect(await getSkillEndorsements(weldingSkillId)).toHaveLength(0);
+    });
+  });
+
+  describe('counts', () => {
+    beforeEach(async () => {
+      await endorseSkill(verifiedEmployerId, { user_skill_id: weldingSkillId, relationship: 'employer', statement });
+      await endorseSkill(hiringEmployerId, { user_skill_id: weldingSkillId, relationship: 'employer', statement });
+      await endorseSkill(hiringEmployerId, { user_skill_id: paintingSkillId, relationship: 'co_worker', statement });
+    });
+
+    it('should show counts for verified skills in the marketplace', async () => {
+      const workers = await getMarketplaceWorkers({});
+      expect(workers).toHaveLength(1);
+      expect(workers[0].verified_skills[0].endorsement_count).toEqual(2);
+      expect(workers[0].endorsement_count).toEqual(2);
+
+      const profile = await getWorkerProfile(workerId);
+      expect(profile.endorsement_count).toEqual(2);
+    });
+
+    it('should show counts for every skill in the portfolio', async () => {
+      const portfolio = await getUserPortfolio(workerId);
+      const counts = Object.fromEntries(portfolio.skills.map(skill => [skill.skill_name, skill.endorsement_count]));
+
+      expect(counts).toEqual({ Welding: 2, Painting: 1 });
+      expect(portfolio.total_endorsements).toEqual(3);
+    });
+  });
+
+  it('should keep one endorsement per endorser when merging user skills', async () => {
+    await endorseSkill(verifiedEmployerId, { user_skill_id: weldingSkillId, relationship: 'employer', statement });
+    await endorseSkill(hiringEmployerId, { user_skill_id: weldingSkillId, relationship: 'employer', statement });
+    await endorseSkill(hiringEmployerId, { user_skill_id: paintingSkillId, relationship: 'co_worker', statement });
+
+    const [painting] = await db.select().from(userSkillsTable).where(eq(userSkillsTable.id, paintingSkillId)).execute();
+    await mergeSkills({ source_id: painting.skill_id, target_id: weldingId });
+
+    const endorsements = await getSkillEndorsements(weldingSkillId);
+    expect(endorsements.map(endorsement => endorsement.endorser_id).sort()).toEqual([verifiedEmployerId, hiringEmployerId].sort());
+  });
+
+  it('should delete endorsements given and received when an account is purged', async () => {
+    await endorseSkill(verifiedEmployerId, { user_skill_id: weldingSkillId, relationship: 'employer', statement });
+    const [otherSkillId] = await otherWorkerSkills(1);
+    await endorseSkill(verifiedEmployerId, { user_skill_id: otherSkillId, relationship: 'employer', statement });
+
+    await purgeAccount(workerId);
+    expect(await db.select().from(endorsementsTable).execute()).toHaveLength(1);
+
+    await purgeAccount(verifiedEmployerId);
+    expect(await db.select().from(endorsementsTable).execute()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,239 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, skillsTable, userSkillsTable, miniTestsTable, testQuestionsTable, testAttemptsTable } from '../db/schema';
+import { processSkillExpiries, syncVerificationExpiry } from '../handlers/expiry';
+import { updateSkill } from '../handlers/skills';
+import { getMarketplaceWorkers, getWorkerProfile } from '../handlers/marketplace';
+import { mergeSkills } from '../handlers/merges';
+import { startTest, submitTest } from '../handlers/tests';
+import { getAuditEvents } from '../handlers/audit';
+import { setMailTransport, createOutboxTransport, createConsoleTransport, readOutbox } from '../lib/mail';
+import { eq } from 'drizzle-orm';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const daysAgo = (days: number) => new Date(Date.now() - days * DAY_MS);
+
+describe('Skill verification expiry', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let outbox: string;
+  let workerId: number;
+  let gasFittingId: number;
+  let carpentryId: number;
+  let gasSkillId: number;
+  let carpentrySkillId: number;
+
+  beforeEach(async () => {
+    outbox = await mkdtemp(join(tmpdir(), 'outbox-'));
+    setMailTransport(createOutboxTransport(outbox));
+
+    const users = await db.insert(usersTable).values({ full_name: 'Neema Fitter', email: 'neema@example.com', password_hash: 'hash' }).returning().execute();
+    workerId = users[0].id;
+
+    const skills = await db.insert(skillsTable).values([
+      { name: 'Gas fitting', category: 'Plumbing', validity_days: 365 },
+      { name: 'Carpentry', category: 'Woodwork' }
+    ]).returning().execute();
+    gasFittingId = skills[0].id;
+    carpentryId = skills[1].id;
+
+    const userSkills = await db.insert(userSkillsTable).values([
+      { user_id: workerId, skill_id: gasFittingId, is_verified: true, verification_date: daysAgo(350), verified_level: 'beginner' },
+      { user_id: workerId, skill_id: carpentryId, is_verified: true, verification_date: daysAgo(2000) }
+    ]).returning().execute();
+    gasSkillId = userSkills[0].id;
+    carpentrySkillId = userSkills[1].id;
+  });
+
+  afterEach(async () => {
+    setMailTransport(createConsoleTransport());
+    await rm(outbox, { recursive: true, force: true });
+  });
+
+  const userSkill = async (id: number) =>
+    (await db.select().from(userSkillsTable).where(eq(userSkillsTable.id, id)).execute())[0];
+
+  describe('syncVerificationExpiry', () => {
+    it('should set expiries only for skills with a validity period', async () => {
+      expect(await syncVerificationExpiry()).toEqual(1);
+
+      const gas = await userSkill(gasSkillId);
+      expect(gas.expires_at!.getTime() - gas.verification_date!.getTime()).toEqual(365 * DAY_MS);
+      expect((await userSkill(carpentrySkillId)).expires_at).toBeNull();
+
+      // Nothing left to change on a second pass
+      expect(await syncVerificationExpiry()).toEqual(0);
+    });
+
+    it('should follow validity changes made through updateSkill', async () => {
+      await updateSkill({ id: carpentryId, validity_days: 730 });
+      expect((await userSkill(carpentrySkillId)).expires_at).toBeInstanceOf(Date);
+
+      await updateSkill({ id: carpentryId, validity_days: null });
+      expect((await userSkill(carpentrySkillId)).expires_at).toBeNull();
+    });
+  });
+
+  describe('processSkillExpiries', () => {
+    it('should remind once ahead of the expiry', async () => {
+      expect(await processSkillExpiries()).toEqual({ reminded: 1, expired: 0 });
+
+      const messages = await readOutbox(outbox);
+      expect(messages).toHaveLength(1);
+      expect(messages[0].to).toEqual('neema@example.com');
+      expect(messages[0].subject).toContain('Gas fitting');
+      expect((await userSkill(gasSkillId)).expiry_reminder_sent_at).toBeInstanceOf(Date);
+
+      expect(await processSkillExpiries()).toEqual({ reminded: 0, expired: 0 });
+      expect(await readOutbox(outbox)).toHaveLength(1);
+    });
+
+    it('should turn verifications past their expiry back off', async () => {
+      const result = await processSkillExpiries(new Date(Date.now() + 30 * DAY_MS));
+      expect(result.expired).toEqual(1);
+
+      const gas = await userSkill(gasSkillId);
+      expect(gas.is_verified).toBe(false);
+      expect(gas.verified_level).toBeNull();
+      expect(gas.expires_at).toBeInstanceOf(Date);
+      expect((await userSkill(carpentrySkillId)).is_verified).toBe(true);
+
+      const messages = await readOutbox(outbox);
+      expect(messages.map(message => message.subject)).toContain('Your Gas fitting verification has expired');
+
+      const events = await getAuditEvents({ action: 'user_skill.verification_expired', limit: 10 });
+      expect(events.events.map(event => event.target_id)).toEqual([gasSkillId]);
+    });
+
+    it('should start a new period when the skill is verified again', async () => {
+      await processSkillExpiries(new Date(Date.now() + 30 * DAY_MS));
+
+      const renewedOn = new Date();
+      await db.update(userSkillsTable)
+        .set({ is_verified: true, verification_date: renewedOn })
+        .where(eq(userSkillsTable.id, gasSkillId))
+        .execute();
+
+      expect(await processSkillExpiries()).toEqual({ reminded: 0, expired: 0 });
+
+      const gas = await userSkill(gasSkillId);
+      expect(gas.is_verified).toBe(true);
+      expect(gas.expires_at!.getTime()).toEqual(renewedOn.getTime() + 365 * DAY_MS);
+      expect(gas.expiry_reminder_sent_at).toBeNull();
+    });
+
+    // Creates an active one-question beginner test for gas fitting; the right answer is "yes"
+    const createGasTest = async (title: string) => {
+      const [test] = await db.insert(miniTestsTable).values({ skill_id: gasFittingId, title, level: 'beginner', passing_score: 1 }).returning().execute();
+      const [question] = await db.insert(testQuestionsTable).values({
+        test_id: test.id,
+        question_text: 'Is the supply valve closed?',
+        question_type: 'true_false',
+        correct_answer: 'yes',
+        points: 1,
+        order_index: 1
+      }).returning().execute();
+      return { testId: test.id, questionId: question.id };
+    };
+
+    const passTest = async (test: { testId: number; questionId: number }) => {
+      const attempt = await startTest(workerId, { user_skill_id: gasSkillId, test_id: test.testId });
+      await submitTest(workerId, { attempt_id: attempt.id, answers: { [test.questionId.toString()]: 'yes' } });
+    };
+
+    it('should verify the skill again when its tests are retaken', async () => {
+      await processSkillExpiries(new Date(Date.now() + 30 * DAY_MS));
+
+      await passTest(await createGasTest('Gas safety'));
+
+      const gas = await userSkill(gasSkillId);
+      expect(gas.is_verified).toBe(true);
+      expect(gas.verified_level).toEqual('beginner');
+      expect(gas.verification_date!.getTime()).toBeGreaterThan(daysAgo(1).getTime());
+      expect(gas.expires_at!.getTime()).toEqual(gas.verification_date!.getTime() + 365 * DAY_MS);
+
+      expect(await processSkillExpiries(new Date(Date.now() + 30 * DAY_MS))).toEqual({ reminded: 0, expired: 0 });
+      const workers = await getMarketplaceWorkers({ skill_id: gasFittingId });
+      expect(workers).toHaveLength(1);
+    });
+
+    it('should not count evidence from before the lapsed verification', async () => {
+      const safety = await createGasTest('Gas safety');
+      const leaks = await createGasTest('Leak detection');
+      await db.insert(testAttemptsTable).values([safety, leaks].map(test => ({
+        user_skill_id: gasSkillId,
+        test_id: test.testId,
+        score: 1,
+        total_points: 1,
+        passed: true,
+        answers: '{}',
+        started_at: daysAgo(400),
+        completed_at: daysAgo(400)
+      }))).execute();
+
+      await processSkillExpiries(new Date(Date.now() + 30 * DAY_MS));
+
+      await passTest(safety);
+      const lapsed = await userSkill(gasSkillId);
+      expect(lapsed.is_verified).toBe(false);
+      expect(lapsed.verified_level).toBeNull();
+
+      await passTest(leaks);
+      expect((await userSkill(gasSkillId)).is_verified).toBe(true);
+    });
+  });
+
+  describe('marketplace', () => {
+    beforeEach(async () => {
+      await db.update(userSkillsTable)
+        .set({ verification_date: daysAgo(400) })
+        .where(eq(userSkillsTable.id, gasSkillId))
+        .execute();
+      await syncVerificationExpiry();
+    });
+
+    it('should hide expired verifications even before the job runs', async () => {
+      const workers = await getMarketplaceWorkers({});
+      expect(workers[0].verified_skills.map(skill => skill.skill_name)).toEqual(['Carpentry']);
+
+      expect(await getMarketplaceWorkers({ skill_id: gasFittingId })).toHaveLength(0);
+    });
+
+    it('should flag expired verifications when asked to include them', async () => {
+      await processSkillExpiries();
+
+      const workers = await getMarketplaceWorkers({ skill_id: gasFittingId, include_expired: true });
+      expect(workers).toHaveLength(1);
+
+      const gas = workers[0].verified_skills.find(skill => skill.skill_name === 'Gas fitting')!;
+      expect(gas.expired).toBe(true);
+      expect(gas.expires_at).toBeInstanceOf(Date);
+      expect(workers[0].verified_skills.find(skill => skill.skill_name === 'Carpentry')!.expired).toBe(false);
+    });
+
+    it('should flag expired verifications on the worker profile', async () => {
+      const profile = await getWorkerProfile(workerId);
+      expect(Object.fromEntries(profile.verified_skills.map(skill => [skill.skill_name, skill.expired])))
+        .toEqual({ 'Gas fitting': true, Carpentry: false });
+    });
+  });
+
+  it('should carry the current verification when merging user skills', async () => {
+    const [certification] = await db.insert(skillsTable).values({ name: 'Gas installation', category: 'Plumbing', validity_days: 180 }).returning().execute();
+    await db.insert(userSkillsTable).values({ user_id: workerId, skill_id: certification.id, is_verified: false, verification_date: daysAgo(900), expires_at: daysAgo(720) }).execute();
+
+    await mergeSkills({ source_id: gasFittingId, target_id: certification.id });
+
+    const merged = await db.select().from(userSkillsTable).where(eq(userSkillsTable.skill_id, certification.id)).execute();
+    expect(merged).toHaveLength(1);
+    expect(merged[0].is_verified).toBe(true);
+    expect(merged[0].verification_date!.getTime()).toBeGreaterThan(daysAgo(351).getTime());
+    // The target's validity applies from now on
+    expect(merged[0].expires_at!.getTime() - merged[0].verification_date!.getTime()).toEqual(180 * DAY_MS);
+  });
+});
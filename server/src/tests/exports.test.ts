@@ -0,0 +1,196 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  usersTable,
+  skillsTable,
+  userSkillsTable,
+  skillProofsTable,
+  miniTestsTable,
+  testAttemptsTable,
+  certificatesTable,
+  jobListingsTable,
+  jobApplicationsTable,
+  dataExportsTable
+} from '../db/schema';
+import { requestDataExport, getDataExports, downloadDataExport, failStaleDataExports } from '../handlers/exports';
+import { waitForBackgroundJobs } from '../lib/jobs';
+import { hashPassword } from '../lib/passwords';
+import { setMailTransport, createOutboxTransport, createConsoleTransport, readOutbox } from '../lib/mail';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+describe('Data export handlers', () => {
+  beforeEach(createDB);
+  afterEach(async () => {
+    await waitForBackgroundJobs();
+    await resetDB();
+  });
+
+  let outbox: string;
+  let workerId: number;
+  let employerId: number;
+
+  beforeEach(async () => {
+    outbox = await mkdtemp(join(tmpdir(), 'outbox-'));
+    setMailTransport(createOutboxTransport(outbox));
+
+    const users = await db.insert(usersTable).values([
+      { full_name: 'Jane Worker', email: 'jane@example.com', phone: '+254712345678', password_hash: hashPassword('password123') },
+      { full_name: 'Hiring Manager', email: 'hr@employer.com', phone: null, password_hash: hashPassword('password123') }
+    ]).returning().execute();
+    workerId = users[0].id;
+    employerId = users[1].id;
+
+    const skills = await db.insert(skillsTable).values({ name: 'Welding', category: 'Technical' }).returning().execute();
+    const userSkills = await db.insert(userSkillsTable).values({ user_id: workerId, skill_id: skills[0].id, is_verified: true }).returning().execute();
+
+    await db.insert(skillProofsTable).values({
+      user_skill_id: userSkills[0].id,
+      file_url: 'https://files.example.com/weld.jpg',
+      file_type: 'image',
+      description: 'Butt joint'
+    }).execute();
+
+    const tests = await db.insert(miniTestsTable).values({ skill_id: skills[0].id, title: 'Welding basics', passing_score: 70 }).returning().execute();
+    await db.insert(testAttemptsTable).values({
+      user_skill_id: userSkills[0].id,
+      test_id: tests[0].id,
+      score: 8,
+      total_points: 10,
+      passed: true,
+      answers: JSON.stringify({ '1': 'MIG' })
+    }).execute();
+
+    await db.insert(certificatesTable).values({ user_skill_id: userSkills[0].id, certificate_number: 'CERT-1', qr_code: 'qr' }).execute();
+
+    const listings = await db.insert(jobListingsTable).values({
+      employer_id: employerId,
+      title: 'Welder',
+      description: 'Welding work',
+      skill_id: skills[0].id,
+      employment_type: 'contract'
+    }).returning().execute();
+    await db.insert(jobApplicationsTable).values({ job_listing_id: listings[0].id, applicant_id: workerId, message: 'Hire me' }).execute();
+  });
+
+  afterEach(async () => {
+    setMailTransport(createConsoleTransport());
+    await rm(outbox, { recursive: true, force: true });
+  });
+
+  const tokenFromMail = (text: string) => /token=([\w-]+)/.exec(text)![1];
+
+  // Requests an export, lets the background job finish and returns the emailed token
+  const exportAndWait = async (userId: number) => {
+    await requestDataExport(userId);
+    await waitForBackgroundJobs();
+    const messages = await readOutbox(outbox);
+    return tokenFromMail(messages[messages.length - 1].text);
+  };
+
+  it('should return a pending export straight away', async () => {
+    const dataExport = await requestDataExport(workerId);
+
+    expect(dataExport.status).toEqual('pending');
+    expect(dataExport).not.toHaveProperty('archive');
+    expect(dataExport).not.toHaveProperty('download_token_hash');
+
+    await waitForBackgroundJobs();
+    const [ready] = await getDataExports(workerId);
+    expect(ready.status).toEqual('ready');
+    expect(ready.download_expires_at!.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('should mail a download link with the full archive behind it', async () => {
+    const token = await exportAndWait(workerId);
+
+    const { filename, archive } = await downloadDataExport(token);
+    expect(filename).toMatch(/^skill-proof-export-\d+-\d{4}-\d{2}-\d{2}\.json$/);
+
+    const contents = archive as Record<string, any>;
+    expect(contents['user'].email).toEqual('jane@example.com');
+    expect(contents['user']).not.toHaveProperty('password_hash');
+    expect(contents['user_skills'][0].skill_name).toEqual('Welding');
+    expect(contents['skill_proofs']).toHaveLength(1);
+    expect(contents['test_attempts'][0].answers).toEqual({ '1': 'MIG' });
+    expect(contents['certificates'][0].certificate_number).toEqual('CERT-1');
+    expect(contents['job_applications'][0].job_title).toEqual('Welder');
+    expect(contents['proof_files']).toEqual([
+      expect.objectContaining({ file_url: 'https://files.example.com/weld.jpg', file_type: 'image' })
+    ]);
+  });
+
+  it('should include listings but not other people\'s applications for an employer', async () => {
+    const token = await exportAndWait(employerId);
+    const archive = (await downloadDataExport(token)).archive as Record<string, any>;
+
+    expect(archive['job_listings']).toHaveLength(1);
+    expect(archive['job_applications']).toHaveLength(0);
+    expect(JSON.stringify(archive)).not.toContain('Hire me');
+  });
+
+  it('should refuse a second request while one is pending', async () => {
+    await requestDataExport(workerId);
+    await expect(requestDataExport(workerId)).rejects.toThrow(/already being prepared/i);
+  });
+
+  it('should give up on an export left pending by a restart', async () => {
+    // A build that was interrupted long ago and never picked up again
+    await db.insert(dataExportsTable).values({ user_id: workerId, created_at: new Date(Date.now() - 60 * 60 * 1000) }).execute();
+
+    const dataExport = await requestDataExport(workerId);
+    expect(dataExport.status).toEqual('pending');
+    await waitForBackgroundJobs();
+
+    const exports = await getDataExports(workerId);
+    expect(exports.map(entry => entry.status)).toEqual(['ready', 'failed']);
+    expect(exports[1].error).toMatch(/did not finish/i);
+  });
+
+  it('should leave exports still within the build timeout alone', async () => {
+    await db.insert(dataExportsTable).values({ user_id: workerId }).execute();
+
+    expect(await failStaleDataExports()).toEqual(0);
+    expect(await failStaleDataExports(new Date(Date.now() + 60 * 60 * 1000))).toEqual(1);
+  });
+
+  it('should reject expired links and drop the archive', async () => {
+    const token = await exportAndWait(workerId);
+    await db.update(dataExportsTable).set({ download_expires_at: new Date(Date.now() - 1000) }).execute();
+
+    await expect(downloadDataExport(token)).rejects.toThrow(/invalid or expired download link/i);
+
+    const stored = await db.select().from(dataExportsTable).execute();
+    expect(stored[0].archive).toBeNull();
+  });
+
+  it('should invalidate older links when a new export is requested', async () => {
+    const first = await exportAndWait(workerId);
+    const second = await exportAndWait(workerId);
+
+    await expect(downloadDataExport(first)).rejects.toThrow(/invalid or expired download link/i);
+    expect((await downloadDataExport(second)).archive).toBeDefined();
+  });
+
+  it('should mark the export failed when the link cannot be delivered', async () => {
+    setMailTransport({
+      async send() {
+        throw new Error('Mail server unavailable');
+      }
+    });
+
+    await requestDataExport(workerId);
+    await waitForBackgroundJobs();
+
+    const [stored] = await db.select().from(dataExportsTable).execute();
+    expect(stored.status).toEqual('failed');
+    expect(stored.error).toEqual('Mail server unavailable');
+    expect(stored.archive).toBeNull();
+    expect(stored.download_token_hash).toBeNull();
+
+    // A failed export does not block asking again
+    expect((await requestDataExport(workerId)).status).toEqual('pending');
+  });
+});
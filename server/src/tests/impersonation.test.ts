@@ -0,0 +1,163 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, userRolesTable, totpCredentialsTable, sessionsTable, skillsTable } from '../db/schema';
+import { type CreateHTTPContextOptions } from '@trpc/server/adapters/standalone';
+import { TRPCError } from '@trpc/server';
+import { registerUser, loginUser, authenticateToken } from '../handlers/auth';
+import { startImpersonation } from '../handlers/impersonation';
+import { getAuditEvents } from '../handlers/audit';
+import { verifyJWT, loadKeyringFromEnv } from '../lib/jwt';
+import { issueAccessToken } from '../lib/tokens';
+import { appRouter } from '../router';
+import { createCallerFactory, createContext } from '../trpc';
+import { eq } from 'drizzle-orm';
+
+const createCaller = createCallerFactory(appRouter);
+const keyring = loadKeyringFromEnv();
+
+const callerWithToken = async (token: string) => createCaller(await createContext({
+  req: { headers: { authorization: `Bearer ${token}`, 'user-agent': 'support-console' } }
+} as CreateHTTPContextOptions));
+
+// Resolves to the tRPC error code of a failed call, or null when it succeeded
+async function errorCode(call: Promise<unknown>): Promise<string | null> {
+  try {
+    await call;
+    return null;
+  } catch (error) {
+    return error instanceof TRPCError ? error.code : 'UNKNOWN';
+  }
+}
+
+describe('Impersonation', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let adminId: number;
+  let workerId: number;
+  let skillId: number;
+
+  beforeEach(async () => {
+    const admin = await registerUser({ full_name: 'Support Admin', email: 'admin@skillproof.com', phone: null, password: 'password123' });
+    adminId = admin.id;
+    await db.update(usersTable).set({ is_verified: true }).where(eq(usersTable.id, adminId)).execute();
+    await db.insert(userRolesTable).values({ user_id: adminId, role: 'admin' }).execute();
+    await db.insert(totpCredentialsTable).values({ user_id: adminId, secret: 'JBSWY3DPEHPK3PXP', confirmed_at: new Date() }).execute();
+
+    const worker = await registerUser({ full_name: 'Jane Worker', email: 'jane@example.com', phone: null, password: 'password123' });
+    workerId = worker.id;
+
+    const skills = await db.insert(skillsTable).values({ name: 'Welding', category: 'Technical' }).returning().execute();
+    skillId = skills[0].id;
+  });
+
+  // Admin logins go through two-factor; a session token is enough for these tests
+  const adminCaller = async () => {
+    const sessions = await db.insert(sessionsTable).values({ user_id: adminId }).returning().execute();
+    return callerWithToken(issueAccessToken({ userId: adminId, email: 'admin@skillproof.com', sessionId: sessions[0].id }));
+  };
+
+  const impersonate = async () => {
+    const admin = await adminCaller();
+    return await admin.startImpersonation({ user_id: workerId, reason: 'Ticket 481: skill not showing' });
+  };
+
+  it('should issue a marked, short-lived token for the target user', async () => {
+    const session = await impersonate();
+
+    const payload = verifyJWT(session.token, keyring);
+    expect(payload.sub).toEqual(String(workerId));
+    expect(payload['imp']).toEqual(adminId);
+    expect(session.expires_at.getTime()).toBeLessThanOrEqual(Date.now() + 30 * 60 * 1000);
+
+    const principal = await authenticateToken(session.token);
+    expect(principal.id).toEqual(workerId);
+    expect(principal.impersonator_id).toEqual(adminId);
+  });
+
+  it('should flag the context so clients can show a banner', async () => {
+    const caller = await callerWithToken((await impersonate()).token);
+    expect(await caller.getImpersonationStatus()).toEqual({ impersonating: true, impersonator_id: adminId });
+
+    const result = await loginUser({ email: 'jane@example.com', password: 'password123' });
+    if (result.two_factor_required) throw new Error('Unexpected two-factor challenge');
+    const own = await callerWithToken(result.token);
+    expect(await own.getImpersonationStatus()).toEqual({ impersonating: false, impersonator_id: null });
+  });
+
+  it('should let support reproduce the user\'s actions', async () => {
+    const caller = await callerWithToken((await impersonate()).token);
+
+    const userSkill = await caller.addUserSkill({ skill_id: skillId });
+    expect(userSkill.user_id).toEqual(workerId);
+  });
+
+  it('should block password and other credential changes', async () => {
+    const caller = await callerWithToken((await impersonate()).token);
+
+    expect(await errorCode(caller.changePassword({ current_password: 'password123', new_password: 'hijacked123' }))).toEqual('FORBIDDEN');
+    expect(await errorCode(caller.startTwoFactorEnrollment())).toEqual('FORBIDDEN');
+    expect(await errorCode(caller.deleteAccount({ password: 'password123' }))).toEqual('FORBIDDEN');
+    expect(await errorCode(caller.requestDataExport())).toEqual('FORBIDDEN');
+  });
+
+  it('should audit start, every mutation and stop', async () => {
+    const session = await impersonate();
+    const caller = await callerWithToken(session.token);
+
+    await caller.addUserSkill({ skill_id: skillId });
+    await errorCode(caller.changePassword({ current_password: 'password123', new_password: 'hijacked123' }));
+    await caller.stopImpersonation();
+
+    const { events } = await getAuditEvents({ target_id: workerId, target_type: 'user', limit: 50 });
+    const trail = events.filter(event => event.action.startsWith('impersonation.')).reverse();
+
+    expect(trail.map(event => event.action)).toEqual([
+      'impersonation.started',
+      'impersonation.mutation',
+      'impersonation.mutation',
+      'impersonation.stopped',
+      'impersonation.mutation'
+    ]);
+    expect(trail[0].actor_user_id).toEqual(adminId);
+    expect(trail[0].after).toEqual({ session_id: session.session_id, reason: 'Ticket 481: skill not showing' });
+
+    expect(trail[1].actor_impersonator_id).toEqual(adminId);
+    expect(trail[1].after).toMatchObject({ path: 'addUserSkill', ok: true, input: { skill_id: skillId } });
+
+    // Blocked attempts are recorded too, without the passwords
+    expect(trail[2].after).toEqual({ path: 'changePassword', ok: false, input: {} });
+    expect((trail[2].after as { input: object }).input).not.toHaveProperty('current_password');
+    expect((trail[2].after as { input: object }).input).not.toHaveProperty('new_password');
+    expect(trail[4].after).toMatchObject({ path: 'stopImpersonation', ok: true });
+  });
+
+  it('should end the session on stop', async () => {
+    const { token } = await impersonate();
+    await (await callerWithToken(token)).stopImpersonation();
+
+    expect(await errorCode((await callerWithToken(token)).getUserProfile())).toEqual('UNAUTHORIZED');
+  });
+
+  it('should not stop an ordinary session', async () => {
+    const result = await loginUser({ email: 'jane@example.com', password: 'password123' });
+    if (result.two_factor_required) throw new Error('Unexpected two-factor challenge');
+
+    await expect((await callerWithToken(result.token)).stopImpersonation()).rejects.toThrow(/not an active impersonation session/i);
+  });
+
+  it('should refuse to impersonate admins or yourself', async () => {
+    await db.insert(userRolesTable).values({ user_id: workerId, role: 'admin' }).execute();
+
+    await expect(startImpersonation(adminId, { user_id: workerId, reason: 'Checking things' })).rejects.toThrow(/admins cannot be impersonated/i);
+    await expect(startImpersonation(adminId, { user_id: adminId, reason: 'Checking things' })).rejects.toThrow(/yourself/i);
+  });
+
+  it('should reject an impersonation token replayed against an ordinary session', async () => {
+    const { token } = await impersonate();
+    await db.update(sessionsTable).set({ impersonator_id: null }).execute();
+
+    await expect(authenticateToken(token)).rejects.toThrow(/session not found or revoked/i);
+  });
+});
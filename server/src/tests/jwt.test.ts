@@ -0,0 +1,166 @@
+import { describe, expect, it } from 'bun:test';
+import { createHmac, generateKeyPairSync, verify } from 'crypto';
+import { signJWT, verifyJWT, loadKeyringFromEnv, hmacKey, ed25519Key, parseDuration, type JWTKeyring } from '../lib/jwt';
+
+const hmacKeyring = (secret: string, previous: string[] = []): JWTKeyring => {
+  const signingKey = hmacKey(secret);
+  return { signingKey, keys: [signingKey, ...previous.map(hmacKey)] };
+};
+
+const decodePart = (part: string) => JSON.parse(Buffer.from(part, 'base64url').toString());
+
+describe('JWT', () => {
+  describe('parseDuration', () => {
+    it('should parse seconds and unit suffixes', () => {
+      expect(parseDuration(90)).toEqual(90);
+      expect(parseDuration('900')).toEqual(900);
+      expect(parseDuration('15m')).toEqual(900);
+      expect(parseDuration('12h')).toEqual(43200);
+      expect(parseDuration('7d')).toEqual(604800);
+    });
+
+    it('should reject malformed durations', () => {
+      expect(() => parseDuration('soon')).toThrow(/invalid duration/i);
+    });
+  });
+
+  describe('HS256', () => {
+    const keyring = hmacKeyring('test_secret');
+
+    it('should produce a standard HMAC-SHA256 signature', () => {
+      const token = signJWT({ email: 'john@example.com' }, keyring, { expiresIn: '1h', subject: '42' });
+      const [header, payload, signature] = token.split('.');
+
+      const expected = createHmac('sha256', 'test_secret')
+        .update(`${header}.${payload}`)
+        .digest('base64url');
+
+      expect(signature).toEqual(expected);
+      expect(decodePart(header)).toEqual({ alg: 'HS256', typ: 'JWT', kid: keyring.signingKey.kid });
+    });
+
+    it('should round-trip registered claims', () => {
+      const token = signJWT({ email: 'john@example.com' }, keyring, {
+        expiresIn: '15m',
+        subject: '42',
+        issuer: 'skill-proof',
+        audience: 'skill-proof-api'
+      });
+
+      const payload = verifyJWT(token, keyring, { issuer: 'skill-proof', audience: 'skill-proof-api' });
+      expect(payload.sub).toEqual('42');
+      expect(payload['email']).toEqual('john@example.com');
+      expect(payload.exp! - payload.iat!).toEqual(900);
+    });
+
+    it('should reject tampered payloads', () => {
+      const token = signJWT({ role: 'worker' }, keyring, { expiresIn: '1h' });
+      const [header, , signature] = token.split('.');
+      const forged = Buffer.from(JSON.stringify({ role: 'admin', exp: 9999999999 })).toString('base64url');
+
+      expect(() => verifyJWT(`${header}.${forged}.${signature}`, keyring))
+        .toThrow(/invalid token signature/i);
+    });
+
+    it('should reject tokens signed with another secret', () => {
+      const token = signJWT({}, hmacKeyring('other_secret'), { expiresIn: '1h' });
+
+      expect(() => verifyJWT(token, keyring)).toThrow(/invalid token signature/i);
+    });
+
+    it('should reject the "none" algorithm', () => {
+      const header = Buffer.from(JSON.stringify({ alg: 'none', typ: 'JWT' })).toString('base64url');
+      const payload = Buffer.from(JSON.stringify({ exp: 9999999999 })).toString('base64url');
+
+      expect(() => verifyJWT(`${header}.${payload}.`, keyring)).toThrow(/invalid token signature/i);
+    });
+  });
+
+  describe('claim validation', () => {
+    const keyring = hmacKeyring('test_secret');
+
+    it('should reject expired tokens', () => {
+      const token = signJWT({}, keyring, { expiresIn: -120 });
+      expect(() => verifyJWT(token, keyring)).toThrow(/expired/i);
+    });
+
+    it('should reject tokens used before nbf', () => {
+      const token = signJWT({}, keyring, { expiresIn: '1h', notBefore: '10m' });
+      expect(() => verifyJWT(token, keyring)).toThrow(/not yet valid/i);
+    });
+
+    it('should honour clock tolerance', () => {
+      const token = signJWT({}, keyring, { expiresIn: -10 });
+      expect(() => verifyJWT(token, keyring, { clockTolerance: 30 })).not.toThrow();
+      expect(() => verifyJWT(token, keyring, { clockTolerance: 0 })).toThrow(/expired/i);
+    });
+
+    it('should reject a wrong issuer or audience', () => {
+      const token = signJWT({}, keyring, { expiresIn: '1h', issuer: 'elsewhere', audience: ['a', 'b'] });
+
+      expect(() => verifyJWT(token, keyring, { issuer: 'skill-proof' })).toThrow(/issuer/i);
+      expect(() => verifyJWT(token, keyring, { audience: 'c' })).toThrow(/audience/i);
+      expect(() => verifyJWT(token, keyring, { audience: 'b' })).not.toThrow();
+    });
+  });
+
+  describe('EdDSA', () => {
+    const { privateKey } = generateKeyPairSync('ed25519');
+    const pem = privateKey.export({ format: 'pem', type: 'pkcs8' }).toString();
+    const key = ed25519Key(pem);
+    const keyring: JWTKeyring = { signingKey: key, keys: [key] };
+
+    it('should sign with Ed25519 and a JWK thumbprint key id', () => {
+      const token = signJWT({}, keyring, { expiresIn: '1h', subject: '7' });
+      const [header, payload, signature] = token.split('.');
+
+      expect(decodePart(header).alg).toEqual('EdDSA');
+      expect(decodePart(header).kid).toEqual(key.kid);
+
+      // Any Ed25519 implementation can check the signature with the public key
+      const publicKey = key.alg === 'EdDSA' ? key.publicKey : null;
+      const valid = verify(null, Buffer.from(`${header}.${payload}`), publicKey!, Buffer.from(signature, 'base64url'));
+      expect(valid).toBe(true);
+      expect(verifyJWT(token, keyring).sub).toEqual('7');
+    });
+
+    it('should verify with only the public key', () => {
+      const token = signJWT({}, keyring, { expiresIn: '1h' });
+      const publicPem = key.alg === 'EdDSA' ? key.publicKey.export({ format: 'pem', type: 'spki' }).toString() : '';
+      const publicOnly = ed25519Key(publicPem);
+
+      expect(() => verifyJWT(token, { signingKey: publicOnly, keys: [publicOnly] })).not.toThrow();
+      expect(() => signJWT({}, { signingKey: publicOnly, keys: [publicOnly] }, { expiresIn: '1h' }))
+        .toThrow(/cannot be used for signing/i);
+    });
+  });
+
+  describe('key rotation', () => {
+    it('should accept tokens signed by a retired secret', () => {
+      const oldKeyring = loadKeyringFromEnv({ JWT_SECRET: 'old_secret' });
+      const token = signJWT({}, oldKeyring, { expiresIn: '1h' });
+
+      const rotated = loadKeyringFromEnv({ JWT_SECRET: 'new_secret', JWT_PREVIOUS_SECRETS: 'old_secret' });
+      expect(() => verifyJWT(token, rotated)).not.toThrow();
+
+      const retired = loadKeyringFromEnv({ JWT_SECRET: 'new_secret' });
+      expect(() => verifyJWT(token, retired)).toThrow(/invalid token signature/i);
+    });
+
+    it('should sign new tokens with the current key', () => {
+      const rotated = loadKeyringFromEnv({ JWT_SECRET: 'new_secret', JWT_PREVIOUS_SECRETS: 'old_secret' });
+      const token = signJWT({}, rotated, { expiresIn: '1h' });
+
+      expect(decodePart(token.split('.')[0]).kid).toEqual(hmacKey('new_secret').kid);
+    });
+
+    it('should prefer an Ed25519 private key for signing when configured', () => {
+      const { privateKey } = generateKeyPairSync('ed25519');
+      const pem = privateKey.export({ format: 'pem', type: 'pkcs8' }).toString();
+      const keyring = loadKeyringFromEnv({ JWT_SECRET: 'secret', JWT_PRIVATE_KEY: pem });
+
+      expect(keyring.signingKey.alg).toEqual('EdDSA');
+      expect(keyring.keys.map(key => key.alg)).toEqual(['EdDSA', 'HS256']);
+    });
+  });
+});
@@ -0,0 +1,186 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  usersTable,
+  skillsTable,
+  userSkillsTable,
+  miniTestsTable,
+  testQuestionsTable,
+  testAttemptsTable,
+  skillProofsTable
+} from '../db/schema';
+import { addUserSkill } from '../handlers/skills';
+import { startTest, submitTest } from '../handlers/tests';
+import { getSkillLevels, setSkillLevelRequirement, evaluateSkillLevel } from '../handlers/levels';
+import { getMarketplaceWorkers } from '../handlers/marketplace';
+import { type ProficiencyLevel } from '../schema';
+import { eq } from 'drizzle-orm';
+
+describe('Proficiency levels', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let userId: number;
+  let skillId: number;
+
+  beforeEach(async () => {
+    const users = await db.insert(usersTable).values({
+      full_name: 'Sam Electrician',
+      email: 'sam@example.com',
+      password_hash: 'hash'
+    }).returning().execute();
+    userId = users[0].id;
+
+    const skills = await db.insert(skillsTable).values({ name: 'Electrical Wiring', category: 'Electrical' }).returning().execute();
+    skillId = skills[0].id;
+  });
+
+  // Creates an active one-question test at the given level; the right answer is "yes"
+  const createTest = async (level: ProficiencyLevel, title: string) => {
+    const tests = await db.insert(miniTestsTable).values({ skill_id: skillId, title, level, passing_score: 1 }).returning().execute();
+    const questions = await db.insert(testQuestionsTable).values({
+      test_id: tests[0].id,
+      question_text: 'Is the breaker off?',
+      question_type: 'true_false',
+      correct_answer: 'yes',
+      points: 1,
+      order_index: 1
+    }).returning().execute();
+    return { testId: tests[0].id, questionId: questions[0].id };
+  };
+
+  const takeTest = async (userSkillId: number, test: { testId: number; questionId: number }, answer = 'yes') => {
+    const attempt = await startTest(userId, { user_skill_id: userSkillId, test_id: test.testId });
+    return await submitTest(userId, { attempt_id: attempt.id, answers: { [test.questionId.toString()]: answer } });
+  };
+
+  const verifiedLevel = async (userSkillId: number) => {
+    const rows = await db.select().from(userSkillsTable).where(eq(userSkillsTable.id, userSkillId)).execute();
+    return rows[0].verified_level;
+  };
+
+  describe('addUserSkill', () => {
+    it('should record the claimed level', async () => {
+      const userSkill = await addUserSkill(userId, { skill_id: skillId, claimed_level: 'advanced' });
+
+      expect(userSkill.claimed_level).toEqual('advanced');
+      expect(userSkill.verified_level).toBeNull();
+    });
+
+    it('should default the claim to beginner', async () => {
+      const userSkill = await addUserSkill(userId, { skill_id: skillId });
+      expect(userSkill.claimed_level).toEqual('beginner');
+    });
+  });
+
+  describe('promotion', () => {
+    let userSkillId: number;
+
+    beforeEach(async () => {
+      userSkillId = (await addUserSkill(userId, { skill_id: skillId, claimed_level: 'advanced' })).id;
+    });
+
+    it('should promote when the tests at a level are passed', async () => {
+      const beginner = await createTest('beginner', 'Safety basics');
+
+      await takeTest(userSkillId, beginner, 'no');
+      expect(await verifiedLevel(userSkillId)).toBeNull();
+
+      await takeTest(userSkillId, beginner);
+      expect(await verifiedLevel(userSkillId)).toEqual('beginner');
+    });
+
+    it('should leave a removed skill as it was archived', async () => {
+      const beginner = await createTest('beginner', 'Safety basics');
+      await db.update(userSkillsTable).set({ archived_at: new Date() }).where(eq(userSkillsTable.id, userSkillId)).execute();
+      await db.insert(testAttemptsTable).values({ user_skill_id: userSkillId, test_id: beginner.testId, score: 1, total_points: 1, passed: true, answers: '{}' }).execute();
+
+      // A proof verified after removal must not verify the skill again
+      const evaluated = await evaluateSkillLevel(userSkillId);
+      expect(evaluated.is_verified).toBe(false);
+      expect(evaluated.verified_level).toBeNull();
+    });
+
+    it('should require every test at the level', async () => {
+      const circuits = await createTest('intermediate', 'Circuits');
+      await createTest('intermediate', 'Load calculation');
+
+      await takeTest(userSkillId, circuits);
+      expect(await verifiedLevel(userSkillId)).toBeNull();
+    });
+
+    it('should let a higher level be reached directly', async () => {
+      await createTest('beginner', 'Safety basics');
+      const advanced = await createTest('advanced', 'Three-phase installs');
+
+      await takeTest(userSkillId, advanced);
+      expect(await verifiedLevel(userSkillId)).toEqual('advanced');
+    });
+
+    it('should wait for the proof requirement', async () => {
+      const advanced = await createTest('advanced', 'Three-phase installs');
+      await setSkillLevelRequirement({ skill_id: skillId, level: 'advanced', required_proofs: 2 });
+
+      await db.insert(skillProofsTable).values([
+        { user_skill_id: userSkillId, file_url: 'https://files.example.com/a.jpg', file_type: 'image', upload_status: 'verified' },
+        { user_skill_id: userSkillId, file_url: 'https://files.example.com/b.jpg', file_type: 'image', upload_status: 'rejected' }
+      ]).execute();
+
+      await takeTest(userSkillId, advanced);
+      expect(await verifiedLevel(userSkillId)).toBeNull();
+
+      await db.insert(skillProofsTable).values({
+        user_skill_id: userSkillId,
+        file_url: 'https://files.example.com/c.jpg',
+        file_type: 'image',
+        upload_status: 'verified'
+      }).execute();
+
+      const userSkill = await evaluateSkillLevel(userSkillId);
+      expect(userSkill.verified_level).toEqual('advanced');
+    });
+
+    it('should never demote', async () => {
+      const beginner = await createTest('beginner', 'Safety basics');
+      await db.update(userSkillsTable).set({ verified_level: 'expert' }).where(eq(userSkillsTable.id, userSkillId)).execute();
+
+      await takeTest(userSkillId, beginner);
+      expect(await verifiedLevel(userSkillId)).toEqual('expert');
+    });
+  });
+
+  it('should describe what each level requires', async () => {
+    await createTest('beginner', 'Safety basics');
+    await createTest('expert', 'Substation work');
+    await setSkillLevelRequirement({ skill_id: skillId, level: 'expert', required_proofs: 1 });
+    await setSkillLevelRequirement({ skill_id: skillId, level: 'expert', required_proofs: 5 });
+
+    const levels = await getSkillLevels(skillId);
+
+    expect(levels.map(level => level.level)).toEqual(['beginner', 'intermediate', 'advanced', 'expert']);
+    expect(levels[0].tests.map(test => test.title)).toEqual(['Safety basics']);
+    expect(levels[1].tests).toHaveLength(0);
+    expect(levels[3].required_proofs).toEqual(5);
+    expect(levels[3].tests.map(test => test.title)).toEqual(['Substation work']);
+  });
+
+  it('should filter the marketplace by verified level', async () => {
+    const others = await db.insert(usersTable).values({
+      full_name: 'Alex Apprentice',
+      email: 'alex@example.com',
+      password_hash: 'hash'
+    }).returning().execute();
+
+    await db.insert(userSkillsTable).values([
+      { user_id: userId, skill_id: skillId, is_verified: true, verification_date: new Date(), claimed_level: 'expert', verified_level: 'advanced' },
+      { user_id: others[0].id, skill_id: skillId, is_verified: true, verification_date: new Date(), claimed_level: 'expert', verified_level: 'beginner' }
+    ]).execute();
+
+    const workers = await getMarketplaceWorkers({ skill_id: skillId, min_level: 'intermediate' });
+
+    expect(workers.map(worker => worker.full_name)).toEqual(['Sam Electrician']);
+    expect(workers[0].verified_skills[0]).toMatchObject({ claimed_level: 'expert', verified_level: 'advanced' });
+    expect(await getMarketplaceWorkers({ skill_id: skillId })).toHaveLength(2);
+  });
+});
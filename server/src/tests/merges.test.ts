@@ -0,0 +1,203 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  usersTable,
+  skillsTable,
+  skillAliasesTable,
+  skillLevelRequirementsTable,
+  userSkillsTable,
+  skillProofsTable,
+  testAttemptsTable,
+  certificatesTable,
+  miniTestsTable,
+  jobListingsTable
+} from '../db/schema';
+import { mergeSkills } from '../handlers/merges';
+import { getSkill, addUserSkill, searchSkills, updateSkill } from '../handlers/skills';
+import { getTestsForSkill } from '../handlers/tests';
+import { getJobListings, createJobListing } from '../handlers/marketplace';
+import { getAuditEvents } from '../handlers/audit';
+import { eq } from 'drizzle-orm';
+
+describe('mergeSkills', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let sourceId: number;
+  let targetId: number;
+  let bothId: number;
+  let sourceOnlyId: number;
+  let bothSourceSkillId: number;
+  let bothTargetSkillId: number;
+
+  beforeEach(async () => {
+    const users = await db.insert(usersTable).values([
+      { full_name: 'Both Skills', email: 'both@example.com', password_hash: 'hash' },
+      { full_name: 'Source Only', email: 'source@example.com', password_hash: 'hash' }
+    ]).returning().execute();
+    bothId = users[0].id;
+    sourceOnlyId = users[1].id;
+
+    const skills = await db.insert(skillsTable).values([
+      { name: 'Plumbing & Pipes', category: 'Construction' },
+      { name: 'Plumbing', category: 'Construction' }
+    ]).returning().execute();
+    sourceId = skills[0].id;
+    targetId = skills[1].id;
+
+    const userSkills = await db.insert(userSkillsTable).values([
+      { user_id: bothId, skill_id: sourceId, is_verified: true, verification_date: new Date('2024-01-01'), verified_level: 'advanced' },
+      { user_id: bothId, skill_id: targetId, claimed_level: 'expert', verified_level: 'beginner' },
+      { user_id: sourceOnlyId, skill_id: sourceId }
+    ]).returning().execute();
+    bothSourceSkillId = userSkills[0].id;
+    bothTargetSkillId = userSkills[1].id;
+
+    await db.insert(skillProofsTable).values({ user_skill_id: bothSourceSkillId, file_url: 'https://files.example.com/p.jpg', file_type: 'image' }).execute();
+    const tests = await db.insert(miniTestsTable).values({ skill_id: sourceId, title: 'Pipe sizing', passing_score: 1 }).returning().execute();
+    await db.insert(testAttemptsTable).values({
+      user_skill_id: bothSourceSkillId,
+      test_id: tests[0].id,
+      score: 1,
+      total_points: 1,
+      passed: true,
+      answers: '{}'
+    }).execute();
+    await db.insert(certificatesTable).values({ user_skill_id: bothSourceSkillId, certificate_number: 'CERT-PIPES', qr_code: 'qr' }).execute();
+
+    await db.insert(jobListingsTable).values({
+      employer_id: sourceOnlyId,
+      title: 'Pipe fitter',
+      description: 'Fit pipes',
+      skill_id: sourceId,
+      employment_type: 'contract'
+    }).execute();
+
+    await db.insert(skillAliasesTable).values([
+      { skill_id: sourceId, alias: 'Fundi bomba', locale: 'sw' },
+      { skill_id: targetId, alias: 'fundi BOMBA', locale: 'sw' }
+    ]).execute();
+    await db.insert(skillLevelRequirementsTable).values([
+      { skill_id: sourceId, level: 'expert', required_proofs: 4 },
+      { skill_id: sourceId, level: 'advanced', required_proofs: 9 },
+      { skill_id: targetId, level: 'advanced', required_proofs: 2 }
+    ]).execute();
+  });
+
+  it('should move everything to the target and report it', async () => {
+    const result = await mergeSkills({ source_id: sourceId, target_id: targetId });
+
+    expect(result).toMatchObject({
+      merge: { source_skill_id: sourceId, target_skill_id: targetId },
+      user_skills_moved: 1,
+      user_skills_combined: 1,
+      mini_tests_moved: 1,
+      job_listings_moved: 1
+    });
+
+    expect(await db.select().from(userSkillsTable).where(eq(userSkillsTable.skill_id, sourceId)).execute()).toHaveLength(0);
+    expect(await db.select().from(miniTestsTable).where(eq(miniTestsTable.skill_id, targetId)).execute()).toHaveLength(1);
+    expect(await db.select().from(jobListingsTable).where(eq(jobListingsTable.skill_id, targetId)).execute()).toHaveLength(1);
+
+    const [source] = await db.select().from(skillsTable).where(eq(skillsTable.id, sourceId)).execute();
+    expect(source.is_active).toBe(false);
+  });
+
+  it('should combine the user skills of users who had both', async () => {
+    await mergeSkills({ source_id: sourceId, target_id: targetId });
+
+    const userSkills = await db.select().from(userSkillsTable).where(eq(userSkillsTable.user_id, bothId)).execute();
+    expect(userSkills).toHaveLength(1);
+    expect(userSkills[0]).toMatchObject({
+      id: bothTargetSkillId,
+      is_verified: true,
+      verification_date: new Date('2024-01-01'),
+      claimed_level: 'expert',
+      verified_level: 'advanced'
+    });
+
+    for (const table of [skillProofsTable, testAttemptsTable, certificatesTable]) {
+      const rows = await db.select({ user_skill_id: table.user_skill_id }).from(table).execute();
+      expect(rows).toEqual([{ user_skill_id: bothTargetSkillId }]);
+    }
+  });
+
+  it('should keep the target\'s own level requirements and aliases', async () => {
+    await mergeSkills({ source_id: sourceId, target_id: targetId });
+
+    const requirements = await db.select().from(skillLevelRequirementsTable).orderBy(skillLevelRequirementsTable.level).execute();
+    expect(requirements.map(requirement => [requirement.skill_id, requirement.level, requirement.required_proofs])).toEqual([
+      [targetId, 'advanced', 2],
+      [targetId, 'expert', 4]
+    ]);
+
+    const aliases = await db.select().from(skillAliasesTable).orderBy(skillAliasesTable.id).execute();
+    expect(aliases.map(alias => [alias.skill_id, alias.alias])).toEqual([
+      [targetId, 'fundi BOMBA'],
+      [targetId, 'Plumbing & Pipes']
+    ]);
+  });
+
+  it('should keep resolving the old id', async () => {
+    await mergeSkills({ source_id: sourceId, target_id: targetId });
+
+    expect((await getSkill(sourceId)).id).toEqual(targetId);
+    expect(await getTestsForSkill(sourceId)).toHaveLength(1);
+    expect(await getJobListings(sourceId)).toHaveLength(1);
+
+    const [newcomer] = await db.insert(usersTable).values({
+      full_name: 'Newcomer',
+      email: 'new@example.com',
+      password_hash: 'hash'
+    }).returning().execute();
+    const userSkill = await addUserSkill(newcomer.id, { skill_id: sourceId });
+    expect(userSkill.skill_id).toEqual(targetId);
+
+    await expect(addUserSkill(sourceOnlyId, { skill_id: sourceId })).rejects.toThrow(/already has this skill/i);
+
+    const listing = await createJobListing(sourceOnlyId, {
+      title: 'Plumber',
+      description: 'Fix leaks',
+      skill_id: sourceId,
+      location: null,
+      salary_range: null,
+      employment_type: 'contract'
+    });
+    expect(listing.skill_id).toEqual(targetId);
+  });
+
+  it('should find the target under the old name', async () => {
+    await mergeSkills({ source_id: sourceId, target_id: targetId });
+
+    const results = await searchSkills('plumbing & pipes');
+    expect(results[0].id).toEqual(targetId);
+  });
+
+  it('should point earlier merges at the new target', async () => {
+    const [third] = await db.insert(skillsTable).values({ name: 'Pipework', category: 'Construction' }).returning().execute();
+
+    await mergeSkills({ source_id: third.id, target_id: sourceId });
+    await mergeSkills({ source_id: sourceId, target_id: targetId });
+
+    expect((await getSkill(third.id)).id).toEqual(targetId);
+  });
+
+  it('should refuse invalid merges', async () => {
+    await expect(mergeSkills({ source_id: sourceId, target_id: sourceId })).rejects.toThrow(/into itself/i);
+    await expect(mergeSkills({ source_id: sourceId, target_id: 99999 })).rejects.toThrow(/skill not found/i);
+
+    await mergeSkills({ source_id: sourceId, target_id: targetId });
+    await expect(mergeSkills({ source_id: sourceId, target_id: targetId })).rejects.toThrow(/already been merged/i);
+    await expect(mergeSkills({ source_id: targetId, target_id: sourceId })).rejects.toThrow(/merged into another skill/i);
+    await expect(updateSkill({ id: sourceId, is_active: true })).rejects.toThrow(/cannot be reactivated/i);
+  });
+
+  it('should be audited', async () => {
+    await mergeSkills({ source_id: sourceId, target_id: targetId });
+
+    const { events } = await getAuditEvents({ target_type: 'skill', target_id: targetId, limit: 10 });
+    expect(events[0].action).toEqual('skill.merged');
+    expect(events[0].before).toEqual({ source_skill_id: sourceId, source_name: 'Plumbing & Pipes' });
+  });
+});
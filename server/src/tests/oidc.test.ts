@@ -0,0 +1,285 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'bun:test';
+import { createServer, type Server } from 'http';
+import { type AddressInfo } from 'net';
+import { createHash, generateKeyPairSync } from 'crypto';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, userRolesTable, userIdentitiesTable, oidcLoginStatesTable } from '../db/schema';
+import { registerUser, loginUser, authenticateToken } from '../handlers/auth';
+import {
+  getIdentityProviders,
+  startOidcLogin,
+  completeOidcLogin,
+  startOidcLink,
+  completeOidcLink,
+  getUserIdentities
+} from '../handlers/oidc';
+import { setOidcProviders } from '../lib/oidc';
+import { signJWT, type JWTKey } from '../lib/jwt';
+import { eq } from 'drizzle-orm';
+
+type IdentityClaims = { sub: string; email?: string; email_verified?: boolean; name?: string };
+
+// Minimal OpenID provider: discovery, JWKS, and a token endpoint that enforces PKCE
+function createMockIssuer() {
+  const { publicKey, privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const signingKey: JWTKey = { kid: 'mock-key-1', alg: 'RS256', publicKey, privateKey };
+  const codes = new Map<string, { client_id: string; redirect_uri: string; code_challenge: string; nonce: string; claims: IdentityClaims }>();
+  let issuer = '';
+  let codeCount = 0;
+
+  const server: Server = createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', issuer);
+    const json = (status: number, body: unknown) => {
+      res.writeHead(status, { 'content-type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    if (url.pathname === '/.well-known/openid-configuration') {
+      return json(200, {
+        issuer,
+        authorization_endpoint: `${issuer}/authorize`,
+        token_endpoint: `${issuer}/token`,
+        jwks_uri: `${issuer}/jwks`
+      });
+    }
+
+    if (url.pathname === '/jwks') {
+      return json(200, { keys: [{ ...publicKey.export({ format: 'jwk' }), kid: signingKey.kid, alg: 'RS256', use: 'sig' }] });
+    }
+
+    if (url.pathname === '/token' && req.method === 'POST') {
+      let raw = '';
+      for await (const chunk of req) {
+        raw += chunk;
+      }
+      const form = new URLSearchParams(raw);
+      const grant = codes.get(form.get('code') ?? '');
+      codes.delete(form.get('code') ?? '');
+
+      const challenge = createHash('sha256').update(form.get('code_verifier') ?? '').digest('base64url');
+      if (!grant || grant.client_id !== form.get('client_id') || grant.redirect_uri !== form.get('redirect_uri')
+        || grant.code_challenge !== challenge || form.get('client_secret') !== 'mock-secret') {
+        return json(400, { error: 'invalid_grant' });
+      }
+
+      const idToken = signJWT(
+        { ...grant.claims, nonce: grant.nonce },
+        { signingKey, keys: [signingKey] },
+        { expiresIn: '5m', issuer, audience: grant.client_id }
+      );
+      return json(200, { access_token: 'mock-access-token', token_type: 'Bearer', id_token: idToken });
+    }
+
+    json(404, { error: 'not_found' });
+  });
+
+  return {
+    async start() {
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      return issuer;
+    },
+    async stop() {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    },
+    // Plays the user signing in at the provider and returns the code it redirects back with
+    authorize(authorizationUrl: string, claims: IdentityClaims): string {
+      const params = new URL(authorizationUrl).searchParams;
+      expect(params.get('code_challenge_method')).toEqual('S256');
+
+      const code = `code-${++codeCount}`;
+      codes.set(code, {
+        client_id: params.get('client_id')!,
+        redirect_uri: params.get('redirect_uri')!,
+        code_challenge: params.get('code_challenge')!,
+        nonce: params.get('nonce')!,
+        claims
+      });
+      return code;
+    }
+  };
+}
+
+describe('OIDC Handlers', () => {
+  const issuer = createMockIssuer();
+
+  beforeAll(async () => {
+    const url = await issuer.start();
+    setOidcProviders([{
+      id: 'partner-centre',
+      name: 'Partner Training Centre',
+      issuer: url,
+      client_id: 'skill-proof',
+      client_secret: 'mock-secret',
+      redirect_uri: 'http://localhost:5173/auth/oidc/callback'
+    }]);
+  });
+
+  afterAll(async () => {
+    setOidcProviders([]);
+    await issuer.stop();
+  });
+
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const trainee: IdentityClaims = { sub: 'trainee-42', email: 'trainee@partner.example', email_verified: true, name: 'Tumi Trainee' };
+
+  // Runs the whole redirect round trip for a login
+  const signIn = async (claims: IdentityClaims) => {
+    const { authorization_url, state } = await startOidcLogin({ provider: 'partner-centre' });
+    return await completeOidcLogin({ state, code: issuer.authorize(authorization_url, claims) });
+  };
+
+  it('should list configured providers without their secrets', async () => {
+    expect(await getIdentityProviders()).toEqual([{ id: 'partner-centre', name: 'Partner Training Centre' }]);
+  });
+
+  it('should build an authorization URL with PKCE', async () => {
+    const { authorization_url, state } = await startOidcLogin({ provider: 'partner-centre' });
+    const params = new URL(authorization_url).searchParams;
+
+    expect(params.get('response_type')).toEqual('code');
+    expect(params.get('client_id')).toEqual('skill-proof');
+    expect(params.get('scope')).toContain('openid');
+    expect(params.get('state')).toEqual(state);
+    expect(params.get('code_challenge')).toMatch(/^[\w-]{43}$/);
+
+    const stored = await db.select().from(oidcLoginStatesTable).execute();
+    expect(stored).toHaveLength(1);
+    expect(stored[0].code_verifier).not.toEqual(params.get('code_challenge'));
+  });
+
+  it('should reject unknown providers', async () => {
+    await expect(startOidcLogin({ provider: 'nowhere' })).rejects.toThrow(/unknown identity provider/i);
+  });
+
+  it('should create an account for a new identity', async () => {
+    const result = await signIn(trainee);
+    if (result.two_factor_required) throw new Error('Unexpected two-factor challenge');
+
+    expect(result.user.email).toEqual('trainee@partner.example');
+    expect(result.user.full_name).toEqual('Tumi Trainee');
+    expect(result.user.is_verified).toBe(true);
+    expect((await authenticateToken(result.token)).roles).toEqual(['worker']);
+
+    const identities = await getUserIdentities(result.user.id);
+    expect(identities).toHaveLength(1);
+    expect(identities[0].provider).toEqual('partner-centre');
+    expect(identities[0].subject).toEqual('trainee-42');
+  });
+
+  it('should sign a returning identity into the same account', async () => {
+    const first = await signIn(trainee);
+    const second = await signIn({ ...trainee, email: 'renamed@partner.example' });
+    if (first.two_factor_required || second.two_factor_required) throw new Error('Unexpected two-factor challenge');
+
+    expect(second.user.id).toEqual(first.user.id);
+    expect(await db.select().from(usersTable).execute()).toHaveLength(1);
+    expect((await getUserIdentities(first.user.id))[0].email).toEqual('renamed@partner.example');
+  });
+
+  it('should link a verified identity to a verified account with the same email', async () => {
+    const user = await registerUser({ full_name: 'Tumi Trainee', email: 'Trainee@partner.example', phone: null, password: 'password123' });
+    await db.update(usersTable).set({ is_verified: true }).where(eq(usersTable.id, user.id)).execute();
+
+    const result = await signIn(trainee);
+    if (result.two_factor_required) throw new Error('Unexpected two-factor challenge');
+
+    expect(result.user.id).toEqual(user.id);
+    expect(await db.select().from(userRolesTable).where(eq(userRolesTable.user_id, user.id)).execute()).toHaveLength(1);
+  });
+
+  it('should not auto-link when either side has not verified the email', async () => {
+    const user = await registerUser({ full_name: 'Tumi Trainee', email: 'trainee@partner.example', phone: null, password: 'password123' });
+
+    await expect(signIn(trainee)).rejects.toThrow(/already exists/i);
+
+    await db.update(usersTable).set({ is_verified: true }).where(eq(usersTable.id, user.id)).execute();
+    await expect(signIn({ ...trainee, email_verified: false })).rejects.toThrow(/already exists/i);
+
+    expect(await db.select().from(userIdentitiesTable).execute()).toHaveLength(0);
+  });
+
+  it('should require an email for new accounts', async () => {
+    await expect(signIn({ sub: 'anonymous' })).rejects.toThrow(/did not share an email/i);
+  });
+
+  it('should accept each state only once', async () => {
+    const { authorization_url, state } = await startOidcLogin({ provider: 'partner-centre' });
+    await completeOidcLogin({ state, code: issuer.authorize(authorization_url, trainee) });
+
+    await expect(completeOidcLogin({ state, code: issuer.authorize(authorization_url, trainee) }))
+      .rejects.toThrow(/invalid or expired sign-in request/i);
+  });
+
+  it('should reject expired states', async () => {
+    const { authorization_url, state } = await startOidcLogin({ provider: 'partner-centre' });
+    await db.update(oidcLoginStatesTable).set({ expires_at: new Date(Date.now() - 1000) }).execute();
+
+    await expect(completeOidcLogin({ state, code: issuer.authorize(authorization_url, trainee) }))
+      .rejects.toThrow(/invalid or expired sign-in request/i);
+  });
+
+  it('should fail when the code was issued for a different PKCE challenge', async () => {
+    const first = await startOidcLogin({ provider: 'partner-centre' });
+    const second = await startOidcLogin({ provider: 'partner-centre' });
+
+    // A code intercepted from one request cannot be redeemed with another request's verifier
+    await expect(completeOidcLogin({ state: second.state, code: issuer.authorize(first.authorization_url, trainee) }))
+      .rejects.toThrow(/status 400/);
+  });
+
+  describe('linking', () => {
+    let userId: number;
+
+    beforeEach(async () => {
+      const user = await registerUser({ full_name: 'Jane Worker', email: 'jane@example.com', phone: null, password: 'password123' });
+      userId = user.id;
+    });
+
+    it('should link an identity to the signed-in account', async () => {
+      const { authorization_url, state } = await startOidcLink(userId, { provider: 'partner-centre' });
+      const identity = await completeOidcLink(userId, { state, code: issuer.authorize(authorization_url, trainee) });
+
+      expect(identity.user_id).toEqual(userId);
+
+      // The identity now signs into the existing account even though the emails differ
+      const result = await signIn(trainee);
+      if (result.two_factor_required) throw new Error('Unexpected two-factor challenge');
+      expect(result.user.id).toEqual(userId);
+    });
+
+    it('should not let a link request be completed by another account', async () => {
+      const other = await registerUser({ full_name: 'Other', email: 'other@example.com', phone: null, password: 'password123' });
+      const { authorization_url, state } = await startOidcLink(userId, { provider: 'partner-centre' });
+
+      await expect(completeOidcLink(other.id, { state, code: issuer.authorize(authorization_url, trainee) }))
+        .rejects.toThrow(/invalid or expired sign-in request/i);
+    });
+
+    it('should not use a link request to log in', async () => {
+      const { authorization_url, state } = await startOidcLink(userId, { provider: 'partner-centre' });
+
+      await expect(completeOidcLogin({ state, code: issuer.authorize(authorization_url, trainee) }))
+        .rejects.toThrow(/invalid or expired sign-in request/i);
+    });
+
+    it('should refuse identities already linked elsewhere', async () => {
+      await signIn(trainee);
+      const { authorization_url, state } = await startOidcLink(userId, { provider: 'partner-centre' });
+
+      await expect(completeOidcLink(userId, { state, code: issuer.authorize(authorization_url, trainee) }))
+        .rejects.toThrow(/already linked to another account/i);
+    });
+
+    it('should keep the password login working', async () => {
+      const { authorization_url, state } = await startOidcLink(userId, { provider: 'partner-centre' });
+      await completeOidcLink(userId, { state, code: issuer.authorize(authorization_url, trainee) });
+
+      const result = await loginUser({ email: 'jane@example.com', password: 'password123' });
+      expect(result.two_factor_required).toBe(false);
+    });
+  });
+});
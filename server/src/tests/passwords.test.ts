@@ -0,0 +1,171 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, sessionsTable, passwordResetTokensTable } from '../db/schema';
+import { requestPasswordReset, resetPassword, changePassword } from '../handlers/passwords';
+import { hashPassword, verifyPassword } from '../lib/passwords';
+import { setMailTransport, createOutboxTransport, createConsoleTransport, readOutbox } from '../lib/mail';
+import { waitForBackgroundJobs } from '../lib/jobs';
+import { eq } from 'drizzle-orm';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const tokenFromMail = (text: string) => /token=([\w-]+)/.exec(text)![1];
+
+describe('Password Handlers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let outbox: string;
+  let userId: number;
+
+  beforeEach(async () => {
+    outbox = await mkdtemp(join(tmpdir(), 'outbox-'));
+    setMailTransport(createOutboxTransport(outbox));
+
+    const result = await db.insert(usersTable).values({
+      full_name: 'Jane Worker',
+      email: 'worker@test.com',
+      phone: null,
+      password_hash: hashPassword('old_password')
+    }).returning().execute();
+    userId = result[0].id;
+  });
+
+  afterEach(async () => {
+    setMailTransport(createConsoleTransport());
+    await rm(outbox, { recursive: true, force: true });
+  });
+
+  const currentHash = async () => {
+    const users = await db.select().from(usersTable).where(eq(usersTable.id, userId)).execute();
+    return users[0].password_hash;
+  };
+
+  describe('requestPasswordReset', () => {
+    it('should email a reset link and store only its hash', async () => {
+      const result = await requestPasswordReset({ email: 'worker@test.com' });
+      await waitForBackgroundJobs();
+      expect(result.success).toBe(true);
+
+      const messages = await readOutbox(outbox);
+      expect(messages).toHaveLength(1);
+      expect(messages[0].to).toEqual('worker@test.com');
+
+      const token = tokenFromMail(messages[0].text);
+      const stored = await db.select().from(passwordResetTokensTable).execute();
+      expect(stored).toHaveLength(1);
+      expect(stored[0].token_hash).not.toEqual(token);
+      expect(stored[0].user_id).toEqual(userId);
+    });
+
+    it('should answer identically for unknown emails', async () => {
+      const result = await requestPasswordReset({ email: 'nobody@test.com' });
+      await waitForBackgroundJobs();
+
+      expect(result).toEqual({ success: true });
+      expect(await readOutbox(outbox)).toHaveLength(0);
+    });
+
+    it('should report success when the email cannot be delivered', async () => {
+      setMailTransport({ send: async () => { throw new Error('SMTP unavailable'); } });
+
+      expect(await requestPasswordReset({ email: 'worker@test.com' })).toEqual({ success: true });
+      await waitForBackgroundJobs();
+    });
+  });
+
+  describe('resetPassword', () => {
+    it('should set the new password and revoke all sessions', async () => {
+      await db.insert(sessionsTable).values({ user_id: userId }).execute();
+      await requestPasswordReset({ email: 'worker@test.com' });
+      await waitForBackgroundJobs();
+      const [message] = await readOutbox(outbox);
+
+      const result = await resetPassword({ token: tokenFromMail(message.text), new_password: 'new_password' });
+      expect(result.success).toBe(true);
+
+      expect(verifyPassword('new_password', await currentHash())).toBe(true);
+      const sessions = await db.select().from(sessionsTable).execute();
+      expect(sessions[0].revoked_at).toBeInstanceOf(Date);
+    });
+
+    it('should only accept a token once', async () => {
+      await requestPasswordReset({ email: 'worker@test.com' });
+      await waitForBackgroundJobs();
+      const [message] = await readOutbox(outbox);
+      const token = tokenFromMail(message.text);
+
+      await resetPassword({ token, new_password: 'new_password' });
+
+      await expect(resetPassword({ token, new_password: 'another_password' }))
+        .rejects.toThrow(/invalid or expired/i);
+      expect(verifyPassword('new_password', await currentHash())).toBe(true);
+    });
+
+    it('should invalidate other outstanding reset links', async () => {
+      await requestPasswordReset({ email: 'worker@test.com' });
+      await waitForBackgroundJobs();
+      await requestPasswordReset({ email: 'worker@test.com' });
+      await waitForBackgroundJobs();
+      const [first, second] = await readOutbox(outbox);
+
+      await resetPassword({ token: tokenFromMail(second.text), new_password: 'new_password' });
+
+      await expect(resetPassword({ token: tokenFromMail(first.text), new_password: 'another_password' }))
+        .rejects.toThrow(/invalid or expired/i);
+    });
+
+    it('should reject expired tokens', async () => {
+      await requestPasswordReset({ email: 'worker@test.com' });
+      await waitForBackgroundJobs();
+      const [message] = await readOutbox(outbox);
+      await db.update(passwordResetTokensTable)
+        .set({ expires_at: new Date(Date.now() - 1000) })
+        .execute();
+
+      await expect(resetPassword({ token: tokenFromMail(message.text), new_password: 'new_password' }))
+        .rejects.toThrow(/invalid or expired/i);
+      expect(verifyPassword('old_password', await currentHash())).toBe(true);
+    });
+
+    it('should reject unknown tokens', async () => {
+      await expect(resetPassword({ token: 'made-up-token', new_password: 'new_password' }))
+        .rejects.toThrow(/invalid or expired/i);
+    });
+  });
+
+  describe('changePassword', () => {
+    it('should change the password and revoke other sessions', async () => {
+      const sessions = await db.insert(sessionsTable)
+        .values([{ user_id: userId, device_label: 'Current' }, { user_id: userId, device_label: 'Other' }])
+        .returning()
+        .execute();
+
+      const result = await changePassword(userId, sessions[0].id, {
+        current_password: 'old_password',
+        new_password: 'new_password'
+      });
+      expect(result.success).toBe(true);
+      expect(verifyPassword('new_password', await currentHash())).toBe(true);
+
+      const after = await db.select().from(sessionsTable).execute();
+      const current = after.find(session => session.id === sessions[0].id)!;
+      const other = after.find(session => session.id === sessions[1].id)!;
+      expect(current.revoked_at).toBeNull();
+      expect(other.revoked_at).toBeInstanceOf(Date);
+    });
+
+    it('should reject a wrong current password', async () => {
+      const session = await db.insert(sessionsTable).values({ user_id: userId }).returning().execute();
+
+      await expect(changePassword(userId, session[0].id, {
+        current_password: 'wrong_password',
+        new_password: 'new_password'
+      })).rejects.toThrow(/current password is incorrect/i);
+
+      expect(verifyPassword('old_password', await currentHash())).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,236 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, phoneCodesTable } from '../db/schema';
+import { registerInputSchema, updateProfileInputSchema } from '../schema';
+import { registerUser, authenticateToken } from '../handlers/auth';
+import { updateUserProfile } from '../handlers/profile';
+import { requestPhoneVerification, verifyPhone, requestSmsLogin, loginWithSmsCode } from '../handlers/phone';
+import { startTotpEnrollment, confirmTotpEnrollment } from '../handlers/totp';
+import { normalizePhone } from '../lib/phone';
+import { hotp, currentStep } from '../lib/totp';
+import { setSmsProvider, createFileSmsProvider, createConsoleSmsProvider, readSmsOutbox } from '../lib/sms';
+import { eq } from 'drizzle-orm';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+describe('normalizePhone', () => {
+  it('should keep E.164 numbers', () => {
+    expect(normalizePhone('+254712345678')).toEqual('+254712345678');
+  });
+
+  it('should strip formatting', () => {
+    expect(normalizePhone('+254 (712) 345-678')).toEqual('+254712345678');
+    expect(normalizePhone('+1 415.555.2671')).toEqual('+14155552671');
+  });
+
+  it('should convert the 00 international prefix', () => {
+    expect(normalizePhone('00255 754 123 456')).toEqual('+255754123456');
+  });
+
+  it('should apply the default country code to national numbers', () => {
+    expect(normalizePhone('0712 345 678', '254')).toEqual('+254712345678');
+    expect(normalizePhone('712345678', '254')).toEqual('+254712345678');
+    expect(normalizePhone('254712345678', '254')).toEqual('+254712345678');
+  });
+
+  it('should reject numbers that cannot be valid', () => {
+    expect(normalizePhone('12')).toBeNull();
+    expect(normalizePhone('+0123456789')).toBeNull();
+    expect(normalizePhone('+1234567890123456')).toBeNull();
+    expect(normalizePhone('call me')).toBeNull();
+  });
+
+  it('should normalize phone numbers in registration and profile input', () => {
+    const registration = registerInputSchema.parse({
+      full_name: 'Amina Worker',
+      email: 'amina@example.com',
+      phone: '+254 712 345 678',
+      password: 'password123'
+    });
+    expect(registration.phone).toEqual('+254712345678');
+
+    expect(updateProfileInputSchema.parse({ phone: '00254712345678' }).phone).toEqual('+254712345678');
+    expect(updateProfileInputSchema.safeParse({ phone: 'not a phone' }).success).toBe(false);
+    expect(updateProfileInputSchema.parse({ phone: null }).phone).toBeNull();
+  });
+});
+
+describe('Phone Handlers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const phone = '+254712345678';
+  let outbox: string;
+  let userId: number;
+
+  // Pulls the six-digit code out of the most recent text message
+  const latestCode = async () => {
+    const messages = await readSmsOutbox(outbox);
+    return /\b(\d{6})\b/.exec(messages[messages.length - 1].body)![1];
+  };
+
+  // Lets a test send another code without waiting out the resend interval
+  const ageCodes = async () => {
+    await db.update(phoneCodesTable).set({ created_at: new Date(Date.now() - 2 * 60 * 1000) }).execute();
+  };
+
+  const verifyAccountPhone = async () => {
+    await requestPhoneVerification(userId);
+    await verifyPhone(userId, { code: await latestCode() });
+  };
+
+  beforeEach(async () => {
+    outbox = await mkdtemp(join(tmpdir(), 'sms-'));
+    setSmsProvider(createFileSmsProvider(outbox));
+
+    const user = await registerUser({ full_name: 'Amina Worker', email: 'amina@example.com', phone, password: 'password123' });
+    userId = user.id;
+  });
+
+  afterEach(async () => {
+    setSmsProvider(createConsoleSmsProvider());
+    await rm(outbox, { recursive: true, force: true });
+  });
+
+  describe('phone verification', () => {
+    it('should text a code to the account phone', async () => {
+      await requestPhoneVerification(userId);
+
+      const messages = await readSmsOutbox(outbox);
+      expect(messages).toHaveLength(1);
+      expect(messages[0].to).toEqual(phone);
+      expect(messages[0].body).toMatch(/verification code is \d{6}/);
+
+      const stored = await db.select().from(phoneCodesTable).execute();
+      expect(stored[0].code_hash).not.toEqual(await latestCode());
+    });
+
+    it('should verify the phone with the code', async () => {
+      await requestPhoneVerification(userId);
+      const user = await verifyPhone(userId, { code: await latestCode() });
+
+      expect(user.phone_verified_at).toBeInstanceOf(Date);
+      await expect(requestPhoneVerification(userId)).rejects.toThrow(/already verified/i);
+    });
+
+    it('should reject a wrong code', async () => {
+      await requestPhoneVerification(userId);
+      const code = await latestCode();
+      const wrong = code === '000000' ? '111111' : '000000';
+
+      await expect(verifyPhone(userId, { code: wrong })).rejects.toThrow(/invalid or expired code/i);
+    });
+
+    it('should reject an expired code', async () => {
+      await requestPhoneVerification(userId);
+      await db.update(phoneCodesTable).set({ expires_at: new Date(Date.now() - 1000) }).execute();
+
+      await expect(verifyPhone(userId, { code: await latestCode() })).rejects.toThrow(/invalid or expired code/i);
+    });
+
+    it('should throttle resends', async () => {
+      await requestPhoneVerification(userId);
+      await expect(requestPhoneVerification(userId)).rejects.toThrow(/sent recently/i);
+    });
+
+    it('should only accept the latest code', async () => {
+      await requestPhoneVerification(userId);
+      const first = await latestCode();
+      await ageCodes();
+      await requestPhoneVerification(userId);
+      const second = await latestCode();
+
+      if (first !== second) {
+        await expect(verifyPhone(userId, { code: first })).rejects.toThrow(/invalid or expired code/i);
+      }
+      expect((await verifyPhone(userId, { code: second })).phone_verified_at).toBeInstanceOf(Date);
+    });
+
+    it('should require a phone number', async () => {
+      await updateUserProfile(userId, { phone: null });
+      await expect(requestPhoneVerification(userId)).rejects.toThrow(/no phone number/i);
+    });
+
+    it('should reset verification when the number changes', async () => {
+      await verifyAccountPhone();
+
+      const unchanged = await updateUserProfile(userId, { phone });
+      expect(unchanged.phone_verified_at).toBeInstanceOf(Date);
+
+      const changed = await updateUserProfile(userId, { phone: '+254700000000' });
+      expect(changed.phone_verified_at).toBeNull();
+    });
+
+    it('should not verify a number already verified on another account', async () => {
+      await verifyAccountPhone();
+
+      const other = await registerUser({ full_name: 'Second Account', email: 'second@example.com', phone, password: 'password123' });
+      await requestPhoneVerification(other.id);
+
+      await expect(verifyPhone(other.id, { code: await latestCode() })).rejects.toThrow(/another account/i);
+    });
+  });
+
+  describe('SMS login', () => {
+    it('should log in with a texted code', async () => {
+      await verifyAccountPhone();
+
+      expect(await requestSmsLogin({ phone })).toEqual({ success: true });
+      const result = await loginWithSmsCode({ phone, code: await latestCode() });
+      if (result.two_factor_required) throw new Error('Unexpected two-factor challenge');
+
+      expect(result.user.id).toEqual(userId);
+      expect((await authenticateToken(result.token)).id).toEqual(userId);
+    });
+
+    it('should not text unverified or unknown numbers', async () => {
+      expect(await requestSmsLogin({ phone })).toEqual({ success: true });
+      expect(await requestSmsLogin({ phone: '+255754123456' })).toEqual({ success: true });
+
+      expect(await readSmsOutbox(outbox)).toHaveLength(0);
+    });
+
+    it('should accept each code once', async () => {
+      await verifyAccountPhone();
+      await requestSmsLogin({ phone });
+      const code = await latestCode();
+
+      await loginWithSmsCode({ phone, code });
+      await expect(loginWithSmsCode({ phone, code })).rejects.toThrow(/invalid or expired code/i);
+    });
+
+    it('should not accept a verification code for login', async () => {
+      await requestPhoneVerification(userId);
+      const code = await latestCode();
+      await db.update(usersTable).set({ phone_verified_at: new Date() }).where(eq(usersTable.id, userId)).execute();
+
+      await expect(loginWithSmsCode({ phone, code })).rejects.toThrow(/invalid or expired code/i);
+    });
+
+    it('should back off after repeated wrong codes', async () => {
+      await verifyAccountPhone();
+      await requestSmsLogin({ phone });
+      const code = await latestCode();
+      const wrong = code === '000000' ? '111111' : '000000';
+
+      for (let i = 0; i < 4; i++) {
+        await expect(loginWithSmsCode({ phone, code: wrong })).rejects.toThrow(/invalid or expired code/i);
+      }
+
+      await expect(loginWithSmsCode({ phone, code })).rejects.toMatchObject({ code: 'TOO_MANY_REQUESTS' });
+    });
+
+    it('should still ask for the second factor', async () => {
+      await verifyAccountPhone();
+      const { secret } = await startTotpEnrollment(userId);
+      await confirmTotpEnrollment(userId, { code: hotp(secret, currentStep()) });
+
+      await requestSmsLogin({ phone });
+      const result = await loginWithSmsCode({ phone, code: await latestCode() });
+
+      expect(result.two_factor_required).toBe(true);
+    });
+  });
+});
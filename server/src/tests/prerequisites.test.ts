@@ -0,0 +1,176 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, skillsTable, userSkillsTable, miniTestsTable, skillPrerequisitesTable } from '../db/schema';
+import {
+  addSkillPrerequisite,
+  removeSkillPrerequisite,
+  getSkillPrerequisites,
+  getSkillPath
+} from '../handlers/prerequisites';
+import { addUserSkill, updateSkill } from '../handlers/skills';
+import { startTest } from '../handlers/tests';
+import { mergeSkills } from '../handlers/merges';
+import { eq, inArray, sql } from 'drizzle-orm';
+
+describe('Skill prerequisites', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let userId: number;
+  let electricalId: number;
+  let safetyId: number;
+  let wiringId: number;
+  let solarId: number;
+
+  beforeEach(async () => {
+    const users = await db.insert(usersTable).values({ full_name: 'Amina Worker', email: 'amina@example.com', password_hash: 'hash' }).returning().execute();
+    userId = users[0].id;
+
+    const skills = await db.insert(skillsTable).values([
+      { name: 'Basic electrical', category: 'Electrical' },
+      { name: 'Electrical safety', category: 'Electrical' },
+      { name: 'House wiring', category: 'Electrical' },
+      { name: 'Solar panel installation', category: 'Electrical' }
+    ]).returning().execute();
+    [electricalId, safetyId, wiringId, solarId] = skills.map(skill => skill.id);
+
+    // Solar builds on wiring and safety; wiring builds on basic electrical
+    await addSkillPrerequisite({ skill_id: solarId, prerequisite_skill_id: wiringId });
+    await addSkillPrerequisite({ skill_id: solarId, prerequisite_skill_id: safetyId });
+    await addSkillPrerequisite({ skill_id: wiringId, prerequisite_skill_id: electricalId });
+  });
+
+  const verify = async (skillId: number) => {
+    await db.insert(userSkillsTable).values({ user_id: userId, skill_id: skillId, is_verified: true, verification_date: new Date() }).execute();
+  };
+
+  describe('graph', () => {
+    it('should list direct prerequisites', async () => {
+      const prerequisites = await getSkillPrerequisites(solarId);
+      expect(prerequisites.map(skill => skill.name)).toEqual(['Electrical safety', 'House wiring']);
+    });
+
+    it('should reject cycles, direct or indirect', async () => {
+      await expect(addSkillPrerequisite({ skill_id: electricalId, prerequisite_skill_id: solarId })).rejects.toThrow(/would create a cycle/i);
+      await expect(addSkillPrerequisite({ skill_id: wiringId, prerequisite_skill_id: solarId })).rejects.toThrow(/would create a cycle/i);
+      await expect(addSkillPrerequisite({ skill_id: solarId, prerequisite_skill_id: solarId })).rejects.toThrow(/its own prerequisite/i);
+    });
+
+    it('should reject duplicates and unknown skills', async () => {
+      await expect(addSkillPrerequisite({ skill_id: solarId, prerequisite_skill_id: wiringId })).rejects.toThrow(/already exists/i);
+      await expect(addSkillPrerequisite({ skill_id: solarId, prerequisite_skill_id: 99999 })).rejects.toThrow(/skill not found/i);
+    });
+
+    it('should accept only one of two opposite edges added concurrently', async () => {
+      // Open two pooled connections first so the calls really run side by side
+      await Promise.all([db.execute(sql`select 1`), db.execute(sql`select 1`)]);
+
+      const results = await Promise.allSettled([
+        addSkillPrerequisite({ skill_id: safetyId, prerequisite_skill_id: electricalId }),
+        addSkillPrerequisite({ skill_id: electricalId, prerequisite_skill_id: safetyId })
+      ]);
+
+      expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+      const rejected = results.find(result => result.status === 'rejected');
+      expect((rejected as PromiseRejectedResult).reason.message).toMatch(/would create a cycle/i);
+
+      const edges = await db.select().from(skillPrerequisitesTable)
+        .where(inArray(skillPrerequisitesTable.skill_id, [safetyId, electricalId]))
+        .execute();
+      expect(edges).toHaveLength(1);
+    });
+
+    it('should allow the reverse edge once removed', async () => {
+      await removeSkillPrerequisite({ skill_id: wiringId, prerequisite_skill_id: electricalId });
+      await addSkillPrerequisite({ skill_id: electricalId, prerequisite_skill_id: wiringId });
+
+      await expect(removeSkillPrerequisite({ skill_id: wiringId, prerequisite_skill_id: electricalId })).rejects.toThrow(/not found/i);
+    });
+  });
+
+  describe('enforcement', () => {
+    it('should not enforce unless the skill asks for it', async () => {
+      const userSkill = await addUserSkill(userId, { skill_id: solarId });
+      expect(userSkill.skill_id).toEqual(solarId);
+    });
+
+    it('should block claiming the skill until prerequisites are verified', async () => {
+      await updateSkill({ id: solarId, enforce_prerequisites: true });
+      await verify(safetyId);
+
+      await expect(addUserSkill(userId, { skill_id: solarId })).rejects.toThrow('Verify these prerequisite skills first: House wiring');
+
+      await verify(wiringId);
+      const userSkill = await addUserSkill(userId, { skill_id: solarId });
+      expect(userSkill.skill_id).toEqual(solarId);
+    });
+
+    it('should block tests for a skill held before enforcement started', async () => {
+      const userSkill = await addUserSkill(userId, { skill_id: wiringId });
+      const tests = await db.insert(miniTestsTable).values({ skill_id: wiringId, title: 'Wiring basics', passing_score: 1 }).returning().execute();
+      await updateSkill({ id: wiringId, enforce_prerequisites: true });
+
+      await expect(startTest(userId, { user_skill_id: userSkill.id, test_id: tests[0].id })).rejects.toThrow(/basic electrical/i);
+
+      await verify(electricalId);
+      const attempt = await startTest(userId, { user_skill_id: userSkill.id, test_id: tests[0].id });
+      expect(attempt.test_id).toEqual(tests[0].id);
+    });
+  });
+
+  describe('getSkillPath', () => {
+    it('should order prerequisites first and point at the next steps', async () => {
+      const path = await getSkillPath(userId, solarId);
+
+      expect(path.steps.map(step => step.name)).toEqual([
+        'Basic electrical',
+        'Electrical safety',
+        'House wiring',
+        'Solar panel installation'
+      ]);
+      expect(path.steps.every(step => step.status === 'not_started')).toBe(true);
+      expect(path.next_skill_ids.sort()).toEqual([electricalId, safetyId].sort());
+    });
+
+    it('should move forward as skills get verified', async () => {
+      await verify(electricalId);
+      await db.insert(userSkillsTable).values({ user_id: userId, skill_id: wiringId }).execute();
+
+      const path = await getSkillPath(userId, solarId);
+      const step = (id: number) => path.steps.find(entry => entry.skill_id === id)!;
+
+      expect(step(electricalId).status).toEqual('verified');
+      expect(step(wiringId)).toMatchObject({ status: 'in_progress', ready: true, prerequisite_skill_ids: [electricalId] });
+      expect(step(solarId).ready).toBe(false);
+      expect(path.next_skill_ids.sort()).toEqual([safetyId, wiringId].sort());
+    });
+
+    it('should return just the target when it has no prerequisites', async () => {
+      const path = await getSkillPath(userId, electricalId);
+      expect(path.steps).toHaveLength(1);
+      expect(path.next_skill_ids).toEqual([electricalId]);
+    });
+  });
+
+  describe('merging', () => {
+    it('should carry prerequisites over to the surviving skill', async () => {
+      const [pv] = await db.insert(skillsTable).values({ name: 'PV installation', category: 'Electrical' }).returning().execute();
+      await addSkillPrerequisite({ skill_id: pv.id, prerequisite_skill_id: safetyId });
+
+      await mergeSkills({ source_id: solarId, target_id: pv.id });
+
+      const edges = await db.select().from(skillPrerequisitesTable).where(eq(skillPrerequisitesTable.skill_id, pv.id)).execute();
+      expect(edges.map(edge => edge.prerequisite_skill_id).sort()).toEqual([safetyId, wiringId].sort());
+      expect(await getSkillPrerequisites(solarId)).toHaveLength(2);
+    });
+
+    it('should refuse a merge that would close a cycle', async () => {
+      // Wiring builds on basic electrical, so folding that into solar would have solar require itself
+      await expect(mergeSkills({ source_id: electricalId, target_id: solarId })).rejects.toThrow(/prerequisite cycle/i);
+
+      const edges = await db.select().from(skillPrerequisitesTable).execute();
+      expect(edges).toHaveLength(3);
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, userRolesTable } from '../db/schema';
+import { getUserRoles, grantRole, revokeRole } from '../handlers/roles';
+import { registerUser } from '../handlers/auth';
+import { eq } from 'drizzle-orm';
+
+describe('Role Handlers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let adminId: number;
+  let userId: number;
+
+  beforeEach(async () => {
+    const users = await db.insert(usersTable).values([
+      { full_name: 'Admin User', email: 'admin@test.com', phone: null, password_hash: 'hashed_password' },
+      { full_name: 'Jane Worker', email: 'worker@test.com', phone: null, password_hash: 'hashed_password' }
+    ]).returning().execute();
+    adminId = users[0].id;
+    userId = users[1].id;
+
+    await db.insert(userRolesTable).values({ user_id: adminId, role: 'admin' }).execute();
+  });
+
+  describe('registerUser', () => {
+    it('should give new accounts the worker role', async () => {
+      const user = await registerUser({
+        full_name: 'New Worker',
+        email: 'new@test.com',
+        phone: null,
+        password: 'password123'
+      });
+
+      const roles = await getUserRoles(user.id);
+      expect(roles.map(role => role.role)).toEqual(['worker']);
+    });
+  });
+
+  describe('grantRole', () => {
+    it('should grant a role and record who granted it', async () => {
+      const result = await grantRole(adminId, { user_id: userId, role: 'employer' });
+
+      expect(result.user_id).toEqual(userId);
+      expect(result.role).toEqual('employer');
+      expect(result.granted_by).toEqual(adminId);
+      expect(result.created_at).toBeInstanceOf(Date);
+
+      const stored = await db.select().from(userRolesTable).where(eq(userRolesTable.user_id, userId)).execute();
+      expect(stored).toHaveLength(1);
+    });
+
+    it('should reject granting a role twice', async () => {
+      await grantRole(adminId, { user_id: userId, role: 'assessor' });
+
+      await expect(grantRole(adminId, { user_id: userId, role: 'assessor' }))
+        .rejects.toThrow(/already has this role/i);
+    });
+
+    it('should reject unknown users', async () => {
+      await expect(grantRole(adminId, { user_id: 99999, role: 'employer' }))
+        .rejects.toThrow(/user not found/i);
+    });
+  });
+
+  describe('revokeRole', () => {
+    it('should remove the role', async () => {
+      await grantRole(adminId, { user_id: userId, role: 'employer' });
+
+      const result = await revokeRole(adminId, { user_id: userId, role: 'employer' });
+      expect(result.role).toEqual('employer');
+
+      expect(await getUserRoles(userId)).toHaveLength(0);
+    });
+
+    it('should reject revoking a role the user does not have', async () => {
+      await expect(revokeRole(adminId, { user_id: userId, role: 'assessor' }))
+        .rejects.toThrow(/does not have this role/i);
+    });
+
+    it('should stop admins from revoking their own admin role', async () => {
+      await expect(revokeRole(adminId, { user_id: adminId, role: 'admin' }))
+        .rejects.toThrow(/own admin role/i);
+
+      expect((await getUserRoles(adminId)).map(role => role.role)).toEqual(['admin']);
+    });
+  });
+});
@@ -0,0 +1,218 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, userRolesTable } from '../db/schema';
+import { type Role } from '../schema';
+import { type CreateHTTPContextOptions } from '@trpc/server/adapters/standalone';
+import { TRPCError } from '@trpc/server';
+import { registerUser, loginUser } from '../handlers/auth';
+import { startTotpEnrollment, confirmTotpEnrollment } from '../handlers/totp';
+import { hotp, currentStep } from '../lib/totp';
+import { appRouter } from '../router';
+import { createCallerFactory, createContext } from '../trpc';
+import { eq } from 'drizzle-orm';
+
+const createCaller = createCallerFactory(appRouter);
+type Caller = ReturnType<typeof createCaller>;
+
+let accountCount = 0;
+
+async function login(email: string): Promise<string> {
+  const result = await loginUser({ email, password: 'password123' });
+  if (result.two_factor_required) throw new Error('Unexpected two-factor challenge');
+  return result.token;
+}
+
+// Registers a verified account holding the given roles (besides the default worker role)
+async function callerWithRoles(roles: Role[], { twoFactor = true } = {}): Promise<Caller> {
+  const email = `user${++accountCount}@test.com`;
+  const user = await registerUser({ full_name: 'Test User', email, phone: null, password: 'password123' });
+
+  await db.update(usersTable).set({ is_verified: true }).where(eq(usersTable.id, user.id)).execute();
+  for (const role of roles) {
+    await db.insert(userRolesTable).values({ user_id: user.id, role }).execute();
+  }
+
+  const token = await login(email);
+
+  // Two-factor state is resolved per request, so enrolling after login still counts
+  if (twoFactor) {
+    const { secret } = await startTotpEnrollment(user.id);
+    await confirmTotpEnrollment(user.id, { code: hotp(secret, currentStep()) });
+  }
+
+  return createCaller(await createContext({
+    req: { headers: { authorization: `Bearer ${token}` } }
+  } as CreateHTTPContextOptions));
+}
+
+async function anonymousCaller(): Promise<Caller> {
+  return createCaller(await createContext({ req: { headers: {} } } as CreateHTTPContextOptions));
+}
+
+// Resolves to the tRPC error code of a failed call, or null when it succeeded
+async function errorCode(call: Promise<unknown>): Promise<string | null> {
+  try {
+    await call;
+    return null;
+  } catch (error) {
+    return error instanceof TRPCError ? error.code : 'UNKNOWN';
+  }
+}
+
+const roleGatedRoutes: Array<{ route: string; role: Role; call: (caller: Caller) => Promise<unknown> }> = [
+  {
+    route: 'createSkill',
+    role: 'admin',
+    call: caller => caller.createSkill({ name: 'Welding', category: 'Technical', description: null, icon: null })
+  },
+  { route: 'createSkillCategory', role: 'admin', call: caller => caller.createSkillCategory({ name: 'Construction' }) },
+  { route: 'updateSkillCategory', role: 'admin', call: caller => caller.updateSkillCategory({ id: 99999, sort_order: 1 }) },
+  { route: 'setSkillLevelRequirement', role: 'admin', call: caller => caller.setSkillLevelRequirement({ skill_id: 99999, level: 'expert', required_proofs: 3 }) },
+  { route: 'addSkillAlias', role: 'admin', call: caller => caller.addSkillAlias({ skill_id: 99999, alias: 'Fundi' }) },
+  { route: 'removeSkillAlias', role: 'admin', call: caller => caller.removeSkillAlias(99999) },
+  { route: 'getSkillTranslations', role: 'admin', call: caller => caller.getSkillTranslations(99999) },
+  { route: 'setSkillTranslation', role: 'admin', call: caller => caller.setSkillTranslation({ skill_id: 99999, locale: 'sw', name: 'Uchomeleaji' }) },
+  { route: 'removeSkillTranslation', role: 'admin', call: caller => caller.removeSkillTranslation({ skill_id: 99999, locale: 'sw' }) },
+  { route: 'getTestTranslations', role: 'admin', call: caller => caller.getTestTranslations(99999) },
+  { route: 'setTestTranslation', role: 'admin', call: caller => caller.setTestTranslation({ test_id: 99999, locale: 'fr', title: 'Bases du soudage' }) },
+  { route: 'removeTestTranslation', role: 'admin', call: caller => caller.removeTestTranslation({ test_id: 99999, locale: 'fr' }) },
+  { route: 'updateSkill', role: 'admin', call: caller => caller.updateSkill({ id: 99999, name: 'Welding' }) },
+  { route: 'deactivateSkill', role: 'admin', call: caller => caller.deactivateSkill(99999) },
+  { route: 'mergeSkills', role: 'admin', call: caller => caller.mergeSkills({ source_id: 99998, target_id: 99999 }) },
+  { route: 'importSkillCatalogue', role: 'admin', call: caller => caller.importSkillCatalogue({ format: 'json', content: '[]' }) },
+  { route: 'exportSkillCatalogue', role: 'admin', call: caller => caller.exportSkillCatalogue({ format: 'csv' }) },
+  { route: 'addSkillPrerequisite', role: 'admin', call: caller => caller.addSkillPrerequisite({ skill_id: 99998, prerequisite_skill_id: 99999 }) },
+  { route: 'removeSkillPrerequisite', role: 'admin', call: caller => caller.removeSkillPrerequisite({ skill_id: 99998, prerequisite_skill_id: 99999 }) },
+  { route: 'getUserRoles', role: 'admin', call: caller => caller.getUserRoles(99999) },
+  { route: 'grantRole', role: 'admin', call: caller => caller.grantRole({ user_id: 99999, role: 'employer' }) },
+  { route: 'revokeRole', role: 'admin', call: caller => caller.revokeRole({ user_id: 99999, role: 'employer' }) },
+  { route: 'getAuditEvents', role: 'admin', call: caller => caller.getAuditEvents({}) },
+  { route: 'startImpersonation', role: 'admin', call: caller => caller.startImpersonation({ user_id: 99999, reason: 'Support ticket' }) },
+  { route: 'updateJobApplicationStatus', role: 'employer', call: caller => caller.updateJobApplicationStatus({ application_id: 99999, status: 'viewed' }) },
+  { route: 'endorseSkill', role: 'employer', call: caller => caller.endorseSkill({ user_skill_id: 99999, relationship: 'employer', statement: 'Reliable and careful' }) },
+  { route: 'createApiKey', role: 'employer', call: caller => caller.createApiKey({ name: 'HR system', scopes: ['jobs:write'] }) },
+  { route: 'getApiKeys', role: 'employer', call: caller => caller.getApiKeys() },
+  { route: 'processAIVerification', role: 'assessor', call: caller => caller.processAIVerification(99999) },
+  { route: 'generateCertificate', role: 'assessor', call: caller => caller.generateCertificate(99999) },
+  {
+    route: 'createJobListing',
+    role: 'employer',
+    call: caller => caller.createJobListing({
+      title: 'Senior Welder Position',
+      description: 'Looking for an experienced welder for construction projects',
+      skill_id: 99999,
+      location: null,
+      salary_range: null,
+      employment_type: 'full_time'
+    })
+  }
+];
+
+const authenticatedRoutes: Array<{ route: string; call: (caller: Caller) => Promise<unknown> }> = [
+  { route: 'getUserProfile', call: caller => caller.getUserProfile() },
+  { route: 'updateProfile', call: caller => caller.updateProfile({ bio: 'Hello' }) },
+  { route: 'uploadProfilePhoto', call: caller => caller.uploadProfilePhoto({ fileUrl: 'https://example.com/me.jpg' }) },
+  { route: 'addUserSkill', call: caller => caller.addUserSkill({ skill_id: 1 }) },
+  { route: 'removeUserSkill', call: caller => caller.removeUserSkill(99999) },
+  { route: 'getUserSkills', call: caller => caller.getUserSkills() },
+  {
+    route: 'uploadSkillProof',
+    call: caller => caller.uploadSkillProof({ user_skill_id: 1, file_url: 'https://example.com/p.jpg', file_type: 'image', description: null })
+  },
+  { route: 'startTest', call: caller => caller.startTest({ user_skill_id: 1, test_id: 1 }) },
+  { route: 'submitTest', call: caller => caller.submitTest({ attempt_id: 1, answers: {} }) },
+  { route: 'getUserTestAttempts', call: caller => caller.getUserTestAttempts({}) },
+  { route: 'getUserCertificates', call: caller => caller.getUserCertificates() },
+  { route: 'requestDataExport', call: caller => caller.requestDataExport() },
+  { route: 'getDataExports', call: caller => caller.getDataExports() },
+  { route: 'getSkillPath', call: caller => caller.getSkillPath(99999) },
+  { route: 'removeEndorsement', call: caller => caller.removeEndorsement(99999) },
+  { route: 'deleteAccount', call: caller => caller.deleteAccount({ password: 'password123' }) },
+  { route: 'cancelAccountDeletion', call: caller => caller.cancelAccountDeletion() },
+  { route: 'applyForJob', call: caller => caller.applyForJob({ job_listing_id: 1, message: null }) },
+  { route: 'getJobApplications', call: caller => caller.getJobApplications({ isEmployer: false }) },
+  { route: 'getSessions', call: caller => caller.getSessions() },
+  { route: 'logoutEverywhere', call: caller => caller.logoutEverywhere() },
+  { route: 'changePassword', call: caller => caller.changePassword({ current_password: 'x', new_password: 'password456' }) },
+  { route: 'resendVerificationEmail', call: caller => caller.resendVerificationEmail() },
+  ...roleGatedRoutes
+];
+
+describe('Router access control', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  describe('authentication', () => {
+    for (const { route, call } of authenticatedRoutes) {
+      it(`${route} should reject anonymous callers`, async () => {
+        expect(await errorCode(call(await anonymousCaller()))).toEqual('UNAUTHORIZED');
+      });
+    }
+
+    it('should keep public routes open', async () => {
+      const caller = await anonymousCaller();
+
+      expect(await errorCode(caller.getSkills())).toBeNull();
+      expect(await errorCode(caller.getJobListings({}))).toBeNull();
+      expect(await errorCode(caller.verifyCertificate('CERT-UNKNOWN'))).toBeNull();
+    });
+  });
+
+  describe('roles', () => {
+    for (const { route, role, call } of roleGatedRoutes) {
+      it(`${route} should reject workers without the ${role} role`, async () => {
+        expect(await errorCode(call(await callerWithRoles([])))).toEqual('FORBIDDEN');
+      });
+
+      it(`${route} should admit the ${role} role`, async () => {
+        const code = await errorCode(call(await callerWithRoles([role])));
+        expect(code === 'FORBIDDEN' || code === 'UNAUTHORIZED').toBe(false);
+      });
+
+      it(`${route} should admit admins`, async () => {
+        const code = await errorCode(call(await callerWithRoles(['admin'])));
+        expect(code === 'FORBIDDEN' || code === 'UNAUTHORIZED').toBe(false);
+      });
+    }
+
+    it('should not let employers act as assessors', async () => {
+      const caller = await callerWithRoles(['employer']);
+      expect(await errorCode(caller.generateCertificate(99999))).toEqual('FORBIDDEN');
+    });
+
+    it('should require two-factor authentication for employers and admins', async () => {
+      const admin = await callerWithRoles(['admin'], { twoFactor: false });
+      expect(await errorCode(admin.getUserRoles(99999))).toEqual('FORBIDDEN');
+
+      const employer = await callerWithRoles(['employer'], { twoFactor: false });
+      expect(await errorCode(roleGatedRoutes.find(route => route.route === 'createJobListing')!.call(employer)))
+        .toEqual('FORBIDDEN');
+    });
+
+    it('should not require two-factor authentication for assessors', async () => {
+      const assessor = await callerWithRoles(['assessor'], { twoFactor: false });
+      const code = await errorCode(assessor.generateCertificate(99999));
+      expect(code === 'FORBIDDEN' || code === 'UNAUTHORIZED').toBe(false);
+    });
+
+    it('should apply a granted role on the next request', async () => {
+      const admin = await callerWithRoles(['admin']);
+      const user = await registerUser({ full_name: 'Future Assessor', email: 'assessor@test.com', phone: null, password: 'password123' });
+      const token = await login('assessor@test.com');
+      const requestContext = () => createContext({
+        req: { headers: { authorization: `Bearer ${token}` } }
+      } as CreateHTTPContextOptions);
+
+      const before = createCaller(await requestContext());
+      expect(await errorCode(before.generateCertificate(99999))).toEqual('FORBIDDEN');
+
+      await admin.grantRole({ user_id: user.id, role: 'assessor' });
+
+      // Roles are resolved per request, so the same token picks up the new role
+      const after = createCaller(await requestContext());
+      const code = await errorCode(after.generateCertificate(99999));
+      expect(code === 'FORBIDDEN' || code === 'UNAUTHORIZED').toBe(false);
+    });
+  });
+});
@@ -0,0 +1,182 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, sessionsTable, refreshTokensTable } from '../db/schema';
+import { type RequestMetadata } from '../schema';
+import { createSession, refreshSession, getActiveSessions, revokeSession, revokeAllSessions } from '../handlers/sessions';
+import { authenticateToken } from '../handlers/auth';
+import { verifyAccessToken } from '../lib/tokens';
+import { eq } from 'drizzle-orm';
+
+const testMeta: RequestMetadata = {
+  ip_address: '192.168.1.10',
+  user_agent: 'Mozilla/5.0 (Linux; Android 12)'
+};
+
+describe('Session Handlers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let user: { id: number; email: string };
+
+  beforeEach(async () => {
+    const result = await db.insert(usersTable).values({
+      full_name: 'Jane Worker',
+      email: 'worker@test.com',
+      phone: null,
+      password_hash: 'hashed_password'
+    }).returning().execute();
+    user = result[0];
+  });
+
+  describe('createSession', () => {
+    it('should record the device and issue a token pair', async () => {
+      const tokens = await createSession(user, testMeta, 'Shared phone');
+
+      const sessions = await db.select().from(sessionsTable).execute();
+      expect(sessions).toHaveLength(1);
+      expect(sessions[0].user_id).toEqual(user.id);
+      expect(sessions[0].device_label).toEqual('Shared phone');
+      expect(sessions[0].ip_address).toEqual('192.168.1.10');
+      expect(sessions[0].user_agent).toEqual('Mozilla/5.0 (Linux; Android 12)');
+      expect(sessions[0].revoked_at).toBeNull();
+
+      expect(verifyAccessToken(tokens.token).sessionId).toEqual(sessions[0].id);
+      expect(tokens.refresh_token.length).toBeGreaterThan(32);
+    });
+
+    it('should store only a hash of the refresh token', async () => {
+      const tokens = await createSession(user, testMeta);
+
+      const stored = await db.select().from(refreshTokensTable).execute();
+      expect(stored).toHaveLength(1);
+      expect(stored[0].token_hash).not.toEqual(tokens.refresh_token);
+      expect(stored[0].expires_at.getTime()).toBeGreaterThan(Date.now());
+    });
+  });
+
+  describe('refreshSession', () => {
+    it('should rotate the refresh token', async () => {
+      const tokens = await createSession(user, testMeta);
+      const refreshed = await refreshSession(tokens.refresh_token, { ip_address: '10.0.0.2', user_agent: null });
+
+      expect(refreshed.refresh_token).not.toEqual(tokens.refresh_token);
+      expect(verifyAccessToken(refreshed.token).userId).toEqual(user.id);
+
+      const stored = await db.select().from(refreshTokensTable).execute();
+      expect(stored).toHaveLength(2);
+      expect(stored.filter(token => token.used_at !== null)).toHaveLength(1);
+
+      const sessions = await db.select().from(sessionsTable).execute();
+      expect(sessions[0].ip_address).toEqual('10.0.0.2');
+    });
+
+    it('should revoke the session when a used refresh token is replayed', async () => {
+      const tokens = await createSession(user, testMeta);
+      const refreshed = await refreshSession(tokens.refresh_token, testMeta);
+
+      await expect(refreshSession(tokens.refresh_token, testMeta))
+        .rejects.toThrow(/reuse detected/i);
+
+      const sessions = await db.select().from(sessionsTable).execute();
+      expect(sessions[0].revoked_at).toBeInstanceOf(Date);
+
+      // The legitimate holder's newer token is now dead too
+      await expect(refreshSession(refreshed.refresh_token, testMeta))
+        .rejects.toThrow(/revoked/i);
+    });
+
+    it('should reject unknown refresh tokens', async () => {
+      await expect(refreshSession('not-a-real-token', testMeta))
+        .rejects.toThrow(/invalid refresh token/i);
+    });
+
+    it('should reject expired refresh tokens', async () => {
+      const tokens = await createSession(user, testMeta);
+      await db.update(refreshTokensTable)
+        .set({ expires_at: new Date(Date.now() - 1000) })
+        .execute();
+
+      await expect(refreshSession(tokens.refresh_token, testMeta))
+        .rejects.toThrow(/expired/i);
+    });
+  });
+
+  describe('getActiveSessions', () => {
+    it('should list active sessions and flag the current one', async () => {
+      const phone = await createSession(user, testMeta, 'Phone');
+      await createSession(user, testMeta, 'Laptop');
+      const currentSessionId = verifyAccessToken(phone.token).sessionId;
+
+      const sessions = await getActiveSessions(user.id, currentSessionId);
+
+      expect(sessions).toHaveLength(2);
+      const current = sessions.find(session => session.is_current);
+      expect(current?.device_label).toEqual('Phone');
+    });
+
+    it('should exclude revoked sessions', async () => {
+      const tokens = await createSession(user, testMeta);
+      const sessionId = verifyAccessToken(tokens.token).sessionId;
+      await revokeSession(user.id, sessionId);
+
+      const sessions = await getActiveSessions(user.id, sessionId);
+      expect(sessions).toHaveLength(0);
+    });
+  });
+
+  describe('revokeSession', () => {
+    it('should stop the access token from authenticating', async () => {
+      const tokens = await createSession(user, testMeta);
+      const authenticated = await authenticateToken(tokens.token);
+      expect(authenticated.id).toEqual(user.id);
+
+      await revokeSession(user.id, authenticated.session_id!);
+
+      await expect(authenticateToken(tokens.token)).rejects.toThrow(/revoked/i);
+      await expect(refreshSession(tokens.refresh_token, testMeta)).rejects.toThrow(/revoked/i);
+    });
+
+    it("should not revoke another user's session", async () => {
+      const other = await db.insert(usersTable).values({
+        full_name: 'Other User',
+        email: 'other@test.com',
+        phone: null,
+        password_hash: 'hashed_password'
+      }).returning().execute();
+      const tokens = await createSession(other[0], testMeta);
+      const sessionId = verifyAccessToken(tokens.token).sessionId;
+
+      await expect(revokeSession(user.id, sessionId)).rejects.toThrow(/not found/i);
+
+      const sessions = await db.select().from(sessionsTable).where(eq(sessionsTable.id, sessionId)).execute();
+      expect(sessions[0].revoked_at).toBeNull();
+    });
+  });
+
+  describe('revokeAllSessions', () => {
+    it('should log out every device', async () => {
+      await createSession(user, testMeta, 'Phone');
+      await createSession(user, testMeta, 'Laptop');
+
+      const result = await revokeAllSessions(user.id);
+      expect(result.revoked).toEqual(2);
+
+      const sessions = await getActiveSessions(user.id, 0);
+      expect(sessions).toHaveLength(0);
+    });
+
+    it('should keep the excepted session', async () => {
+      const phone = await createSession(user, testMeta, 'Phone');
+      await createSession(user, testMeta, 'Laptop');
+      const keepId = verifyAccessToken(phone.token).sessionId;
+
+      const result = await revokeAllSessions(user.id, keepId);
+      expect(result.revoked).toEqual(1);
+
+      const sessions = await getActiveSessions(user.id, keepId);
+      expect(sessions).toHaveLength(1);
+      expect(sessions[0].id).toEqual(keepId);
+    });
+  });
+});
@@ -1,10 +1,39 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { skillsTable, usersTable, userSkillsTable } from '../db/schema';
+import {
+  skillsTable,
+  usersTable,
+  userSkillsTable,
+  skillProofsTable,
+  miniTestsTable,
+  testAttemptsTable,
+  certificatesTable,
+  endorsementsTable
+} from '../db/schema';
 import { type CreateSkillInput, type AddUserSkillInput } from '../schema';
-import { getSkills, searchSkills, createSkill, addUserSkill, getUserSkills } from '../handlers/skills';
-import { eq, and } from 'drizzle-orm';
+import {
+  getSkills,
+  searchSkills,
+  autocompleteSkills,
+  createSkill,
+  updateSkill,
+  deactivateSkill,
+  addSkillAlias,
+  removeSkillAlias,
+  getSkillAliases,
+  addUserSkill,
+  removeUserSkill,
+  getUserSkills
+} from '../handlers/skills';
+import { createSkillCategory } from '../handlers/categories';
+import { getMarketplaceWorkers } from '../handlers/marketplace';
+import { verifyCertificate } from '../handlers/certificates';
+import { mergeSkills } from '../handlers/merges';
+import { getSkillProofs } from '../handlers/proofs';
+import { getSkillEndorsements } from '../handlers/endorsements';
+import { getAuditEvents } from '../handlers/audit';
+import { eq, and, sql } from 'drizzle-orm';
 
 describe('Skills Handlers', () => {
   beforeEach(createDB);
@@ -112,6 +141,22 @@ describe('Skills Handlers', () => {
       ]).execute();
     });
 
+    it('should back substring matching with trigram indexes', async () => {
+      const indexes = await db.execute<{ indexname: string; indexdef: string }>(
+        sql`select indexname, indexdef from pg_indexes where indexname like '%_trgm_idx' order by indexname`
+      );
+
+      expect(indexes.rows.map(index => index.indexname)).toEqual([
+        'skill_aliases_alias_trgm_idx',
+        'skill_translations_description_trgm_idx',
+        'skill_translations_name_trgm_idx',
+        'skills_category_trgm_idx',
+        'skills_description_trgm_idx',
+        'skills_name_trgm_idx'
+      ]);
+      expect(indexes.rows.every(index => index.indexdef.includes('USING gin') && index.indexdef.includes('gin_trgm_ops'))).toBe(true);
+    });
+
     it('should find skills by name (case insensitive)', async () => {
       const result = await searchSkills('welding');
       
@@ -162,6 +207,159 @@ describe('Skills Handlers', () => {
       const result = await searchSkills('plumb');
       expect(result).toHaveLength(0);
     });
+
+    it('should rank related word forms by relevance', async () => {
+      const result = await searchSkills('welder');
+
+      expect(result[0].name).toBe('Welding');
+      expect(result[0].highlight).toEqual({ field: 'name', text: 'Welding', ranges: [{ start: 0, length: 7 }] });
+    });
+
+    it('should tolerate typos', async () => {
+      const result = await searchSkills('electritian');
+
+      expect(result[0].name).toBe('Electrical Work');
+      expect(result[0].score).toBeGreaterThan(0);
+    });
+
+    it('should rank name matches above description matches', async () => {
+      await db.insert(skillsTable).values({
+        name: 'Wiring Inspection',
+        category: 'Technical',
+        description: null
+      }).execute();
+
+      const result = await searchSkills('wiring');
+
+      expect(result.map(skill => skill.name)).toEqual(['Wiring Inspection', 'Electrical Work']);
+      expect(result[1].highlight.field).toBe('description');
+      expect(result[1].highlight.ranges).toEqual([{ start: 6, length: 6 }]);
+    });
+
+    it('should find skills by alias', async () => {
+      const skills = await db.select().from(skillsTable).where(eq(skillsTable.name, 'Carpentry')).execute();
+      await addSkillAlias({ skill_id: skills[0].id, alias: 'Fundi wa mbao', locale: 'sw' });
+
+      const result = await searchSkills('fundi');
+
+      expect(result[0].name).toBe('Carpentry');
+      expect(result[0].highlight).toEqual({ field: 'alias', text: 'Fundi wa mbao', ranges: [{ start: 0, length: 5 }] });
+    });
+
+    it('should treat LIKE wildcards literally', async () => {
+      const result = await searchSkills('%');
+      expect(result).toHaveLength(0);
+    });
+  });
+
+  describe('autocompleteSkills', () => {
+    beforeEach(async () => {
+      const skills = await db.insert(skillsTable).values([
+        { name: 'Electrical Work', category: 'Technical' },
+        { name: 'Electronics Repair', category: 'Technical' },
+        { name: 'Plumbing', category: 'Construction' },
+        { name: 'Election Monitoring', category: 'Civic', is_active: false }
+      ]).returning().execute();
+      await addSkillAlias({ skill_id: skills[2].id, alias: 'Fundi bomba', locale: 'sw' });
+    });
+
+    it('should suggest skills by prefix', async () => {
+      const result = await autocompleteSkills({ query: 'elec' });
+
+      expect(result.map(suggestion => suggestion.name)).toEqual(['Electrical Work', 'Electronics Repair']);
+      expect(result[0].matched_alias).toBeNull();
+    });
+
+    it('should say which alias matched', async () => {
+      const result = await autocompleteSkills({ query: 'fundi b' });
+
+      expect(result[0]).toEqual({ skill_id: expect.any(Number), name: 'Plumbing', category: 'Construction', matched_alias: 'Fundi bomba' });
+    });
+
+    it('should respect the limit', async () => {
+      expect(await autocompleteSkills({ query: 'elec', limit: 1 })).toHaveLength(1);
+    });
+  });
+
+  describe('updateSkill', () => {
+    let skillId: number;
+
+    beforeEach(async () => {
+      const skills = await db.insert(skillsTable).values({ name: 'Weldng', category: 'Technical' }).returning().execute();
+      skillId = skills[0].id;
+    });
+
+    it('should update only the given fields', async () => {
+      const skill = await updateSkill({ id: skillId, name: 'Welding', icon: 'weld.png' });
+
+      expect(skill.name).toBe('Welding');
+      expect(skill.icon).toBe('weld.png');
+      expect(skill.category).toBe('Technical');
+    });
+
+    it('should move the skill to another category', async () => {
+      const category = await createSkillCategory({ name: 'Metalwork' });
+      const skill = await updateSkill({ id: skillId, category_id: category.id });
+
+      expect(skill.category_id).toEqual(category.id);
+      expect(skill.category).toBe('Metalwork');
+    });
+
+    it('should throw error when skill does not exist', async () => {
+      await expect(updateSkill({ id: 99999, name: 'Welding' })).rejects.toThrow(/not found/i);
+    });
+  });
+
+  describe('deactivateSkill', () => {
+    let skillId: number;
+    let userId: number;
+
+    beforeEach(async () => {
+      const skills = await db.insert(skillsTable).values({ name: 'Welding', category: 'Technical' }).returning().execute();
+      skillId = skills[0].id;
+      const users = await db.insert(usersTable).values({ full_name: 'Worker', email: 'worker@example.com', password_hash: 'hash' }).returning().execute();
+      userId = users[0].id;
+    });
+
+    it('should hide the skill and stop new claims', async () => {
+      await deactivateSkill(skillId);
+
+      expect(await getSkills()).toHaveLength(0);
+      await expect(addUserSkill(userId, { skill_id: skillId })).rejects.toThrow(/no longer offered/i);
+    });
+
+    it('should keep existing claims and allow reactivation', async () => {
+      await addUserSkill(userId, { skill_id: skillId });
+      await deactivateSkill(skillId);
+
+      expect(await getUserSkills(userId)).toHaveLength(1);
+
+      await updateSkill({ id: skillId, is_active: true });
+      expect(await getSkills()).toHaveLength(1);
+    });
+  });
+
+  describe('skill aliases', () => {
+    let skillId: number;
+
+    beforeEach(async () => {
+      const skills = await db.insert(skillsTable).values({ name: 'Plumbing', category: 'Construction' }).returning().execute();
+      skillId = skills[0].id;
+    });
+
+    it('should reject the same alias twice regardless of case', async () => {
+      await addSkillAlias({ skill_id: skillId, alias: 'Fundi bomba' });
+      await expect(addSkillAlias({ skill_id: skillId, alias: 'FUNDI BOMBA' })).rejects.toThrow(/already has this alias/i);
+    });
+
+    it('should list and remove aliases', async () => {
+      const alias = await addSkillAlias({ skill_id: skillId, alias: 'Pipe fitting' });
+      expect((await getSkillAliases(skillId)).map(entry => entry.alias)).toEqual(['Pipe fitting']);
+
+      await removeSkillAlias(alias.id);
+      expect(await getSkillAliases(skillId)).toHaveLength(0);
+      await expect(removeSkillAlias(alias.id)).rejects.toThrow(/not found/i);
+    });
   });
 
   describe('createSkill', () => {
@@ -281,6 +479,14 @@ describe('Skills Handlers', () => {
       // Try to add same skill again
       expect(addUserSkill(userId, testInput)).rejects.toThrow(/already has this skill/i);
     });
+
+    it('should keep one active row when the skill is added twice at once', async () => {
+      const results = await Promise.allSettled([addUserSkill(userId, testInput), addUserSkill(userId, testInput)]);
+
+      expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+      const rows = await db.select().from(userSkillsTable).where(eq(userSkillsTable.user_id, userId)).execute();
+      expect(rows).toHaveLength(1);
+    });
   });
 
   describe('getUserSkills', () => {
@@ -364,4 +570,104 @@ describe('Skills Handlers', () => {
       expect(result[0].created_at).toBeInstanceOf(Date);
     });
   });
+
+  describe('removeUserSkill', () => {
+    let userId: number;
+    let skillId: number;
+    let userSkillId: number;
+
+    beforeEach(async () => {
+      const users = await db.insert(usersTable).values({
+        full_name: 'Test User',
+        email: 'test@example.com',
+        password_hash: 'hashed_password'
+      }).returning().execute();
+      userId = users[0].id;
+
+      const skills = await db.insert(skillsTable).values({ name: 'Welding', category: 'Construction' }).returning().execute();
+      skillId = skills[0].id;
+
+      const userSkills = await db.insert(userSkillsTable).values({
+        user_id: userId,
+        skill_id: skillId,
+        is_verified: true,
+        verification_date: new Date()
+      }).returning().execute();
+      userSkillId = userSkills[0].id;
+
+      const tests = await db.insert(miniTestsTable).values({ skill_id: skillId, title: 'Welding basics', passing_score: 70 }).returning().execute();
+      await db.insert(skillProofsTable).values({ user_skill_id: userSkillId, file_url: 'https://example.com/weld.jpg', file_type: 'image' }).execute();
+      await db.insert(testAttemptsTable).values({ user_skill_id: userSkillId, test_id: tests[0].id, score: 9, total_points: 10, passed: true, answers: '{}' }).execute();
+      await db.insert(certificatesTable).values({ user_skill_id: userSkillId, certificate_number: 'CERT-WELD-1', qr_code: 'qr' }).execute();
+    });
+
+    it('should archive the user skill and keep its history', async () => {
+      const result = await removeUserSkill(userId, userSkillId);
+      expect(result.archived_at).toBeInstanceOf(Date);
+
+      expect(await getUserSkills(userId)).toHaveLength(0);
+
+      const proofs = await db.select().from(skillProofsTable).where(eq(skillProofsTable.user_skill_id, userSkillId)).execute();
+      const attempts = await db.select().from(testAttemptsTable).where(eq(testAttemptsTable.user_skill_id, userSkillId)).execute();
+      expect(proofs).toHaveLength(1);
+      expect(attempts).toHaveLength(1);
+
+      const certificates = await db.select().from(certificatesTable).where(eq(certificatesTable.user_skill_id, userSkillId)).execute();
+      expect(certificates[0].is_active).toBe(false);
+      expect(await verifyCertificate('CERT-WELD-1')).toBeNull();
+
+      const events = await getAuditEvents({ action: 'user_skill.archived', limit: 10 });
+      expect(events.events.map(event => event.target_id)).toEqual([userSkillId]);
+      expect(events.events[0].after).toMatchObject({ deactivated_certificate_ids: [certificates[0].id] });
+    });
+
+    it('should take the skill off the marketplace', async () => {
+      expect(await getMarketplaceWorkers({})).toHaveLength(1);
+
+      await removeUserSkill(userId, userSkillId);
+      expect(await getMarketplaceWorkers({})).toHaveLength(0);
+    });
+
+    it('should stop listing the proofs and endorsements of the removed skill', async () => {
+      const endorsers = await db.insert(usersTable).values({ full_name: 'Endorsing Employer', email: 'employer@example.com', password_hash: 'hashed_password' }).returning().execute();
+      await db.insert(endorsementsTable).values({ user_skill_id: userSkillId, endorser_id: endorsers[0].id, relationship: 'employer', statement: 'Solid welds' }).execute();
+      expect(await getSkillProofs(userSkillId)).toHaveLength(1);
+      expect(await getSkillEndorsements(userSkillId)).toHaveLength(1);
+
+      await removeUserSkill(userId, userSkillId);
+
+      expect(await getSkillProofs(userSkillId)).toEqual([]);
+      expect(await getSkillEndorsements(userSkillId)).toEqual([]);
+    });
+
+    it('should allow adding the skill again', async () => {
+      await removeUserSkill(userId, userSkillId);
+
+      const readded = await addUserSkill(userId, { skill_id: skillId });
+      expect(readded.id).not.toEqual(userSkillId);
+      expect(readded.is_verified).toBe(false);
+      expect((await getUserSkills(userId)).map(userSkill => userSkill.id)).toEqual([readded.id]);
+    });
+
+    it('should only remove the caller\'s own active skills', async () => {
+      const others = await db.insert(usersTable).values({ full_name: 'Other User', email: 'other@example.com', password_hash: 'hashed_password' }).returning().execute();
+      await expect(removeUserSkill(others[0].id, userSkillId)).rejects.toThrow(/user skill not found/i);
+
+      await removeUserSkill(userId, userSkillId);
+      await expect(removeUserSkill(userId, userSkillId)).rejects.toThrow(/user skill not found/i);
+    });
+
+    it('should not fold an archived user skill into an active one on merge', async () => {
+      await removeUserSkill(userId, userSkillId);
+      const [duplicate] = await db.insert(skillsTable).values({ name: 'Arc welding', category: 'Construction' }).returning().execute();
+      const active = await addUserSkill(userId, { skill_id: duplicate.id });
+
+      await mergeSkills({ source_id: skillId, target_id: duplicate.id });
+
+      const rows = await db.select().from(userSkillsTable).where(eq(userSkillsTable.user_id, userId)).execute();
+      expect(rows).toHaveLength(2);
+      expect(rows.every(row => row.skill_id === duplicate.id)).toBe(true);
+      expect((await getUserSkills(userId)).map(userSkill => userSkill.id)).toEqual([active.id]);
+    });
+  });
 });
\ No newline at end of file
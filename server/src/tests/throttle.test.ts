@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { loginAttemptsTable } from '../db/schema';
+import {
+  blockDuration,
+  createMemoryAttemptStore,
+  createPostgresAttemptStore,
+  setAttemptStore,
+  assertNotThrottled,
+  recordFailure,
+  resetFailures,
+  accountPolicy,
+  type ThrottlePolicy
+} from '../lib/throttle';
+
+const testPolicy: ThrottlePolicy = {
+  freeAttempts: 2,
+  lockoutThreshold: 5,
+  lockoutMs: 60 * 1000,
+  baseBackoffMs: 1000,
+  maxBackoffMs: 4000
+};
+
+describe('Login throttling', () => {
+  describe('blockDuration', () => {
+    it('should allow free attempts, then back off exponentially up to the cap', () => {
+      expect(blockDuration(1, testPolicy)).toEqual(0);
+      expect(blockDuration(2, testPolicy)).toEqual(0);
+      expect(blockDuration(3, testPolicy)).toEqual(1000);
+      expect(blockDuration(4, testPolicy)).toEqual(2000);
+    });
+
+    it('should lock out at the threshold', () => {
+      expect(blockDuration(5, testPolicy)).toEqual(60 * 1000);
+      expect(blockDuration(8, testPolicy)).toEqual(60 * 1000);
+    });
+
+    it('should cap the backoff', () => {
+      const policy = { ...testPolicy, lockoutThreshold: 100 };
+      expect(blockDuration(10, policy)).toEqual(4000);
+    });
+  });
+
+  describe('in-memory store', () => {
+    beforeEach(() => setAttemptStore(createMemoryAttemptStore()));
+    afterEach(() => setAttemptStore(createPostgresAttemptStore()));
+
+    it('should block a key after too many failures', async () => {
+      for (let i = 0; i < 3; i++) {
+        await recordFailure([{ key: 'account:a@test.com', policy: testPolicy }]);
+      }
+
+      await expect(assertNotThrottled(['account:a@test.com'])).rejects.toMatchObject({ code: 'TOO_MANY_REQUESTS' });
+      await expect(assertNotThrottled(['account:b@test.com'])).resolves.toBeUndefined();
+    });
+
+    it('should report the lockout exactly once', async () => {
+      const results = [];
+      for (let i = 0; i < 6; i++) {
+        results.push((await recordFailure([{ key: 'account:a@test.com', policy: testPolicy }])).locked);
+      }
+
+      expect(results).toEqual([false, false, false, false, true, false]);
+    });
+
+    it('should forget failures on reset', async () => {
+      for (let i = 0; i < 3; i++) {
+        await recordFailure([{ key: 'account:a@test.com', policy: testPolicy }]);
+      }
+
+      await resetFailures('account:a@test.com');
+      await expect(assertNotThrottled(['account:a@test.com'])).resolves.toBeUndefined();
+    });
+
+    it('should restart the count after the window', async () => {
+      const store = createMemoryAttemptStore();
+      const now = new Date();
+
+      await store.increment('k', new Date(now.getTime() - 2 * 60 * 60 * 1000), new Date(0));
+      const failures = await store.increment('k', now, new Date(now.getTime() - 60 * 60 * 1000));
+
+      expect(failures).toEqual(1);
+    });
+  });
+
+  describe('Postgres store', () => {
+    beforeEach(createDB);
+    afterEach(resetDB);
+
+    it('should count failures atomically and persist the block', async () => {
+      await Promise.all(Array.from({ length: 5 }, () =>
+        recordFailure([{ key: 'account:a@test.com', policy: accountPolicy }])
+      ));
+
+      const rows = await db.select().from(loginAttemptsTable).execute();
+      expect(rows).toHaveLength(1);
+      expect(rows[0].failures).toEqual(5);
+      expect(rows[0].blocked_until).toBeInstanceOf(Date);
+
+      await expect(assertNotThrottled(['account:a@test.com'])).rejects.toMatchObject({ code: 'TOO_MANY_REQUESTS' });
+    });
+
+    it('should restart the count after the window', async () => {
+      const store = createPostgresAttemptStore();
+      const now = new Date();
+
+      await store.increment('k', new Date(now.getTime() - 2 * 60 * 60 * 1000), new Date(0));
+      expect(await store.increment('k', now, new Date(now.getTime() - 60 * 60 * 1000))).toEqual(1);
+      expect(await store.increment('k', now, new Date(now.getTime() - 60 * 60 * 1000))).toEqual(2);
+    });
+  });
+});
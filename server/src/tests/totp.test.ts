@@ -0,0 +1,261 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { totpCredentialsTable, recoveryCodesTable, sessionsTable } from '../db/schema';
+import { registerUser, loginUser, authenticateToken } from '../handlers/auth';
+import {
+  startTotpEnrollment,
+  confirmTotpEnrollment,
+  completeTwoFactorLogin,
+  regenerateRecoveryCodes,
+  disableTwoFactor
+} from '../handlers/totp';
+import { base32Encode, base32Decode, hotp, verifyTotp, currentStep, otpauthUri } from '../lib/totp';
+import { eq } from 'drizzle-orm';
+
+// RFC 6238 appendix B test secret
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('TOTP', () => {
+  it('should round-trip base32', () => {
+    const bytes = Buffer.from('skill-proof two factor');
+    expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+    expect(RFC_SECRET).toEqual('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+  });
+
+  it('should match the RFC 6238 test vectors', () => {
+    expect(hotp(RFC_SECRET, currentStep(59 * 1000))).toEqual('287082');
+    expect(hotp(RFC_SECRET, currentStep(1111111109 * 1000))).toEqual('081804');
+    expect(hotp(RFC_SECRET, currentStep(2000000000 * 1000))).toEqual('279037');
+  });
+
+  it('should accept one step of clock drift either way', () => {
+    const now = 1111111109 * 1000;
+    const step = currentStep(now);
+
+    expect(verifyTotp(RFC_SECRET, hotp(RFC_SECRET, step - 1), now)).toEqual(step - 1);
+    expect(verifyTotp(RFC_SECRET, hotp(RFC_SECRET, step + 1), now)).toEqual(step + 1);
+    expect(verifyTotp(RFC_SECRET, hotp(RFC_SECRET, step + 2), now)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, 'abcdef', now)).toBeNull();
+  });
+
+  it('should build an otpauth URI for authenticator apps', () => {
+    const uri = otpauthUri(RFC_SECRET, 'jane@example.com', 'Skill-Proof');
+    expect(uri).toStartWith('otpauth://totp/Skill-Proof%3Ajane%40example.com?');
+    expect(uri).toContain(`secret=${RFC_SECRET}`);
+    expect(uri).toContain('issuer=Skill-Proof');
+  });
+});
+
+describe('Two-Factor Handlers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const credentials = { email: 'employer@example.com', password: 'password123' };
+  let userId: number;
+
+  beforeEach(async () => {
+    const user = await registerUser({ full_name: 'Erin Employer', phone: null, ...credentials });
+    userId = user.id;
+  });
+
+  // Enrolls an authenticator and returns its secret and recovery codes
+  const enroll = async () => {
+    const { secret } = await startTotpEnrollment(userId);
+    const { recovery_codes } = await confirmTotpEnrollment(userId, { code: hotp(secret, currentStep()) });
+    return { secret, recovery_codes };
+  };
+
+  // A code the authenticator shows next, so it is not rejected as a replay of the enrollment code
+  const nextCode = (secret: string) => hotp(secret, currentStep() + 1);
+
+  const challenge = async () => {
+    const result = await loginUser(credentials);
+    if (!result.two_factor_required) throw new Error('Expected a two-factor challenge');
+    return result.challenge_token;
+  };
+
+  describe('enrollment', () => {
+    it('should return a secret, otpauth URI and QR code', async () => {
+      const enrollment = await startTotpEnrollment(userId);
+
+      expect(enrollment.secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(enrollment.otpauth_uri).toContain(enrollment.secret);
+      expect(enrollment.qr_code).toStartWith('data:image/png;base64,');
+    });
+
+    it('should only enable two-factor once a code is confirmed', async () => {
+      const { secret } = await startTotpEnrollment(userId);
+      expect((await loginUser(credentials)).two_factor_required).toBe(false);
+
+      await expect(confirmTotpEnrollment(userId, { code: hotp(secret, currentStep() + 10) }))
+        .rejects.toThrow(/invalid authentication code/i);
+
+      const { recovery_codes } = await confirmTotpEnrollment(userId, { code: hotp(secret, currentStep()) });
+      expect(recovery_codes).toHaveLength(10);
+      expect(new Set(recovery_codes).size).toEqual(10);
+      expect((await loginUser(credentials)).two_factor_required).toBe(true);
+    });
+
+    it('should store recovery codes hashed', async () => {
+      const { recovery_codes } = await enroll();
+
+      const stored = await db.select().from(recoveryCodesTable).where(eq(recoveryCodesTable.user_id, userId)).execute();
+      expect(stored).toHaveLength(10);
+      expect(stored.map(row => row.code_hash)).not.toContain(recovery_codes[0]);
+    });
+
+    it('should refuse to enroll twice', async () => {
+      await enroll();
+      await expect(startTotpEnrollment(userId)).rejects.toThrow(/already enabled/i);
+    });
+
+    it('should report the second factor on the authenticated user', async () => {
+      const result = await loginUser(credentials);
+      if (result.two_factor_required) throw new Error('Unexpected two-factor challenge');
+
+      expect((await authenticateToken(result.token)).two_factor_enabled).toBe(false);
+      await enroll();
+      expect((await authenticateToken(result.token)).two_factor_enabled).toBe(true);
+    });
+  });
+
+  describe('login', () => {
+    it('should not open a session before the second factor', async () => {
+      await enroll();
+      await challenge();
+
+      const sessions = await db.select().from(sessionsTable).where(eq(sessionsTable.user_id, userId)).execute();
+      expect(sessions).toHaveLength(0);
+    });
+
+    it('should complete login with a TOTP code', async () => {
+      const { secret } = await enroll();
+
+      const result = await completeTwoFactorLogin({ challenge_token: await challenge(), code: nextCode(secret) });
+      if (result.two_factor_required) throw new Error('Unexpected two-factor challenge');
+
+      expect(result.user.id).toEqual(userId);
+      expect((await authenticateToken(result.token)).id).toEqual(userId);
+    });
+
+    it('should reject a replayed TOTP code', async () => {
+      const { secret } = await enroll();
+      const code = nextCode(secret);
+
+      await completeTwoFactorLogin({ challenge_token: await challenge(), code });
+      await expect(completeTwoFactorLogin({ challenge_token: await challenge(), code }))
+        .rejects.toThrow(/invalid authentication code/i);
+    });
+
+    it('should accept each recovery code once', async () => {
+      const { recovery_codes } = await enroll();
+      const code = recovery_codes[0].toUpperCase().replace('-', ' ');
+
+      const result = await completeTwoFactorLogin({ challenge_token: await challenge(), code });
+      expect(result.two_factor_required).toBe(false);
+
+      await expect(completeTwoFactorLogin({ challenge_token: await challenge(), code }))
+        .rejects.toThrow(/invalid authentication code/i);
+    });
+
+    it('should reject tokens that are not two-factor challenges', async () => {
+      await enroll();
+      await expect(completeTwoFactorLogin({ challenge_token: 'not-a-token', code: '123456' }))
+        .rejects.toThrow();
+    });
+
+    it('should throttle repeated wrong codes', async () => {
+      await enroll();
+      const challengeToken = await challenge();
+
+      for (let i = 0; i < 4; i++) {
+        await expect(completeTwoFactorLogin({ challenge_token: challengeToken, code: 'wrong-code' }))
+          .rejects.toThrow(/invalid authentication code/i);
+      }
+
+      await expect(completeTwoFactorLogin({ challenge_token: challengeToken, code: 'wrong-code' }))
+        .rejects.toMatchObject({ code: 'TOO_MANY_REQUESTS' });
+    });
+
+    it('should accept a TOTP code only once when used concurrently', async () => {
+      const { secret } = await enroll();
+      const code = nextCode(secret);
+      const [first, second] = [await challenge(), await challenge()];
+
+      const results = await Promise.allSettled([
+        completeTwoFactorLogin({ challenge_token: first, code }),
+        completeTwoFactorLogin({ challenge_token: second, code })
+      ]);
+      expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    });
+  });
+
+  describe('recovery codes', () => {
+    it('should replace every recovery code', async () => {
+      const { secret, recovery_codes } = await enroll();
+
+      const regenerated = await regenerateRecoveryCodes(userId, { code: nextCode(secret) });
+      expect(regenerated.recovery_codes).toHaveLength(10);
+
+      await expect(completeTwoFactorLogin({ challenge_token: await challenge(), code: recovery_codes[0] }))
+        .rejects.toThrow(/invalid authentication code/i);
+      const result = await completeTwoFactorLogin({ challenge_token: await challenge(), code: regenerated.recovery_codes[0] });
+      expect(result.two_factor_required).toBe(false);
+    });
+
+    it('should throttle repeated wrong codes', async () => {
+      const { secret } = await enroll();
+
+      for (let i = 0; i < 4; i++) {
+        await expect(regenerateRecoveryCodes(userId, { code: 'wrong-code' }))
+          .rejects.toThrow(/invalid authentication code/i);
+      }
+
+      await expect(regenerateRecoveryCodes(userId, { code: nextCode(secret) }))
+        .rejects.toMatchObject({ code: 'TOO_MANY_REQUESTS' });
+    });
+  });
+
+  describe('disableTwoFactor', () => {
+    it('should require the password', async () => {
+      const { secret } = await enroll();
+
+      await expect(disableTwoFactor(userId, { password: 'wrong', code: nextCode(secret) }))
+        .rejects.toThrow(/password is incorrect/i);
+      expect((await loginUser(credentials)).two_factor_required).toBe(true);
+    });
+
+    it('should require a valid code', async () => {
+      await enroll();
+
+      await expect(disableTwoFactor(userId, { password: credentials.password, code: 'wrong-code' }))
+        .rejects.toThrow(/invalid authentication code/i);
+    });
+
+    it('should throttle repeated wrong passwords and codes', async () => {
+      const { secret } = await enroll();
+
+      for (let i = 0; i < 2; i++) {
+        await expect(disableTwoFactor(userId, { password: 'wrong', code: nextCode(secret) }))
+          .rejects.toThrow(/password is incorrect/i);
+        await expect(disableTwoFactor(userId, { password: credentials.password, code: 'wrong-code' }))
+          .rejects.toThrow(/invalid authentication code/i);
+      }
+
+      await expect(disableTwoFactor(userId, { password: credentials.password, code: nextCode(secret) }))
+        .rejects.toMatchObject({ code: 'TOO_MANY_REQUESTS' });
+      expect((await loginUser(credentials)).two_factor_required).toBe(true);
+    });
+
+    it('should remove the authenticator and recovery codes', async () => {
+      const { secret } = await enroll();
+
+      await disableTwoFactor(userId, { password: credentials.password, code: nextCode(secret) });
+
+      expect(await db.select().from(totpCredentialsTable).execute()).toHaveLength(0);
+      expect(await db.select().from(recoveryCodesTable).execute()).toHaveLength(0);
+      expect((await loginUser(credentials)).two_factor_required).toBe(false);
+    });
+  });
+});
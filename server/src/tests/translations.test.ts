@@ -0,0 +1,178 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { type CreateHTTPContextOptions } from '@trpc/server/adapters/standalone';
+import { db } from '../db';
+import { usersTable, skillsTable, skillAliasesTable, userSkillsTable, miniTestsTable } from '../db/schema';
+import {
+  setSkillTranslation,
+  removeSkillTranslation,
+  getSkillTranslations,
+  setTestTranslation,
+  removeTestTranslation,
+  getTestTranslations
+} from '../handlers/translations';
+import { getSkills, searchSkills, autocompleteSkills } from '../handlers/skills';
+import { getTestsForSkill } from '../handlers/tests';
+import { getMarketplaceWorkers, getWorkerProfile } from '../handlers/marketplace';
+import { mergeSkills } from '../handlers/merges';
+import { negotiateLocale } from '../lib/locale';
+import { appRouter } from '../router';
+import { createCallerFactory, createContext } from '../trpc';
+import { eq } from 'drizzle-orm';
+
+const createCaller = createCallerFactory(appRouter);
+
+const callerWithLanguage = async (acceptLanguage: string) => createCaller(await createContext({
+  req: { headers: { 'accept-language': acceptLanguage } }
+} as CreateHTTPContextOptions));
+
+describe('negotiateLocale', () => {
+  it('should pick the highest ranked supported language', () => {
+    expect(negotiateLocale('de-DE,fr;q=0.5,sw;q=0.8')).toEqual('sw');
+    expect(negotiateLocale('fr-CA')).toEqual('fr');
+    expect(negotiateLocale('sw;q=0.9,fr;q=0.9')).toEqual('sw');
+  });
+
+  it('should fall back to the default language', () => {
+    expect(negotiateLocale(undefined)).toEqual('en');
+    expect(negotiateLocale('de,it;q=0.5')).toEqual('en');
+    expect(negotiateLocale('fr;q=0')).toEqual('en');
+  });
+});
+
+describe('Skill translations', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let weldingId: number;
+  let plumbingId: number;
+  let testId: number;
+
+  beforeEach(async () => {
+    const skills = await db.insert(skillsTable).values([
+      { name: 'Welding', category: 'Construction', description: 'Joining metal with heat' },
+      { name: 'Plumbing', category: 'Construction', description: 'Pipes and fittings' }
+    ]).returning().execute();
+    [weldingId, plumbingId] = skills.map(skill => skill.id);
+
+    await setSkillTranslation({ skill_id: weldingId, locale: 'sw', name: 'Uchomeleaji', description: 'Kuunganisha chuma kwa joto' });
+    await setSkillTranslation({ skill_id: weldingId, locale: 'fr', name: 'Soudage' });
+
+    const tests = await db.insert(miniTestsTable).values([
+      { skill_id: weldingId, title: 'Welding safety', description: 'Protective gear', passing_score: 70 },
+      { skill_id: weldingId, title: 'Arc welding', passing_score: 70 }
+    ]).returning().execute();
+    testId = tests[0].id;
+  });
+
+  describe('managing translations', () => {
+    it('should replace the translation for a locale', async () => {
+      await setSkillTranslation({ skill_id: weldingId, locale: 'fr', name: 'Soudure', description: 'Assemblage du métal' });
+
+      const translations = await getSkillTranslations(weldingId);
+      expect(translations.map(translation => [translation.locale, translation.name])).toEqual([['fr', 'Soudure'], ['sw', 'Uchomeleaji']]);
+      expect(translations[0].description).toEqual('Assemblage du métal');
+    });
+
+    it('should reject the default language and unknown skills or tests', async () => {
+      await expect(setSkillTranslation({ skill_id: weldingId, locale: 'en', name: 'Welding' }))
+        .rejects.toThrow(/default language/i);
+      await expect(setSkillTranslation({ skill_id: 99999, locale: 'fr', name: 'Soudage' }))
+        .rejects.toThrow(/not found/i);
+      await expect(setTestTranslation({ test_id: 99999, locale: 'fr', title: 'Sécurité' }))
+        .rejects.toThrow(/test not found/i);
+    });
+
+    it('should remove translations', async () => {
+      await setTestTranslation({ test_id: testId, locale: 'sw', title: 'Usalama wa kuchomelea' });
+
+      expect(await removeSkillTranslation(weldingId, 'fr')).toEqual({ success: true });
+      expect((await getSkillTranslations(weldingId)).map(translation => translation.locale)).toEqual(['sw']);
+      await expect(removeSkillTranslation(weldingId, 'fr')).rejects.toThrow(/not found/i);
+
+      expect(await removeTestTranslation(testId, 'sw')).toEqual({ success: true });
+      expect(await getTestTranslations(testId)).toEqual([]);
+    });
+  });
+
+  describe('localized reads', () => {
+    it('should list skills in the requested language, falling back per field', async () => {
+      const swahili = await getSkills({ locale: 'sw' });
+      expect(swahili.map(skill => skill.name)).toEqual(['Plumbing', 'Uchomeleaji']);
+      expect(swahili[1].description).toEqual('Kuunganisha chuma kwa joto');
+
+      const french = await getSkills({ locale: 'fr' });
+      const welding = french.find(skill => skill.id === weldingId)!;
+      expect(welding.name).toEqual('Soudage');
+      expect(welding.description).toEqual('Joining metal with heat');
+
+      expect((await getSkills()).map(skill => skill.name)).toEqual(['Plumbing', 'Welding']);
+    });
+
+    it('should search translated and default names alike', async () => {
+      const byTranslation = await searchSkills('uchomeleaji', 'sw');
+      expect(byTranslation[0].id).toEqual(weldingId);
+      expect(byTranslation[0].name).toEqual('Uchomeleaji');
+      expect(byTranslation[0].highlight).toMatchObject({ field: 'name', text: 'Uchomeleaji' });
+
+      const byDefaultName = await searchSkills('welding', 'sw');
+      expect(byDefaultName[0].id).toEqual(weldingId);
+      expect(byDefaultName[0].name).toEqual('Uchomeleaji');
+
+      // Translations only match in their own language
+      expect(await searchSkills('uchomeleaji', 'fr')).toEqual([]);
+    });
+
+    it('should suggest translated names', async () => {
+      const suggestions = await autocompleteSkills({ query: 'souda', locale: 'fr' });
+      expect(suggestions[0]).toMatchObject({ skill_id: weldingId, name: 'Soudage' });
+    });
+
+    it('should localize test titles and descriptions', async () => {
+      await setTestTranslation({ test_id: testId, locale: 'fr', title: 'Sécurité du soudage' });
+
+      const tests = await getTestsForSkill(weldingId, 'fr');
+      const safety = tests.find(test => test.id === testId)!;
+      expect(safety.title).toEqual('Sécurité du soudage');
+      expect(safety.description).toEqual('Protective gear');
+      expect(tests.map(test => test.title)).toContain('Arc welding');
+
+      expect((await getTestsForSkill(weldingId)).find(test => test.id === testId)!.title).toEqual('Welding safety');
+    });
+
+    it('should localize skill names on the marketplace', async () => {
+      const [worker] = await db.insert(usersTable).values({ full_name: 'Amani Fundi', email: 'amani@example.com', password_hash: 'hash' }).returning().execute();
+      await db.insert(userSkillsTable).values([
+        { user_id: worker.id, skill_id: weldingId, is_verified: true, verification_date: new Date() },
+        { user_id: worker.id, skill_id: plumbingId, is_verified: true, verification_date: new Date() }
+      ]).execute();
+
+      const [listed] = await getMarketplaceWorkers({ locale: 'sw' });
+      expect(listed.verified_skills.map(skill => skill.skill_name).sort()).toEqual(['Plumbing', 'Uchomeleaji']);
+
+      const profile = await getWorkerProfile(worker.id, 'fr');
+      expect(profile.verified_skills.map(skill => skill.skill_name).sort()).toEqual(['Plumbing', 'Soudage']);
+    });
+  });
+
+  describe('routes', () => {
+    it('should follow Accept-Language unless a locale is given', async () => {
+      const caller = await callerWithLanguage('sw-KE,sw;q=0.9,en;q=0.8');
+
+      expect((await caller.getSkills()).map(skill => skill.name)).toContain('Uchomeleaji');
+      expect((await caller.getSkills({ locale: 'fr' })).map(skill => skill.name)).toContain('Soudage');
+      expect((await caller.searchSkills('welding'))[0].name).toEqual('Uchomeleaji');
+    });
+  });
+
+  it('should keep translated names of a merged skill as aliases of the target', async () => {
+    await mergeSkills({ source_id: weldingId, target_id: plumbingId });
+
+    const aliases = await db.select().from(skillAliasesTable).where(eq(skillAliasesTable.skill_id, plumbingId)).execute();
+    expect(aliases.map(alias => [alias.alias, alias.locale]).sort()).toEqual([
+      ['Soudage', 'fr'],
+      ['Uchomeleaji', 'sw'],
+      ['Welding', null]
+    ]);
+  });
+});
@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { type CreateHTTPContextOptions } from '@trpc/server/adapters/standalone';
+import { registerUser, loginUser } from '../handlers/auth';
+import { router, publicProcedure, protectedProcedure, verifiedProcedure, createCallerFactory, createContext, requestMetadata } from '../trpc';
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { eq } from 'drizzle-orm';
+
+const testRouter = router({
+  whoami: protectedProcedure.query(({ ctx }) => ctx.user),
+  verifiedOnly: verifiedProcedure.query(() => 'ok'),
+  ping: publicProcedure.query(({ ctx }) => ({ authenticated: ctx.user !== null }))
+});
+
+const createCaller = createCallerFactory(testRouter);
+
+// Minimal request stand-in carrying only the headers createContext reads
+const contextFor = (authorization?: string) => createContext({
+  req: { headers: authorization ? { authorization } : {} }
+} as CreateHTTPContextOptions);
+
+describe('requestMetadata', () => {
+  const request = (forwardedFor?: string) => ({
+    headers: forwardedFor ? { 'x-forwarded-for': forwardedFor } : {},
+    socket: { remoteAddress: '10.0.0.5' }
+  }) as unknown as CreateHTTPContextOptions['req'];
+
+  it('should ignore X-Forwarded-For without a trusted proxy', () => {
+    expect(requestMetadata(request('203.0.113.7'), 0).ip_address).toEqual('10.0.0.5');
+  });
+
+  it('should take the address the outermost trusted proxy saw', () => {
+    // The client prepended a forged entry; the proxy appended the real one
+    expect(requestMetadata(request('198.51.100.1, 203.0.113.7'), 1).ip_address).toEqual('203.0.113.7');
+    expect(requestMetadata(request('198.51.100.1, 203.0.113.7, 10.0.0.2'), 2).ip_address).toEqual('203.0.113.7');
+  });
+
+  it('should fall back to the socket when the header has too few hops', () => {
+    expect(requestMetadata(request(), 1).ip_address).toEqual('10.0.0.5');
+    expect(requestMetadata(request('203.0.113.7'), 2).ip_address).toEqual('10.0.0.5');
+  });
+});
+
+describe('tRPC context', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let token: string;
+  let userId: number;
+
+  beforeEach(async () => {
+    const user = await registerUser({
+      full_name: 'John Doe',
+      email: 'john@example.com',
+      phone: null,
+      password: 'password123'
+    });
+    userId = user.id;
+
+    const result = await loginUser({ email: 'john@example.com', password: 'password123' });
+    if (result.two_factor_required) throw new Error('Unexpected two-factor challenge');
+    token = result.token;
+  });
+
+  describe('createContext', () => {
+    it('should resolve the user from a bearer token', async () => {
+      const ctx = await contextFor(`Bearer ${token}`);
+
+      expect(ctx.user).not.toBeNull();
+      expect(ctx.user!.id).toEqual(userId);
+      expect(ctx.user!.email).toEqual('john@example.com');
+    });
+
+    it('should return an anonymous context without a header', async () => {
+      const ctx = await contextFor();
+      expect(ctx.user).toBeNull();
+    });
+
+    it('should return an anonymous context for a tampered token', async () => {
+      const [header, payload] = token.split('.');
+      const ctx = await contextFor(`Bearer ${header}.${payload}.invalidsignature`);
+      expect(ctx.user).toBeNull();
+    });
+
+    it('should ignore non-bearer authorization schemes', async () => {
+      const ctx = await contextFor(`Basic ${token}`);
+      expect(ctx.user).toBeNull();
+    });
+  });
+
+  describe('protectedProcedure', () => {
+    it('should pass the authenticated user to the resolver', async () => {
+      const caller = createCaller(await contextFor(`Bearer ${token}`));
+      const result = await caller.whoami();
+
+      expect(result.id).toEqual(userId);
+    });
+
+    it('should reject unauthenticated calls with UNAUTHORIZED', async () => {
+      const caller = createCaller(await contextFor());
+
+      await expect(caller.whoami()).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+    });
+
+    it('should leave public procedures accessible', async () => {
+      const caller = createCaller(await contextFor());
+      const result = await caller.ping();
+
+      expect(result.authenticated).toBe(false);
+    });
+  });
+
+  describe('verifiedProcedure', () => {
+    it('should reject accounts without a verified email', async () => {
+      const caller = createCaller(await contextFor(`Bearer ${token}`));
+
+      await expect(caller.verifiedOnly()).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    });
+
+    it('should allow verified accounts', async () => {
+      await db.update(usersTable)
+        .set({ is_verified: true })
+        .where(eq(usersTable.id, userId))
+        .execute();
+
+      const caller = createCaller(await contextFor(`Bearer ${token}`));
+      expect(await caller.verifiedOnly()).toEqual('ok');
+    });
+  });
+});
@@ -0,0 +1,208 @@
+import { initTRPC, TRPCError } from '@trpc/server';
+import { type CreateHTTPContextOptions } from '@trpc/server/adapters/standalone';
+import superjson from 'superjson';
+import { type AuthUser, type AuditActor, type RequestMetadata, type Role, type ApiKeyScope, type Locale } from './schema';
+import { authenticateToken } from './handlers/auth';
+import { authenticateApiKey, isApiKey } from './handlers/apikeys';
+import { auditActor, recordAuditEvent } from './lib/audit';
+import { negotiateLocale } from './lib/locale';
+
+// Context available to every procedure
+export type Context = {
+  user: AuthUser | null;
+  meta: RequestMetadata;
+  actor: AuditActor; // recorded on audit events for changes made by this request
+  impersonating: boolean; // an admin is acting as ctx.user; clients show a banner
+  locale: Locale; // from Accept-Language; routes with a locale input prefer that
+};
+
+// Reverse proxies in front of the server. X-Forwarded-For is only read behind them; without
+// one any client could set it and pick its own address for audit records and throttling.
+const TRUSTED_PROXY_HOPS = parseInt(process.env['TRUSTED_PROXY_HOPS'] || '0', 10);
+
+export function requestMetadata(req: CreateHTTPContextOptions['req'], trustedProxyHops: number = TRUSTED_PROXY_HOPS): RequestMetadata {
+  const direct = req.socket?.remoteAddress ?? null;
+  const userAgent = req.headers['user-agent'] ?? null;
+
+  if (trustedProxyHops <= 0) {
+    return { ip_address: direct, user_agent: userAgent };
+  }
+
+  // Each trusted proxy appends the address it saw, so the client is the entry the outermost
+  // one added; anything further left was sent by the client and can be forged
+  const forwarded = req.headers['x-forwarded-for'];
+  const forwardedFor = (Array.isArray(forwarded) ? forwarded.join(',') : forwarded ?? '')
+    .split(',')
+    .map(hop => hop.trim())
+    .filter(hop => hop.length > 0);
+
+  return {
+    ip_address: forwardedFor.at(-trustedProxyHops) ?? direct,
+    user_agent: userAgent
+  };
+}
+
+export async function createContext({ req }: CreateHTTPContextOptions): Promise<Context> {
+  const meta = requestMetadata(req);
+  const locale = negotiateLocale(req.headers['accept-language']);
+
+  const header = req.headers.authorization;
+  if (!header || !header.startsWith('Bearer ')) {
+    return { user: null, meta, actor: auditActor(null, meta), impersonating: false, locale };
+  }
+
+  try {
+    // Integrations send an API key in the same header instead of a session token
+    const token = header.slice('Bearer '.length).trim();
+    const user = isApiKey(token) ? await authenticateApiKey(token) : await authenticateToken(token);
+    return {
+      user,
+      meta,
+      actor: auditActor(user.id, meta, user.api_key?.id ?? null, user.impersonator_id),
+      impersonating: user.impersonator_id !== null,
+      locale
+    };
+  } catch {
+    // Invalid, expired or revoked tokens are treated as anonymous; protected procedures reject them
+    return { user: null, meta, actor: auditActor(null, meta), impersonating: false, locale };
+  }
+}
+
+const t = initTRPC.context<Context>().create({
+  transformer: superjson,
+});
+
+export const router = t.router;
+export const createCallerFactory = t.createCallerFactory;
+
+// Everything an admin changes while acting as a user lands on the audit trail, whatever the route
+const recordImpersonatedMutation = t.middleware(async ({ ctx, type, path, getRawInput, next }) => {
+  if (type !== 'mutation' || !ctx.impersonating || !ctx.user) {
+    return next();
+  }
+
+  const result = await next();
+  const input = await getRawInput();
+
+  await recordAuditEvent(ctx.actor, {
+    action: 'impersonation.mutation',
+    target_type: 'user',
+    target_id: ctx.user.id,
+    after: {
+      path,
+      ok: result.ok,
+      input: typeof input === 'object' && input !== null ? input : { value: input ?? null }
+    }
+  });
+
+  return result;
+});
+
+export const publicProcedure = t.procedure.use(recordImpersonatedMutation);
+
+// Requires a signed-in session (API keys are refused) and narrows ctx.user to a non-null value
+const requireUser = t.middleware(({ ctx, next }) => {
+  if (!ctx.user || ctx.user.session_id === null) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Authentication required' });
+  }
+
+  return next({
+    ctx: {
+      ...ctx,
+      user: { ...ctx.user, session_id: ctx.user.session_id }
+    }
+  });
+});
+
+// API keys may only reach routes that opt in with the matching scope
+const requireScope = (scope: ApiKeyScope) => t.middleware(({ ctx, next }) => {
+  if (ctx.user?.api_key && !ctx.user.api_key.scopes.includes(scope)) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: `The API key lacks the ${scope} scope` });
+  }
+
+  return next();
+});
+
+// Like requireUser, but also admits an API key holding the scope
+const requireUserOrApiKey = (scope: ApiKeyScope) => t.middleware(({ ctx, next }) => {
+  if (!ctx.user) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Authentication required' });
+  }
+
+  if (ctx.user.api_key && !ctx.user.api_key.scopes.includes(scope)) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: `The API key lacks the ${scope} scope` });
+  }
+
+  return next({
+    ctx: {
+      ...ctx,
+      user: ctx.user
+    }
+  });
+});
+
+// Set REQUIRE_VERIFIED_ACCOUNT=false to let unverified accounts through verified procedures
+const REQUIRE_VERIFIED_ACCOUNT = process.env['REQUIRE_VERIFIED_ACCOUNT'] !== 'false';
+
+const requireVerified = t.middleware(({ ctx, next }) => {
+  if (REQUIRE_VERIFIED_ACCOUNT && !ctx.user?.is_verified) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Email verification required' });
+  }
+
+  return next();
+});
+
+// Admin inherits every other role
+const requireRole = (role: Role) => t.middleware(({ ctx, next }) => {
+  const roles = ctx.user?.roles ?? [];
+  if (!roles.includes('admin') && !roles.includes(role)) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: `The ${role} role is required` });
+  }
+
+  return next();
+});
+
+// Set REQUIRE_TWO_FACTOR=false to let employers and admins act without a second factor
+const REQUIRE_TWO_FACTOR = process.env['REQUIRE_TWO_FACTOR'] !== 'false';
+
+const requireTwoFactor = t.middleware(({ ctx, next }) => {
+  if (REQUIRE_TWO_FACTOR && !ctx.user?.two_factor_enabled) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Two-factor authentication must be enabled for this role' });
+  }
+
+  return next();
+});
+
+// Credentials and account lifecycle stay with the account holder, even during impersonation
+const forbidImpersonation = t.middleware(({ ctx, next }) => {
+  if (ctx.impersonating) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Not available while impersonating a user' });
+  }
+
+  return next();
+});
+
+export const protectedProcedure = publicProcedure.use(requireUser);
+
+// Routes only the account holder may use: password, second factor, linked logins, deletion
+export const accountOwnerProcedure = protectedProcedure.use(forbidImpersonation);
+
+// For marketplace actions that need a confirmed email address
+export const verifiedProcedure = protectedProcedure.use(requireVerified);
+
+// Employer and admin accounts can reach other people's data, so they must use two-factor
+export const adminProcedure = protectedProcedure.use(requireRole('admin')).use(requireTwoFactor);
+export const assessorProcedure = protectedProcedure.use(requireRole('assessor'));
+export const employerProcedure = protectedProcedure.use(requireRole('employer')).use(requireTwoFactor);
+export const verifiedEmployerProcedure = employerProcedure.use(requireVerified);
+export const employerAccountOwnerProcedure = employerProcedure.use(forbidImpersonation);
+
+// Public routes that integrations may also call with an API key holding the scope
+export const scopedProcedure = (scope: ApiKeyScope) => publicProcedure.use(requireScope(scope));
+
+// Verified-employer routes that integrations may call with an API key holding the scope
+export const employerApiProcedure = (scope: ApiKeyScope) => publicProcedure
+  .use(requireUserOrApiKey(scope))
+  .use(requireRole('employer'))
+  .use(requireTwoFactor)
+  .use(requireVerified);